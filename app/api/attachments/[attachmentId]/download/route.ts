@@ -0,0 +1,137 @@
+/**
+ * 附件下载API路由
+ *
+ * GET: 校验当前用户可查看附件所属的跟进记录后，
+ * 跳转到短期有效的签名地址，存储后端不支持签名时直接转发文件内容
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { canReadFollowUp } from '@/lib/permissions'
+import { getStorageProvider, buildContentDisposition, ContentDisposition } from '@/lib/storage'
+import { AttachmentVariant } from '@/lib/attachment-url'
+
+/**
+ * 签名地址有效期（秒）
+ */
+const SIGNED_URL_EXPIRES_IN = 5 * 60
+
+/**
+ * GET - 下载附件
+ *
+ * 查询参数 disposition=inline 时在浏览器中预览，默认作为附件下载；
+ * variant=thumbnail|web 获取图片的缩略图或网页浏览版本，不存在时返回原图
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含附件ID
+ * @returns Promise<NextResponse> 文件内容或跳转响应
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ attachmentId: string }> }
+) {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { attachmentId } = await params
+    const disposition: ContentDisposition =
+      request.nextUrl.searchParams.get('disposition') === 'inline' ? 'inline' : 'attachment'
+    const variant = request.nextUrl.searchParams.get('variant') as AttachmentVariant | null
+
+    const attachment = await prisma.attachment.findUnique({
+      where: { id: attachmentId },
+      select: {
+        fileName: true,
+        fileUrl: true,
+        storageKey: true,
+        contentType: true,
+        thumbnailKey: true,
+        webKey: true,
+        followUpRecord: {
+          select: {
+            userId: true,
+            customer: {
+              select: { userId: true },
+            },
+          },
+        },
+      },
+    })
+
+    if (!attachment) {
+      return NextResponse.json(
+        { success: false, error: '附件不存在' },
+        { status: 404 }
+      )
+    }
+
+    if (!canReadFollowUp(currentUser, attachment.followUpRecord)) {
+      return forbiddenResponse('无权查看该附件')
+    }
+
+    // 旧版附件只有公开链接
+    if (!attachment.storageKey) {
+      if (!attachment.fileUrl) {
+        return NextResponse.json(
+          { success: false, error: '附件文件不存在' },
+          { status: 404 }
+        )
+      }
+      return NextResponse.redirect(attachment.fileUrl)
+    }
+
+    // 图片的缩略图和网页浏览版本均为 WebP
+    const variantKey = variant === 'thumbnail'
+      ? attachment.thumbnailKey
+      : variant === 'web' ? attachment.webKey : null
+    const key = variantKey ?? attachment.storageKey
+    const fileName = variantKey ? attachment.fileName.replace(/\.[^.]+$/, '') + '.webp' : attachment.fileName
+    const contentType = variantKey ? 'image/webp' : attachment.contentType
+
+    const storage = getStorageProvider()
+
+    const signedUrl = await storage.getSignedUrl(key, {
+      expiresIn: SIGNED_URL_EXPIRES_IN,
+      fileName,
+      disposition,
+      contentType: contentType ?? undefined,
+    })
+    if (signedUrl) {
+      const response = NextResponse.redirect(signedUrl)
+      response.headers.set('Cache-Control', 'private, no-store')
+      return response
+    }
+
+    const object = await storage.get(key)
+    if (!object) {
+      return NextResponse.json(
+        { success: false, error: '附件文件不存在' },
+        { status: 404 }
+      )
+    }
+
+    const headers = new Headers({
+      'Content-Type': contentType ?? object.contentType,
+      'Content-Disposition': buildContentDisposition(disposition, fileName),
+      'Cache-Control': 'private, max-age=300',
+      'X-Content-Type-Options': 'nosniff',
+    })
+    if (object.size !== undefined) {
+      headers.set('Content-Length', String(object.size))
+    }
+
+    return new NextResponse(object.body, { headers })
+  } catch (error) {
+    console.error('下载附件失败:', error)
+    return NextResponse.json(
+      { success: false, error: '下载附件失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * NextAuth 认证路由
+ *
+ * 处理登录、登出、会话查询等认证请求
+ */
+
+import NextAuth from 'next-auth'
+import { authOptions } from '@/lib/auth'
+
+const handler = NextAuth(authOptions)
+
+export { handler as GET, handler as POST }
@@ -0,0 +1,58 @@
+/**
+ * 后台任务定时执行API路由
+ *
+ * GET: 执行一轮后台任务处理（回收超时任务、为到期的周期任务入队、领取并执行队列中的任务），
+ * 供 Vercel 等无法常驻 worker 的环境代替 `pnpm worker`
+ * 由 Vercel Cron 或外部调度器定时调用，需携带 Authorization: Bearer <CRON_SECRET>
+ */
+
+import { hostname } from 'node:os'
+import { NextRequest, NextResponse } from 'next/server'
+import { handleDatabaseError } from '@/lib/prisma'
+import { ApiResponse } from '@/lib/types/followup'
+import { syncSchedules } from '@/lib/jobs/scheduler'
+import { DEFAULT_STALE_TIMEOUT_MS, runWorkerCycle, WorkerCycleResult } from '@/lib/jobs/worker'
+import { env } from '@/lib/env'
+
+/**
+ * 领取新任务的时间上限，为 vercel.json 中的 maxDuration（30秒）留出执行最后一个任务的余量。
+ * 超时被中止的任务保持执行中状态，超过 DEFAULT_STALE_TIMEOUT_MS 后由下一轮回收重试
+ */
+const CLAIM_TIME_BUDGET_MS = 20 * 1000
+
+/**
+ * GET - 执行后台任务
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<WorkerCycleResult>>> {
+  // 未配置密钥时拒绝所有调用，避免接口被公开触发
+  if (!env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${env.CRON_SECRET}`) {
+    return NextResponse.json(
+      { success: false, error: '未授权的定时任务请求' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const deadline = Date.now() + CLAIM_TIME_BUDGET_MS
+    const workerId = `cron:${hostname()}:${process.pid}`
+
+    // 没有常驻 worker 同步周期任务定义，每次执行前同步
+    await syncSchedules()
+    const result = await runWorkerCycle(workerId, DEFAULT_STALE_TIMEOUT_MS, () => Date.now() >= deadline)
+    console.log('✅ 后台任务执行完成:', result)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    })
+  } catch (error) {
+    console.error('执行后台任务失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * 未关联上传清理定时任务API路由
+ *
+ * GET: 删除超过24小时仍未关联到跟进记录的上传文件、未完成的分片上传和过期的幂等键
+ * 由 Vercel Cron 或外部调度器定时调用，需携带 Authorization: Bearer <CRON_SECRET>
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { handleDatabaseError } from '@/lib/prisma'
+import { ApiResponse } from '@/lib/types/followup'
+import { cleanupPendingUploads, PendingUploadCleanupResult } from '@/lib/pending-uploads'
+import { cleanupUploadSessions, UploadSessionCleanupResult } from '@/lib/upload-sessions'
+import { cleanupIdempotencyKeys, IdempotencyKeyCleanupResult } from '@/lib/idempotency'
+import { env } from '@/lib/env'
+
+/**
+ * GET - 清理未关联上传
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<PendingUploadCleanupResult & UploadSessionCleanupResult & IdempotencyKeyCleanupResult>>> {
+  // 未配置密钥时拒绝所有调用，避免接口被公开触发
+  if (!env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${env.CRON_SECRET}`) {
+    return NextResponse.json(
+      { success: false, error: '未授权的定时任务请求' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const result = {
+      ...(await cleanupPendingUploads()),
+      ...(await cleanupUploadSessions()),
+      ...(await cleanupIdempotencyKeys()),
+    }
+    console.log('✅ 未关联上传清理完成:', result)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    })
+  } catch (error) {
+    console.error('清理未关联上传失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * 计划提醒定时任务API路由
+ *
+ * GET: 扫描即将到期的下一步计划并发送推送提醒
+ * 由 Vercel Cron 或外部调度器定时调用，需携带 Authorization: Bearer <CRON_SECRET>
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { handleDatabaseError } from '@/lib/prisma'
+import { ApiResponse } from '@/lib/types/followup'
+import { PlanReminderResult } from '@/lib/types/push'
+import { sendPlanReminders } from '@/lib/plan-reminders'
+import { env, isPushConfigured } from '@/lib/env'
+
+/**
+ * GET - 发送计划提醒
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<PlanReminderResult>>> {
+  // 未配置密钥时拒绝所有调用，避免接口被公开触发
+  if (!env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${env.CRON_SECRET}`) {
+    return NextResponse.json(
+      { success: false, error: '未授权的定时任务请求' },
+      { status: 401 }
+    )
+  }
+
+  if (!isPushConfigured()) {
+    return NextResponse.json(
+      { success: false, error: '未配置 VAPID 密钥，无法发送推送' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const result = await sendPlanReminders()
+    console.log('✅ 计划提醒发送完成:', result)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    })
+  } catch (error) {
+    console.error('发送计划提醒失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
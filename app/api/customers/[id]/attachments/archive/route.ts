@@ -0,0 +1,122 @@
+/**
+ * 客户附件打包下载API路由
+ *
+ * GET: 将客户所有跟进记录中的附件打包为 ZIP 流式下载，
+ * 按"跟进日期_跟进类型"分文件夹（如 2025-10-27_上门拜访/现场照片.jpg），附带附件清单 CSV
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { format } from 'date-fns'
+import { TZDate } from '@date-fns/tz'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { canReadCustomer } from '@/lib/permissions'
+import { buildContentDisposition } from '@/lib/storage'
+import { createAttachmentArchiveStream } from '@/lib/attachment-archive'
+
+/**
+ * GET - 打包下载客户的所有附件
+ *
+ * 跟进日期按当前用户的时区确定
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含客户ID
+ * @returns Promise<NextResponse> ZIP 数据流
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { id: customerId } = await params
+
+    // 验证客户是否存在
+    const customer = await prisma.customer.findUnique({
+      where: { id: customerId },
+    })
+
+    if (!customer) {
+      return NextResponse.json(
+        { success: false, error: '客户不存在' },
+        { status: 404 }
+      )
+    }
+
+    if (!canReadCustomer(currentUser, customer)) {
+      return forbiddenResponse('无权下载该客户的附件')
+    }
+
+    const [user, attachments] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: currentUser.id },
+        select: { timezone: true },
+      }),
+      prisma.attachment.findMany({
+        where: { followUpRecord: { customerId } },
+        select: {
+          fileName: true,
+          storageKey: true,
+          fileUrl: true,
+          contentType: true,
+          fileType: true,
+          fileSize: true,
+          createdAt: true,
+          followUpRecord: {
+            select: {
+              createdAt: true,
+              followUpType: true,
+              user: {
+                select: { name: true },
+              },
+            },
+          },
+        },
+        orderBy: [
+          { followUpRecord: { createdAt: 'asc' } },
+          { createdAt: 'asc' },
+        ],
+      }),
+    ])
+
+    if (attachments.length === 0) {
+      return NextResponse.json(
+        { success: false, error: '该客户暂无附件' },
+        { status: 404 }
+      )
+    }
+
+    const timezone = user?.timezone ?? 'Asia/Shanghai'
+    const archiveName = `${customer.name}_附件_${format(new TZDate(new Date(), timezone), 'yyyyMMdd')}.zip`
+
+    console.log('📦 打包下载客户附件:', {
+      customerId,
+      userId: currentUser.id,
+      count: attachments.length,
+    })
+
+    return new NextResponse(createAttachmentArchiveStream(attachments, timezone), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': buildContentDisposition('attachment', archiveName),
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (error) {
+    console.error('打包下载附件失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * 客户附件API路由
+ *
+ * GET: 获取客户所有跟进记录中的附件，用于客户详情页的"所有附件"
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import type { Prisma } from '@/app/generated/prisma'
+import {
+  ApiResponse,
+  ATTACHMENT_TYPE_LABELS,
+  CustomerAttachmentResponse,
+} from '@/lib/types/followup'
+import { attachmentSelect, toAttachmentResponse } from '@/lib/followup-query'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { canReadCustomer } from '@/lib/permissions'
+import { buildTextSnippet } from '@/lib/attachment-text'
+
+/**
+ * 解析日期查询参数
+ *
+ * @returns {Date | null | undefined} 未提供时返回 undefined，格式无效时返回 null
+ */
+const parseDateParam = (value: string | null): Date | null | undefined => {
+  if (!value) return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * GET - 获取客户的所有附件
+ *
+ * 查询参数：
+ * - type: 文件类型（image/pdf/document/spreadsheet/text）
+ * - from/to: 跟进记录的时间范围（ISO 8601），由前端按用户时区换算
+ * - q: 关键词，匹配文件名和文档中提取的文本，结果附带关键词前后的文本摘要
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含客户ID
+ * @returns Promise<NextResponse> 附件列表，按跟进时间倒序
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<CustomerAttachmentResponse[]>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { id: customerId } = await params
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+    const from = parseDateParam(searchParams.get('from'))
+    const to = parseDateParam(searchParams.get('to'))
+    const query = searchParams.get('q')?.trim() || ''
+
+    if (type && !(type in ATTACHMENT_TYPE_LABELS)) {
+      return NextResponse.json(
+        { success: false, error: '无效的文件类型' },
+        { status: 400 }
+      )
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { success: false, error: '无效的日期' },
+        { status: 400 }
+      )
+    }
+
+    // 验证客户是否存在
+    const customer = await prisma.customer.findUnique({
+      where: { id: customerId },
+    })
+
+    if (!customer) {
+      return NextResponse.json(
+        { success: false, error: '客户不存在' },
+        { status: 404 }
+      )
+    }
+
+    if (!canReadCustomer(currentUser, customer)) {
+      return forbiddenResponse('无权查看该客户的附件')
+    }
+
+    const where: Prisma.AttachmentWhereInput = {
+      followUpRecord: {
+        customerId,
+        ...(from || to ? { createdAt: { gte: from, lt: to } } : {}),
+      },
+      ...(type ? { fileType: type } : {}),
+      ...(query
+        ? {
+            OR: [
+              { fileName: { contains: query, mode: 'insensitive' as const } },
+              { extractedText: { contains: query, mode: 'insensitive' as const } },
+            ],
+          }
+        : {}),
+    }
+
+    const attachments = await prisma.attachment.findMany({
+      where,
+      select: {
+        ...attachmentSelect,
+        // 只在搜索时读取全文，用于生成摘要
+        extractedText: !!query,
+        followUpRecord: {
+          select: {
+            id: true,
+            followUpType: true,
+            createdAt: true,
+            user: {
+              select: { id: true, name: true },
+            },
+          },
+        },
+      },
+      orderBy: [
+        { followUpRecord: { createdAt: 'desc' } },
+        { createdAt: 'asc' },
+      ],
+    })
+
+    const response: CustomerAttachmentResponse[] = attachments.map((attachment) => ({
+      ...toAttachmentResponse(attachment),
+      followUpRecord: {
+        id: attachment.followUpRecord.id,
+        followUpType: attachment.followUpRecord.followUpType,
+        createdAt: attachment.followUpRecord.createdAt.toISOString(),
+        user: attachment.followUpRecord.user,
+      },
+      textSnippet: query && attachment.extractedText
+        ? buildTextSnippet(attachment.extractedText, query)
+        : undefined,
+    }))
+
+    return NextResponse.json({
+      success: true,
+      data: response,
+    })
+  } catch (error) {
+    console.error('获取客户附件失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -10,7 +10,15 @@ import { z } from 'zod'
 import { prisma, handleDatabaseError } from '@/lib/prisma'
 // import type { Attachment, NextStepPlan } from '@/app/generated/prisma'
 import { FollowUpRecordResponse, ApiResponse } from '@/lib/types/followup'
+import { followUpRecordInclude, toFollowUpRecordResponse } from '@/lib/followup-query'
 import { revalidatePath } from 'next/cache'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { withIdempotency, hashRequestBody } from '@/lib/idempotency'
+import { canReadCustomer, canEditCustomer } from '@/lib/permissions'
+import { promotePendingUploads, PendingUploadNotFoundError } from '@/lib/pending-uploads'
+import { isTextExtractable } from '@/lib/attachment-text'
+import { enqueueJob } from '@/lib/jobs/queue'
 
 /**
  * 创建跟进记录的请求体验证Schema
@@ -18,12 +26,8 @@ import { revalidatePath } from 'next/cache'
 const createFollowUpSchema = z.object({
   content: z.string().min(1, '跟进内容不能为空').max(2000, '跟进内容不能超过2000字符'),
   followUpType: z.enum(['PHONE_CALL', 'MEETING', 'VISIT', 'BUSINESS_DINNER']),
-  attachments: z.array(z.object({
-    fileName: z.string(),
-    fileUrl: z.string().url(),
-    fileType: z.string(),
-    fileSize: z.number().optional(),
-  })).optional(),
+  // 上传接口返回的ID，只能关联当前用户上传且未过期的文件
+  uploadIds: z.array(z.string().min(1)).max(20, '附件不能超过20个').optional(),
   nextStep: z.object({
     dueDate: z.string().datetime(),
     notes: z.string().max(500, '下一步说明不能超过500字符').optional(),
@@ -42,6 +46,12 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse<ApiResponse<FollowUpRecordResponse[]>>> {
   try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
     const { id: customerId } = await params
 
     // 验证客户是否存在
@@ -56,68 +66,21 @@ export async function GET(
       )
     }
 
+    if (!canReadCustomer(currentUser, customer)) {
+      return forbiddenResponse('无权查看该客户的跟进记录')
+    }
+
     // 获取跟进记录，按创建时间倒序排列
     const followUpRecords = await prisma.followUpRecord.findMany({
       where: { customerId },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        attachments: {
-          select: {
-            id: true,
-            fileName: true,
-            fileUrl: true,
-            fileType: true,
-            fileSize: true,
-            createdAt: true,
-          },
-          orderBy: { createdAt: 'asc' },
-        },
-        nextStepPlans: {
-          select: {
-            id: true,
-            dueDate: true,
-            notes: true,
-            status: true,
-            createdAt: true,
-          },
-          orderBy: { dueDate: 'asc' },
-        },
-      },
+      include: followUpRecordInclude,
       orderBy: { createdAt: 'desc' },
     })
 
     // 转换为响应格式
-    const response: FollowUpRecordResponse[] = followUpRecords.map((record) => ({
-      id: record.id,
-      content: record.content,
-      followUpType: record.followUpType,
-      createdAt: record.createdAt.toISOString(),
-      updatedAt: record.updatedAt.toISOString(),
-      customerId: record.customerId,
-      userId: record.userId,
-      user: record.user,
-      attachments: record.attachments.map((attachment) => ({
-        id: attachment.id,
-        fileName: attachment.fileName,
-        fileUrl: attachment.fileUrl,
-        fileType: attachment.fileType,
-        fileSize: attachment.fileSize || undefined,
-        createdAt: attachment.createdAt.toISOString(),
-      })),
-      nextStepPlans: record.nextStepPlans.map((plan) => ({
-        id: plan.id,
-        dueDate: plan.dueDate.toISOString(),
-        notes: plan.notes || undefined,
-        status: plan.status,
-        createdAt: plan.createdAt.toISOString(),
-      })),
-    }))
+    const response: FollowUpRecordResponse[] = followUpRecords.map((record) =>
+      toFollowUpRecordResponse(record, currentUser)
+    )
 
     return NextResponse.json({
       success: true,
@@ -147,177 +110,125 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse<ApiResponse<FollowUpRecordResponse>>> {
   try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
     const { id: customerId } = await params
     const body = await request.json()
 
-    // 验证请求数据
-    const validatedData = createFollowUpSchema.parse(body)
-
-    // 验证客户是否存在
-    const customer = await prisma.customer.findUnique({
-      where: { id: customerId },
-    })
+    // 携带幂等键时，重复提交（如连续点击发布）返回首次创建的结果
+    return await withIdempotency<ApiResponse<FollowUpRecordResponse>>(request, { userId: currentUser.id, requestHash: hashRequestBody(body) }, async () => {
+      // 验证请求数据
+      const validatedData = createFollowUpSchema.parse(body)
 
-    if (!customer) {
-      return NextResponse.json(
-        { success: false, error: '客户不存在' },
-        { status: 404 }
-      )
-    }
+      // 验证客户是否存在
+      const customer = await prisma.customer.findUnique({
+        where: { id: customerId },
+      })
 
-    // 获取第一个可用用户作为当前用户（实际应用中应该从认证信息中获取）
-    const currentUser = await prisma.user.findFirst({
-      select: { id: true }
-    })
+      if (!customer) {
+        return NextResponse.json(
+          { success: false, error: '客户不存在' },
+          { status: 404 }
+        )
+      }
 
-    if (!currentUser) {
-      return NextResponse.json(
-        { success: false, error: '系统中没有可用用户' },
-        { status: 400 }
-      )
-    }
+      if (!canEditCustomer(currentUser, customer)) {
+        return forbiddenResponse('无权为该客户添加跟进记录')
+      }
 
-    const currentUserId = currentUser.id // TODO: 从认证系统获取真实用户ID
+      const currentUserId = currentUser.id
 
-    // 使用事务创建跟进记录和相关数据
-    const result = await prisma.$transaction(async (tx) => {
-      // 创建跟进记录
-      const followUpRecord = await tx.followUpRecord.create({
-        data: {
-          content: validatedData.content,
-          followUpType: validatedData.followUpType,
-          customerId,
-          userId: currentUserId,
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
+      // 使用事务创建跟进记录和相关数据
+      const result = await prisma.$transaction(async (tx) => {
+        // 创建跟进记录
+        const followUpRecord = await tx.followUpRecord.create({
+          data: {
+            content: validatedData.content,
+            followUpType: validatedData.followUpType,
+            customerId,
+            userId: currentUserId,
+          },
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
             },
+            attachments: true,
+            nextStepPlans: true,
           },
-          attachments: true,
-          nextStepPlans: true,
-        },
-      })
+        })
+
+        // 将已上传的文件转为附件（如果有）
+        if (validatedData.uploadIds && validatedData.uploadIds.length > 0) {
+          const attachments = await promotePendingUploads(
+            tx,
+            validatedData.uploadIds,
+            currentUserId,
+            followUpRecord.id
+          )
+          console.log('✅ 创建附件记录成功:', attachments.length, '个附件')
 
-      // 创建附件记录（如果有）
-      if (validatedData.attachments && validatedData.attachments.length > 0) {
-        try {
-          await tx.attachment.createMany({
-            data: validatedData.attachments.map(attachment => ({
-              fileName: attachment.fileName,
-              fileUrl: attachment.fileUrl,
-              fileType: attachment.fileType,
-              fileSize: attachment.fileSize,
-              followUpRecordId: followUpRecord.id,
-            })),
-          })
-          console.log('✅ 创建附件记录成功:', validatedData.attachments.length, '个附件')
-        } catch (attachmentError) {
-          console.error('❌ 创建附件记录失败:', attachmentError)
-          throw new Error(`附件记录创建失败: ${attachmentError instanceof Error ? attachmentError.message : '未知错误'}`)
+          // 由后台任务提取文档文本，用于搜索和时间线预览
+          const extractableIds = attachments
+            .filter((attachment) => isTextExtractable(attachment.contentType))
+            .map((attachment) => attachment.id)
+          if (extractableIds.length > 0) {
+            await enqueueJob('attachment-text-extraction', { attachmentIds: extractableIds }, {}, tx)
+          }
         }
-      }
 
-      // 创建下一步计划（如果有）
-      if (validatedData.nextStep) {
-        try {
-          await tx.nextStepPlan.create({
-            data: {
-              dueDate: new Date(validatedData.nextStep.dueDate),
-              notes: validatedData.nextStep.notes,
-              customerId,
-              userId: currentUserId,
-              followUpRecordId: followUpRecord.id,
-            },
-          })
-          console.log('✅ 创建下一步计划成功:', validatedData.nextStep.dueDate)
-        } catch (nextStepError) {
-          console.error('❌ 创建下一步计划失败:', nextStepError)
-          throw new Error(`下一步计划创建失败: ${nextStepError instanceof Error ? nextStepError.message : '未知错误'}`)
+        // 创建下一步计划（如果有）
+        if (validatedData.nextStep) {
+          try {
+            await tx.nextStepPlan.create({
+              data: {
+                dueDate: new Date(validatedData.nextStep.dueDate),
+                notes: validatedData.nextStep.notes,
+                customerId,
+                userId: currentUserId,
+                followUpRecordId: followUpRecord.id,
+              },
+            })
+            console.log('✅ 创建下一步计划成功:', validatedData.nextStep.dueDate)
+          } catch (nextStepError) {
+            console.error('❌ 创建下一步计划失败:', nextStepError)
+            throw new Error(`下一步计划创建失败: ${nextStepError instanceof Error ? nextStepError.message : '未知错误'}`)
+          }
         }
-      }
 
-      // 重新查询完整的记录信息
-      const completeRecord = await tx.followUpRecord.findUnique({
-        where: { id: followUpRecord.id },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          attachments: {
-            select: {
-              id: true,
-              fileName: true,
-              fileUrl: true,
-              fileType: true,
-              fileSize: true,
-              createdAt: true,
-            },
-            orderBy: { createdAt: 'asc' },
-          },
-          nextStepPlans: {
-            select: {
-              id: true,
-              dueDate: true,
-              notes: true,
-              status: true,
-              createdAt: true,
-            },
-            orderBy: { dueDate: 'asc' },
-          },
-        },
-      })
+        // 重新查询完整的记录信息
+        const completeRecord = await tx.followUpRecord.findUnique({
+          where: { id: followUpRecord.id },
+          include: followUpRecordInclude,
+        })
 
-      return completeRecord
-    })
+        return completeRecord
+      })
 
-    if (!result) {
-      throw new Error('创建跟进记录失败')
-    }
+      if (!result) {
+        throw new Error('创建跟进记录失败')
+      }
 
-    // 转换为响应格式
-    const response: FollowUpRecordResponse = {
-      id: result.id,
-      content: result.content,
-      followUpType: result.followUpType,
-      createdAt: result.createdAt.toISOString(),
-      updatedAt: result.updatedAt.toISOString(),
-      customerId: result.customerId,
-      userId: result.userId,
-      user: result.user,
-      attachments: (result.attachments || []).map((attachment) => ({
-        id: attachment.id,
-        fileName: attachment.fileName,
-        fileUrl: attachment.fileUrl,
-        fileType: attachment.fileType,
-        fileSize: attachment.fileSize || undefined,
-        createdAt: attachment.createdAt.toISOString(),
-      })),
-      nextStepPlans: (result.nextStepPlans || []).map((plan) => ({
-        id: plan.id,
-        dueDate: plan.dueDate.toISOString(),
-        notes: plan.notes || undefined,
-        status: plan.status,
-        createdAt: plan.createdAt.toISOString(),
-      })),
-    }
+      // 转换为响应格式
+      const response: FollowUpRecordResponse = toFollowUpRecordResponse(result, currentUser)
 
-    // 【关键步骤】清除相关页面的缓存
-    revalidatePath('/customers')
-    revalidatePath(`/customers/${customerId}`)
+      // 【关键步骤】清除相关页面的缓存
+      revalidatePath('/customers')
+      revalidatePath(`/customers/${customerId}`)
 
-    return NextResponse.json({
-      success: true,
-      data: response,
-      message: '跟进记录创建成功',
-    }, { status: 201 })
+      return NextResponse.json({
+        success: true,
+        data: response,
+        message: '跟进记录创建成功',
+      }, { status: 201 })
+    })
 
   } catch (error) {
     console.error('创建跟进记录失败:', error)
@@ -337,6 +248,17 @@ export async function POST(
       )
     }
 
+    if (error instanceof PendingUploadNotFoundError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求参数验证失败',
+          details: [{ field: 'uploadIds', message: error.message }],
+        },
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       {
         success: false,
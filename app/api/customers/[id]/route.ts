@@ -2,6 +2,8 @@
  * 客户详情API路由
  *
  * GET: 获取客户详细信息
+ * PUT: 更新客户信息（可转交负责人）
+ * DELETE: 删除客户
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -9,6 +11,11 @@ import { prisma, handleDatabaseError } from '@/lib/prisma'
 import { CustomerDetail, ApiResponse } from '@/lib/types/followup'
 import { revalidatePath } from 'next/cache'
 import { z } from 'zod'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { canReadCustomer, canEditCustomer, canDeleteCustomer, canReassignCustomer } from '@/lib/permissions'
+import { collectStorageKeys } from '@/lib/pending-uploads'
+import { enqueueJob } from '@/lib/jobs/queue'
 
 /**
  * GET - 获取客户详细信息
@@ -22,6 +29,12 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse<ApiResponse<CustomerDetail>>> {
   try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
     const { id: customerId } = await params
 
     // 获取客户详细信息，包含关联统计
@@ -38,7 +51,8 @@ export async function GET(
         _count: {
           select: {
             followUpRecords: true,
-            nextStepPlans: true,
+            // 仅统计待办状态的计划
+            nextStepPlans: { where: { status: 'PENDING' } },
           },
         },
       },
@@ -51,6 +65,10 @@ export async function GET(
       )
     }
 
+    if (!canReadCustomer(currentUser, customer)) {
+      return forbiddenResponse('无权查看该客户')
+    }
+
     // 转换为响应格式
     const response: CustomerDetail = {
       id: customer.id,
@@ -90,6 +108,7 @@ const updateCustomerSchema = z.object({
   email: z.string().email('请输入有效的邮箱地址').max(100, '邮箱地址不能超过100个字符').optional(),
   phone: z.string().regex(/^1[3-9]\d{9}$/, '请输入有效的手机号码').optional(),
   address: z.string().max(300, '地址不能超过300个字符').optional(),
+  userId: z.string().min(1).nullable().optional(),
 })
 
 /**
@@ -100,6 +119,12 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
   try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
     const { id: customerId } = await params
     const body = await request.json()
 
@@ -118,6 +143,32 @@ export async function PUT(
       )
     }
 
+    if (!canEditCustomer(currentUser, existingCustomer)) {
+      return forbiddenResponse('无权编辑该客户')
+    }
+
+    // 转交负责人需要额外权限，并确认新负责人存在
+    const isReassigning = validatedData.userId !== undefined && validatedData.userId !== existingCustomer.userId
+    if (isReassigning) {
+      if (!canReassignCustomer(currentUser, existingCustomer, validatedData.userId ?? null)) {
+        return forbiddenResponse('无权转交该客户')
+      }
+
+      if (validatedData.userId) {
+        const newOwner = await prisma.user.findUnique({
+          where: { id: validatedData.userId },
+          select: { id: true },
+        })
+
+        if (!newOwner) {
+          return NextResponse.json(
+            { success: false, error: '新负责人不存在' },
+            { status: 400 }
+          )
+        }
+      }
+    }
+
     // 检查邮箱是否已被其他客户使用
     if (validatedData.email && validatedData.email !== existingCustomer.email) {
       const existingEmailCustomer = await prisma.customer.findFirst({
@@ -161,6 +212,7 @@ export async function PUT(
         ...(validatedData.email !== undefined && { email: validatedData.email || null }),
         ...(validatedData.phone !== undefined && { phone: validatedData.phone || null }),
         ...(validatedData.address !== undefined && { address: validatedData.address || null }),
+        ...(isReassigning && { userId: validatedData.userId ?? null }),
       },
       include: {
         user: {
@@ -225,6 +277,12 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
   try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
     const { id: customerId } = await params
 
     // 检查客户是否存在
@@ -239,9 +297,26 @@ export async function DELETE(
       )
     }
 
+    if (!canDeleteCustomer(currentUser, existingCustomer)) {
+      return forbiddenResponse('无权删除该客户')
+    }
+
     // 删除客户（由于设置了外键约束，相关的跟进记录和计划也会被自动删除）
-    await prisma.customer.delete({
-      where: { id: customerId }
+    await prisma.$transaction(async (tx) => {
+      const attachments = await tx.attachment.findMany({
+        where: { followUpRecord: { customerId } },
+        select: { storageKey: true, thumbnailKey: true, webKey: true },
+      })
+
+      await tx.customer.delete({
+        where: { id: customerId }
+      })
+
+      // 附件记录随之级联删除，存储中的文件交给后台任务删除
+      const keys = collectStorageKeys(attachments)
+      if (keys.length > 0) {
+        await enqueueJob('storage-cleanup', { keys }, {}, tx)
+      }
     })
 
     // 【关键步骤】清除相关页面的缓存
@@ -6,6 +6,9 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { ApiResponse } from '@/lib/types/followup'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse } from '@/lib/api-response'
+import { customerScope } from '@/lib/permissions'
 
 /**
  * GET - 获取第一个可用客户的ID
@@ -14,8 +17,15 @@ import { ApiResponse } from '@/lib/types/followup'
  */
 export async function GET(): Promise<NextResponse<ApiResponse<{ id: string; name: string }>>> {
   try {
-    // 获取第一个客户
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    // 获取当前用户可见的第一个客户
     const customer = await prisma.customer.findFirst({
+      where: customerScope(currentUser),
       select: {
         id: true,
         name: true,
@@ -8,38 +8,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { prisma, handleDatabaseError } from '@/lib/prisma'
-import { UserRole } from '../../generated/prisma'
 import { revalidatePath } from 'next/cache'
-
-/**
- * 获取或创建默认用户
- * 确保客户创建时有有效的用户关联
- */
-async function getOrCreateDefaultUser(): Promise<string> {
-  try {
-    // 首先尝试查找默认用户
-    let user = await prisma.user.findFirst({
-      where: { email: 'wanglei@company.com' }
-    })
-
-    // 如果用户不存在，创建默认用户
-    if (!user) {
-      user = await prisma.user.create({
-        data: {
-          name: '王磊',
-          email: 'wanglei@company.com',
-          role: UserRole.SALES,
-        }
-      })
-      console.log('✅ 创建默认用户:', user.name)
-    }
-
-    return user.id
-  } catch (error) {
-    console.error('获取或创建默认用户失败:', error)
-    throw new Error('无法获取有效的用户ID')
-  }
-}
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { withIdempotency, hashRequestBody } from '@/lib/idempotency'
+import { ApiResponse } from '@/lib/types/followup'
+import { customerScope, customerTeamFilter, canReadTeam } from '@/lib/permissions'
 
 /**
  * 创建客户的请求体验证Schema
@@ -57,6 +31,12 @@ const createCustomerSchema = z.object({
  */
 export async function GET(request: NextRequest) {
   try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
     // 获取查询参数
     const { searchParams } = new URL(request.url)
     const page = parseInt(searchParams.get('page') || '1')
@@ -64,21 +44,43 @@ export async function GET(request: NextRequest) {
     const search = searchParams.get('search') || ''
     const sortBy = searchParams.get('sortBy') || 'createdAt'
     const sortOrder = searchParams.get('sortOrder') || 'desc'
+    const teamId = searchParams.get('teamId')
+
+    // 按团队筛选时需要有该团队的查看权限
+    if (teamId && !canReadTeam(currentUser, teamId)) {
+      return forbiddenResponse('无权查看该团队')
+    }
 
     // 计算偏移量
     const offset = (page - 1) * limit
 
-    // 构建查询条件
-    const where = search
-      ? {
-          OR: [
-            { name: { contains: search, mode: 'insensitive' as const } },
-            { companyInfo: { contains: search, mode: 'insensitive' as const } },
-            { email: { contains: search, mode: 'insensitive' as const } },
-            { phone: { contains: search, mode: 'insensitive' as const } },
-          ],
-        }
-      : {}
+    // 构建查询条件（限定在当前用户可见范围内）
+    const where = {
+      AND: [
+        customerScope(currentUser),
+        teamId ? customerTeamFilter(teamId) : {},
+        search
+          ? {
+              OR: [
+                { name: { contains: search, mode: 'insensitive' as const } },
+                { companyInfo: { contains: search, mode: 'insensitive' as const } },
+                { email: { contains: search, mode: 'insensitive' as const } },
+                { phone: { contains: search, mode: 'insensitive' as const } },
+                // 跟进记录附件中的文档内容，如报价单中的产品型号
+                {
+                  followUpRecords: {
+                    some: {
+                      attachments: {
+                        some: { extractedText: { contains: search, mode: 'insensitive' as const } },
+                      },
+                    },
+                  },
+                },
+              ],
+            }
+          : {},
+      ],
+    }
 
     // 获取客户列表和总数
     const [customers, total] = await Promise.all([
@@ -148,94 +150,100 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
     // 解析请求体
     const body = await request.json()
 
-    // 验证请求数据
-    const validatedData = createCustomerSchema.parse(body)
-
-    // 获取或创建默认用户ID
-    const currentUserId = await getOrCreateDefaultUser()
+    // 携带幂等键时，重复提交返回首次创建的结果
+    return await withIdempotency<ApiResponse>(request, { userId: currentUser.id, requestHash: hashRequestBody(body) }, async () => {
+      // 验证请求数据
+      const validatedData = createCustomerSchema.parse(body)
 
-    // 检查邮箱是否已存在（如果提供了邮箱）
-    if (validatedData.email) {
-      const existingCustomer = await prisma.customer.findFirst({
-        where: { email: validatedData.email },
-      })
+      // 检查邮箱是否已存在（如果提供了邮箱）
+      if (validatedData.email) {
+        const existingCustomer = await prisma.customer.findFirst({
+          where: { email: validatedData.email },
+        })
 
-      if (existingCustomer) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: '该邮箱地址已被使用',
-          },
-          { status: 400 }
-        )
+        if (existingCustomer) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: '该邮箱地址已被使用',
+            },
+            { status: 400 }
+          )
+        }
       }
-    }
 
-    // 检查手机号是否已存在（如果提供了手机号）
-    if (validatedData.phone) {
-      const existingCustomer = await prisma.customer.findFirst({
-        where: { phone: validatedData.phone },
-      })
+      // 检查手机号是否已存在（如果提供了手机号）
+      if (validatedData.phone) {
+        const existingCustomer = await prisma.customer.findFirst({
+          where: { phone: validatedData.phone },
+        })
 
-      if (existingCustomer) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: '该手机号码已被使用',
-          },
-          { status: 400 }
-        )
+        if (existingCustomer) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: '该手机号码已被使用',
+            },
+            { status: 400 }
+          )
+        }
       }
-    }
 
-    // 创建客户记录
-    const customer = await prisma.customer.create({
-      data: {
-        name: validatedData.name,
-        companyInfo: validatedData.companyInfo || null,
-        email: validatedData.email || null,
-        phone: validatedData.phone || null,
-        address: validatedData.address || null,
-        userId: currentUserId,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+      // 创建客户记录
+      const customer = await prisma.customer.create({
+        data: {
+          name: validatedData.name,
+          companyInfo: validatedData.companyInfo || null,
+          email: validatedData.email || null,
+          phone: validatedData.phone || null,
+          address: validatedData.address || null,
+          userId: currentUser.id,
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
           },
         },
-      },
-    })
+      })
 
-    // 【关键步骤】清除客户列表页面的缓存
-    revalidatePath('/customers')
-    // 也清除客户详情页面的缓存（以防有其他页面引用）
-    revalidatePath(`/customers/${customer.id}`)
+      // 【关键步骤】清除客户列表页面的缓存
+      revalidatePath('/customers')
+      // 也清除客户详情页面的缓存（以防有其他页面引用）
+      revalidatePath(`/customers/${customer.id}`)
 
-    // 返回创建成功的客户数据
-    return NextResponse.json(
-      {
-        success: true,
-        data: {
-          id: customer.id,
-          name: customer.name,
-          companyInfo: customer.companyInfo,
-          email: customer.email,
-          phone: customer.phone,
-          address: customer.address,
-          createdAt: customer.createdAt.toISOString(),
-          updatedAt: customer.updatedAt.toISOString(),
-          user: customer.user,
+      // 返回创建成功的客户数据
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            id: customer.id,
+            name: customer.name,
+            companyInfo: customer.companyInfo,
+            email: customer.email,
+            phone: customer.phone,
+            address: customer.address,
+            createdAt: customer.createdAt.toISOString(),
+            updatedAt: customer.updatedAt.toISOString(),
+            user: customer.user,
+          },
+          message: '客户创建成功',
         },
-        message: '客户创建成功',
-      },
-      { status: 201 }
-    )
+        { status: 201 }
+      )
+    })
   } catch (error) {
     console.error('创建客户失败:', error)
 
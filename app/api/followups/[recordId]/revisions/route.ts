@@ -0,0 +1,88 @@
+/**
+ * 跟进记录修订历史API路由
+ *
+ * GET: 获取跟进记录的修订历史（按时间正序）
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import { ApiResponse, FollowUpRevisionResponse } from '@/lib/types/followup'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { canReadFollowUp } from '@/lib/permissions'
+
+/**
+ * GET - 获取修订历史
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含跟进记录ID
+ * @returns Promise<NextResponse> 修订记录列表
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ recordId: string }> }
+): Promise<NextResponse<ApiResponse<FollowUpRevisionResponse[]>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { recordId } = await params
+
+    const record = await prisma.followUpRecord.findUnique({
+      where: { id: recordId },
+      select: {
+        userId: true,
+        customer: {
+          select: { userId: true },
+        },
+      },
+    })
+
+    if (!record) {
+      return NextResponse.json(
+        { success: false, error: '跟进记录不存在' },
+        { status: 404 }
+      )
+    }
+
+    if (!canReadFollowUp(currentUser, record)) {
+      return forbiddenResponse('无权查看该跟进记录')
+    }
+
+    const revisions = await prisma.followUpRevision.findMany({
+      where: { followUpRecordId: recordId },
+      include: {
+        editor: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: revisions.map((revision) => ({
+        id: revision.id,
+        content: revision.content,
+        followUpType: revision.followUpType,
+        createdAt: revision.createdAt.toISOString(),
+        editor: revision.editor,
+      })),
+    })
+  } catch (error) {
+    console.error('获取修订历史失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
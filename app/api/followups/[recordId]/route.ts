@@ -0,0 +1,204 @@
+/**
+ * 单条跟进记录API路由
+ *
+ * PATCH: 编辑跟进记录，编辑前的内容保存为修订记录
+ * DELETE: 删除跟进记录
+ * 仅作者本人或其经理、管理员可操作
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { revalidatePath } from 'next/cache'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import { FollowUpRecordResponse, ApiResponse } from '@/lib/types/followup'
+import { followUpRecordInclude, toFollowUpRecordResponse } from '@/lib/followup-query'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { canEditFollowUp } from '@/lib/permissions'
+import { collectStorageKeys } from '@/lib/pending-uploads'
+import { enqueueJob } from '@/lib/jobs/queue'
+
+/**
+ * 编辑跟进记录的请求体验证Schema
+ */
+const updateFollowUpSchema = z.object({
+  content: z.string().min(1, '跟进内容不能为空').max(2000, '跟进内容不能超过2000字符').optional(),
+  followUpType: z.enum(['PHONE_CALL', 'MEETING', 'VISIT', 'BUSINESS_DINNER']).optional(),
+})
+
+/**
+ * PATCH - 编辑跟进记录
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含跟进记录ID
+ * @returns Promise<NextResponse> 编辑后的跟进记录
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ recordId: string }> }
+): Promise<NextResponse<ApiResponse<FollowUpRecordResponse>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { recordId } = await params
+    const body = await request.json()
+
+    // 验证请求数据
+    const validatedData = updateFollowUpSchema.parse(body)
+
+    const existingRecord = await prisma.followUpRecord.findUnique({
+      where: { id: recordId },
+    })
+
+    if (!existingRecord) {
+      return NextResponse.json(
+        { success: false, error: '跟进记录不存在' },
+        { status: 404 }
+      )
+    }
+
+    if (!canEditFollowUp(currentUser, existingRecord)) {
+      return forbiddenResponse('只有记录作者或其经理可以编辑')
+    }
+
+    const content = validatedData.content ?? existingRecord.content
+    const followUpType = validatedData.followUpType ?? existingRecord.followUpType
+    const hasChanges = content !== existingRecord.content || followUpType !== existingRecord.followUpType
+
+    // 内容有变化时才保存修订记录，避免产生空修订
+    const result = await prisma.$transaction(async (tx) => {
+      if (hasChanges) {
+        await tx.followUpRevision.create({
+          data: {
+            content: existingRecord.content,
+            followUpType: existingRecord.followUpType,
+            followUpRecordId: existingRecord.id,
+            editorId: currentUser.id,
+          },
+        })
+
+        await tx.followUpRecord.update({
+          where: { id: existingRecord.id },
+          data: { content, followUpType },
+        })
+      }
+
+      return tx.followUpRecord.findUniqueOrThrow({
+        where: { id: existingRecord.id },
+        include: followUpRecordInclude,
+      })
+    })
+
+    // 【关键步骤】清除相关页面的缓存
+    revalidatePath('/customers')
+    revalidatePath(`/customers/${existingRecord.customerId}`)
+
+    return NextResponse.json({
+      success: true,
+      data: toFollowUpRecordResponse(result, currentUser),
+      message: hasChanges ? '跟进记录已更新' : '跟进记录未发生变化',
+    })
+  } catch (error) {
+    console.error('编辑跟进记录失败:', error)
+
+    // 处理Zod验证错误
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求参数验证失败',
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE - 删除跟进记录
+ * 附件、下一步计划和修订记录随之级联删除
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含跟进记录ID
+ * @returns Promise<NextResponse> 删除结果
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ recordId: string }> }
+): Promise<NextResponse<ApiResponse>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { recordId } = await params
+
+    const existingRecord = await prisma.followUpRecord.findUnique({
+      where: { id: recordId },
+    })
+
+    if (!existingRecord) {
+      return NextResponse.json(
+        { success: false, error: '跟进记录不存在' },
+        { status: 404 }
+      )
+    }
+
+    if (!canEditFollowUp(currentUser, existingRecord)) {
+      return forbiddenResponse('只有记录作者或其经理可以删除')
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const attachments = await tx.attachment.findMany({
+        where: { followUpRecordId: recordId },
+        select: { storageKey: true, thumbnailKey: true, webKey: true },
+      })
+
+      await tx.followUpRecord.delete({
+        where: { id: recordId },
+      })
+
+      // 附件记录随之级联删除，存储中的文件交给后台任务删除
+      const keys = collectStorageKeys(attachments)
+      if (keys.length > 0) {
+        await enqueueJob('storage-cleanup', { keys }, {}, tx)
+      }
+    })
+
+    // 【关键步骤】清除相关页面的缓存
+    revalidatePath('/customers')
+    revalidatePath(`/customers/${existingRecord.customerId}`)
+
+    return NextResponse.json({
+      success: true,
+      message: '跟进记录已删除',
+    })
+  } catch (error) {
+    console.error('删除跟进记录失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * 跟进动态API路由
+ *
+ * GET: 获取跨客户的跟进记录列表，支持按团队、成员筛选
+ * 经理可借此查看团队成员的跟进动态
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import type { Prisma } from '@/app/generated/prisma'
+import { FollowUpActivityResponse } from '@/lib/types/followup'
+import { followUpRecordInclude, toFollowUpRecordResponse } from '@/lib/followup-query'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { customerScope, canReadTeam, managesUser } from '@/lib/permissions'
+
+/**
+ * GET - 获取跟进动态
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    // 获取查询参数
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const teamId = searchParams.get('teamId')
+    const userId = searchParams.get('userId')
+
+    if (teamId && !canReadTeam(currentUser, teamId)) {
+      return forbiddenResponse('无权查看该团队')
+    }
+
+    if (userId && !managesUser(currentUser, userId)) {
+      return forbiddenResponse('无权查看该成员的跟进记录')
+    }
+
+    // 计算偏移量
+    const offset = (page - 1) * limit
+
+    // 构建查询条件（限定在当前用户可见的客户范围内）
+    const where: Prisma.FollowUpRecordWhereInput = {
+      customer: customerScope(currentUser),
+      ...(teamId && { user: { teamId } }),
+      ...(userId && { userId }),
+    }
+
+    const [records, total] = await Promise.all([
+      prisma.followUpRecord.findMany({
+        where,
+        include: {
+          ...followUpRecordInclude,
+          customer: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: offset,
+        take: limit,
+      }),
+      prisma.followUpRecord.count({ where }),
+    ])
+
+    const response: FollowUpActivityResponse[] = records.map((record) => ({
+      ...toFollowUpRecordResponse(record, currentUser),
+      customer: record.customer,
+    }))
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        records: response,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    })
+  } catch (error) {
+    console.error('获取跟进动态失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,13 @@
 /**
  * 数据库初始化 API 端点
  * 用于在生产环境创建初始数据
- * 包含三重安全保护：密钥验证、幂等性检查、时间窗口限制
+ * 包含三重安全保护：密钥验证（SEED_SECRET 部署密钥或管理员登录）、幂等性检查、时间窗口限制
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { authorizeMaintenanceRequest } from '@/lib/maintenance'
 import { PrismaClient, FollowUpType, UserRole, PlanStatus } from '../../../app/generated/prisma'
+import { hashPassword } from '@/lib/password'
 
 // 创建 Prisma 客户端实例
 const prisma = new PrismaClient({
@@ -17,9 +19,9 @@ const prisma = new PrismaClient({
 })
 
 /**
- * 安全检查1：验证初始化密钥
+ * 读取请求中的初始化密钥
  */
-async function validateSecretKey(request: NextRequest): Promise<boolean> {
+async function getRequestSecret(request: NextRequest): Promise<string | null> {
   const { searchParams } = new URL(request.url)
   let secret = searchParams.get('secret')
 
@@ -33,8 +35,7 @@ async function validateSecretKey(request: NextRequest): Promise<boolean> {
     }
   }
 
-  const expectedSecret = process.env.SEED_SECRET || 'init-database-2024'
-  return secret === expectedSecret
+  return secret
 }
 
 /**
@@ -82,6 +83,8 @@ async function performInitialization(): Promise<NextResponse> {
         name: '王磊',
         email: 'wanglei@company.com',
         role: UserRole.SALES,
+        // 初始登录密码，可通过 SEED_USER_PASSWORD 覆盖
+        passwordHash: await hashPassword(process.env.SEED_USER_PASSWORD || 'crm123456'),
       },
     })
 
@@ -226,12 +229,10 @@ async function performInitialization(): Promise<NextResponse> {
  */
 export async function POST(request: NextRequest) {
   try {
-    // 安全检查1：验证密钥
-    if (!(await validateSecretKey(request))) {
-      return NextResponse.json(
-        { error: '未授权的初始化请求：缺少有效密钥' },
-        { status: 401 }
-      )
+    // 安全检查1：验证部署密钥，首次部署时还没有管理员账号
+    const denied = await authorizeMaintenanceRequest(request, await getRequestSecret(request))
+    if (denied) {
+      return denied
     }
 
     // 安全检查2：幂等性检查
@@ -269,20 +270,18 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   try {
+    // 安全检查1：验证部署密钥或管理员登录
+    const denied = await authorizeMaintenanceRequest(request, await getRequestSecret(request))
+    if (denied) {
+      return denied
+    }
+
     // 检查是否包含初始化参数
     const { searchParams } = new URL(request.url)
     const shouldInitialize = searchParams.has('secret')
 
     if (shouldInitialize) {
-      // 执行初始化流程
-      // 安全检查1：验证密钥
-      if (!(await validateSecretKey(request))) {
-        return NextResponse.json(
-          { error: '未授权的初始化请求：缺少有效密钥' },
-          { status: 401 }
-        )
-      }
-
+      // 执行初始化流程（安全检查1已在上方完成）
       // 安全检查2：幂等性检查
       if (await isDatabaseInitialized()) {
         return NextResponse.json({
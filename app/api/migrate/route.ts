@@ -1,23 +1,21 @@
 /**
  * 数据库迁移 API 端点
- * 用于在生产环境创建数据库表结构
+ * 用于在生产环境创建数据库表结构，需携带 SEED_SECRET 部署密钥或由管理员调用
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { authorizeMaintenanceRequest } from '@/lib/maintenance'
 
 /**
  * 处理数据库迁移请求
  */
 export async function POST(request: NextRequest) {
   try {
-    // 验证请求是否来自管理员
-    const { secret } = await request.json()
-
-    if (secret !== process.env.SEED_SECRET && secret !== 'migrate-database-2024') {
-      return NextResponse.json(
-        { error: '未授权的迁移请求' },
-        { status: 401 }
-      )
+    // 首次部署时还没有管理员账号，通过部署密钥验证
+    const { secret } = await request.json().catch(() => ({}))
+    const denied = await authorizeMaintenanceRequest(request, secret)
+    if (denied) {
+      return denied
     }
 
     console.log('🚀 开始创建生产环境数据库表结构...')
@@ -40,6 +38,7 @@ export async function POST(request: NextRequest) {
         "name" TEXT NOT NULL,
         "email" TEXT NOT NULL,
         "role" "UserRole" NOT NULL DEFAULT E'SALES',
+        "password_hash" TEXT,
         "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
         "updatedAt" TIMESTAMP(3) NOT NULL,
 
@@ -137,8 +136,13 @@ export async function POST(request: NextRequest) {
 /**
  * 获取迁移状态
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const denied = await authorizeMaintenanceRequest(request, request.nextUrl.searchParams.get('secret'))
+    if (denied) {
+      return denied
+    }
+
     // 检查是否可以连接到数据库
     const { prisma } = await import('@/lib/prisma')
 
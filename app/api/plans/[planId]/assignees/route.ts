@@ -0,0 +1,93 @@
+/**
+ * 下一步计划可转交对象API路由
+ *
+ * GET: 获取当前用户可以将该计划转交给的用户列表
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import type { Prisma } from '@/app/generated/prisma'
+import { ApiResponse, PlanAssignee } from '@/lib/types/followup'
+import { getCurrentUser, userAccessSelect, toUserAccess } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { canUpdatePlan, canReassignPlan, isAdmin, isManagerOrAdmin } from '@/lib/permissions'
+
+/**
+ * GET - 获取可转交对象
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含计划ID
+ * @returns Promise<NextResponse> 可转交的用户列表（不含当前执行人）
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ planId: string }> }
+): Promise<NextResponse<ApiResponse<PlanAssignee[]>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { planId } = await params
+
+    const plan = await prisma.nextStepPlan.findUnique({
+      where: { id: planId },
+      include: {
+        customer: {
+          select: { userId: true },
+        },
+      },
+    })
+
+    if (!plan) {
+      return NextResponse.json(
+        { success: false, error: '计划不存在' },
+        { status: 404 }
+      )
+    }
+
+    if (!canUpdatePlan(currentUser, plan)) {
+      return forbiddenResponse('无权操作该计划')
+    }
+
+    // 候选范围：管理员为全部用户，经理为本人及团队成员，销售仅为客户负责人
+    let where: Prisma.UserWhereInput
+    if (isAdmin(currentUser)) {
+      where = {}
+    } else if (isManagerOrAdmin(currentUser)) {
+      where = { id: { in: [currentUser.id, ...currentUser.managedUserIds] } }
+    } else {
+      where = { id: plan.customer.userId ?? '' }
+    }
+
+    const users = await prisma.user.findMany({
+      where: {
+        AND: [where, { id: { not: plan.userId } }],
+      },
+      select: userAccessSelect,
+      orderBy: { name: 'asc' },
+    })
+
+    // 仅保留能查看该客户的用户
+    const assignees = users
+      .map(toUserAccess)
+      .filter((user) => canReassignPlan(currentUser, plan, user))
+      .map(({ id, name, email }) => ({ id, name, email }))
+
+    return NextResponse.json({
+      success: true,
+      data: assignees,
+    })
+  } catch (error) {
+    console.error('获取可转交对象失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
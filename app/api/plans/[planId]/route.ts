@@ -0,0 +1,231 @@
+/**
+ * 下一步计划API路由
+ *
+ * PATCH: 更新下一步计划状态
+ * - complete: 标记完成，可附完成说明
+ * - reschedule: 改期，保留改期历史
+ * - reassign: 转交给其他执行人
+ * - cancel: 取消计划
+ * 仅待办状态的计划可以执行上述操作
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { revalidatePath } from 'next/cache'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import { ApiResponse, NextStepPlanResponse } from '@/lib/types/followup'
+import { nextStepPlanSelect, toNextStepPlanResponse } from '@/lib/plan-query'
+import { getCurrentUser, getUserAccess } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { canUpdatePlan, canReassignPlan } from '@/lib/permissions'
+
+/**
+ * 更新下一步计划的请求体验证Schema
+ */
+const updatePlanSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('complete'),
+    completionNote: z.string().max(500, '完成说明不能超过500字符').optional(),
+  }),
+  z.object({
+    action: z.literal('reschedule'),
+    dueDate: z.string().datetime(),
+    reason: z.string().max(500, '改期原因不能超过500字符').optional(),
+  }),
+  z.object({
+    action: z.literal('reassign'),
+    userId: z.string().min(1, '请选择执行人'),
+  }),
+  z.object({
+    action: z.literal('cancel'),
+  }),
+])
+
+/**
+ * 操作成功提示
+ */
+const ACTION_MESSAGES = {
+  complete: '计划已完成',
+  reschedule: '计划已改期',
+  reassign: '计划已转交',
+  cancel: '计划已取消',
+} as const
+
+/**
+ * PATCH - 更新下一步计划
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含计划ID
+ * @returns Promise<NextResponse> 更新后的计划
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ planId: string }> }
+): Promise<NextResponse<ApiResponse<NextStepPlanResponse>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { planId } = await params
+    const body = await request.json()
+
+    // 验证请求数据
+    const validatedData = updatePlanSchema.parse(body)
+
+    const plan = await prisma.nextStepPlan.findUnique({
+      where: { id: planId },
+      include: {
+        customer: {
+          select: { userId: true },
+        },
+      },
+    })
+
+    if (!plan) {
+      return NextResponse.json(
+        { success: false, error: '计划不存在' },
+        { status: 404 }
+      )
+    }
+
+    if (!canUpdatePlan(currentUser, plan)) {
+      return forbiddenResponse('无权操作该计划')
+    }
+
+    if (plan.status !== 'PENDING') {
+      return NextResponse.json(
+        { success: false, error: '只能操作待办状态的计划' },
+        { status: 400 }
+      )
+    }
+
+    // 仅当计划仍为待办状态时更新，避免并发请求重复完成、改期或转交
+    const pendingPlan = { id: planId, status: 'PENDING' as const }
+    let updated: boolean
+
+    switch (validatedData.action) {
+      case 'complete': {
+        const { count } = await prisma.nextStepPlan.updateMany({
+          where: pendingPlan,
+          data: {
+            status: 'DONE',
+            completedAt: new Date(),
+            completionNote: validatedData.completionNote || null,
+          },
+        })
+        updated = count > 0
+        break
+      }
+
+      case 'reschedule': {
+        const newDueDate = new Date(validatedData.dueDate)
+
+        // 改期前的时间写入改期历史，期间被其他请求改期时不写入
+        updated = await prisma.$transaction(async (tx) => {
+          const { count } = await tx.nextStepPlan.updateMany({
+            where: { ...pendingPlan, dueDate: plan.dueDate },
+            // 改期后重新发送到期提醒
+            data: { dueDate: newDueDate, dayBeforeRemindedAt: null, dueDayRemindedAt: null },
+          })
+          if (count === 0) {
+            return false
+          }
+
+          await tx.planReschedule.create({
+            data: {
+              planId,
+              previousDueDate: plan.dueDate,
+              newDueDate,
+              reason: validatedData.reason || null,
+              changedById: currentUser.id,
+            },
+          })
+          return true
+        })
+        break
+      }
+
+      case 'reassign': {
+        const assignee = await getUserAccess(validatedData.userId)
+
+        if (!assignee) {
+          return NextResponse.json(
+            { success: false, error: '执行人不存在' },
+            { status: 400 }
+          )
+        }
+
+        if (!canReassignPlan(currentUser, plan, assignee)) {
+          return forbiddenResponse('无权将计划转交给该用户')
+        }
+
+        const { count } = await prisma.nextStepPlan.updateMany({
+          where: { ...pendingPlan, userId: plan.userId },
+          // 新执行人需要重新收到到期提醒
+          data: { userId: assignee.id, dayBeforeRemindedAt: null, dueDayRemindedAt: null },
+        })
+        updated = count > 0
+        break
+      }
+
+      case 'cancel': {
+        const { count } = await prisma.nextStepPlan.updateMany({
+          where: pendingPlan,
+          data: { status: 'CANCELLED' },
+        })
+        updated = count > 0
+        break
+      }
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, error: '计划已被其他操作更新，请刷新后重试' },
+        { status: 409 }
+      )
+    }
+
+    const updatedPlan = await prisma.nextStepPlan.findUniqueOrThrow({
+      where: { id: planId },
+      select: nextStepPlanSelect,
+    })
+
+    // 【关键步骤】清除相关页面的缓存
+    revalidatePath('/customers')
+    revalidatePath(`/customers/${plan.customerId}`)
+
+    return NextResponse.json({
+      success: true,
+      data: toNextStepPlanResponse(updatedPlan, currentUser),
+      message: ACTION_MESSAGES[validatedData.action],
+    })
+  } catch (error) {
+    console.error('更新下一步计划失败:', error)
+
+    // 处理Zod验证错误
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求参数验证失败',
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
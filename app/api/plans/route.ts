@@ -0,0 +1,155 @@
+/**
+ * 待办事项API路由
+ *
+ * GET: 获取跨客户的下一步计划列表
+ * - scope: mine（我的，默认）| team（可见客户范围内全部执行人的计划）
+ * - teamId: 团队范围下按团队筛选执行人
+ * - due: overdue（已逾期）| today（今天）| week（本周）
+ * - status: PENDING（默认）| DONE | CANCELLED | all
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { TZDate } from '@date-fns/tz'
+import { startOfDay, endOfDay, startOfWeek, endOfWeek } from 'date-fns'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import type { Prisma, PlanStatus } from '@/app/generated/prisma'
+import { PlanListItemResponse } from '@/lib/types/followup'
+import { nextStepPlanSelect, toNextStepPlanResponse } from '@/lib/plan-query'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { customerScope, canReadTeam } from '@/lib/permissions'
+
+/**
+ * 支持的计划状态筛选值
+ */
+const PLAN_STATUSES: PlanStatus[] = ['PENDING', 'DONE', 'CANCELLED']
+
+/**
+ * 构建到期时间筛选条件
+ * 今天和本周按用户所在时区计算，与到期提醒保持一致
+ *
+ * @param due 时间筛选值
+ * @param now 当前时间
+ * @param timezone 用户时区
+ * @returns {Prisma.NextStepPlanWhereInput} 查询条件
+ */
+function buildDueFilter(due: string | null, now: Date, timezone: string): Prisma.NextStepPlanWhereInput {
+  const localNow = new TZDate(now, timezone)
+
+  switch (due) {
+    case 'overdue':
+      // 逾期只对待办计划有意义
+      return { status: 'PENDING', dueDate: { lt: now } }
+    case 'today':
+      return { dueDate: { gte: startOfDay(localNow), lte: endOfDay(localNow) } }
+    case 'week':
+      return {
+        dueDate: {
+          gte: startOfWeek(localNow, { weekStartsOn: 1 }),
+          lte: endOfWeek(localNow, { weekStartsOn: 1 }),
+        },
+      }
+    default:
+      return {}
+  }
+}
+
+/**
+ * GET - 获取待办事项列表
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    // 获取查询参数
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '100')
+    const scope = searchParams.get('scope') === 'team' ? 'team' : 'mine'
+    const teamId = searchParams.get('teamId')
+    const due = searchParams.get('due')
+    const status = searchParams.get('status') || 'PENDING'
+
+    if (teamId && !canReadTeam(currentUser, teamId)) {
+      return forbiddenResponse('无权查看该团队')
+    }
+
+    if (status !== 'all' && !PLAN_STATUSES.includes(status as PlanStatus)) {
+      return NextResponse.json(
+        { success: false, error: '无效的计划状态' },
+        { status: 400 }
+      )
+    }
+
+    const { timezone } = await prisma.user.findUniqueOrThrow({
+      where: { id: currentUser.id },
+      select: { timezone: true },
+    })
+
+    // 计算偏移量
+    const offset = (page - 1) * limit
+
+    // 构建查询条件（始终限定在当前用户可见的客户范围内）
+    const where: Prisma.NextStepPlanWhereInput = {
+      AND: [
+        { customer: customerScope(currentUser) },
+        scope === 'mine' ? { userId: currentUser.id } : {},
+        scope === 'team' && teamId ? { user: { teamId } } : {},
+        status !== 'all' ? { status: status as PlanStatus } : {},
+        buildDueFilter(due, new Date(), timezone),
+      ],
+    }
+
+    const [plans, total] = await Promise.all([
+      prisma.nextStepPlan.findMany({
+        where,
+        select: {
+          ...nextStepPlanSelect,
+          followUpRecordId: true,
+          customer: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+        orderBy: { dueDate: 'asc' },
+        skip: offset,
+        take: limit,
+      }),
+      prisma.nextStepPlan.count({ where }),
+    ])
+
+    const response: PlanListItemResponse[] = plans.map((plan) => ({
+      ...toNextStepPlanResponse(plan, currentUser),
+      followUpRecordId: plan.followUpRecordId,
+      customer: plan.customer,
+    }))
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        plans: response,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    })
+  } catch (error) {
+    console.error('获取待办事项失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * 提醒设置API路由
+ *
+ * GET: 获取当前用户的时区和免打扰时段
+ * PUT: 更新当前用户的时区和免打扰时段
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import { ApiResponse } from '@/lib/types/followup'
+import { NotificationSettings } from '@/lib/types/push'
+import { isValidTimezone } from '@/lib/plan-reminders'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse } from '@/lib/api-response'
+
+/**
+ * HH:mm 时间格式
+ */
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, '时间格式应为 HH:mm')
+
+/**
+ * 提醒设置的请求体验证Schema
+ */
+const settingsSchema = z.object({
+  timezone: z.string().refine(isValidTimezone, '无效的时区'),
+  quietHoursStart: timeSchema.nullable(),
+  quietHoursEnd: timeSchema.nullable(),
+}).refine(
+  (data) => (data.quietHoursStart === null) === (data.quietHoursEnd === null),
+  { message: '免打扰开始和结束时间需同时设置', path: ['quietHoursEnd'] }
+)
+
+/**
+ * 提醒设置的查询字段
+ */
+const settingsSelect = {
+  timezone: true,
+  quietHoursStart: true,
+  quietHoursEnd: true,
+} as const
+
+/**
+ * GET - 获取提醒设置
+ */
+export async function GET(): Promise<NextResponse<ApiResponse<NotificationSettings>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const settings = await prisma.user.findUniqueOrThrow({
+      where: { id: currentUser.id },
+      select: settingsSelect,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+    })
+  } catch (error) {
+    console.error('获取提醒设置失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT - 更新提醒设置
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse<ApiResponse<NotificationSettings>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+
+    // 验证请求数据
+    const validatedData = settingsSchema.parse(body)
+
+    const settings = await prisma.user.update({
+      where: { id: currentUser.id },
+      data: validatedData,
+      select: settingsSelect,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+      message: '提醒设置已保存',
+    })
+  } catch (error) {
+    console.error('更新提醒设置失败:', error)
+
+    // 处理Zod验证错误
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求参数验证失败',
+          details: error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * 推送订阅API路由
+ *
+ * GET: 获取推送配置（VAPID 公钥）和当前用户的订阅数量
+ * POST: 保存当前浏览器的推送订阅
+ * DELETE: 取消当前浏览器的推送订阅
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import { ApiResponse } from '@/lib/types/followup'
+import { PushConfigResponse } from '@/lib/types/push'
+import { env, isPushConfigured } from '@/lib/env'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse } from '@/lib/api-response'
+
+/**
+ * 推送订阅的请求体验证Schema
+ */
+const subscriptionSchema = z.object({
+  endpoint: z.string().url('推送地址格式无效'),
+  keys: z.object({
+    p256dh: z.string().min(1, '缺少 p256dh 密钥'),
+    auth: z.string().min(1, '缺少 auth 密钥'),
+  }),
+})
+
+/**
+ * 取消订阅的请求体验证Schema
+ */
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url('推送地址格式无效'),
+})
+
+/**
+ * 处理请求错误
+ */
+function errorResponse(error: unknown, message: string): NextResponse<ApiResponse<never>> {
+  console.error(`${message}:`, error)
+
+  // 处理Zod验证错误
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: '请求参数验证失败',
+        details: error.issues.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      },
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: handleDatabaseError(error),
+    },
+    { status: 500 }
+  )
+}
+
+/**
+ * GET - 获取推送配置
+ */
+export async function GET(): Promise<NextResponse<ApiResponse<PushConfigResponse>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const subscriptionCount = await prisma.pushSubscription.count({
+      where: { userId: currentUser.id },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        publicKey: isPushConfigured() ? env.VAPID_PUBLIC_KEY! : null,
+        subscriptionCount,
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, '获取推送配置失败')
+  }
+}
+
+/**
+ * POST - 保存推送订阅
+ * 同一浏览器重复订阅时更新密钥；换账号登录时订阅归属新用户
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+
+    // 验证请求数据
+    const validatedData = subscriptionSchema.parse(body)
+    const userAgent = request.headers.get('user-agent')
+
+    await prisma.pushSubscription.upsert({
+      where: { endpoint: validatedData.endpoint },
+      create: {
+        endpoint: validatedData.endpoint,
+        p256dh: validatedData.keys.p256dh,
+        auth: validatedData.keys.auth,
+        userAgent,
+        userId: currentUser.id,
+      },
+      update: {
+        p256dh: validatedData.keys.p256dh,
+        auth: validatedData.keys.auth,
+        userAgent,
+        userId: currentUser.id,
+      },
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: '已开启推送提醒',
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    return errorResponse(error, '保存推送订阅失败')
+  }
+}
+
+/**
+ * DELETE - 取消推送订阅
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+
+    // 验证请求数据
+    const validatedData = unsubscribeSchema.parse(body)
+
+    await prisma.pushSubscription.deleteMany({
+      where: {
+        endpoint: validatedData.endpoint,
+        userId: currentUser.id,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: '已关闭推送提醒',
+    })
+  } catch (error) {
+    return errorResponse(error, '取消推送订阅失败')
+  }
+}
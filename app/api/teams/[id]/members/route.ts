@@ -0,0 +1,142 @@
+/**
+ * 团队成员API路由
+ *
+ * POST: 将用户移入团队（从原团队移出）
+ * DELETE: 将用户移出团队
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import { ApiResponse } from '@/lib/types/followup'
+import { TeamResponse } from '@/lib/types/team'
+import { teamInclude, toTeamResponse } from '@/lib/team-query'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { canManageTeams } from '@/lib/permissions'
+
+/**
+ * 成员调整的请求体验证Schema
+ */
+const membersSchema = z.object({
+  userIds: z.array(z.string().min(1)).min(1, '请至少选择一名成员'),
+})
+
+/**
+ * 处理成员调整请求
+ *
+ * @param request Next.js请求对象
+ * @param teamId 团队ID
+ * @param action 移入或移出
+ * @returns Promise<NextResponse> 调整后的团队
+ */
+async function updateMembers(
+  request: NextRequest,
+  teamId: string,
+  action: 'add' | 'remove'
+): Promise<NextResponse<ApiResponse<TeamResponse>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    if (!canManageTeams(currentUser)) {
+      return forbiddenResponse('仅管理员可以调整团队成员')
+    }
+
+    const body = await request.json()
+    const { userIds } = membersSchema.parse(body)
+
+    const existingTeam = await prisma.team.findUnique({
+      where: { id: teamId },
+    })
+
+    if (!existingTeam) {
+      return NextResponse.json(
+        { success: false, error: '团队不存在' },
+        { status: 404 }
+      )
+    }
+
+    const userCount = await prisma.user.count({
+      where: { id: { in: userIds } },
+    })
+
+    if (userCount !== new Set(userIds).size) {
+      return NextResponse.json(
+        { success: false, error: '部分用户不存在' },
+        { status: 400 }
+      )
+    }
+
+    if (action === 'add') {
+      // 每个用户只属于一个团队，移入即从原团队移出
+      await prisma.user.updateMany({
+        where: { id: { in: userIds } },
+        data: { teamId },
+      })
+    } else {
+      await prisma.user.updateMany({
+        where: { id: { in: userIds }, teamId },
+        data: { teamId: null },
+      })
+    }
+
+    const team = await prisma.team.findUniqueOrThrow({
+      where: { id: teamId },
+      include: teamInclude,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: toTeamResponse(team),
+      message: action === 'add' ? '成员已移入团队' : '成员已移出团队',
+    })
+  } catch (error) {
+    console.error('调整团队成员失败:', error)
+
+    // 处理验证错误
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据验证失败',
+          details: error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: handleDatabaseError(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST - 将用户移入团队
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<TeamResponse>>> {
+  const { id: teamId } = await params
+  return updateMembers(request, teamId, 'add')
+}
+
+/**
+ * DELETE - 将用户移出团队
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<TeamResponse>>> {
+  const { id: teamId } = await params
+  return updateMembers(request, teamId, 'remove')
+}
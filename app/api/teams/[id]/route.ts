@@ -0,0 +1,213 @@
+/**
+ * 团队详情API路由
+ *
+ * GET: 获取团队详情
+ * PUT: 更新团队名称或经理（仅管理员）
+ * DELETE: 删除团队，成员变为未分组（仅管理员）
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import { ApiResponse } from '@/lib/types/followup'
+import { TeamResponse } from '@/lib/types/team'
+import { teamInclude, toTeamResponse } from '@/lib/team-query'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { canReadTeam, canManageTeams } from '@/lib/permissions'
+
+/**
+ * 更新团队的请求体验证Schema
+ */
+const updateTeamSchema = z.object({
+  name: z.string().min(1, '团队名称不能为空').max(50, '团队名称不能超过50个字符').optional(),
+  managerId: z.string().min(1).nullable().optional(),
+})
+
+/**
+ * GET - 获取团队详情
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<TeamResponse>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { id: teamId } = await params
+
+    if (!canReadTeam(currentUser, teamId)) {
+      return forbiddenResponse('无权查看该团队')
+    }
+
+    const team = await prisma.team.findUnique({
+      where: { id: teamId },
+      include: teamInclude,
+    })
+
+    if (!team) {
+      return NextResponse.json(
+        { success: false, error: '团队不存在' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toTeamResponse(team),
+    })
+  } catch (error) {
+    console.error('获取团队详情失败:', error)
+    return NextResponse.json(
+      { success: false, error: handleDatabaseError(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT - 更新团队信息
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<TeamResponse>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    if (!canManageTeams(currentUser)) {
+      return forbiddenResponse('仅管理员可以调整团队')
+    }
+
+    const { id: teamId } = await params
+    const body = await request.json()
+    const validatedData = updateTeamSchema.parse(body)
+
+    const existingTeam = await prisma.team.findUnique({
+      where: { id: teamId },
+    })
+
+    if (!existingTeam) {
+      return NextResponse.json(
+        { success: false, error: '团队不存在' },
+        { status: 404 }
+      )
+    }
+
+    // 团队经理必须具有经理角色
+    if (validatedData.managerId) {
+      const manager = await prisma.user.findUnique({
+        where: { id: validatedData.managerId },
+        select: { role: true },
+      })
+
+      if (!manager) {
+        return NextResponse.json(
+          { success: false, error: '团队经理不存在' },
+          { status: 400 }
+        )
+      }
+
+      if (manager.role !== 'MANAGER') {
+        return NextResponse.json(
+          { success: false, error: '团队经理必须具有经理角色' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const team = await prisma.team.update({
+      where: { id: teamId },
+      data: {
+        ...(validatedData.name && { name: validatedData.name }),
+        ...(validatedData.managerId !== undefined && { managerId: validatedData.managerId }),
+      },
+      include: teamInclude,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: toTeamResponse(team),
+      message: '团队信息更新成功',
+    })
+  } catch (error) {
+    console.error('更新团队失败:', error)
+
+    // 处理验证错误
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据验证失败',
+          details: error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: handleDatabaseError(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE - 删除团队
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    if (!canManageTeams(currentUser)) {
+      return forbiddenResponse('仅管理员可以删除团队')
+    }
+
+    const { id: teamId } = await params
+
+    const existingTeam = await prisma.team.findUnique({
+      where: { id: teamId },
+    })
+
+    if (!existingTeam) {
+      return NextResponse.json(
+        { success: false, error: '团队不存在' },
+        { status: 404 }
+      )
+    }
+
+    // 删除团队（成员的 team_id 由外键约束置空）
+    await prisma.team.delete({
+      where: { id: teamId },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: '团队删除成功',
+    })
+  } catch (error) {
+    console.error('删除团队失败:', error)
+    return NextResponse.json(
+      { success: false, error: handleDatabaseError(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * 团队API路由
+ *
+ * GET: 获取当前用户可见的团队列表
+ * POST: 创建新团队（仅管理员）
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import { ApiResponse } from '@/lib/types/followup'
+import { TeamResponse } from '@/lib/types/team'
+import { teamInclude, toTeamResponse } from '@/lib/team-query'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse, forbiddenResponse } from '@/lib/api-response'
+import { isAdmin, canManageTeams } from '@/lib/permissions'
+
+/**
+ * 创建团队的请求体验证Schema
+ */
+const createTeamSchema = z.object({
+  name: z.string().min(1, '团队名称不能为空').max(50, '团队名称不能超过50个字符'),
+  managerId: z.string().min(1).optional(),
+  memberIds: z.array(z.string().min(1)).optional(),
+})
+
+/**
+ * GET - 获取团队列表
+ * 管理员可查看全部团队，其他用户只能查看自己所属或管理的团队
+ */
+export async function GET(): Promise<NextResponse<ApiResponse<TeamResponse[]>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const visibleTeamIds = [
+      ...currentUser.managedTeamIds,
+      ...(currentUser.teamId ? [currentUser.teamId] : []),
+    ]
+
+    const teams = await prisma.team.findMany({
+      where: isAdmin(currentUser) ? {} : { id: { in: visibleTeamIds } },
+      include: teamInclude,
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: teams.map(toTeamResponse),
+    })
+  } catch (error) {
+    console.error('获取团队列表失败:', error)
+    return NextResponse.json(
+      { success: false, error: handleDatabaseError(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST - 创建新团队
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<TeamResponse>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    if (!canManageTeams(currentUser)) {
+      return forbiddenResponse('仅管理员可以创建团队')
+    }
+
+    const body = await request.json()
+    const validatedData = createTeamSchema.parse(body)
+
+    // 团队经理必须具有经理角色
+    if (validatedData.managerId) {
+      const manager = await prisma.user.findUnique({
+        where: { id: validatedData.managerId },
+        select: { role: true },
+      })
+
+      if (!manager) {
+        return NextResponse.json(
+          { success: false, error: '团队经理不存在' },
+          { status: 400 }
+        )
+      }
+
+      if (manager.role !== 'MANAGER') {
+        return NextResponse.json(
+          { success: false, error: '团队经理必须具有经理角色' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // 成员必须都是已存在的用户，否则关联时会抛出异常
+    if (validatedData.memberIds && validatedData.memberIds.length > 0) {
+      const memberIds = [...new Set(validatedData.memberIds)]
+      const members = await prisma.user.findMany({
+        where: { id: { in: memberIds } },
+        select: { id: true },
+      })
+
+      if (members.length !== memberIds.length) {
+        const existingIds = new Set(members.map((member) => member.id))
+        return NextResponse.json(
+          {
+            success: false,
+            error: '请求数据验证失败',
+            details: [{
+              field: 'memberIds',
+              message: `以下用户不存在: ${memberIds.filter((id) => !existingIds.has(id)).join(', ')}`,
+            }],
+          },
+          { status: 400 }
+        )
+      }
+    }
+
+    const team = await prisma.team.create({
+      data: {
+        name: validatedData.name,
+        managerId: validatedData.managerId,
+        // 成员从原团队移入新团队
+        ...(validatedData.memberIds && validatedData.memberIds.length > 0 && {
+          members: {
+            connect: validatedData.memberIds.map((id) => ({ id })),
+          },
+        }),
+      },
+      include: teamInclude,
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: toTeamResponse(team),
+        message: '团队创建成功',
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('创建团队失败:', error)
+
+    // 处理验证错误
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据验证失败',
+          details: error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: handleDatabaseError(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * 语音转写API路由
+ *
+ * POST: 将浏览器 MediaRecorder 录制的音频转写为文本，供不支持 Web Speech API 的浏览器（Firefox、iOS Safari）使用
+ *
+ * 音频只在内存中转写，不保存到存储后端、数据库或日志
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse } from '@/lib/api-response'
+import { ApiResponse, TranscriptionResponse } from '@/lib/types/followup'
+import { getSpeechToTextProvider, SpeechToTextBusyError } from '@/lib/speech'
+
+/**
+ * 音频大小上限（约 10 分钟的 Opus 录音）
+ */
+const MAX_AUDIO_SIZE = 10 * 1024 * 1024
+
+/**
+ * 识别语言格式，如 zh-CN、en
+ */
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/
+
+/**
+ * 读取请求体，超过大小上限时返回 null
+ */
+async function readAudio(request: NextRequest): Promise<Buffer | null> {
+  if (!request.body) return Buffer.alloc(0)
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    size += value.length
+    if (size > MAX_AUDIO_SIZE) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * POST - 转写音频
+ *
+ * 请求体为音频原始内容，Content-Type 为音频类型（如 audio/webm、audio/mp4）；
+ * 查询参数 lang 为识别语言，默认 zh-CN
+ *
+ * @param request Next.js请求对象
+ * @returns Promise<NextResponse> 转写文本
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<TranscriptionResponse>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const provider = getSpeechToTextProvider()
+    if (!provider) {
+      return NextResponse.json(
+        { success: false, error: '未配置语音转写服务' },
+        { status: 503 }
+      )
+    }
+
+    const contentType = request.headers.get('content-type')?.split(';')[0].trim().toLowerCase() ?? ''
+    if (!contentType.startsWith('audio/')) {
+      return NextResponse.json(
+        { success: false, error: '请求内容不是音频' },
+        { status: 415 }
+      )
+    }
+
+    const language = new URL(request.url).searchParams.get('lang') || 'zh-CN'
+    if (!LANGUAGE_PATTERN.test(language)) {
+      return NextResponse.json(
+        { success: false, error: '无效的识别语言' },
+        { status: 400 }
+      )
+    }
+
+    const audio = await readAudio(request)
+    if (!audio) {
+      return NextResponse.json(
+        { success: false, error: '录音过长，请分段录制' },
+        { status: 413 }
+      )
+    }
+    if (audio.length === 0) {
+      return NextResponse.json(
+        { success: false, error: '录音内容为空' },
+        { status: 400 }
+      )
+    }
+
+    const text = await provider.transcribe(audio, { contentType, language })
+
+    return NextResponse.json({
+      success: true,
+      data: { text },
+    })
+  } catch (error) {
+    if (error instanceof SpeechToTextBusyError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 429, headers: { 'Retry-After': '5' } }
+      )
+    }
+
+    console.error('语音转写失败:', error instanceof Error ? error.message : error)
+    return NextResponse.json(
+      { success: false, error: '语音转写失败，请稍后重试' },
+      { status: 502 }
+    )
+  }
+}
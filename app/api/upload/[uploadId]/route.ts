@@ -0,0 +1,65 @@
+/**
+ * 待关联上传API路由
+ *
+ * DELETE: 删除尚未关联到跟进记录的上传文件（用户在提交前移除附件时调用）
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import { ApiResponse } from '@/lib/types/followup'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse } from '@/lib/api-response'
+import { collectStorageKeys, deleteStorageObjects } from '@/lib/pending-uploads'
+
+/**
+ * DELETE - 删除待关联上传
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含上传ID
+ * @returns Promise<NextResponse> 删除结果
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+): Promise<NextResponse<ApiResponse>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { uploadId } = await params
+
+    // 只能删除自己的上传，已关联为附件的上传不在此表中
+    const pendingUpload = await prisma.pendingUpload.findFirst({
+      where: { id: uploadId, uploadedById: currentUser.id },
+    })
+
+    if (!pendingUpload) {
+      return NextResponse.json(
+        { success: false, error: '上传文件不存在或已提交' },
+        { status: 404 }
+      )
+    }
+
+    await deleteStorageObjects(collectStorageKeys([pendingUpload]))
+    await prisma.pendingUpload.delete({
+      where: { id: uploadId },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: '上传文件已删除',
+    })
+  } catch (error) {
+    console.error('删除上传文件失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -2,99 +2,27 @@
  * 文件上传API路由
  *
  * POST: 上传文件并返回文件信息
+ *
+ * 上传的文件先记录为待关联上传，创建跟进记录时通过返回的ID关联为附件；
+ * 超过 5MB 的文档通过分片上传接口（/api/upload/sessions）上传；
+ * 支持 Idempotency-Key 请求头，重传同一文件时返回首次保存的结果
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { put } from '@vercel/blob'
 import { FileUploadResponse, ApiResponse } from '@/lib/types/followup'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse } from '@/lib/api-response'
+import {
+  FileScannerUnavailableError,
+  FileValidationError,
+  storeUploadedFile,
+  validateDeclaredFile,
+} from '@/lib/upload-processing'
+import { computeChecksum } from '@/lib/upload-sessions'
+import { withIdempotency, hashRequestBody } from '@/lib/idempotency'
 
 /**
- * 支持的文件类型
- */
-const ALLOWED_FILE_TYPES = [
-  'image/jpeg',
-  'image/png',
-  'image/gif',
-  'image/webp',
-  'application/pdf',
-  'application/msword',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'application/vnd.ms-excel',
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  'text/plain',
-]
-
-/**
- * 最大文件大小 (5MB)
- */
-const MAX_FILE_SIZE = 5 * 1024 * 1024
-
-/**
- * 验证文件是否符合要求
- */
-const validateFile = (file: File): { isValid: boolean; error?: string } => {
-  // 检查文件类型
-  if (!ALLOWED_FILE_TYPES.includes(file.type)) {
-    return {
-      isValid: false,
-      error: `不支持的文件类型。支持的类型: ${ALLOWED_FILE_TYPES.join(', ')}`
-    }
-  }
-
-  // 检查文件大小
-  if (file.size > MAX_FILE_SIZE) {
-    return {
-      isValid: false,
-      error: `文件大小不能超过 ${MAX_FILE_SIZE / 1024 / 1024}MB`
-    }
-  }
-
-  return { isValid: true }
-}
-
-/**
- * 生成唯一文件名
- *
- * @param originalName 原始文件名
- * @returns {string} 唯一文件名
- */
-const generateUniqueFileName = (originalName: string): string => {
-  const timestamp = Date.now()
-  const random = Math.random().toString(36).substring(2)
-  const extension = originalName.split('.').pop()
-  return `${timestamp}_${random}.${extension}`
-}
-
-/**
- * 检查Vercel Blob环境变量是否配置
- */
-const checkBlobEnvironment = (): { isValid: boolean; error?: string } => {
-  if (!process.env.BLOB_READ_WRITE_TOKEN) {
-    return {
-      isValid: false,
-      error: 'BLOB_READ_WRITE_TOKEN 环境变量未配置。请在 Vercel 项目的 Storage 标签页连接 Blob 存储并等待环境变量自动添加。'
-    }
-  }
-  return { isValid: true }
-}
-
-/**
- * 获取文件类型分类
- *
- * @param mimeType MIME类型
- * @returns {string} 文件类型分类
- */
-const getFileTypeCategory = (mimeType: string): string => {
-  if (mimeType.startsWith('image/')) return 'image'
-  if (mimeType.includes('pdf')) return 'pdf'
-  if (mimeType.includes('word') || mimeType.includes('document')) return 'document'
-  if (mimeType.includes('excel') || mimeType.includes('spreadsheet')) return 'spreadsheet'
-  if (mimeType.startsWith('text/')) return 'text'
-  return 'other'
-}
-
-/**
- * POST - 上传文件到 Vercel Blob
+ * POST - 上传文件到配置的存储后端
  *
  * @param request Next.js请求对象
  * @returns Promise<NextResponse> 上传结果
@@ -103,13 +31,10 @@ export async function POST(
   request: NextRequest
 ): Promise<NextResponse<ApiResponse<FileUploadResponse['file']>>> {
   try {
-    // 检查 Blob 环境配置
-    const blobCheck = checkBlobEnvironment()
-    if (!blobCheck.isValid) {
-      return NextResponse.json(
-        { success: false, error: blobCheck.error },
-        { status: 500 }
-      )
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
     }
 
     // 解析表单数据
@@ -124,62 +49,57 @@ export async function POST(
     }
 
     // 验证文件
-    const validation = validateFile(file)
-    if (!validation.isValid) {
+    const validationError = validateDeclaredFile(file.type, file.size)
+    if (validationError) {
       return NextResponse.json(
         {
           success: false,
           error: '文件验证失败',
-          details: [{ field: 'file', message: validation.error }],
+          details: [{ field: 'file', message: validationError }],
         },
         { status: 400 }
       )
     }
 
-    // 生成唯一文件名
-    const uniqueFileName = generateUniqueFileName(file.name)
-
-    // 上传到 Vercel Blob
-    const blob = await put(uniqueFileName, file, {
-      access: 'public',
-      token: process.env.BLOB_READ_WRITE_TOKEN,
-    })
+    const content = Buffer.from(await file.arrayBuffer())
 
-    // 构建响应数据
-    const fileData = {
-      id: `file_${Date.now()}_${Math.random().toString(36).substring(2)}`,
+    // 携带幂等键时，网络中断后重传同一文件返回首次保存的结果，不会重复保存
+    const requestHash = hashRequestBody({
       fileName: file.name,
-      fileUrl: blob.url,
-      fileType: getFileTypeCategory(file.type),
-      fileSize: file.size,
-    }
-
-    console.log('✅ 文件上传到 Vercel Blob 成功:', {
-      fileName: file.name,
-      url: blob.url,
-      size: file.size
+      contentType: file.type,
+      checksum: computeChecksum(content),
     })
-
-    return NextResponse.json({
-      success: true,
-      data: fileData,
-      message: '文件上传成功',
+    return await withIdempotency<ApiResponse<FileUploadResponse['file']>>(request, { userId: currentUser.id, requestHash }, async () => {
+      const fileData = await storeUploadedFile(content, file.type, file.name, currentUser.id)
+
+      return NextResponse.json({
+        success: true,
+        data: fileData,
+        message: '文件上传成功',
+      })
     })
 
   } catch (error: unknown) {
-    console.error('文件上传失败:', error)
-
-    // 检查是否是 Blob 配置错误
-    if (error instanceof Error && error.message.includes('BLOB_READ_WRITE_TOKEN')) {
+    if (error instanceof FileValidationError) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Vercel Blob 配置错误：请确保已在 Vercel 项目的 Storage 标签页连接了 Blob 存储',
+          error: '文件验证失败',
+          details: [{ field: 'file', message: error.message }],
         },
-        { status: 500 }
+        { status: error.status }
       )
     }
 
+    if (error instanceof FileScannerUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 503 }
+      )
+    }
+
+    console.error('文件上传失败:', error)
+
     return NextResponse.json(
       {
         success: false,
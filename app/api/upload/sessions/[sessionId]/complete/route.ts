@@ -0,0 +1,179 @@
+/**
+ * 完成分片上传API路由
+ *
+ * POST: 合并全部分片，按直接上传的流程检查、扫描和保存文件，返回待关联上传ID
+ *
+ * 合并结果记录在会话上，重复提交（如响应丢失后重试）时返回同一个待关联上传
+ */
+
+import { randomUUID } from 'node:crypto'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse } from '@/lib/api-response'
+import { ApiResponse, FileUploadResponse } from '@/lib/types/followup'
+import { collectStorageKeys, deleteStorageObjects } from '@/lib/pending-uploads'
+import {
+  FileScannerUnavailableError,
+  FileValidationError,
+  storeUploadedFile,
+  toUploadedFileInfo,
+} from '@/lib/upload-processing'
+import {
+  assembleUploadSession,
+  completeUploadSession,
+  deleteUploadSession,
+  findUploadSession,
+  UploadSessionIncompleteError,
+} from '@/lib/upload-sessions'
+
+/**
+ * 返回已完成合并的上传结果
+ *
+ * @param pendingUploadId 合并时生成的待关联上传ID
+ * @param userId 当前用户ID
+ * @returns Promise<NextResponse> 上传结果，待关联上传已被使用或清理时返回 404
+ */
+async function completedUploadResponse(
+  pendingUploadId: string,
+  userId: string
+): Promise<NextResponse<ApiResponse<FileUploadResponse['file']>>> {
+  const pendingUpload = await prisma.pendingUpload.findFirst({
+    where: { id: pendingUploadId, uploadedById: userId },
+  })
+
+  if (!pendingUpload) {
+    return NextResponse.json(
+      { success: false, error: '上传文件已提交或已过期' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: toUploadedFileInfo(pendingUpload),
+    message: '文件上传成功',
+  })
+}
+
+/**
+ * POST - 完成分片上传
+ *
+ * 分片缺失或校验失败时返回 409，前端查询会话后补传；
+ * 文件未通过内容检查时会话随之删除，需要重新选择文件
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含会话ID
+ * @returns Promise<NextResponse> 上传结果
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+): Promise<NextResponse<ApiResponse<FileUploadResponse['file']>>> {
+  // 分片依次写入临时文件，检查、扫描和写入存储时按需读取，不在内存中保留完整文件
+  const tempFilePath = path.join(os.tmpdir(), `upload-${randomUUID()}`)
+
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { sessionId } = await params
+    const session = await findUploadSession(sessionId, currentUser.id)
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: '上传会话不存在或已过期' },
+        { status: 404 }
+      )
+    }
+
+    if (session.pendingUploadId) {
+      return completedUploadResponse(session.pendingUploadId, currentUser.id)
+    }
+
+    try {
+      await assembleUploadSession(session, tempFilePath)
+    } catch (assembleError) {
+      if (assembleError instanceof UploadSessionIncompleteError) {
+        return NextResponse.json(
+          { success: false, error: assembleError.message },
+          { status: 409 }
+        )
+      }
+      throw assembleError
+    }
+
+    let fileData
+    try {
+      fileData = await storeUploadedFile(
+        { path: tempFilePath, size: session.fileSize },
+        session.contentType,
+        session.fileName,
+        currentUser.id
+      )
+    } catch (storeError) {
+      // 扫描服务不可用时保留分片，稍后可以重新提交合并
+      if (storeError instanceof FileScannerUnavailableError) {
+        return NextResponse.json(
+          { success: false, error: storeError.message },
+          { status: 503 }
+        )
+      }
+
+      if (storeError instanceof FileValidationError) {
+        await deleteUploadSession(session)
+        return NextResponse.json(
+          {
+            success: false,
+            error: '文件验证失败',
+            details: [{ field: 'file', message: storeError.message }],
+          },
+          { status: storeError.status }
+        )
+      }
+
+      throw storeError
+    }
+
+    // 文件已保存为待关联上传，记录到会话后删除分片
+    if (!(await completeUploadSession(session, fileData.id))) {
+      // 并发的合并请求已先完成，删除本次保存的文件，返回先完成的结果
+      const duplicate = await prisma.pendingUpload.findUniqueOrThrow({ where: { id: fileData.id } })
+      await deleteStorageObjects(collectStorageKeys([duplicate]))
+      await prisma.pendingUpload.delete({ where: { id: duplicate.id } })
+
+      const completed = await findUploadSession(sessionId, currentUser.id)
+      if (!completed?.pendingUploadId) {
+        return NextResponse.json(
+          { success: false, error: '上传会话不存在或已过期' },
+          { status: 404 }
+        )
+      }
+      return completedUploadResponse(completed.pendingUploadId, currentUser.id)
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: fileData,
+      message: '文件上传成功',
+    })
+  } catch (error: unknown) {
+    console.error('完成分片上传失败:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '文件上传失败，请稍后重试',
+      },
+      { status: 500 }
+    )
+  } finally {
+    await fs.rm(tempFilePath, { force: true })
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * 上传分片API路由
+ *
+ * PUT: 上传一个分片，请求体为分片原始内容，请求头 X-Chunk-SHA256 为分片的 SHA-256 校验值（十六进制）
+ *
+ * 同一分片可以重复上传（如响应丢失后重试），后上传的覆盖先上传的
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse } from '@/lib/api-response'
+import { ApiResponse, UploadSessionResponse } from '@/lib/types/followup'
+import { getStorageProvider } from '@/lib/storage'
+import {
+  computeChecksum,
+  findUploadSession,
+  getExpectedPartSize,
+  getPartStorageKey,
+} from '@/lib/upload-sessions'
+
+/**
+ * 分片校验值请求头
+ */
+const CHECKSUM_HEADER = 'x-chunk-sha256'
+
+/**
+ * PUT - 上传分片
+ *
+ * 校验值不一致时返回 422，前端应重新读取并上传该分片
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含会话ID和分片序号（从1开始）
+ * @returns Promise<NextResponse> 已接收的分片信息
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; partNumber: string }> }
+): Promise<NextResponse<ApiResponse<UploadSessionResponse['uploadedParts'][number]>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { sessionId, partNumber: partNumberParam } = await params
+    const session = await findUploadSession(sessionId, currentUser.id)
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: '上传会话不存在或已过期' },
+        { status: 404 }
+      )
+    }
+
+    // 合并完成后分片已删除，不再接收新分片
+    if (session.pendingUploadId) {
+      return NextResponse.json(
+        { success: false, error: '文件已上传完成' },
+        { status: 409 }
+      )
+    }
+
+    const partNumber = Number(partNumberParam)
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.totalParts) {
+      return NextResponse.json(
+        { success: false, error: `分片序号应为 1-${session.totalParts}` },
+        { status: 400 }
+      )
+    }
+
+    const checksum = request.headers.get(CHECKSUM_HEADER)?.toLowerCase()
+    if (!checksum || !/^[0-9a-f]{64}$/.test(checksum)) {
+      return NextResponse.json(
+        { success: false, error: '缺少分片校验值' },
+        { status: 400 }
+      )
+    }
+
+    const content = Buffer.from(await request.arrayBuffer())
+    const expectedSize = getExpectedPartSize(session, partNumber)
+    if (content.length !== expectedSize) {
+      return NextResponse.json(
+        { success: false, error: `分片大小应为 ${expectedSize} 字节，实际收到 ${content.length} 字节` },
+        { status: 422 }
+      )
+    }
+
+    if (computeChecksum(content) !== checksum) {
+      return NextResponse.json(
+        { success: false, error: '分片校验失败，内容在传输中损坏' },
+        { status: 422 }
+      )
+    }
+
+    const storage = getStorageProvider()
+    const stored = await storage.put(getPartStorageKey(sessionId, partNumber), content, {
+      contentType: 'application/octet-stream',
+    })
+
+    const part = await prisma.uploadSessionPart.upsert({
+      where: { sessionId_partNumber: { sessionId, partNumber } },
+      create: {
+        sessionId,
+        partNumber,
+        storageKey: stored.key,
+        size: content.length,
+        checksum,
+      },
+      update: {
+        storageKey: stored.key,
+        size: content.length,
+        checksum,
+      },
+    })
+
+    // 存储后端为新分片生成了不同的键时（如 Vercel Blob 的随机后缀），删除被覆盖的旧分片
+    const previous = session.parts.find((item) => item.partNumber === partNumber)
+    if (previous && previous.storageKey !== stored.key) {
+      await storage.delete(previous.storageKey)
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        partNumber: part.partNumber,
+        size: part.size,
+        checksum: part.checksum,
+      },
+    })
+  } catch (error) {
+    console.error('上传分片失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
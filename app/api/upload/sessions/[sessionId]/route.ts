@@ -0,0 +1,103 @@
+/**
+ * 分片上传会话详情API路由
+ *
+ * GET: 查询会话已接收的分片，断线重连后只补传缺少的分片
+ * DELETE: 放弃上传，删除已接收的分片
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { handleDatabaseError } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse } from '@/lib/api-response'
+import { ApiResponse, UploadSessionResponse } from '@/lib/types/followup'
+import { deleteUploadSession, findUploadSession, toUploadSessionResponse } from '@/lib/upload-sessions'
+
+/**
+ * GET - 查询上传会话
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含会话ID
+ * @returns Promise<NextResponse> 会话信息及已接收的分片
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+): Promise<NextResponse<ApiResponse<UploadSessionResponse>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { sessionId } = await params
+    const session = await findUploadSession(sessionId, currentUser.id)
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: '上传会话不存在或已过期' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toUploadSessionResponse(session),
+    })
+  } catch (error) {
+    console.error('查询上传会话失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE - 放弃上传
+ *
+ * @param request Next.js请求对象
+ * @param params 路由参数，包含会话ID
+ * @returns Promise<NextResponse> 删除结果
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+): Promise<NextResponse<ApiResponse>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const { sessionId } = await params
+    const session = await findUploadSession(sessionId, currentUser.id)
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: '上传会话不存在或已过期' },
+        { status: 404 }
+      )
+    }
+
+    await deleteUploadSession(session)
+
+    return NextResponse.json({
+      success: true,
+      message: '已取消上传',
+    })
+  } catch (error) {
+    console.error('取消上传失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * 分片上传会话API路由
+ *
+ * POST: 创建分片上传会话，返回分片大小和分片数量
+ *
+ * 分片上传流程：
+ * 1. POST /api/upload/sessions 创建会话
+ * 2. PUT /api/upload/sessions/[sessionId]/parts/[partNumber] 逐片上传，请求头 X-Chunk-SHA256 携带分片校验值
+ * 3. POST /api/upload/sessions/[sessionId]/complete 合并分片，返回待关联上传ID
+ * 断线后通过 GET /api/upload/sessions/[sessionId] 查询已接收的分片继续上传，放弃上传时 DELETE 该会话
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma, handleDatabaseError } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { unauthorizedResponse } from '@/lib/api-response'
+import { ApiResponse, UploadSessionResponse } from '@/lib/types/followup'
+import { sanitizeFileName } from '@/lib/file-inspection'
+import { validateDeclaredFile } from '@/lib/upload-processing'
+import { UPLOAD_CHUNK_SIZE, toUploadSessionResponse } from '@/lib/upload-sessions'
+
+/**
+ * 创建上传会话的请求体验证Schema
+ */
+const createUploadSessionSchema = z.object({
+  fileName: z.string().min(1, '文件名不能为空').max(255, '文件名过长'),
+  fileSize: z.number().int().positive('文件不能为空'),
+  contentType: z.string().min(1, '文件类型不能为空'),
+})
+
+/**
+ * POST - 创建分片上传会话
+ *
+ * @param request Next.js请求对象
+ * @returns Promise<NextResponse> 会话信息
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<UploadSessionResponse>>> {
+  try {
+    // 验证登录状态
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const { fileName, fileSize, contentType } = createUploadSessionSchema.parse(body)
+
+    // 检查声明的文件类型和大小，真实类型在合并分片后检查
+    const validationError = validateDeclaredFile(contentType, fileSize, true)
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '文件验证失败',
+          details: [{ field: 'file', message: validationError }],
+        },
+        { status: 400 }
+      )
+    }
+
+    const session = await prisma.uploadSession.create({
+      data: {
+        fileName: sanitizeFileName(fileName),
+        contentType,
+        fileSize,
+        chunkSize: UPLOAD_CHUNK_SIZE,
+        totalParts: Math.ceil(fileSize / UPLOAD_CHUNK_SIZE),
+        uploadedById: currentUser.id,
+      },
+      include: { parts: true },
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: toUploadSessionResponse(session),
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('创建上传会话失败:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '请求数据验证失败',
+          details: error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: handleDatabaseError(error),
+      },
+      { status: 500 }
+    )
+  }
+}
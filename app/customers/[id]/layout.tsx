@@ -0,0 +1,59 @@
+/**
+ * 客户详情页面布局
+ * 在服务端校验当前用户是否有权查看该客户，并向页面提供当前用户ID
+ */
+
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { ShieldAlert } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { CurrentUserProvider } from '@/components/auth/CurrentUserProvider'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/auth'
+import { canReadCustomer } from '@/lib/permissions'
+
+/**
+ * 客户详情布局组件
+ *
+ * @param props 布局属性
+ * @returns {JSX.Element} 客户详情布局
+ */
+export default async function CustomerDetailLayout({
+  children,
+  params,
+}: {
+  children: React.ReactNode
+  params: Promise<{ id: string }>
+}) {
+  const { id: customerId } = await params
+
+  const currentUser = await getCurrentUser()
+  if (!currentUser) {
+    redirect(`/login?callbackUrl=/customers/${customerId}`)
+  }
+
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId },
+    select: { userId: true },
+  })
+
+  // 客户不存在时交由页面处理重定向
+  if (customer && !canReadCustomer(currentUser, customer)) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <ShieldAlert className="h-12 w-12 mx-auto mb-4 text-destructive" />
+          <h2 className="text-xl font-semibold mb-2">无权访问</h2>
+          <p className="text-muted-foreground mb-4">
+            该客户不在您的负责范围内
+          </p>
+          <Link href="/customers">
+            <Button variant="outline">返回客户列表</Button>
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return <CurrentUserProvider userId={currentUser.id}>{children}</CurrentUserProvider>
+}
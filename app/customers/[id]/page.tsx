@@ -13,6 +13,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { TimelineView } from '@/components/followup/TimelineView'
 import { InlineFollowUpInput } from '@/components/followup/InlineFollowUpInput'
+import { CustomerAttachments, getCustomerAttachmentsQueryKey } from '@/components/followup/CustomerAttachments'
+import { PendingFollowUps } from '@/components/followup/PendingFollowUps'
+import { useFollowUpOutbox } from '@/hooks/use-followup-outbox'
 import { Toaster } from '@/components/ui/toaster'
 import { useToast } from '@/components/ui/use-toast'
 import { ThemeToggle } from '@/components/ui/theme-toggle'
@@ -20,8 +23,12 @@ import {
   CustomerDetail,
   FollowUpRecordResponse,
   CreateFollowUpRequest,
+  UpdateFollowUpRequest,
+  UpdatePlanRequest,
 } from '@/lib/types/followup'
+import { QueuedFollowUp } from '@/lib/offline-store'
 import { useRouter } from 'next/navigation'
+import { cn } from '@/lib/utils'
 
 
 /**
@@ -44,6 +51,9 @@ const fetchCustomerDetail = async (customerId: string): Promise<CustomerDetail>
     if (response.status === 404) {
       throw new Error('客户不存在')
     }
+    if (response.status === 403) {
+      throw new Error('无权查看该客户')
+    }
     throw new Error('获取客户详情失败')
   }
 
@@ -66,11 +76,17 @@ const fetchFollowUpRecords = async (customerId: string): Promise<FollowUpRecordR
 }
 
 /**
- * 创建跟进记录
+ * 编辑跟进记录
  */
-const createFollowUpRecord = async (data: CreateFollowUpRequest): Promise<void> => {
-  const response = await fetch(`/api/customers/${data.customerId}/followups`, {
-    method: 'POST',
+const updateFollowUpRecord = async ({
+  recordId,
+  data,
+}: {
+  recordId: string
+  data: UpdateFollowUpRequest
+}): Promise<void> => {
+  const response = await fetch(`/api/followups/${recordId}`, {
+    method: 'PATCH',
     headers: {
       'Content-Type': 'application/json',
     },
@@ -79,8 +95,47 @@ const createFollowUpRecord = async (data: CreateFollowUpRequest): Promise<void>
 
   if (!response.ok) {
     const errorData = await response.json()
-    throw new Error(errorData.error || '创建跟进记录失败')
+    throw new Error(errorData.error || '编辑跟进记录失败')
+  }
+}
+
+/**
+ * 删除跟进记录
+ */
+const deleteFollowUpRecord = async (recordId: string): Promise<void> => {
+  const response = await fetch(`/api/followups/${recordId}`, {
+    method: 'DELETE',
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error || '删除跟进记录失败')
+  }
+}
+
+/**
+ * 更新下一步计划
+ */
+const updatePlan = async ({
+  planId,
+  data,
+}: {
+  planId: string
+  data: UpdatePlanRequest
+}): Promise<string> => {
+  const response = await fetch(`/api/plans/${planId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  })
+
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || '更新计划失败')
   }
+  return result.message
 }
 
 /**
@@ -89,11 +144,20 @@ const createFollowUpRecord = async (data: CreateFollowUpRequest): Promise<void>
  * @param props 页面属性
  * @returns {JSX.Element} 客户详情页面
  */
-export default function CustomerDetailPage({ params }: { params: Promise<{ id: string }> }) {
+export default function CustomerDetailPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ highlight?: string }>
+}) {
   const { id: customerId } = React.use(params)
+  // 从待办事项跳转时高亮来源跟进记录
+  const { highlight: highlightedRecordId } = React.use(searchParams)
   const router = useRouter()
   const { toast } = useToast()
   const queryClient = useQueryClient()
+  const [activeTab, setActiveTab] = React.useState<'timeline' | 'attachments'>('timeline')
 
   // 获取客户详情
   const {
@@ -116,12 +180,27 @@ export default function CustomerDetailPage({ params }: { params: Promise<{ id: s
     enabled: !!customerId,
   })
 
-  // 创建跟进记录的mutation
+  // 离线提交的跟进记录，网络恢复后自动同步
+  const outbox = useFollowUpOutbox(customerId, React.useCallback((item: QueuedFollowUp) => {
+    queryClient.invalidateQueries({ queryKey: getFollowUpsQueryKey(item.customerId) })
+    queryClient.invalidateQueries({ queryKey: getCustomerAttachmentsQueryKey(item.customerId) })
+
+    toast({
+      title: '同步完成',
+      description: '离线时提交的跟进记录已同步',
+    })
+  }, [queryClient, toast]))
+
+  // 创建跟进记录的mutation，离线时加入待同步队列
   const createFollowUpMutation = useMutation({
-    mutationFn: createFollowUpRecord,
-    onSuccess: () => {
-      // 刷新跟进记录列表
+    mutationFn: ({ data, idempotencyKey }: { data: CreateFollowUpRequest; idempotencyKey: string }) =>
+      outbox.submit(data, idempotencyKey),
+    onSuccess: (result) => {
+      if (result === 'queued') return
+
+      // 刷新跟进记录列表和附件列表
       queryClient.invalidateQueries({ queryKey: getFollowUpsQueryKey(customerId) })
+      queryClient.invalidateQueries({ queryKey: getCustomerAttachmentsQueryKey(customerId) })
 
       toast({
         title: '成功',
@@ -138,11 +217,95 @@ export default function CustomerDetailPage({ params }: { params: Promise<{ id: s
     },
   })
 
+  // 编辑跟进记录的mutation
+  const updateFollowUpMutation = useMutation({
+    mutationFn: updateFollowUpRecord,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: getFollowUpsQueryKey(customerId) })
+
+      toast({
+        title: '成功',
+        description: '跟进记录已更新',
+      })
+    },
+    onError: (error: Error) => {
+      console.error('编辑跟进记录失败:', error)
+      toast({
+        title: '错误',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  // 删除跟进记录的mutation
+  const deleteFollowUpMutation = useMutation({
+    mutationFn: deleteFollowUpRecord,
+    onSuccess: () => {
+      // 删除会影响客户统计数据和附件列表，一并刷新
+      queryClient.invalidateQueries({ queryKey: getFollowUpsQueryKey(customerId) })
+      queryClient.invalidateQueries({ queryKey: getCustomerQueryKey(customerId) })
+      queryClient.invalidateQueries({ queryKey: getCustomerAttachmentsQueryKey(customerId) })
+
+      toast({
+        title: '成功',
+        description: '跟进记录已删除',
+      })
+    },
+    onError: (error: Error) => {
+      console.error('删除跟进记录失败:', error)
+      toast({
+        title: '错误',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  // 更新下一步计划的mutation
+  const updatePlanMutation = useMutation({
+    mutationFn: updatePlan,
+    onSuccess: (message) => {
+      // 计划状态变化会影响客户待办数，一并刷新
+      queryClient.invalidateQueries({ queryKey: getFollowUpsQueryKey(customerId) })
+      queryClient.invalidateQueries({ queryKey: getCustomerQueryKey(customerId) })
+      queryClient.invalidateQueries({ queryKey: ['plans'] })
+
+      toast({
+        title: '成功',
+        description: message,
+      })
+    },
+    onError: (error: Error) => {
+      console.error('更新计划失败:', error)
+      toast({
+        title: '错误',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
   // 处理创建跟进记录
-  const handleCreateFollowUp = React.useCallback(async (data: CreateFollowUpRequest) => {
-    await createFollowUpMutation.mutateAsync(data)
+  const handleCreateFollowUp = React.useCallback(async (data: CreateFollowUpRequest, idempotencyKey: string) => {
+    return createFollowUpMutation.mutateAsync({ data, idempotencyKey })
   }, [createFollowUpMutation])
 
+  // 处理编辑跟进记录
+  const handleEditFollowUp = React.useCallback(async (recordId: string, data: UpdateFollowUpRequest) => {
+    await updateFollowUpMutation.mutateAsync({ recordId, data })
+  }, [updateFollowUpMutation])
+
+  // 处理删除跟进记录
+  const handleDeleteFollowUp = React.useCallback(async (recordId: string) => {
+    await deleteFollowUpMutation.mutateAsync(recordId)
+  }, [deleteFollowUpMutation])
+
+  // 处理更新下一步计划
+  const handleUpdatePlan = React.useCallback(async (planId: string, data: UpdatePlanRequest) => {
+    await updatePlanMutation.mutateAsync({ planId, data })
+  }, [updatePlanMutation])
+
   // 处理返回按钮点击
   const handleBackClick = React.useCallback(() => {
     router.back()
@@ -366,13 +529,49 @@ export default function CustomerDetailPage({ params }: { params: Promise<{ id: s
               />
             )}
 
-            {/* 时间轴区域 */}
+            {/* 待同步的跟进记录 */}
+            <PendingFollowUps
+              items={outbox.items}
+              isSyncing={outbox.isSyncing}
+              onRetry={outbox.retry}
+              onDiscard={outbox.discard}
+            />
+
+            {/* 时间轴和附件区域 */}
             <div>
-              <h2 className="text-lg font-semibold mb-4">跟进记录</h2>
-              <TimelineView
-                followUpRecords={followUpRecords}
-                isLoading={isLoadingFollowUps}
-              />
+              <div className="flex items-center space-x-6 border-b mb-4">
+                {([
+                  ['timeline', '跟进记录'],
+                  ['attachments', '所有附件'],
+                ] as const).map(([tab, label]) => (
+                  <button
+                    key={tab}
+                    type="button"
+                    onClick={() => setActiveTab(tab)}
+                    className={cn(
+                      '-mb-px border-b-2 pb-2 text-lg font-semibold transition-colors',
+                      activeTab === tab
+                        ? 'border-primary text-foreground'
+                        : 'border-transparent text-muted-foreground hover:text-foreground'
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {activeTab === 'timeline' ? (
+                <TimelineView
+                  followUpRecords={followUpRecords}
+                  isLoading={isLoadingFollowUps}
+                  highlightedRecordId={highlightedRecordId}
+                  onEditRecord={handleEditFollowUp}
+                  onDeleteRecord={handleDeleteFollowUp}
+                  onUpdatePlan={handleUpdatePlan}
+                />
+              ) : (
+                <CustomerAttachments customerId={customerId} />
+              )}
             </div>
           </div>
         </div>
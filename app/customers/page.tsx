@@ -9,8 +9,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Card3D } from '@/components/ui/card-3d'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { ThemeToggle } from '@/components/ui/theme-toggle'
-import { Building, Users, ArrowRight, Calendar } from 'lucide-react'
+import { Building, Users, ArrowRight, Calendar, CalendarCheck } from 'lucide-react'
 import { prisma } from '@/lib/prisma'
+import { getCurrentUser, type CurrentUser } from '@/lib/auth'
+import { customerScope } from '@/lib/permissions'
+import { UserMenu } from '@/components/auth/UserMenu'
+import { PushReminderSettings } from '@/components/notifications/PushReminderSettings'
+import { redirect } from 'next/navigation'
 import { format, differenceInDays, isToday, isYesterday, isTomorrow, startOfDay } from 'date-fns'
 import { zhCN } from 'date-fns/locale'
 // import type { Customer as PrismaCustomer, User } from '@/app/generated/prisma'
@@ -122,12 +127,13 @@ function formatFollowUpDate(dateString: string): { text: string; color: string }
 }
 
 /**
- * 获取所有客户数据（暂时显示所有客户，包括公共客户和私有客户）
+ * 获取当前用户可见的客户数据
  */
-async function getCustomers(): Promise<Customer[]> {
+async function getCustomers(currentUser: CurrentUser): Promise<Customer[]> {
   try {
-    // 暂时显示所有客户（包括 userId 为 null 的公共客户和有 userId 的私有客户）
+    // 按角色限定可见范围：销售只看自己的客户，经理和管理员看管理范围内的客户
     const customers = await prisma.customer.findMany({
+      where: customerScope(currentUser),
       include: {
         user: {
           select: {
@@ -139,7 +145,8 @@ async function getCustomers(): Promise<Customer[]> {
         _count: {
           select: {
             followUpRecords: true,
-            nextStepPlans: true,
+            // 仅统计待办状态的计划
+            nextStepPlans: { where: { status: 'PENDING' } },
           },
         },
         followUpRecords: {
@@ -210,7 +217,12 @@ async function getCustomers(): Promise<Customer[]> {
  */
 export const revalidate = 0; // 禁用缓存，每次请求都重新生成
 export default async function CustomersPage() {
-  const customers = await getCustomers()
+  const currentUser = await getCurrentUser()
+  if (!currentUser) {
+    redirect('/login?callbackUrl=/customers')
+  }
+
+  const customers = await getCustomers(currentUser)
 
   // 添加缓存破坏头
   const headers = new Headers()
@@ -220,8 +232,16 @@ export default async function CustomersPage() {
 
   return (
     <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 lg:py-8">
-      {/* 主题切换按钮 */}
-      <div className="fixed top-3 sm:top-4 right-3 sm:right-4 z-50">
+      {/* 用户菜单和主题切换按钮 */}
+      <div className="fixed top-3 sm:top-4 right-3 sm:right-4 z-50 flex items-center space-x-2">
+        <Link href="/todos">
+          <Button variant="outline" size="sm" className="flex items-center space-x-1">
+            <CalendarCheck className="h-4 w-4" />
+            <span className="hidden sm:inline">待办事项</span>
+          </Button>
+        </Link>
+        <PushReminderSettings />
+        <UserMenu name={currentUser.name} />
         <ThemeToggle />
       </div>
 
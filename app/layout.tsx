@@ -1,6 +1,7 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Inter, Noto_Sans_SC } from "next/font/google";
 import { Providers } from "./providers";
+import { PwaShell } from "@/components/pwa/PwaShell";
 import "./globals.css";
 
 // 环境变量验证 - 必须在应用启动时执行
@@ -23,6 +24,26 @@ export const metadata: Metadata = {
   title: "智能CRM客户跟进工具",
   description: "通过AI驱动的极致易用工具，将销售从繁琐的客户跟进记录中解放出来",
   keywords: "CRM, 客户管理, 跟进记录, 语音转文字, 销售工具",
+  applicationName: "客户跟进",
+  appleWebApp: {
+    capable: true,
+    title: "客户跟进",
+    statusBarStyle: "default",
+  },
+  icons: {
+    apple: "/icons/apple-touch-icon.png",
+  },
+};
+
+export const viewport: Viewport = {
+  width: "device-width",
+  initialScale: 1,
+  // 全面屏手机上底部导航需要用 safe-area-inset 避开系统手势区域
+  viewportFit: "cover",
+  themeColor: [
+    { media: "(prefers-color-scheme: light)", color: "#3b82f6" },
+    { media: "(prefers-color-scheme: dark)", color: "#050a15" },
+  ],
 };
 
 export default function RootLayout({
@@ -37,6 +58,7 @@ export default function RootLayout({
       >
         <Providers>
           {children}
+          <PwaShell />
         </Providers>
       </body>
     </html>
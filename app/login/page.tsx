@@ -0,0 +1,139 @@
+/**
+ * 登录页面
+ * 使用邮箱和密码登录，登录成功后跳转回原访问页面
+ */
+
+'use client'
+
+import * as React from 'react'
+import { Suspense, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { signIn } from 'next-auth/react'
+import { Loader2, LogIn } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ThemeToggle } from '@/components/ui/theme-toggle'
+
+/**
+ * 登录表单组件
+ *
+ * @returns {JSX.Element} 登录表单
+ */
+function LoginForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const callbackUrl = searchParams.get('callbackUrl') || '/customers'
+
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  /**
+   * 提交登录表单
+   */
+  const handleSubmit = React.useCallback(async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setError(null)
+    setIsSubmitting(true)
+
+    try {
+      const result = await signIn('credentials', {
+        email,
+        password,
+        redirect: false,
+      })
+
+      if (!result || result.error) {
+        setError('邮箱或密码错误')
+        return
+      }
+
+      router.replace(callbackUrl)
+      router.refresh()
+    } catch (signInError) {
+      console.error('登录失败:', signInError)
+      setError('登录失败，请稍后重试')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }, [email, password, callbackUrl, router])
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="email">邮箱</Label>
+        <Input
+          id="email"
+          type="email"
+          autoComplete="email"
+          placeholder="name@company.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          disabled={isSubmitting}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="password">密码</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          disabled={isSubmitting}
+          required
+        />
+      </div>
+
+      {error && (
+        <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+          {error}
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {isSubmitting ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <LogIn className="h-4 w-4 mr-2" />
+        )}
+        登录
+      </Button>
+    </form>
+  )
+}
+
+/**
+ * 登录页面组件
+ *
+ * @returns {JSX.Element} 登录页面
+ */
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      {/* 主题切换按钮 */}
+      <div className="fixed top-4 right-4 z-50">
+        <ThemeToggle />
+      </div>
+
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-xl">登录智能CRM</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            使用公司邮箱和密码登录
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Suspense>
+            <LoginForm />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
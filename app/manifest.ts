@@ -0,0 +1,37 @@
+/**
+ * Web App Manifest
+ * 支持将应用添加到手机主屏幕，以独立窗口打开客户列表
+ */
+
+import type { MetadataRoute } from 'next'
+
+/**
+ * 生成 /manifest.webmanifest
+ *
+ * @returns {MetadataRoute.Manifest} 应用清单
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: '智能CRM客户跟进工具',
+    short_name: '客户跟进',
+    description: '随时随地记录客户跟进，离线时也能查看最近访问的客户',
+    id: '/customers',
+    start_url: '/customers',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#f5f8ff',
+    theme_color: '#3b82f6',
+    lang: 'zh-CN',
+    icons: [
+      { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/icons/icon-maskable-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+    ],
+    shortcuts: [
+      { name: '客户', url: '/customers', icons: [{ src: '/icons/icon-192.png', sizes: '192x192' }] },
+      { name: '待办', url: '/todos', icons: [{ src: '/icons/icon-192.png', sizes: '192x192' }] },
+    ],
+  }
+}
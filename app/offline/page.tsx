@@ -0,0 +1,40 @@
+/**
+ * 离线页面
+ * 由 Service Worker 预缓存，离线访问未缓存的页面时显示，列出可以离线查看的客户
+ */
+
+import Link from 'next/link'
+import type { Metadata } from 'next'
+import { CloudOff } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { OfflineCustomers } from '@/components/pwa/OfflineCustomers'
+
+export const metadata: Metadata = {
+  title: '离线 - 智能CRM客户跟进工具',
+}
+
+/**
+ * 离线页面组件
+ *
+ * @returns {JSX.Element} 离线提示
+ */
+export default function OfflinePage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-md px-4 py-12 space-y-6">
+        <div className="text-center">
+          <CloudOff className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h1 className="text-xl font-semibold mb-2">当前处于离线状态</h1>
+          <p className="text-sm text-muted-foreground mb-4">
+            该页面尚未缓存，恢复网络连接后即可访问。离线时记录的跟进会在联网后自动同步。
+          </p>
+          <Link href="/customers">
+            <Button variant="outline">返回客户列表</Button>
+          </Link>
+        </div>
+
+        <OfflineCustomers />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,402 @@
+/**
+ * 待办事项页面
+ * 跨客户展示下一步计划，按到期日期分组，支持筛选和快速完成、改期
+ */
+
+'use client'
+
+import * as React from 'react'
+import { useState } from 'react'
+import Link from 'next/link'
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { format, isToday, isTomorrow, isYesterday, startOfDay } from 'date-fns'
+import { zhCN } from 'date-fns/locale'
+import { ArrowLeft, ArrowRight, CalendarCheck, Building, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { ThemeToggle } from '@/components/ui/theme-toggle'
+import { useToast } from '@/components/ui/use-toast'
+import { PlanItem } from '@/components/followup/PlanItem'
+import { PushReminderSettings } from '@/components/notifications/PushReminderSettings'
+import { cn } from '@/lib/utils'
+import {
+  PLAN_STATUS_LABELS,
+  PlanListItemResponse,
+  PlanScope,
+  PlanDueFilter,
+  UpdatePlanRequest,
+} from '@/lib/types/followup'
+import { PlanStatus } from '@/app/generated/prisma'
+
+/**
+ * 待办列表筛选条件
+ */
+interface PlanFilters {
+  scope: PlanScope
+  due: PlanDueFilter | 'all'
+  status: PlanStatus | 'all'
+}
+
+/**
+ * 待办列表分页数据
+ */
+interface PlanPage {
+  plans: PlanListItemResponse[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    pages: number
+  }
+}
+
+/**
+ * 按到期日期分组后的计划
+ */
+interface PlanGroup {
+  key: string
+  label: string
+  isOverdue: boolean
+  plans: PlanListItemResponse[]
+}
+
+/**
+ * 范围筛选选项
+ */
+const SCOPE_OPTIONS: Array<{ value: PlanScope; label: string }> = [
+  { value: 'mine', label: '我的' },
+  { value: 'team', label: '团队' },
+]
+
+/**
+ * 时间筛选选项
+ */
+const DUE_OPTIONS: Array<{ value: PlanFilters['due']; label: string }> = [
+  { value: 'all', label: '全部' },
+  { value: 'overdue', label: '已逾期' },
+  { value: 'today', label: '今天' },
+  { value: 'week', label: '本周' },
+]
+
+/**
+ * 状态筛选选项
+ */
+const STATUS_OPTIONS: Array<{ value: PlanFilters['status']; label: string }> = [
+  { value: 'PENDING', label: PLAN_STATUS_LABELS.PENDING },
+  { value: 'DONE', label: PLAN_STATUS_LABELS.DONE },
+  { value: 'CANCELLED', label: PLAN_STATUS_LABELS.CANCELLED },
+  { value: 'all', label: '全部状态' },
+]
+
+/**
+ * 获取待办列表的查询键
+ */
+const getPlansQueryKey = (filters: PlanFilters) => ['plans', filters]
+
+/**
+ * 每页加载的计划数量
+ */
+const PAGE_SIZE = 50
+
+/**
+ * 获取待办列表数据
+ */
+const fetchPlans = async (filters: PlanFilters, page: number): Promise<PlanPage> => {
+  const params = new URLSearchParams({
+    scope: filters.scope,
+    status: filters.status,
+    page: String(page),
+    limit: String(PAGE_SIZE),
+  })
+  if (filters.due !== 'all') {
+    params.set('due', filters.due)
+  }
+
+  const response = await fetch(`/api/plans?${params.toString()}`)
+
+  if (!response.ok) {
+    throw new Error('获取待办事项失败')
+  }
+
+  const result = await response.json()
+  return result.data
+}
+
+/**
+ * 更新下一步计划
+ */
+const updatePlan = async ({
+  planId,
+  data,
+}: {
+  planId: string
+  data: UpdatePlanRequest
+}): Promise<string> => {
+  const response = await fetch(`/api/plans/${planId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  })
+
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || '更新计划失败')
+  }
+  return result.message
+}
+
+/**
+ * 获取日期分组标签
+ */
+const getDayLabel = (date: Date): string => {
+  const dayText = format(date, 'M月d日 EEEE', { locale: zhCN })
+  if (isToday(date)) return `今天 · ${dayText}`
+  if (isTomorrow(date)) return `明天 · ${dayText}`
+  if (isYesterday(date)) return `昨天 · ${dayText}`
+  return dayText
+}
+
+/**
+ * 按到期日期分组，逾期未完成的计划单独归为一组置顶
+ *
+ * @param plans 按到期时间正序排列的计划
+ * @param now 当前时间
+ * @returns {PlanGroup[]} 分组结果
+ */
+const groupPlansByDueDate = (plans: PlanListItemResponse[], now: Date): PlanGroup[] => {
+  const overdue: PlanListItemResponse[] = []
+  const groups = new Map<string, PlanGroup>()
+
+  for (const plan of plans) {
+    const dueDate = new Date(plan.dueDate)
+
+    if (plan.status === 'PENDING' && dueDate < now) {
+      overdue.push(plan)
+      continue
+    }
+
+    const key = format(startOfDay(dueDate), 'yyyy-MM-dd')
+    const group = groups.get(key)
+    if (group) {
+      group.plans.push(plan)
+    } else {
+      groups.set(key, { key, label: getDayLabel(dueDate), isOverdue: false, plans: [plan] })
+    }
+  }
+
+  const result = Array.from(groups.values())
+  if (overdue.length > 0) {
+    result.unshift({ key: 'overdue', label: '已逾期', isOverdue: true, plans: overdue })
+  }
+  return result
+}
+
+/**
+ * 筛选按钮组
+ */
+function FilterChips<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: Array<{ value: T; label: string }>
+  value: T
+  onChange: (value: T) => void
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => (
+        <Button
+          key={option.value}
+          type="button"
+          variant={value === option.value ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onChange(option.value)}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * 待办事项页面组件
+ *
+ * @returns {JSX.Element} 待办事项页面
+ */
+export default function TodosPage() {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [filters, setFilters] = useState<PlanFilters>({
+    scope: 'mine',
+    due: 'all',
+    status: 'PENDING',
+  })
+
+  // 获取待办列表，按到期时间分页加载
+  const {
+    data,
+    isLoading,
+    error,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: getPlansQueryKey(filters),
+    queryFn: ({ pageParam }) => fetchPlans(filters, pageParam),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination.page < lastPage.pagination.pages ? lastPage.pagination.page + 1 : undefined,
+    staleTime: 0,
+  })
+
+  const plans = React.useMemo(() => data?.pages.flatMap((page) => page.plans) ?? [], [data])
+  const total = data?.pages[0]?.pagination.total ?? 0
+
+  // 更新计划的mutation
+  const updatePlanMutation = useMutation({
+    mutationFn: updatePlan,
+    onSuccess: (message) => {
+      // 客户详情页的时间轴也展示计划状态，一并刷新
+      queryClient.invalidateQueries({ queryKey: ['plans'] })
+      queryClient.invalidateQueries({ queryKey: ['followups'] })
+
+      toast({
+        title: '成功',
+        description: message,
+      })
+    },
+    onError: (error: Error) => {
+      console.error('更新计划失败:', error)
+      toast({
+        title: '错误',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  // 处理更新计划
+  const handleUpdatePlan = React.useCallback(async (planId: string, data: UpdatePlanRequest) => {
+    await updatePlanMutation.mutateAsync({ planId, data })
+  }, [updatePlanMutation])
+
+  const groups = React.useMemo(() => groupPlansByDueDate(plans, new Date()), [plans])
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* 提醒设置和主题切换按钮 */}
+      <div className="fixed top-4 right-4 z-50 flex items-center space-x-2">
+        <PushReminderSettings />
+        <ThemeToggle />
+      </div>
+
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 lg:py-8 max-w-3xl">
+        {/* 页面头部 */}
+        <div className="mb-6 space-y-2">
+          <Link href="/customers">
+            <Button variant="ghost" size="sm" className="flex items-center space-x-2 -ml-2">
+              <ArrowLeft className="h-4 w-4" />
+              <span>客户列表</span>
+            </Button>
+          </Link>
+          <h1 className="text-2xl sm:text-3xl font-bold">待办事项</h1>
+          <p className="text-sm text-muted-foreground">
+            按到期日期分组 - 逾期未完成的计划排在最前面
+          </p>
+        </div>
+
+        {/* 筛选条件 */}
+        <div className="mb-6 space-y-3">
+          <FilterChips
+            options={SCOPE_OPTIONS}
+            value={filters.scope}
+            onChange={(scope) => setFilters((prev) => ({ ...prev, scope }))}
+          />
+          <FilterChips
+            options={DUE_OPTIONS}
+            value={filters.due}
+            onChange={(due) => setFilters((prev) => ({ ...prev, due }))}
+          />
+          <FilterChips
+            options={STATUS_OPTIONS}
+            value={filters.status}
+            onChange={(status) => setFilters((prev) => ({ ...prev, status }))}
+          />
+        </div>
+
+        {/* 待办列表 */}
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <div key={index} className="h-24 bg-muted rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <h2 className="text-xl font-semibold text-destructive mb-2">加载失败</h2>
+            <p className="text-muted-foreground">{error.message}</p>
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <CalendarCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <h3 className="text-lg font-medium mb-2">暂无待办事项</h3>
+            <p className="text-sm">当前筛选条件下没有计划</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {groups.map((group) => (
+              <section key={group.key} className="space-y-2">
+                <h2 className={cn(
+                  'text-sm font-semibold',
+                  group.isOverdue ? 'text-destructive' : 'text-muted-foreground'
+                )}>
+                  {group.label}
+                  <span className="ml-2 font-normal">{group.plans.length}</span>
+                </h2>
+
+                {group.plans.map((plan) => (
+                  <Card key={plan.id} className="p-3 space-y-2">
+                    {/* 跳转到客户时间轴并高亮来源跟进记录 */}
+                    <Link
+                      href={`/customers/${plan.customer.id}?highlight=${plan.followUpRecordId}`}
+                      className="flex items-center justify-between text-sm font-medium hover:text-primary"
+                    >
+                      <span className="flex items-center space-x-2 min-w-0">
+                        <Building className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                        <span className="truncate">{plan.customer.name}</span>
+                      </span>
+                      <ArrowRight className="h-4 w-4 flex-shrink-0" />
+                    </Link>
+                    <PlanItem plan={plan} onUpdate={handleUpdatePlan} />
+                  </Card>
+                ))}
+              </section>
+            ))}
+
+            {/* 未全部加载时提示总数，分组计数仅统计已加载的计划 */}
+            {hasNextPage && (
+              <div className="flex flex-col items-center space-y-2 py-2">
+                <p className="text-xs text-muted-foreground">
+                  已显示 {plans.length} / {total} 条
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  加载更多
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
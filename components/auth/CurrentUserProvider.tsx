@@ -0,0 +1,47 @@
+/**
+ * CurrentUserProvider组件
+ * 向客户端组件提供服务端渲染时的登录用户ID，离线时也能区分本地数据属于哪个用户
+ */
+
+'use client'
+
+import * as React from 'react'
+
+const CurrentUserIdContext = React.createContext<string | null>(null)
+
+/**
+ * 当前用户Provider Props接口
+ */
+export interface CurrentUserProviderProps {
+  /** 当前登录用户ID */
+  userId: string
+  children: React.ReactNode
+}
+
+/**
+ * 当前用户Provider组件
+ *
+ * @param props 组件属性
+ * @returns {JSX.Element} Provider组件
+ */
+export function CurrentUserProvider({ userId, children }: CurrentUserProviderProps) {
+  return (
+    <CurrentUserIdContext.Provider value={userId}>
+      {children}
+    </CurrentUserIdContext.Provider>
+  )
+}
+
+/**
+ * 获取当前登录用户ID
+ *
+ * @returns {string} 当前用户ID
+ * @throws {Error} 未在 CurrentUserProvider 内使用
+ */
+export function useCurrentUserId(): string {
+  const userId = React.useContext(CurrentUserIdContext)
+  if (!userId) {
+    throw new Error('useCurrentUserId 必须在 CurrentUserProvider 内使用')
+  }
+  return userId
+}
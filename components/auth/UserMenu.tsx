@@ -0,0 +1,59 @@
+/**
+ * UserMenu组件
+ * 显示当前登录用户并提供退出登录操作
+ */
+
+'use client'
+
+import * as React from 'react'
+import { signOut } from 'next-auth/react'
+import { LogOut } from 'lucide-react'
+import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { clearOfflineData } from '@/lib/pwa'
+
+/**
+ * 用户菜单Props接口
+ */
+export interface UserMenuProps {
+  /** 当前用户姓名 */
+  name: string
+  /** 自定义类名 */
+  className?: string
+}
+
+/**
+ * 用户菜单组件
+ *
+ * @param props 组件属性
+ * @returns {JSX.Element} 用户菜单组件
+ */
+export function UserMenu({ name, className }: UserMenuProps) {
+  /**
+   * 清除离线缓存的客户数据和本地保存的跟进草稿、待同步记录后退出登录并返回登录页
+   */
+  const handleSignOut = React.useCallback(async () => {
+    await clearOfflineData().catch((error) => console.error('清除离线数据失败:', error))
+    signOut({ callbackUrl: '/login' })
+  }, [])
+
+  return (
+    <div className={cn('flex items-center space-x-2', className)}>
+      <Avatar className="h-7 w-7">
+        <AvatarFallback className="text-xs">{name.charAt(0)}</AvatarFallback>
+      </Avatar>
+      <span className="hidden sm:inline text-sm font-medium">{name}</span>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={handleSignOut}
+        className="h-8 px-2"
+        title="退出登录"
+      >
+        <LogOut className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
@@ -13,6 +13,7 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { useToast } from '@/components/ui/use-toast'
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key'
 import { Building, User, Loader2 } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
@@ -60,12 +61,16 @@ type CustomerFormData = z.infer<typeof customerSchema>
 
 /**
  * 创建客户 API 函数
+ *
+ * @param data 客户数据
+ * @param idempotencyKey 幂等键，重复提交时服务端只创建一次
  */
-async function createCustomer(data: CustomerFormData) {
+async function createCustomer({ data, idempotencyKey }: { data: CustomerFormData; idempotencyKey: string }) {
   const response = await fetch('/api/customers', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      'Idempotency-Key': idempotencyKey,
     },
     body: JSON.stringify(data),
   })
@@ -103,6 +108,7 @@ export function CustomerForm({ initialData, onSuccess }: CustomerFormProps) {
   const queryClient = useQueryClient()
   const { toast } = useToast()
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const idempotencyKey = useIdempotencyKey()
 
   // 初始化表单
   const form = useForm<CustomerFormData>({
@@ -120,6 +126,7 @@ export function CustomerForm({ initialData, onSuccess }: CustomerFormProps) {
   const createCustomerMutation = useMutation({
     mutationFn: createCustomer,
     onSuccess: (data) => {
+      idempotencyKey.rotate()
       toast({
         title: '操作成功',
         description: '客户创建成功',
@@ -149,7 +156,8 @@ export function CustomerForm({ initialData, onSuccess }: CustomerFormProps) {
   const onSubmit = async (data: CustomerFormData) => {
     setIsSubmitting(true)
 
-    await createCustomerMutation.mutateAsync(data)
+    // 连续点击或失败后重试时使用同一个幂等键，避免重复创建客户
+    await createCustomerMutation.mutateAsync({ data, idempotencyKey: idempotencyKey.getKey(data) })
   }
 
   return (
@@ -0,0 +1,295 @@
+/**
+ * AttachmentViewer组件
+ * 页面内附件查看器：图片灯箱（可在一组附件间切换）、PDF 逐页预览和纯文本预览，
+ * 其他类型的文件提示下载
+ */
+
+'use client'
+
+import * as React from 'react'
+import { ChevronLeft, ChevronRight, Download, FileText, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { PdfViewer } from '@/components/followup/PdfViewer'
+import { cn, formatFileSize } from '@/lib/utils'
+import { getAttachmentDownloadUrl } from '@/lib/attachment-url'
+import { AttachmentResponse } from '@/lib/types/followup'
+
+/**
+ * 文本预览的最大字符数，超出部分提示下载查看
+ */
+const MAX_TEXT_PREVIEW_LENGTH = 200_000
+
+/**
+ * 附件查看器Props接口
+ */
+export interface AttachmentViewerProps {
+  /** 可切换查看的附件 */
+  attachments: AttachmentResponse[]
+  /** 当前查看的附件序号，为 null 时关闭 */
+  index: number | null
+  /** 切换附件回调 */
+  onIndexChange: (index: number) => void
+  /** 关闭回调 */
+  onClose: () => void
+}
+
+/**
+ * 下载附件
+ */
+export const downloadAttachment = (attachment: AttachmentResponse) => {
+  // 创建一个隐藏的a标签来触发下载
+  const link = document.createElement('a')
+  link.href = getAttachmentDownloadUrl(attachment.id)
+  link.download = attachment.fileName
+  link.target = '_blank'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
+/**
+ * 纯文本预览组件
+ */
+const TextPreview: React.FC<{ url: string }> = ({ url }) => {
+  const [text, setText] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    const controller = new AbortController()
+    setText(null)
+    setError(null)
+
+    fetch(url, { signal: controller.signal })
+      .then((response) => {
+        if (!response.ok) throw new Error('获取文件失败')
+        return response.text()
+      })
+      .then(setText)
+      .catch((fetchError) => {
+        if (controller.signal.aborted) return
+        console.error('加载文本预览失败:', fetchError)
+        setError('文本加载失败，请下载后查看')
+      })
+
+    return () => controller.abort()
+  }, [url])
+
+  if (error) {
+    return <p className="text-center text-sm text-white/70 py-12">{error}</p>
+  }
+
+  if (text === null) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="h-8 w-8 animate-spin rounded-full border-2 border-white/70 border-t-transparent" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full max-w-4xl rounded-md bg-background p-4">
+      <pre className="whitespace-pre-wrap break-words text-sm font-mono">
+        {text.slice(0, MAX_TEXT_PREVIEW_LENGTH)}
+      </pre>
+      {text.length > MAX_TEXT_PREVIEW_LENGTH && (
+        <p className="mt-4 text-xs text-muted-foreground">文件较大，仅显示前 {MAX_TEXT_PREVIEW_LENGTH} 个字符，请下载查看完整内容</p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * 附件查看器组件
+ *
+ * 支持键盘操作：Esc 关闭，左右方向键切换附件
+ *
+ * @param props 组件属性
+ * @returns {JSX.Element | null} 附件查看器组件
+ */
+export function AttachmentViewer({
+  attachments,
+  index,
+  onIndexChange,
+  onClose,
+}: AttachmentViewerProps) {
+  const attachment = index !== null ? attachments[index] : undefined
+  const hasPrevious = index !== null && index > 0
+  const hasNext = index !== null && index < attachments.length - 1
+
+  const showPrevious = React.useCallback(() => {
+    if (hasPrevious) onIndexChange(index! - 1)
+  }, [hasPrevious, index, onIndexChange])
+
+  const showNext = React.useCallback(() => {
+    if (hasNext) onIndexChange(index! + 1)
+  }, [hasNext, index, onIndexChange])
+
+  // 键盘操作
+  React.useEffect(() => {
+    if (!attachment) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+      if (e.key === 'ArrowLeft') showPrevious()
+      if (e.key === 'ArrowRight') showNext()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [attachment, onClose, showPrevious, showNext])
+
+  // 打开时禁止页面滚动
+  React.useEffect(() => {
+    if (!attachment) return
+
+    const overflow = document.body.style.overflow
+    document.body.style.overflow = 'hidden'
+    return () => {
+      document.body.style.overflow = overflow
+    }
+  }, [attachment])
+
+  if (!attachment) return null
+
+  const inlineUrl = getAttachmentDownloadUrl(attachment.id, { disposition: 'inline' })
+
+  const renderContent = () => {
+    switch (attachment.fileType) {
+      case 'image':
+        return (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            key={attachment.id}
+            src={attachment.webUrl ?? inlineUrl}
+            alt={attachment.fileName}
+            className="max-h-full max-w-full object-contain"
+          />
+        )
+      case 'pdf':
+        return <PdfViewer key={attachment.id} url={inlineUrl} className="max-w-4xl" />
+      case 'text':
+        return <TextPreview key={attachment.id} url={inlineUrl} />
+      default:
+        return (
+          <div className="text-center text-white/80 space-y-4 py-12">
+            <FileText className="h-12 w-12 mx-auto opacity-60" />
+            <p className="text-sm">该文件类型暂不支持预览</p>
+            <Button variant="secondary" size="sm" onClick={() => downloadAttachment(attachment)}>
+              <Download className="h-4 w-4 mr-2" />
+              下载文件
+            </Button>
+          </div>
+        )
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col bg-black/90"
+      role="dialog"
+      aria-modal="true"
+      aria-label={attachment.fileName}
+    >
+      {/* 顶部栏 */}
+      <div className="flex items-center justify-between gap-4 px-4 py-3 text-white">
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{attachment.fileName}</p>
+          <p className="text-xs text-white/60">
+            {attachments.length > 1 && `${index! + 1} / ${attachments.length}`}
+            {attachments.length > 1 && attachment.fileSize ? ' · ' : ''}
+            {attachment.fileSize ? formatFileSize(attachment.fileSize) : ''}
+          </p>
+        </div>
+        <div className="flex items-center space-x-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white hover:bg-white/10 hover:text-white"
+            onClick={() => downloadAttachment(attachment)}
+            title="下载文件"
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white hover:bg-white/10 hover:text-white"
+            onClick={onClose}
+            title="关闭"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* 内容区域，点击空白处关闭 */}
+      <div
+        className="relative flex flex-1 min-h-0 items-start justify-center overflow-auto px-4 pb-4 sm:px-16"
+        onClick={(e) => {
+          if (e.target === e.currentTarget) onClose()
+        }}
+      >
+        <div className={cn(
+          'flex w-full justify-center',
+          attachment.fileType === 'image' && 'h-full items-center'
+        )}>
+          {renderContent()}
+        </div>
+      </div>
+
+      {/* 切换按钮 */}
+      {hasPrevious && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="absolute left-2 top-1/2 -translate-y-1/2 h-10 w-10 p-0 rounded-full bg-black/40 text-white hover:bg-black/60 hover:text-white"
+          onClick={showPrevious}
+          title="上一个"
+        >
+          <ChevronLeft className="h-6 w-6" />
+        </Button>
+      )}
+      {hasNext && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="absolute right-2 top-1/2 -translate-y-1/2 h-10 w-10 p-0 rounded-full bg-black/40 text-white hover:bg-black/60 hover:text-white"
+          onClick={showNext}
+          title="下一个"
+        >
+          <ChevronRight className="h-6 w-6" />
+        </Button>
+      )}
+
+      {/* 缩略图导航 */}
+      {attachments.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto px-4 py-3 justify-center">
+          {attachments.map((item, itemIndex) => (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => onIndexChange(itemIndex)}
+              className={cn(
+                'flex-shrink-0 h-12 w-12 rounded overflow-hidden border-2 bg-white/10',
+                itemIndex === index ? 'border-white' : 'border-transparent opacity-60 hover:opacity-100'
+              )}
+              title={item.fileName}
+            >
+              {item.fileType === 'image' ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={item.thumbnailUrl ?? getAttachmentDownloadUrl(item.id, { disposition: 'inline' })}
+                  alt={item.fileName}
+                  loading="lazy"
+                  className="h-full w-full object-cover"
+                />
+              ) : (
+                <FileText className="h-5 w-5 mx-auto text-white/70" />
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,262 @@
+/**
+ * CustomerAttachments组件
+ * 客户所有跟进记录中的附件，支持按文件类型、日期和文档内容筛选，点击在附件查看器中打开，
+ * 可将全部附件打包下载
+ */
+
+'use client'
+
+import * as React from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Archive, Download, FileText, Paperclip, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { AttachmentViewer, downloadAttachment } from '@/components/followup/AttachmentViewer'
+import { cn, formatDateTime, formatFileSize } from '@/lib/utils'
+import { getAttachmentDownloadUrl } from '@/lib/attachment-url'
+import {
+  ATTACHMENT_TYPE_LABELS,
+  AttachmentFileType,
+  CustomerAttachmentResponse,
+  FOLLOWUP_TYPE_LABELS,
+} from '@/lib/types/followup'
+
+/**
+ * 客户附件Props接口
+ */
+export interface CustomerAttachmentsProps {
+  /** 客户ID */
+  customerId: string
+  /** 自定义类名 */
+  className?: string
+}
+
+/**
+ * 附件筛选条件
+ */
+interface AttachmentFilters {
+  type: AttachmentFileType | 'all'
+  /** 开始日期（yyyy-MM-dd） */
+  from: string
+  /** 结束日期（yyyy-MM-dd），包含当天 */
+  to: string
+  /** 关键词，匹配文件名和文档内容 */
+  query: string
+}
+
+/**
+ * 获取客户附件的查询键
+ */
+export const getCustomerAttachmentsQueryKey = (customerId: string) => ['customer-attachments', customerId]
+
+/**
+ * 获取客户附件数据
+ *
+ * 日期按用户本地时区换算为时间范围后提交
+ */
+const fetchCustomerAttachments = async (
+  customerId: string,
+  filters: AttachmentFilters
+): Promise<CustomerAttachmentResponse[]> => {
+  const params = new URLSearchParams()
+  if (filters.type !== 'all') params.set('type', filters.type)
+  if (filters.query) params.set('q', filters.query)
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00:00`)
+    end.setDate(end.getDate() + 1)
+    params.set('to', end.toISOString())
+  }
+
+  const query = params.toString()
+  const response = await fetch(`/api/customers/${customerId}/attachments${query ? `?${query}` : ''}`)
+
+  if (!response.ok) {
+    throw new Error('获取附件失败')
+  }
+
+  const result = await response.json()
+  return result.data
+}
+
+/**
+ * 客户附件组件
+ *
+ * @param props 组件属性
+ * @returns {JSX.Element} 客户附件组件
+ */
+export function CustomerAttachments({ customerId, className }: CustomerAttachmentsProps) {
+  const [filters, setFilters] = React.useState<AttachmentFilters>({ type: 'all', from: '', to: '', query: '' })
+  const [queryInput, setQueryInput] = React.useState('')
+  const [viewerIndex, setViewerIndex] = React.useState<number | null>(null)
+
+  // 输入停止后再搜索
+  React.useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => (prev.query === queryInput.trim() ? prev : { ...prev, query: queryInput.trim() }))
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [queryInput])
+
+  const { data: attachments = [], isLoading, error } = useQuery({
+    queryKey: [...getCustomerAttachmentsQueryKey(customerId), filters],
+    queryFn: () => fetchCustomerAttachments(customerId, filters),
+  })
+
+  const hasFilters = filters.type !== 'all' || !!filters.from || !!filters.to || !!filters.query
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* 筛选条件 */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          type="search"
+          value={queryInput}
+          onChange={(e) => setQueryInput(e.target.value)}
+          placeholder="搜索文件名或文档内容，如产品型号"
+          className="pl-9"
+          aria-label="搜索附件"
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {(['all', ...Object.keys(ATTACHMENT_TYPE_LABELS)] as AttachmentFilters['type'][]).map((type) => (
+          <Button
+            key={type}
+            type="button"
+            variant={filters.type === type ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setFilters({ ...filters, type })}
+          >
+            {type === 'all' ? '全部' : ATTACHMENT_TYPE_LABELS[type]}
+          </Button>
+        ))}
+
+        <div className="flex items-center gap-2 sm:ml-auto">
+          <Input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className="h-9 w-auto"
+            aria-label="开始日期"
+          />
+          <span className="text-sm text-muted-foreground">至</span>
+          <Input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className="h-9 w-auto"
+            aria-label="结束日期"
+          />
+          {hasFilters && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setFilters({ type: 'all', from: '', to: '', query: '' })
+                setQueryInput('')
+              }}
+            >
+              清除
+            </Button>
+          )}
+          {/* 打包下载全部附件，不受筛选条件影响 */}
+          {(attachments.length > 0 || hasFilters) && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/customers/${customerId}/attachments/archive`} download>
+                <Archive className="h-4 w-4 mr-2" />
+                打包下载
+              </a>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* 附件列表 */}
+      {isLoading ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+          {Array.from({ length: 8 }).map((_, index) => (
+            <div key={index} className="h-40 bg-muted rounded-lg animate-pulse" />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-center text-sm text-destructive py-12">{error.message}</p>
+      ) : attachments.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <Paperclip className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p className="text-sm">{hasFilters ? '没有符合条件的附件' : '暂无附件'}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+          {attachments.map((attachment, index) => (
+            <Card key={attachment.id} className="overflow-hidden">
+              <button
+                type="button"
+                onClick={() => setViewerIndex(index)}
+                className="block w-full h-28 bg-muted"
+                title={attachment.fileName}
+              >
+                {attachment.fileType === 'image' ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={attachment.thumbnailUrl ?? getAttachmentDownloadUrl(attachment.id, { disposition: 'inline' })}
+                    alt={attachment.fileName}
+                    loading="lazy"
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <div className="flex h-full flex-col items-center justify-center gap-1 text-muted-foreground">
+                    <FileText className="h-8 w-8" />
+                    <span className="text-xs">
+                      {ATTACHMENT_TYPE_LABELS[attachment.fileType as AttachmentFileType] ?? '文件'}
+                    </span>
+                  </div>
+                )}
+              </button>
+              <div className="flex items-start gap-1 p-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate" title={attachment.fileName}>
+                    {attachment.fileName}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {formatDateTime(attachment.followUpRecord.createdAt)}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {FOLLOWUP_TYPE_LABELS[attachment.followUpRecord.followUpType]} · {attachment.followUpRecord.user.name}
+                    {attachment.fileSize ? ` · ${formatFileSize(attachment.fileSize)}` : ''}
+                  </p>
+                  {(attachment.textSnippet ?? attachment.textPreview) && (
+                    <p className="mt-1 text-xs text-muted-foreground line-clamp-3">
+                      {attachment.textSnippet ?? attachment.textPreview}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 flex-shrink-0"
+                  onClick={() => downloadAttachment(attachment)}
+                  title="下载文件"
+                >
+                  <Download className="h-3 w-3" />
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* 附件查看器，可在筛选结果间切换 */}
+      <AttachmentViewer
+        attachments={attachments}
+        index={viewerIndex}
+        onIndexChange={setViewerIndex}
+        onClose={() => setViewerIndex(null)}
+      />
+    </div>
+  )
+}
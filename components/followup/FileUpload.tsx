@@ -1,25 +1,37 @@
 /**
  * FileUpload组件
- * 文件上传组件，支持拖拽和点击上传
+ * 文件上传组件，支持拖拽和点击上传，显示每个文件的上传进度，失败的文件可以重试
+ *
+ * 配合 useFileUploads 使用，文件通过分片上传接口上传
  */
 
 'use client'
 
 import * as React from 'react'
 import { useCallback, useState } from 'react'
-import { Paperclip, X, File as FileIcon, Image, FileText } from 'lucide-react'
+import { Paperclip, X, File as FileIcon, Image, FileText, RotateCw, CheckCircle2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { cn, formatFileSize } from '@/lib/utils'
+import {
+  FileUploadItem,
+  MAX_UPLOAD_FILE_SIZE,
+  UPLOAD_ACCEPT,
+  validateUploadFile,
+} from '@/hooks/use-file-uploads'
 
 /**
  * 文件上传组件Props接口
  */
 export interface FileUploadProps {
-  /** 已上传的文件列表 */
-  files: File[]
-  /** 文件变更回调函数 */
-  onFilesChange: (files: File[]) => void
+  /** 上传队列 */
+  uploads: FileUploadItem[]
+  /** 选择文件回调函数 */
+  onAddFiles: (files: File[]) => void
+  /** 重试失败文件的回调函数 */
+  onRetry: (key: string) => void
+  /** 移除文件的回调函数 */
+  onRemove: (key: string) => void
   /** 最大文件数量 */
   maxFiles?: number
   /** 最大文件大小（字节） */
@@ -39,11 +51,13 @@ export interface FileUploadProps {
  * @returns {JSX.Element} 文件上传组件
  */
 export function FileUpload({
-  files,
-  onFilesChange,
+  uploads,
+  onAddFiles,
+  onRetry,
+  onRemove,
   maxFiles = 5,
-  maxFileSize = 5 * 1024 * 1024, // 5MB
-  accept = 'image/*,.pdf,.doc,.docx,.xls,.xlsx,.txt',
+  maxFileSize = MAX_UPLOAD_FILE_SIZE,
+  accept = UPLOAD_ACCEPT,
   disabled = false,
   className,
 }: FileUploadProps) {
@@ -51,40 +65,6 @@ export function FileUpload({
   const [uploadError, setUploadError] = useState<string | null>(null)
   const fileInputRef = React.useRef<HTMLInputElement>(null)
 
-  /**
-   * 验证文件
-   */
-  const validateFile = useCallback((file: File): string | null => {
-    // 检查文件大小
-    if (file.size > maxFileSize) {
-      return `文件 ${file.name} 大小超过限制 (${formatFileSize(maxFileSize)})`
-    }
-
-    // 检查文件类型
-    if (accept && accept !== '*') {
-      const acceptedTypes = accept.split(',').map(type => type.trim())
-      const isAccepted = acceptedTypes.some(type => {
-        if (type.startsWith('.')) {
-          // 文件扩展名检查
-          return file.name.toLowerCase().endsWith(type.toLowerCase())
-        } else {
-          // MIME类型检查
-          if (type.endsWith('/*')) {
-            const baseType = type.split('/*')[0]
-            return file.type.startsWith(baseType)
-          }
-          return file.type === type
-        }
-      })
-
-      if (!isAccepted) {
-        return `文件 ${file.name} 类型不被支持`
-      }
-    }
-
-    return null
-  }, [maxFileSize, accept])
-
   /**
    * 处理文件选择
    */
@@ -94,7 +74,7 @@ export function FileUpload({
     const errors: string[] = []
 
     // 检查文件数量限制
-    if (files.length + filesArray.length > maxFiles) {
+    if (uploads.length + filesArray.length > maxFiles) {
       errors.push(`最多只能上传 ${maxFiles} 个文件`)
       setUploadError(errors.join(', '))
       return
@@ -102,7 +82,7 @@ export function FileUpload({
 
     // 验证每个文件
     filesArray.forEach(file => {
-      const error = validateFile(file)
+      const error = validateUploadFile(file, accept, maxFileSize)
       if (error) {
         errors.push(error)
       } else {
@@ -116,10 +96,10 @@ export function FileUpload({
     }
 
     if (validFiles.length > 0) {
-      onFilesChange([...files, ...validFiles])
+      onAddFiles(validFiles)
       setUploadError(null)
     }
-  }, [files, maxFiles, validateFile, onFilesChange])
+  }, [uploads.length, maxFiles, accept, maxFileSize, onAddFiles])
 
   /**
    * 处理拖拽进入
@@ -177,14 +157,6 @@ export function FileUpload({
     e.target.value = ''
   }, [handleFiles])
 
-  /**
-   * 移除文件
-   */
-  const removeFile = useCallback((index: number) => {
-    const newFiles = files.filter((_, i) => i !== index)
-    onFilesChange(newFiles)
-  }, [files, onFilesChange])
-
   /**
    * 获取文件图标
    */
@@ -215,7 +187,7 @@ export function FileUpload({
   return (
     <div className={cn('space-y-3', className)}>
       {/* 文件上传区域 */}
-      {files.length < maxFiles && (
+      {uploads.length < maxFiles && (
         <Card
           className={cn(
             'border-2 border-dashed transition-colors cursor-pointer',
@@ -260,34 +232,70 @@ export function FileUpload({
         </div>
       )}
 
-      {/* 已上传文件列表 */}
-      {files.length > 0 && (
+      {/* 上传文件列表 */}
+      {uploads.length > 0 && (
         <div className="space-y-2">
-          <h4 className="text-sm font-medium">已上传文件 ({files.length}/{maxFiles})</h4>
+          <h4 className="text-sm font-medium">已选择文件 ({uploads.length}/{maxFiles})</h4>
           <div className="space-y-2">
-            {files.map((file, index) => (
-              <Card key={index} className="p-3">
+            {uploads.map((upload) => (
+              <Card key={upload.key} className="p-3">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-3 flex-1 min-w-0">
-                    {getFileIcon(file)}
+                    {getFileIcon(upload.file)}
                     <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate">{file.name}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {formatFileSize(file.size)}
+                      <p className="text-sm font-medium truncate">{upload.file.name}</p>
+                      <p className={cn(
+                        'text-xs',
+                        upload.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'
+                      )}>
+                        {formatFileSize(upload.file.size)}
+                        {upload.status === 'uploading' && ` · 上传中 ${upload.progress}%`}
+                        {upload.status === 'failed' && ` · ${upload.error}`}
                       </p>
                     </div>
                   </div>
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => removeFile(index)}
-                    disabled={disabled}
-                    className="text-muted-foreground hover:text-destructive"
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
+                  <div className="flex items-center">
+                    {upload.status === 'done' && (
+                      <CheckCircle2 className="h-4 w-4 text-primary mr-2" />
+                    )}
+                    {upload.status === 'failed' && upload.retryable && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onRetry(upload.key)}
+                        disabled={disabled}
+                        className="text-muted-foreground"
+                        title="从中断处继续上传"
+                      >
+                        <RotateCw className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRemove(upload.key)}
+                      disabled={disabled}
+                      className="text-muted-foreground hover:text-destructive"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
+
+                {/* 上传进度 */}
+                {upload.status !== 'done' && (
+                  <div className="mt-2 h-1 w-full overflow-hidden rounded bg-muted">
+                    <div
+                      className={cn(
+                        'h-full transition-all',
+                        upload.status === 'failed' ? 'bg-destructive' : 'bg-primary'
+                      )}
+                      style={{ width: `${upload.progress}%` }}
+                    />
+                  </div>
+                )}
               </Card>
             ))}
           </div>
@@ -7,7 +7,7 @@
 
 import * as React from 'react'
 import { useState, useCallback, useRef } from 'react'
-import { Plus, Minus, Send, Calendar as CalendarIcon, Paperclip, X, FileImage, FileText } from 'lucide-react'
+import { Plus, Minus, Send, Calendar as CalendarIcon, Paperclip, X, FileImage, FileText, RotateCw, Camera, Upload, Check, AlertCircle } from 'lucide-react'
 import { useForm, useController } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -18,24 +18,28 @@ import { Card } from '@/components/ui/card'
 import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
 import { VoiceInput } from './VoiceInput'
-import { format } from 'date-fns'
+import { format, startOfDay } from 'date-fns'
+import { TZDate } from '@date-fns/tz'
 import { useToast } from '@/components/ui/use-toast'
 import {
   FOLLOWUP_TYPE_LABELS,
   CreateFollowUpRequest,
 } from '@/lib/types/followup'
 import { FollowUpType } from '@/app/generated/prisma'
-
-/**
- * 文件信息接口
- */
-interface UploadedFile {
-  id: string
-  fileName: string
-  fileUrl: string
-  fileType: string
-  fileSize: number
-}
+import { UPLOAD_ACCEPT, useFileUploads, validateUploadFile } from '@/hooks/use-file-uploads'
+import { composeDictation, createDictationAnchor, DictationAnchor, VoiceCommand } from '@/lib/dictation'
+import { findDateExpression, formatDateExpression } from '@/lib/date-expression'
+import { useUserTimezone } from '@/hooks/use-user-timezone'
+import { FollowUpSubmitResult } from '@/hooks/use-followup-outbox'
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key'
+import { useCurrentUserId } from '@/components/auth/CurrentUserProvider'
+import { QUICK_LOG_EVENT } from '@/lib/pwa'
+import {
+  deleteFollowUpDraft,
+  DRAFT_UPLOAD_TTL_MS,
+  getFollowUpDraft,
+  saveFollowUpDraft,
+} from '@/lib/offline-store'
 
 /**
  * 表单验证Schema
@@ -58,6 +62,33 @@ const followUpFormSchema = z.object({
   path: ['nextStep']
 })
 
+/**
+ * 为粘贴的截图命名，剪贴板中的图片统一叫 image.png
+ */
+const nameClipboardFile = (file: File, index: number): File => {
+  const extension = file.type.split('/')[1] || 'png'
+  const suffix = index > 0 ? `_${index + 1}` : ''
+  return new File([file], `截图_${format(new Date(), 'yyyyMMdd_HHmmss')}${suffix}.${extension}`, {
+    type: file.type,
+    lastModified: file.lastModified,
+  })
+}
+
+/**
+ * 拖拽内容是否包含文件（拖入文字时按默认行为插入输入框）
+ */
+const hasDraggedFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files')
+
+/**
+ * 草稿保存的防抖时间
+ */
+const DRAFT_SAVE_DELAY_MS = 500
+
+/**
+ * 语音指令执行结果的显示时长
+ */
+const VOICE_COMMAND_FEEDBACK_MS = 3000
+
 /**
  * 表单数据类型
  */
@@ -69,8 +100,8 @@ type FollowUpFormData = z.infer<typeof followUpFormSchema>
 export interface InlineFollowUpInputProps {
   /** 客户ID */
   customerId: string
-  /** 提交回调函数 */
-  onSubmit: (data: CreateFollowUpRequest) => Promise<void>
+  /** 提交回调函数，离线时返回 'queued' 表示已加入待同步队列；内容相同的重复提交使用同一个幂等键 */
+  onSubmit: (data: CreateFollowUpRequest, idempotencyKey: string) => Promise<FollowUpSubmitResult | void>
   /** 是否禁用 */
   disabled?: boolean
   /** 自定义类名 */
@@ -93,20 +124,46 @@ export function InlineFollowUpInput({
   autoFocus = false,
 }: InlineFollowUpInputProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
-  const [isUploading, setIsUploading] = useState(false)
+  const {
+    items: uploadItems,
+    uploadedFiles,
+    isUploading,
+    addFiles,
+    retry: retryUpload,
+    remove: removeUpload,
+    restore: restoreUploads,
+    clear: clearUploads,
+  } = useFileUploads()
   const { toast } = useToast()
+  const timezone = useUserTimezone()
 
   const formRef = useRef<HTMLFormElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const cameraInputRef = useRef<HTMLInputElement>(null)
+  // dragenter/dragleave 在子元素间移动时成对触发，按层数判断是否离开输入区域
+  const dragDepthRef = useRef(0)
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+  // 听写中的插入位置，未在听写时为 null
+  const dictationRef = useRef<DictationAnchor | null>(null)
+  // 最近一次语音指令的执行结果
+  const [voiceCommandFeedback, setVoiceCommandFeedback] = useState<{ message: string; failed: boolean } | null>(null)
+  // 草稿读取完成前不保存，避免默认值覆盖已保存的草稿
+  const [isDraftLoaded, setIsDraftLoaded] = useState(false)
+  const [isDraftRestored, setIsDraftRestored] = useState(false)
+  // 已上传文件的上传完成时间，用于判断草稿中的文件是否过期
+  const uploadedAtRef = useRef(new Map<string, number>())
+  const idempotencyKey = useIdempotencyKey()
+  const userId = useCurrentUserId()
 
   const {
     control,
     handleSubmit,
     setValue,
+    getValues,
     watch,
     reset,
+    trigger,
     formState: { isValid },
   } = useForm<FollowUpFormData>({
     resolver: zodResolver(followUpFormSchema),
@@ -140,6 +197,111 @@ export function InlineFollowUpInput({
   const watchedFollowUpType = watch('followUpType')
   const hasNextStep = watch('hasNextStep')
   const nextStepDueDate = watch('nextStep.dueDate')
+  const watchedContent = watch('content')
+  const nextStepNotes = watch('nextStep.notes')
+
+  /**
+   * 读取并恢复该客户未发布的草稿，已过期的上传文件不再恢复
+   */
+  React.useEffect(() => {
+    let cancelled = false
+    setIsDraftLoaded(false)
+    setIsDraftRestored(false)
+
+    getFollowUpDraft(userId, customerId)
+      .then((draft) => {
+        // 读取期间已开始输入时不覆盖
+        if (cancelled || !draft || getValues('content')) return
+
+        // 保留默认值，发布后 reset() 清空为空白表单而不是草稿
+        reset({
+          content: draft.content,
+          followUpType: draft.followUpType,
+          hasNextStep: draft.hasNextStep,
+          nextStep: draft.nextStep?.dueDate ? draft.nextStep : getValues('nextStep'),
+        }, { keepDefaultValues: true })
+
+        const validFiles = draft.uploadedFiles.filter(({ uploadedAt }) => Date.now() - uploadedAt < DRAFT_UPLOAD_TTL_MS)
+        validFiles.forEach(({ file, uploadedAt }) => uploadedAtRef.current.set(file.id, uploadedAt))
+        restoreUploads(validFiles.map(({ file }) => file))
+        setIsDraftRestored(true)
+      })
+      .catch((error) => {
+        console.error('读取草稿失败:', error)
+      })
+      .finally(() => {
+        if (!cancelled) setIsDraftLoaded(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, customerId, getValues, reset, restoreUploads])
+
+  /**
+   * 输入变化后保存草稿，没有内容时删除草稿
+   */
+  React.useEffect(() => {
+    if (!isDraftLoaded) return
+
+    const timer = setTimeout(() => {
+      const isEmpty = !watchedContent && !hasNextStep && uploadedFiles.length === 0
+      const save = isEmpty
+        ? deleteFollowUpDraft(userId, customerId)
+        : saveFollowUpDraft({
+          userId,
+          customerId,
+          content: watchedContent,
+          followUpType: watchedFollowUpType,
+          hasNextStep,
+          nextStep: { dueDate: nextStepDueDate ?? '', notes: nextStepNotes },
+          uploadedFiles: uploadedFiles.map((file) => {
+            if (!uploadedAtRef.current.has(file.id)) uploadedAtRef.current.set(file.id, Date.now())
+            return { file, uploadedAt: uploadedAtRef.current.get(file.id)! }
+          }),
+          updatedAt: Date.now(),
+        })
+      save.catch((error) => {
+        console.error('保存草稿失败:', error)
+      })
+    }, DRAFT_SAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [
+    isDraftLoaded,
+    userId,
+    customerId,
+    watchedContent,
+    watchedFollowUpType,
+    hasNextStep,
+    nextStepDueDate,
+    nextStepNotes,
+    uploadedFiles,
+  ])
+
+  /**
+   * 从跟进内容中识别的日期（如"下周三上午十点再打电话"），作为下一步截止日期的建议
+   */
+  const suggestedDueDate = React.useMemo(() => {
+    const match = findDateExpression(watchedContent || '', { timezone })
+    if (!match || match.date < startOfDay(new TZDate(Date.now(), timezone))) return null
+    return match
+  }, [watchedContent, timezone])
+
+  /**
+   * 手机端底部导航的快速记录按钮：滚动到输入框并聚焦
+   */
+  React.useEffect(() => {
+    const handleQuickLog = () => {
+      const textarea = textareaRef.current
+      if (!textarea || textarea.disabled) return
+      textarea.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      textarea.focus({ preventScroll: true })
+    }
+
+    window.addEventListener(QUICK_LOG_EVENT, handleQuickLog)
+    return () => window.removeEventListener(QUICK_LOG_EVENT, handleQuickLog)
+  }, [])
 
   /**
    * 自动聚焦输入框
@@ -171,77 +333,111 @@ export function InlineFollowUpInput({
   }, [])
 
   /**
-   * 处理文件选择
+   * 添加选择、拖入、粘贴或拍摄的文件，文件分片上传，失败的文件可以在列表中重试
    */
-  const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFiles = useCallback((files: File[]) => {
+    const errors: string[] = []
+    const validFiles = files.filter(file => {
+      const error = validateUploadFile(file)
+      if (error) errors.push(error)
+      return !error
+    })
+
+    if (errors.length > 0) {
+      toast({
+        title: "部分文件无法上传",
+        description: errors.join('，'),
+        variant: "destructive",
+      })
+    }
+
+    if (validFiles.length > 0) {
+      addFiles(validFiles)
+    }
+  }, [addFiles, toast])
+
+  /**
+   * 处理文件输入变化（附件按钮和拍照按钮）
+   */
+  const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
-    if (!files || files.length === 0) return
+    if (files && files.length > 0) {
+      handleFiles(Array.from(files))
+    }
 
-    setIsUploading(true)
+    // 清空文件输入，允许重复选择相同文件
+    e.target.value = ''
+  }, [handleFiles])
 
-    try {
-      const uploadPromises = Array.from(files).map(async (file) => {
-        const formData = new FormData()
-        formData.append('file', file)
+  /**
+   * 处理粘贴，剪贴板中的图片（如微信聊天截图）作为附件上传
+   */
+  const handlePaste = useCallback((e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length === 0) return
 
-        const response = await fetch('/api/upload', {
-          method: 'POST',
-          body: formData,
-        })
+    // 从 Office 等应用复制时剪贴板同时带有文字和图片，此时按文字粘贴
+    if (e.clipboardData.getData('text/plain')) return
 
-        if (!response.ok) {
-          const errorData = await response.json()
-          throw new Error(errorData.error || '文件上传失败')
-        }
+    e.preventDefault()
+    handleFiles(files.map((file, index) => (file.type.startsWith('image/') ? nameClipboardFile(file, index) : file)))
+  }, [handleFiles])
 
-        const result = await response.json()
-        return result.data as UploadedFile
-      })
+  /**
+   * 处理拖拽进入输入区域
+   */
+  const handleDragEnter = useCallback((e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return
+    e.preventDefault()
+    dragDepthRef.current += 1
+    setIsDraggingFiles(true)
+  }, [])
 
-      const uploadedFilesData = await Promise.all(uploadPromises)
-      setUploadedFiles(prev => [...prev, ...uploadedFilesData])
+  /**
+   * 处理拖拽经过，声明可以放置
+   */
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = disabled || isSubmitting ? 'none' : 'copy'
+  }, [disabled, isSubmitting])
 
-      toast({
-        title: '上传成功',
-        description: `成功上传 ${uploadedFilesData.length} 个文件`,
-      })
-    } catch (error) {
-      console.error('文件上传失败:', error)
-      toast({
-        title: '上传失败',
-        description: error instanceof Error ? error.message : '文件上传失败，请稍后重试',
-        variant: 'destructive',
-      })
-    } finally {
-      setIsUploading(false)
-      // 清空文件输入，允许重复选择相同文件
-      if (fileInputRef.current) {
-        fileInputRef.current.value = ''
-      }
+  /**
+   * 处理拖拽离开输入区域
+   */
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1)
+    if (dragDepthRef.current === 0) {
+      setIsDraggingFiles(false)
     }
-  }, [toast])
+  }, [])
 
   /**
-   * 移除已上传的文件
+   * 处理文件放置
    */
-  const handleRemoveFile = useCallback((fileId: string) => {
-    setUploadedFiles(prev => prev.filter(file => file.id !== fileId))
-  }, [])
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return
+    e.preventDefault()
+    dragDepthRef.current = 0
+    setIsDraggingFiles(false)
+
+    if (disabled || isSubmitting) return
+    handleFiles(Array.from(e.dataTransfer.files))
+  }, [disabled, isSubmitting, handleFiles])
 
   /**
    * 获取文件图标
    */
-  const getFileIcon = (fileType: string) => {
-    switch (fileType) {
-      case 'image':
-        return <FileImage className="h-4 w-4" />
-      case 'pdf':
-      case 'document':
-      case 'spreadsheet':
-        return <FileText className="h-4 w-4" />
-      default:
-        return <Paperclip className="h-4 w-4" />
+  const getFileIcon = (mimeType: string) => {
+    if (mimeType.startsWith('image/')) {
+      return <FileImage className="h-4 w-4" />
+    }
+    if (mimeType.includes('pdf') || mimeType.includes('word') || mimeType.includes('document') ||
+      mimeType.includes('excel') || mimeType.includes('spreadsheet')) {
+      return <FileText className="h-4 w-4" />
     }
+    return <Paperclip className="h-4 w-4" />
   }
 
   /**
@@ -259,7 +455,7 @@ export function InlineFollowUpInput({
    * 提交表单
    */
   const handleFormSubmit = useCallback(async (data: FollowUpFormData) => {
-    if (!isValid || isSubmitting) return
+    if (!isValid || isSubmitting || isUploading) return
 
     setIsSubmitting(true)
 
@@ -269,27 +465,32 @@ export function InlineFollowUpInput({
         customerId,
         content: data.content,
         followUpType: data.followUpType,
-        attachments: uploadedFiles.length > 0 ? uploadedFiles.map(file => ({
-          fileName: file.fileName,
-          fileUrl: file.fileUrl,
-          fileType: file.fileType,
-          fileSize: file.fileSize,
-        })) : undefined,
+        uploadIds: uploadedFiles.length > 0 ? uploadedFiles.map(file => file.id) : undefined,
         nextStep: data.hasNextStep ? {
           dueDate: data.nextStep?.dueDate || new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
           notes: data.nextStep?.notes || '',
         } : undefined,
       }
 
-      // 提交跟进记录
-      await onSubmit(requestData)
+      // 提交跟进记录，连续点击发布或失败后重试时使用同一个幂等键
+      const result = await onSubmit(requestData, idempotencyKey.getKey(requestData))
+      idempotencyKey.rotate()
 
-      // 重置表单和文件
+      // 重置表单和文件，草稿随之删除
       reset()
-      setUploadedFiles([])
+      clearUploads()
+      uploadedAtRef.current.clear()
+      setIsDraftRestored(false)
+      // 仍在听写时从清空后的输入框继续
+      if (dictationRef.current) {
+        dictationRef.current = createDictationAnchor('', 0, 0)
+      }
 
       // 显示成功提示
-      toast({
+      toast(result === 'queued' ? {
+        title: "已保存，待同步",
+        description: "当前网络不可用，恢复连接后将自动提交。",
+      } : {
         title: "跟进记录已创建",
         description: "您的客户跟进记录已成功保存。",
       })
@@ -304,7 +505,7 @@ export function InlineFollowUpInput({
     } finally {
       setIsSubmitting(false)
     }
-  }, [customerId, isValid, isSubmitting, onSubmit, reset, toast])
+  }, [customerId, isValid, isSubmitting, isUploading, uploadedFiles, onSubmit, idempotencyKey, reset, clearUploads, toast])
 
   
   /**
@@ -322,36 +523,178 @@ export function InlineFollowUpInput({
   }, [hasNextStep, nextStepDueDate, setValue])
 
   /**
-   * 处理语音转文字结果
+   * 开始听写，记录光标位置，听写内容从光标处插入（替换选中的文本）
+   */
+  const handleDictationStart = useCallback(() => {
+    const value = getValues('content') || ''
+    const textarea = textareaRef.current
+    dictationRef.current = createDictationAnchor(
+      value,
+      textarea?.selectionStart ?? value.length,
+      textarea?.selectionEnd ?? value.length
+    )
+  }, [getValues])
+
+  /**
+   * 将听写内容写入输入框，光标保持在听写内容末尾
+   */
+  const renderDictation = useCallback((interim: string) => {
+    const anchor = dictationRef.current
+    if (!anchor) return
+
+    const { value, cursor } = composeDictation(anchor, interim)
+    setValue('content', value, { shouldValidate: true })
+    requestAnimationFrame(() => {
+      textareaRef.current?.setSelectionRange(cursor, cursor)
+    })
+  }, [setValue])
+
+  /**
+   * 处理已确定的语音识别结果
    */
   const handleVoiceTranscript = useCallback((transcript: string) => {
-    // 将语音识别的结果追加到现有内容后面
-    const currentContent = contentField.value || ''
-    const newContent = currentContent + (currentContent ? ' ' : '') + transcript
-    setValue('content', newContent, { shouldValidate: true })
-  }, [contentField.value, setValue])
+    if (!dictationRef.current) return
+    dictationRef.current.committed += transcript
+    renderDictation('')
+  }, [renderDictation])
+
+  /**
+   * 结束听写
+   */
+  const handleDictationStop = useCallback(() => {
+    renderDictation('')
+    dictationRef.current = null
+  }, [renderDictation])
+
+  /**
+   * 执行语音指令，并显示执行结果
+   */
+  const handleVoiceCommand = useCallback((command: VoiceCommand) => {
+    switch (command.type) {
+      case 'followUpType':
+        setValue('followUpType', command.followUpType, { shouldValidate: true })
+        setVoiceCommandFeedback({ message: `类型：${FOLLOWUP_TYPE_LABELS[command.followUpType]}`, failed: false })
+        break
+
+      case 'nextStep': {
+        setValue('hasNextStep', true)
+        // 没有说日期时保留已选的截止日期
+        const dueDate = command.dueDate ?? new Date(getValues('nextStep.dueDate') || Date.now() + 24 * 60 * 60 * 1000)
+        setValue('nextStep.dueDate', dueDate.toISOString(), { shouldValidate: true })
+        if (command.notes) {
+          setValue('nextStep.notes', command.notes, { shouldValidate: true })
+        }
+        setVoiceCommandFeedback({
+          message: `下一步：${formatDateExpression(dueDate, command.hasTime, timezone)}${command.notes ? ` ${command.notes}` : ''}`,
+          failed: false,
+        })
+        break
+      }
+
+      case 'submit':
+        if (isUploading) {
+          setVoiceCommandFeedback({ message: '附件上传中，请稍后再发布', failed: true })
+          break
+        }
+        trigger().then((valid) => {
+          if (!valid) {
+            setVoiceCommandFeedback({ message: '跟进内容未填写完整，无法发布', failed: true })
+            return
+          }
+          setVoiceCommandFeedback({ message: '正在发布', failed: false })
+          // 等待校验结果更新到表单状态后再提交
+          requestAnimationFrame(() => formRef.current?.requestSubmit())
+        })
+        break
+    }
+  }, [getValues, setValue, trigger, isUploading, timezone])
+
+  /**
+   * 采用从跟进内容中识别的日期作为下一步截止日期
+   */
+  const handleApplySuggestedDueDate = useCallback(() => {
+    if (!suggestedDueDate) return
+    setValue('hasNextStep', true)
+    setValue('nextStep.dueDate', suggestedDueDate.date.toISOString(), { shouldValidate: true })
+  }, [suggestedDueDate, setValue])
+
+  /**
+   * 语音指令执行结果显示一段时间后隐藏
+   */
+  React.useEffect(() => {
+    if (!voiceCommandFeedback) return
+    const timer = setTimeout(() => setVoiceCommandFeedback(null), VOICE_COMMAND_FEEDBACK_MS)
+    return () => clearTimeout(timer)
+  }, [voiceCommandFeedback])
+
+  /**
+   * 处理输入框内容变化，听写过程中手动编辑时从新的光标位置继续听写
+   */
+  const handleContentChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    contentField.onChange(e)
+    if (dictationRef.current) {
+      dictationRef.current = createDictationAnchor(
+        e.target.value,
+        e.target.selectionStart,
+        e.target.selectionEnd
+      )
+    }
+  }, [contentField])
 
   return (
     <Card className={className}>
       <div className="p-4 space-y-4">
         <form ref={formRef} onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
           <div className="space-y-4">
-            {/* 文本输入框 */}
+            {/* 文本输入框，可直接粘贴截图或拖入文件 */}
             <div className="space-y-2">
-              <Textarea
-                {...contentField}
-                ref={(node) => {
-                  contentField.ref(node)
-                  textareaRef.current = node
-                }}
-                onKeyDown={handleKeyDown}
-                placeholder="记录今天的客户跟进情况..."
-                className="min-h-[80px] resize-none border-0 bg-muted/50 focus:bg-background"
-                disabled={disabled || isSubmitting}
-              />
+              <div
+                className="relative"
+                onDragEnter={handleDragEnter}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+              >
+                <Textarea
+                  {...contentField}
+                  ref={(node) => {
+                    contentField.ref(node)
+                    textareaRef.current = node
+                  }}
+                  onChange={handleContentChange}
+                  onKeyDown={handleKeyDown}
+                  onPaste={handlePaste}
+                  placeholder="记录今天的客户跟进情况，可直接粘贴截图或拖入文件..."
+                  className="min-h-[80px] resize-none border-0 bg-muted/50 focus:bg-background"
+                  disabled={disabled || isSubmitting}
+                />
+                {isDraggingFiles && (
+                  <div className="pointer-events-none absolute inset-0 flex items-center justify-center rounded-md border-2 border-dashed border-primary bg-primary/5 text-sm text-primary">
+                    <Upload className="h-4 w-4 mr-2" />
+                    松开鼠标上传附件
+                  </div>
+                )}
+              </div>
               {contentFieldState.error && (
                 <p className="text-sm text-destructive">{contentFieldState.error.message}</p>
               )}
+              {isDraftRestored && (
+                <p className="text-xs text-muted-foreground">已恢复上次未发布的草稿</p>
+              )}
+              {suggestedDueDate && !(hasNextStep && nextStepDueDate === suggestedDueDate.date.toISOString()) && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleApplySuggestedDueDate}
+                  disabled={disabled || isSubmitting}
+                  className="h-7 px-2 text-xs"
+                  title={`识别自"${suggestedDueDate.text}"`}
+                >
+                  <CalendarIcon className="h-3 w-3 mr-1" />
+                  设为下一步：{formatDateExpression(suggestedDueDate.date, suggestedDueDate.hasTime, timezone)}
+                </Button>
+              )}
             </div>
 
             {/* 跟进类型选择 */}
@@ -383,13 +726,15 @@ export function InlineFollowUpInput({
                     <Input
                       type="date"
                       id="nextStepDueDate"
-                      value={nextStepDueDate ? format(new Date(nextStepDueDate), 'yyyy-MM-dd') : ''}
+                      value={nextStepDueDate ? format(new TZDate(nextStepDueDate, timezone), 'yyyy-MM-dd') : ''}
                       onChange={(e) => {
                         if (e.target.value) {
-                          setValue('nextStep.dueDate', new Date(e.target.value).toISOString(), { shouldValidate: true })
+                          const [year, month, day] = e.target.value.split('-').map(Number)
+                          const dueDate = new Date(new TZDate(year, month - 1, day, timezone).getTime())
+                          setValue('nextStep.dueDate', dueDate.toISOString(), { shouldValidate: true })
                         }
                       }}
-                      min={format(new Date(), 'yyyy-MM-dd')}
+                      min={format(new TZDate(Date.now(), timezone), 'yyyy-MM-dd')}
                       className="pl-10 h-9"
                       disabled={disabled || isSubmitting}
                     />
@@ -412,45 +757,90 @@ export function InlineFollowUpInput({
             )}
 
             {/* 文件上传区域 */}
-            {uploadedFiles.length > 0 && (
+            {uploadItems.length > 0 && (
               <div className="mb-4">
                 <div className="flex flex-wrap gap-2">
-                  {uploadedFiles.map((file) => (
+                  {uploadItems.map((upload) => (
                     <div
-                      key={file.id}
-                      className="flex items-center gap-2 bg-muted rounded-lg px-3 py-2 text-sm"
+                      key={upload.key}
+                      className={`relative overflow-hidden flex items-center gap-2 rounded-lg px-3 py-2 text-sm ${
+                        upload.status === 'failed' ? 'bg-destructive/10' : 'bg-muted'
+                      }`}
+                      title={upload.status === 'failed' ? upload.error : upload.file.name}
                     >
                       <div className="text-muted-foreground">
-                        {getFileIcon(file.fileType)}
+                        {getFileIcon(upload.file.type)}
                       </div>
-                      <span className="truncate max-w-[120px]" title={file.fileName}>
-                        {file.fileName}
+                      <span className="truncate max-w-[120px]">
+                        {upload.file.name}
                       </span>
-                      <span className="text-xs text-muted-foreground">
-                        ({formatFileSize(file.fileSize)})
+                      <span className={`text-xs ${upload.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {upload.status === 'uploading' && `${upload.progress}%`}
+                        {upload.status === 'failed' && '上传失败'}
+                        {upload.status === 'done' && `(${formatFileSize(upload.result?.fileSize ?? upload.file.size)})`}
                       </span>
+                      {upload.status === 'failed' && upload.retryable && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => retryUpload(upload.key)}
+                          disabled={disabled || isSubmitting}
+                          className="h-5 w-5 p-0"
+                          title="从中断处继续上传"
+                        >
+                          <RotateCw className="h-3 w-3" />
+                        </Button>
+                      )}
                       <Button
                         type="button"
                         variant="ghost"
                         size="sm"
-                        onClick={() => handleRemoveFile(file.id)}
+                        onClick={() => removeUpload(upload.key)}
                         disabled={disabled || isSubmitting}
                         className="h-5 w-5 p-0 hover:bg-destructive hover:text-destructive-foreground"
                       >
                         <X className="h-3 w-3" />
                       </Button>
+                      {/* 上传进度 */}
+                      {upload.status === 'uploading' && (
+                        <div
+                          className="absolute bottom-0 left-0 h-0.5 bg-primary transition-all"
+                          style={{ width: `${upload.progress}%` }}
+                        />
+                      )}
                     </div>
                   ))}
                 </div>
               </div>
             )}
 
+            {/* 语音指令执行结果 */}
+            {voiceCommandFeedback && (
+              <div
+                role="status"
+                className={`flex items-center text-xs ${voiceCommandFeedback.failed ? 'text-destructive' : 'text-primary'}`}
+              >
+                {voiceCommandFeedback.failed ? (
+                  <AlertCircle className="h-3 w-3 mr-1" />
+                ) : (
+                  <Check className="h-3 w-3 mr-1" />
+                )}
+                <span>语音指令 · {voiceCommandFeedback.message}</span>
+              </div>
+            )}
+
             {/* 按钮区域 */}
             <div className="flex items-center justify-between">
               {/* 左侧：录音按钮、附件按钮和下一步按钮 */}
               <div className="flex items-center space-x-2">
                 <VoiceInput
                   onTranscript={handleVoiceTranscript}
+                  onInterimTranscript={renderDictation}
+                  onCommand={handleVoiceCommand}
+                  onStart={handleDictationStart}
+                  onStop={handleDictationStop}
+                  timezone={timezone}
                   disabled={disabled || isSubmitting}
                 />
 
@@ -459,9 +849,18 @@ export function InlineFollowUpInput({
                   ref={fileInputRef}
                   type="file"
                   multiple
-                  accept="image/*,.pdf,.doc,.docx,.xls,.xlsx,.txt"
+                  accept={UPLOAD_ACCEPT}
                   onChange={handleFileSelect}
-                  disabled={disabled || isSubmitting || isUploading}
+                  disabled={disabled || isSubmitting}
+                  className="hidden"
+                />
+                <input
+                  ref={cameraInputRef}
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  onChange={handleFileSelect}
+                  disabled={disabled || isSubmitting}
                   className="hidden"
                 />
                 <Button
@@ -469,7 +868,7 @@ export function InlineFollowUpInput({
                   variant="ghost"
                   size="sm"
                   onClick={() => fileInputRef.current?.click()}
-                  disabled={disabled || isSubmitting || isUploading}
+                  disabled={disabled || isSubmitting}
                   className="h-8 px-2"
                 >
                   {isUploading ? (
@@ -485,6 +884,19 @@ export function InlineFollowUpInput({
                   )}
                 </Button>
 
+                {/* 拍照按钮，仅在移动端显示（桌面浏览器忽略 capture 属性） */}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => cameraInputRef.current?.click()}
+                  disabled={disabled || isSubmitting}
+                  className="h-8 px-2 sm:hidden"
+                >
+                  <Camera className="h-3 w-3 mr-1" />
+                  <span className="text-xs">拍照</span>
+                </Button>
+
                 <Button
                   type="button"
                   variant="ghost"
@@ -510,7 +922,7 @@ export function InlineFollowUpInput({
               {/* 右侧：提交按钮 */}
               <Button
                 type="submit"
-                disabled={!isValid || disabled || isSubmitting}
+                disabled={!isValid || disabled || isSubmitting || isUploading}
                 className="min-w-[80px]"
               >
                 {isSubmitting ? (
@@ -1,6 +1,7 @@
 /**
  * NextStepForm组件
  * 下一步计划表单组件，用于设置下次跟进的时间和备注
+ * 日期可直接输入"下周三上午十点"、"月底"等中文表达，按用户时区解析
  */
 
 'use client'
@@ -12,10 +13,13 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { format, addDays } from 'date-fns'
+import { TZDate } from '@date-fns/tz'
 
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { cn } from '@/lib/utils'
+import { formatDateExpression, parseDateExpression } from '@/lib/date-expression'
+import { useUserTimezone } from '@/hooks/use-user-timezone'
 
 /**
  * 表单验证Schema
@@ -81,6 +85,12 @@ export function NextStepForm({
   className,
 }: NextStepFormProps) {
   const [selectedQuickDate, setSelectedQuickDate] = useState<number | null>(null)
+  const timezone = useUserTimezone()
+  const datePickerRef = React.useRef<HTMLInputElement>(null)
+  // 日期输入框的原始内容，可以是 yyyy-MM-dd 或"下周三"等中文表达
+  const [dateInput, setDateInput] = useState(() => format(addDays(new Date(), 1), 'yyyy-MM-dd'))
+  // 中文日期的解析结果，向用户确认
+  const [dateHint, setDateHint] = useState<{ message: string; failed: boolean } | null>(null)
 
   const {
     register,
@@ -105,20 +115,46 @@ export function NextStepForm({
    * 处理快捷日期选择
    */
   const handleQuickDateSelect = useCallback((days: number) => {
-    const targetDate = addDays(new Date(), days)
+    const targetDate = addDays(new TZDate(Date.now(), timezone), days)
     const dateStr = format(targetDate, 'yyyy-MM-dd')
     setValue('dueDate', dateStr, { shouldValidate: true })
+    setDateInput(dateStr)
+    setDateHint(null)
     setSelectedQuickDate(days)
-  }, [setValue])
+  }, [setValue, timezone])
 
   /**
-   * 处理自定义日期选择
+   * 处理日期选择器的选择
    */
   const handleCustomDateChange = useCallback((dateStr: string) => {
     setValue('dueDate', dateStr, { shouldValidate: true })
+    setDateInput(dateStr)
+    setDateHint(null)
     setSelectedQuickDate(null)
   }, [setValue])
 
+  /**
+   * 解析输入的日期，说明了时间（如"下周三上午十点"）时一并设置时间
+   */
+  const handleDateInputCommit = useCallback(() => {
+    const input = dateInput.trim()
+    if (!input || input === watchedDueDate) return
+
+    const match = parseDateExpression(input, { timezone })
+    if (!match) {
+      setDateHint({ message: '无法识别的日期，可输入"下周三"、"月底"或"2025-12-01"', failed: true })
+      return
+    }
+
+    const localDate = new TZDate(match.date, timezone)
+    setValue('dueDate', format(localDate, 'yyyy-MM-dd'), { shouldValidate: true })
+    if (match.hasTime) {
+      setValue('dueTime', format(localDate, 'HH:mm'), { shouldValidate: true })
+    }
+    setDateHint({ message: formatDateExpression(match.date, match.hasTime, timezone), failed: false })
+    setSelectedQuickDate(null)
+  }, [dateInput, watchedDueDate, timezone, setValue])
+
   /**
    * 处理时间选择
    */
@@ -132,14 +168,16 @@ export function NextStepForm({
   const handleFormSubmit = useCallback((data: NextStepFormData) => {
     if (!isValid) return
 
-    // 合并日期和时间
-    const dueDateTime = new Date(`${data.dueDate}T${data.dueTime}:00`)
+    // 合并日期和时间，按用户时区换算
+    const [year, month, day] = data.dueDate.split('-').map(Number)
+    const [hours, minutes] = data.dueTime.split(':').map(Number)
+    const dueDateTime = new Date(new TZDate(year, month - 1, day, hours, minutes, timezone).getTime())
 
     onSubmit({
       dueDate: dueDateTime.toISOString(),
       notes: data.notes || '',
     })
-  }, [isValid, onSubmit])
+  }, [isValid, onSubmit, timezone])
 
   /**
    * 格式化显示的日期时间
@@ -148,12 +186,13 @@ export function NextStepForm({
     if (!watchedDueDate || !watchedDueTime) return ''
 
     try {
-      const date = new Date(`${watchedDueDate}T${watchedDueTime}:00`)
-      return format(date, 'MM月dd日 HH:mm')
+      const [year, month, day] = watchedDueDate.split('-').map(Number)
+      const [hours, minutes] = watchedDueTime.split(':').map(Number)
+      return format(new TZDate(year, month - 1, day, hours, minutes, timezone), 'MM月dd日 HH:mm')
     } catch {
       return ''
     }
-  }, [watchedDueDate, watchedDueTime])
+  }, [watchedDueDate, watchedDueTime, timezone])
 
   return (
     <Card className={className}>
@@ -199,18 +238,54 @@ export function NextStepForm({
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-2">
             <label className="text-sm font-medium">日期</label>
-            <input
-              type="date"
-              {...register('dueDate')}
-              onChange={(e) => handleCustomDateChange(e.target.value)}
-              className={cn(
-                'w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors',
-                'file:border-0 file:bg-transparent file:text-sm file:font-medium',
-                'placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring',
-                'disabled:cursor-not-allowed disabled:opacity-50'
-              )}
-              disabled={disabled}
-            />
+            <div className="relative">
+              <input
+                type="text"
+                value={dateInput}
+                onChange={(e) => setDateInput(e.target.value)}
+                onBlur={handleDateInputCommit}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    handleDateInputCommit()
+                  }
+                }}
+                placeholder="如：下周三上午十点、月底"
+                className={cn(
+                  'w-full h-9 rounded-md border border-input bg-background pl-3 pr-9 py-1 text-sm shadow-sm transition-colors',
+                  'placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring',
+                  'disabled:cursor-not-allowed disabled:opacity-50'
+                )}
+                disabled={disabled}
+              />
+              {/* 日期选择器，隐藏原生输入框，通过按钮打开 */}
+              <input
+                ref={datePickerRef}
+                type="date"
+                value={watchedDueDate}
+                onChange={(e) => e.target.value && handleCustomDateChange(e.target.value)}
+                className="sr-only"
+                tabIndex={-1}
+                aria-hidden="true"
+                disabled={disabled}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => datePickerRef.current?.showPicker()}
+                disabled={disabled}
+                className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 p-0"
+                title="选择日期"
+              >
+                <Calendar className="h-4 w-4" />
+              </Button>
+            </div>
+            {dateHint && (
+              <p className={cn('text-xs', dateHint.failed ? 'text-destructive' : 'text-muted-foreground')}>
+                {dateHint.message}
+              </p>
+            )}
             {errors.dueDate && (
               <p className="text-sm text-destructive">{errors.dueDate.message}</p>
             )}
@@ -0,0 +1,172 @@
+/**
+ * PdfViewer组件
+ * 使用 pdf.js 在页面内逐页渲染 PDF，页数较多时分批渲染
+ */
+
+'use client'
+
+import * as React from 'react'
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+/**
+ * 每批渲染的页数
+ */
+const PAGES_PER_BATCH = 10
+
+/**
+ * PDF预览Props接口
+ */
+export interface PdfViewerProps {
+  /** PDF 文件地址 */
+  url: string
+  /** 自定义类名 */
+  className?: string
+}
+
+/**
+ * 加载 pdf.js，仅在浏览器中按需加载
+ */
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist')
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      'pdfjs-dist/build/pdf.worker.min.mjs',
+      import.meta.url
+    ).toString()
+  }
+  return pdfjs
+}
+
+/**
+ * 单页渲染组件
+ */
+const PdfPage: React.FC<{ document: PDFDocumentProxy; pageNumber: number; width: number }> = ({
+  document,
+  pageNumber,
+  width,
+}) => {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+    let renderTask: RenderTask | null = null
+
+    const render = async () => {
+      const page = await document.getPage(pageNumber)
+      const canvas = canvasRef.current
+      if (cancelled || !canvas) return
+
+      // 按容器宽度缩放，并按设备像素比提高清晰度
+      const baseViewport = page.getViewport({ scale: 1 })
+      const scale = width / baseViewport.width
+      const outputScale = window.devicePixelRatio || 1
+      const viewport = page.getViewport({ scale: scale * outputScale })
+
+      canvas.width = Math.floor(viewport.width)
+      canvas.height = Math.floor(viewport.height)
+      canvas.style.width = `${Math.floor(viewport.width / outputScale)}px`
+      canvas.style.height = `${Math.floor(viewport.height / outputScale)}px`
+
+      renderTask = page.render({ canvas, viewport })
+      await renderTask.promise.catch((error: Error) => {
+        if (error.name !== 'RenderingCancelledException') throw error
+      })
+    }
+
+    render().catch((error) => {
+      console.error(`渲染 PDF 第 ${pageNumber} 页失败:`, error)
+    })
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [document, pageNumber, width])
+
+  return <canvas ref={canvasRef} className="bg-white shadow-md" aria-label={`第 ${pageNumber} 页`} />
+}
+
+/**
+ * PDF预览组件
+ *
+ * @param props 组件属性
+ * @returns {JSX.Element} PDF预览组件
+ */
+export function PdfViewer({ url, className }: PdfViewerProps) {
+  const containerRef = React.useRef<HTMLDivElement>(null)
+  const [pdf, setPdf] = React.useState<PDFDocumentProxy | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [renderedPages, setRenderedPages] = React.useState(PAGES_PER_BATCH)
+  const [width, setWidth] = React.useState(0)
+
+  // 加载文档
+  React.useEffect(() => {
+    let cancelled = false
+    let loadedDocument: PDFDocumentProxy | null = null
+
+    setPdf(null)
+    setError(null)
+    setRenderedPages(PAGES_PER_BATCH)
+
+    loadPdfJs()
+      .then((pdfjs) => pdfjs.getDocument({ url }).promise)
+      .then((document) => {
+        loadedDocument = document
+        if (cancelled) {
+          document.destroy()
+          return
+        }
+        setPdf(document)
+      })
+      .catch((loadError) => {
+        console.error('加载 PDF 失败:', loadError)
+        if (!cancelled) setError('PDF 加载失败，请下载后查看')
+      })
+
+    return () => {
+      cancelled = true
+      loadedDocument?.destroy()
+    }
+  }, [url])
+
+  // 页面宽度跟随容器变化
+  React.useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setWidth(Math.min(Math.floor(entry.contentRect.width), 1000))
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  return (
+    <div ref={containerRef} className={cn('w-full', className)}>
+      {error ? (
+        <p className="text-center text-sm text-white/70 py-12">{error}</p>
+      ) : !pdf || width === 0 ? (
+        <div className="flex justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-white/70 border-t-transparent" />
+        </div>
+      ) : (
+        <div className="flex flex-col items-center gap-4">
+          {Array.from({ length: Math.min(renderedPages, pdf.numPages) }, (_, index) => (
+            <PdfPage key={index} document={pdf} pageNumber={index + 1} width={width} />
+          ))}
+          {renderedPages < pdf.numPages && (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setRenderedPages(renderedPages + PAGES_PER_BATCH)}
+            >
+              继续加载（已显示 {renderedPages}/{pdf.numPages} 页）
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
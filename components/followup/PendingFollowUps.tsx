@@ -0,0 +1,119 @@
+/**
+ * PendingFollowUps组件
+ * 展示离线时提交、尚未同步到服务器的跟进记录
+ */
+
+'use client'
+
+import * as React from 'react'
+import { AlertCircle, CloudOff, Loader2, Paperclip, RotateCw, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { formatDateTime, cn } from '@/lib/utils'
+import { FOLLOWUP_TYPE_LABELS } from '@/lib/types/followup'
+import { QueuedFollowUp } from '@/lib/offline-store'
+
+/**
+ * 待同步记录Props接口
+ */
+export interface PendingFollowUpsProps {
+  /** 待同步的跟进记录 */
+  items: QueuedFollowUp[]
+  /** 是否正在同步 */
+  isSyncing?: boolean
+  /** 重新同步被拒绝的记录 */
+  onRetry: (idempotencyKey: string) => void
+  /** 放弃记录 */
+  onDiscard: (idempotencyKey: string) => void
+  /** 自定义类名 */
+  className?: string
+}
+
+/**
+ * 待同步记录组件
+ *
+ * @param props 组件属性
+ * @returns {JSX.Element | null} 待同步记录列表，没有记录时不渲染
+ */
+export function PendingFollowUps({
+  items,
+  isSyncing = false,
+  onRetry,
+  onDiscard,
+  className,
+}: PendingFollowUpsProps) {
+  if (items.length === 0) return null
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {items.map((item) => {
+        const failed = item.status === 'failed'
+        return (
+          <Card
+            key={item.idempotencyKey}
+            className={cn('p-3 border-dashed', failed ? 'border-destructive/50' : 'border-amber-500/50')}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  {failed ? (
+                    <span className="inline-flex items-center rounded-full bg-destructive/10 px-2 py-0.5 text-destructive">
+                      <AlertCircle className="h-3 w-3 mr-1" />
+                      同步失败
+                    </span>
+                  ) : (
+                    <span className="inline-flex items-center rounded-full bg-amber-500/10 px-2 py-0.5 text-amber-600 dark:text-amber-400">
+                      {isSyncing ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <CloudOff className="h-3 w-3 mr-1" />
+                      )}
+                      待同步
+                    </span>
+                  )}
+                  <span>{FOLLOWUP_TYPE_LABELS[item.request.followUpType]}</span>
+                  <span>{formatDateTime(new Date(item.createdAt))}</span>
+                  {item.request.uploadIds && item.request.uploadIds.length > 0 && (
+                    <span className="inline-flex items-center">
+                      <Paperclip className="h-3 w-3 mr-0.5" />
+                      {item.request.uploadIds.length}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm whitespace-pre-wrap break-words line-clamp-3">{item.request.content}</p>
+                {failed && item.error && (
+                  <p className="text-xs text-destructive">{item.error}</p>
+                )}
+              </div>
+
+              <div className="flex shrink-0 items-center gap-1">
+                {failed && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onRetry(item.idempotencyKey)}
+                    className="h-7 w-7 p-0"
+                    title="重新同步"
+                  >
+                    <RotateCw className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDiscard(item.idempotencyKey)}
+                  className="h-7 w-7 p-0 hover:bg-destructive hover:text-destructive-foreground"
+                  title="放弃此记录"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
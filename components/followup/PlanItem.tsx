@@ -0,0 +1,349 @@
+/**
+ * PlanItem组件
+ * 下一步计划行，展示计划状态并提供完成、改期、转交、取消操作
+ */
+
+'use client'
+
+import * as React from 'react'
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { formatDateTime, cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  PLAN_STATUS_LABELS,
+  NextStepPlanResponse,
+  PlanAssignee,
+  UpdatePlanRequest,
+} from '@/lib/types/followup'
+import { PlanStatus } from '@/app/generated/prisma'
+import {
+  CheckCircle,
+  Clock,
+  XCircle,
+  Check,
+  CalendarClock,
+  UserRoundPlus,
+  X,
+} from 'lucide-react'
+
+/**
+ * 计划行Props接口
+ */
+export interface PlanItemProps {
+  /** 下一步计划 */
+  plan: NextStepPlanResponse
+  /** 更新计划回调 */
+  onUpdate?: (planId: string, data: UpdatePlanRequest) => Promise<void>
+  /** 自定义类名 */
+  className?: string
+}
+
+/**
+ * 当前进行中的操作
+ */
+type PlanAction = 'complete' | 'reschedule' | 'reassign' | null
+
+/**
+ * 获取计划状态图标
+ */
+const getPlanStatusIcon = (status: PlanStatus) => {
+  switch (status) {
+    case 'DONE':
+      return <CheckCircle className="h-4 w-4 text-primary" />
+    case 'PENDING':
+      return <Clock className="h-4 w-4 text-accent-foreground" />
+    case 'CANCELLED':
+      return <XCircle className="h-4 w-4 text-muted-foreground" />
+    default:
+      return <Clock className="h-4 w-4 text-muted-foreground" />
+  }
+}
+
+/**
+ * 获取可转交对象
+ */
+const fetchAssignees = async (planId: string): Promise<PlanAssignee[]> => {
+  const response = await fetch(`/api/plans/${planId}/assignees`)
+
+  if (!response.ok) {
+    throw new Error('获取可转交对象失败')
+  }
+
+  const result = await response.json()
+  return result.data
+}
+
+/**
+ * 计划行组件
+ *
+ * @param props 组件属性
+ * @returns {JSX.Element} 计划行组件
+ */
+export function PlanItem({ plan, onUpdate, className }: PlanItemProps) {
+  const [activeAction, setActiveAction] = useState<PlanAction>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [completionNote, setCompletionNote] = useState('')
+  const [dueDate, setDueDate] = useState('')
+  const [dueTime, setDueTime] = useState('')
+  const [rescheduleReason, setRescheduleReason] = useState('')
+  const [assigneeId, setAssigneeId] = useState('')
+
+  const canUpdate = plan.canUpdate && plan.status === 'PENDING' && !!onUpdate
+
+  // 转交时才加载候选执行人
+  const { data: assignees = [], isLoading: isLoadingAssignees } = useQuery({
+    queryKey: ['plan-assignees', plan.id],
+    queryFn: () => fetchAssignees(plan.id),
+    enabled: activeAction === 'reassign',
+  })
+
+  // 打开操作面板，改期默认使用原时间
+  const openAction = (action: PlanAction) => {
+    setCompletionNote('')
+    setRescheduleReason('')
+    setAssigneeId('')
+    setDueDate(format(new Date(plan.dueDate), 'yyyy-MM-dd'))
+    setDueTime(format(new Date(plan.dueDate), 'HH:mm'))
+    setActiveAction(action)
+  }
+
+  // 提交更新，失败时保留输入内容
+  const submit = async (data: UpdatePlanRequest) => {
+    if (!onUpdate) return
+
+    setIsSubmitting(true)
+    try {
+      await onUpdate(plan.id, data)
+      setActiveAction(null)
+    } catch (error) {
+      console.error('更新计划失败:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleConfirm = () => {
+    switch (activeAction) {
+      case 'complete':
+        submit({ action: 'complete', completionNote: completionNote.trim() || undefined })
+        break
+      case 'reschedule':
+        if (!dueDate || !dueTime) return
+        submit({
+          action: 'reschedule',
+          dueDate: new Date(`${dueDate}T${dueTime}:00`).toISOString(),
+          reason: rescheduleReason.trim() || undefined,
+        })
+        break
+      case 'reassign':
+        if (!assigneeId) return
+        submit({ action: 'reassign', userId: assigneeId })
+        break
+    }
+  }
+
+  const handleCancelPlan = () => {
+    if (!window.confirm('确定要取消这个计划吗？')) return
+    submit({ action: 'cancel' })
+  }
+
+  return (
+    <div className={cn('flex items-start space-x-3 p-3 bg-muted/30 rounded-md', className)}>
+      {getPlanStatusIcon(plan.status)}
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">
+            {PLAN_STATUS_LABELS[plan.status]}
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              {plan.user.name}
+            </span>
+          </span>
+          <span className={cn(
+            'text-xs text-muted-foreground',
+            plan.status === 'CANCELLED' && 'line-through'
+          )}>
+            {formatDateTime(plan.dueDate)}
+          </span>
+        </div>
+
+        {plan.notes && (
+          <p className={cn(
+            'text-sm text-muted-foreground',
+            plan.status === 'CANCELLED' && 'line-through'
+          )}>
+            {plan.notes}
+          </p>
+        )}
+
+        {/* 完成信息 */}
+        {plan.status === 'DONE' && plan.completedAt && (
+          <p className="text-xs text-muted-foreground">
+            完成于 {formatDateTime(plan.completedAt)}
+            {plan.completionNote && `：${plan.completionNote}`}
+          </p>
+        )}
+
+        {/* 改期历史 */}
+        {plan.reschedules.length > 0 && (
+          <details className="text-xs text-muted-foreground">
+            <summary className="cursor-pointer select-none">
+              已改期 {plan.reschedules.length} 次
+            </summary>
+            <ul className="mt-1 space-y-0.5 pl-4 list-disc">
+              {plan.reschedules.map((reschedule) => (
+                <li key={reschedule.id}>
+                  {reschedule.changedBy.name}：{formatDateTime(reschedule.previousDueDate)} → {formatDateTime(reschedule.newDueDate)}
+                  {reschedule.reason && `（${reschedule.reason}）`}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        {/* 操作按钮 */}
+        {canUpdate && !activeAction && (
+          <div className="flex flex-wrap gap-1 pt-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => openAction('complete')}
+              disabled={isSubmitting}
+            >
+              <Check className="h-3 w-3 mr-1" />
+              完成
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => openAction('reschedule')}
+              disabled={isSubmitting}
+            >
+              <CalendarClock className="h-3 w-3 mr-1" />
+              改期
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => openAction('reassign')}
+              disabled={isSubmitting}
+            >
+              <UserRoundPlus className="h-3 w-3 mr-1" />
+              转交
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+              onClick={handleCancelPlan}
+              disabled={isSubmitting}
+            >
+              <X className="h-3 w-3 mr-1" />
+              取消计划
+            </Button>
+          </div>
+        )}
+
+        {/* 操作面板 */}
+        {canUpdate && activeAction && (
+          <div className="space-y-2 pt-2">
+            {activeAction === 'complete' && (
+              <Input
+                value={completionNote}
+                onChange={(e) => setCompletionNote(e.target.value)}
+                placeholder="完成说明（可选）"
+                maxLength={500}
+                disabled={isSubmitting}
+                className="h-8"
+              />
+            )}
+
+            {activeAction === 'reschedule' && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="date"
+                    value={dueDate}
+                    onChange={(e) => setDueDate(e.target.value)}
+                    disabled={isSubmitting}
+                    className="h-8"
+                  />
+                  <Input
+                    type="time"
+                    value={dueTime}
+                    onChange={(e) => setDueTime(e.target.value)}
+                    disabled={isSubmitting}
+                    className="h-8"
+                  />
+                </div>
+                <Input
+                  value={rescheduleReason}
+                  onChange={(e) => setRescheduleReason(e.target.value)}
+                  placeholder="改期原因（可选）"
+                  maxLength={500}
+                  disabled={isSubmitting}
+                  className="h-8"
+                />
+              </>
+            )}
+
+            {activeAction === 'reassign' && (
+              <Select value={assigneeId} onValueChange={setAssigneeId} disabled={isSubmitting}>
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder={isLoadingAssignees ? '加载中...' : '选择执行人'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignees.map((assignee) => (
+                    <SelectItem key={assignee.id} value={assignee.id}>
+                      {assignee.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {activeAction === 'reassign' && !isLoadingAssignees && assignees.length === 0 && (
+              <p className="text-xs text-muted-foreground">没有可转交的对象</p>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setActiveAction(null)}
+                disabled={isSubmitting}
+              >
+                取消
+              </Button>
+              <Button
+                size="sm"
+                className="h-7 text-xs"
+                onClick={handleConfirm}
+                disabled={
+                  isSubmitting ||
+                  (activeAction === 'reschedule' && (!dueDate || !dueTime)) ||
+                  (activeAction === 'reassign' && !assigneeId)
+                }
+              >
+                {isSubmitting ? '提交中...' : '确定'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
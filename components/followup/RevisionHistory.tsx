@@ -0,0 +1,126 @@
+/**
+ * RevisionHistory组件
+ * 展示跟进记录的修订历史，逐次对比每次编辑前后的内容差异
+ */
+
+'use client'
+
+import * as React from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { formatDateTime, cn } from '@/lib/utils'
+import { diffText } from '@/lib/text-diff'
+import { FOLLOWUP_TYPE_LABELS, FollowUpRevisionResponse } from '@/lib/types/followup'
+import { FollowUpType } from '@/app/generated/prisma'
+
+/**
+ * 修订历史Props接口
+ */
+export interface RevisionHistoryProps {
+  /** 跟进记录ID */
+  recordId: string
+  /** 当前内容 */
+  currentContent: string
+  /** 当前跟进类型 */
+  currentFollowUpType: FollowUpType
+  /** 自定义类名 */
+  className?: string
+}
+
+/**
+ * 获取修订历史数据
+ */
+const fetchRevisions = async (recordId: string): Promise<FollowUpRevisionResponse[]> => {
+  const response = await fetch(`/api/followups/${recordId}/revisions`)
+
+  if (!response.ok) {
+    throw new Error('获取修订历史失败')
+  }
+
+  const result = await response.json()
+  return result.data
+}
+
+/**
+ * 修订历史组件
+ *
+ * @param props 组件属性
+ * @returns {JSX.Element} 修订历史组件
+ */
+export function RevisionHistory({
+  recordId,
+  currentContent,
+  currentFollowUpType,
+  className,
+}: RevisionHistoryProps) {
+  const { data: revisions = [], isLoading, error } = useQuery({
+    queryKey: ['followup-revisions', recordId, currentContent, currentFollowUpType],
+    queryFn: () => fetchRevisions(recordId),
+  })
+
+  // 每条修订保存的是该次编辑前的内容，编辑后的版本为后一条修订或当前内容
+  const changes = React.useMemo(() => {
+    return revisions
+      .map((revision, index) => {
+        const next = revisions[index + 1]
+        const afterContent = next ? next.content : currentContent
+        const afterType = next ? next.followUpType : currentFollowUpType
+        return {
+          id: revision.id,
+          editor: revision.editor,
+          editedAt: revision.createdAt,
+          typeChanged: revision.followUpType !== afterType,
+          beforeType: revision.followUpType,
+          afterType,
+          segments: diffText(revision.content, afterContent),
+        }
+      })
+      .reverse()
+  }, [revisions, currentContent, currentFollowUpType])
+
+  if (isLoading) {
+    return (
+      <div className={cn('space-y-2', className)}>
+        <div className="h-4 bg-muted rounded w-1/3 animate-pulse" />
+        <div className="h-12 bg-muted rounded animate-pulse" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <p className={cn('text-sm text-destructive', className)}>
+        {error.message}
+      </p>
+    )
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {changes.map((change) => (
+        <div key={change.id} className="space-y-1">
+          <div className="text-xs text-muted-foreground">
+            {change.editor.name} 于 {formatDateTime(change.editedAt)} 编辑
+            {change.typeChanged && (
+              <span className="ml-2">
+                类型：{FOLLOWUP_TYPE_LABELS[change.beforeType]} → {FOLLOWUP_TYPE_LABELS[change.afterType]}
+              </span>
+            )}
+          </div>
+          <div className="whitespace-pre-wrap text-sm leading-relaxed p-2 bg-muted/30 rounded-md">
+            {change.segments.map((segment, index) => (
+              <span
+                key={index}
+                className={cn(
+                  segment.type === 'insert' && 'bg-primary/15 text-primary',
+                  segment.type === 'delete' && 'bg-destructive/10 text-destructive line-through'
+                )}
+              >
+                {segment.text}
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
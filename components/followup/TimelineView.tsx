@@ -8,15 +8,21 @@
 import * as React from 'react'
 import { useState } from 'react'
 import { formatRelativeTime, formatDateTime, isImageFile, cn } from '@/lib/utils'
+import { getAttachmentDownloadUrl } from '@/lib/attachment-url'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Card } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { RevisionHistory } from '@/components/followup/RevisionHistory'
+import { PlanItem } from '@/components/followup/PlanItem'
+import { AttachmentViewer, downloadAttachment } from '@/components/followup/AttachmentViewer'
 import {
   FOLLOWUP_TYPE_LABELS,
-  PLAN_STATUS_LABELS,
   FollowUpRecordResponse,
+  UpdateFollowUpRequest,
+  UpdatePlanRequest,
 } from '@/lib/types/followup'
-import { FollowUpType, PlanStatus } from '@/app/generated/prisma'
+import { FollowUpType } from '@/app/generated/prisma'
 import {
   Phone,
   Video,
@@ -24,10 +30,11 @@ import {
   Utensils,
   Paperclip,
   Calendar,
-  CheckCircle,
-  Clock,
   Download,
   Eye,
+  Pencil,
+  Trash2,
+  History,
 } from 'lucide-react'
 
 /**
@@ -38,37 +45,18 @@ export interface TimelineViewProps {
   followUpRecords: FollowUpRecordResponse[]
   /** 加载状态 */
   isLoading?: boolean
+  /** 需要高亮并滚动到的跟进记录ID */
+  highlightedRecordId?: string
+  /** 编辑跟进记录回调 */
+  onEditRecord?: (recordId: string, data: UpdateFollowUpRequest) => Promise<void>
+  /** 删除跟进记录回调 */
+  onDeleteRecord?: (recordId: string) => Promise<void>
+  /** 更新下一步计划回调 */
+  onUpdatePlan?: (planId: string, data: UpdatePlanRequest) => Promise<void>
   /** 自定义类名 */
   className?: string
 }
 
-/**
- * 附件操作处理函数
- */
-const handleAttachmentView = (attachment: FollowUpRecordResponse['attachments'][0]) => {
-  if (attachment.fileType === 'image') {
-    // 图片在新窗口打开
-    window.open(attachment.fileUrl, '_blank')
-  } else {
-    // 非图片文件尝试直接下载
-    handleAttachmentDownload(attachment)
-  }
-}
-
-/**
- * 附件下载处理函数
- */
-const handleAttachmentDownload = (attachment: FollowUpRecordResponse['attachments'][0]) => {
-  // 创建一个隐藏的a标签来触发下载
-  const link = document.createElement('a')
-  link.href = attachment.fileUrl
-  link.download = attachment.fileName
-  link.target = '_blank'
-  document.body.appendChild(link)
-  link.click()
-  document.body.removeChild(link)
-}
-
 /**
  * 获取跟进类型图标
  */
@@ -105,33 +93,77 @@ const getFollowUpTypeStyle = (type: FollowUpType) => {
   }
 }
 
-/**
- * 获取计划状态图标
- */
-const getPlanStatusIcon = (status: PlanStatus) => {
-  switch (status) {
-    case 'DONE':
-      return <CheckCircle className="h-4 w-4 text-primary" />
-    case 'PENDING':
-      return <Clock className="h-4 w-4 text-accent-foreground" />
-    default:
-      return <Clock className="h-4 w-4 text-muted-foreground" />
-  }
-}
-
 /**
  * 时间轴项目组件
  */
 interface TimelineItemProps {
   record: FollowUpRecordResponse
   isLast: boolean
+  isHighlighted?: boolean
+  onEdit?: (recordId: string, data: UpdateFollowUpRequest) => Promise<void>
+  onDelete?: (recordId: string) => Promise<void>
+  onUpdatePlan?: (planId: string, data: UpdatePlanRequest) => Promise<void>
 }
 
-const TimelineItem: React.FC<TimelineItemProps> = ({ record, isLast }) => {
+const TimelineItem: React.FC<TimelineItemProps> = ({
+  record,
+  isLast,
+  isHighlighted = false,
+  onEdit,
+  onDelete,
+  onUpdatePlan,
+}) => {
   const [showAttachments, setShowAttachments] = useState(false)
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null)
+  const [showRevisions, setShowRevisions] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [editContent, setEditContent] = useState(record.content)
+  const [editType, setEditType] = useState<FollowUpType>(record.followUpType)
+
+  const canEdit = record.canEdit && !!onEdit
+  const canDelete = record.canEdit && !!onDelete
+
+  // 进入编辑模式时以当前内容为初始值
+  const handleStartEdit = () => {
+    setEditContent(record.content)
+    setEditType(record.followUpType)
+    setIsEditing(true)
+  }
+
+  // 保存编辑
+  const handleSaveEdit = async () => {
+    if (!onEdit || !editContent.trim()) return
+
+    setIsSaving(true)
+    try {
+      await onEdit(record.id, {
+        content: editContent.trim(),
+        followUpType: editType,
+      })
+      setIsEditing(false)
+    } catch (error) {
+      // 错误提示由调用方处理，保留编辑内容便于重试
+      console.error('保存跟进记录失败:', error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // 删除前二次确认
+  const handleDelete = async () => {
+    if (!onDelete) return
+    if (!window.confirm('确定要删除这条跟进记录吗？附件和下一步计划将一并删除。')) return
+
+    try {
+      await onDelete(record.id)
+    } catch (error) {
+      console.error('删除跟进记录失败:', error)
+    }
+  }
 
   return (
-    <div className="relative">
+    <div id={`followup-${record.id}`} className="relative scroll-mt-24">
       {/* 时间轴线 */}
       {!isLast && (
         <div className="absolute left-6 top-12 w-0.5 h-full bg-border" />
@@ -168,20 +200,129 @@ const TimelineItem: React.FC<TimelineItemProps> = ({ record, isLast }) => {
                 {getFollowUpTypeIcon(record.followUpType)}
                 <span>{FOLLOWUP_TYPE_LABELS[record.followUpType]}</span>
               </div>
+
+              {/* 已编辑标记 */}
+              {record.revisionCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setShowRevisions(!showRevisions)}
+                  className="inline-flex items-center space-x-1 text-xs text-muted-foreground hover:text-foreground"
+                  title="查看修订历史"
+                >
+                  <History className="h-3 w-3" />
+                  <span>已编辑</span>
+                </button>
+              )}
             </div>
 
-            {/* 时间 */}
-            <div className="text-xs text-muted-foreground">
-              <div>{formatRelativeTime(record.createdAt)}</div>
-              <div className="hidden sm:block">{formatDateTime(record.createdAt)}</div>
+            <div className="flex items-center space-x-2">
+              {/* 编辑/删除操作 */}
+              {!isEditing && (canEdit || canDelete) && (
+                <div className="flex items-center space-x-1">
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={handleStartEdit}
+                      title="编辑"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                  )}
+                  {canDelete && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                      onClick={handleDelete}
+                      title="删除"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {/* 时间 */}
+              <div className="text-xs text-muted-foreground">
+                <div>{formatRelativeTime(record.createdAt)}</div>
+                <div className="hidden sm:block">{formatDateTime(record.createdAt)}</div>
+              </div>
             </div>
           </div>
 
           {/* 跟进内容 */}
-          <Card className="p-4">
-            <div className="whitespace-pre-wrap text-sm leading-relaxed">
-              {record.content}
-            </div>
+          <Card className={cn('p-4', isHighlighted && 'ring-2 ring-primary')}>
+            {isEditing ? (
+              <div className="space-y-3">
+                {/* 跟进类型选择 */}
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(FOLLOWUP_TYPE_LABELS) as FollowUpType[]).map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setEditType(type)}
+                      disabled={isSaving}
+                      className={cn(
+                        'inline-flex items-center space-x-1 px-2 py-1 rounded-full border text-xs font-medium transition-colors',
+                        editType === type
+                          ? getFollowUpTypeStyle(type)
+                          : 'border-border text-muted-foreground hover:bg-muted'
+                      )}
+                    >
+                      {getFollowUpTypeIcon(type)}
+                      <span>{FOLLOWUP_TYPE_LABELS[type]}</span>
+                    </button>
+                  ))}
+                </div>
+
+                <Textarea
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  disabled={isSaving}
+                  rows={4}
+                  maxLength={2000}
+                />
+
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsEditing(false)}
+                    disabled={isSaving}
+                  >
+                    取消
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleSaveEdit}
+                    disabled={isSaving || !editContent.trim()}
+                  >
+                    {isSaving ? '保存中...' : '保存'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="whitespace-pre-wrap text-sm leading-relaxed">
+                {record.content}
+              </div>
+            )}
+
+            {/* 修订历史 */}
+            {showRevisions && record.revisionCount > 0 && (
+              <div className="mt-4 pt-4 border-t space-y-2">
+                <div className="flex items-center space-x-2 text-sm font-medium">
+                  <History className="h-4 w-4" />
+                  <span>修订历史（{record.revisionCount} 次编辑）</span>
+                </div>
+                <RevisionHistory
+                  recordId={record.id}
+                  currentContent={record.content}
+                  currentFollowUpType={record.followUpType}
+                />
+              </div>
+            )}
 
             {/* 附件 */}
             {record.attachments.length > 0 && (
@@ -207,20 +348,28 @@ const TimelineItem: React.FC<TimelineItemProps> = ({ record, isLast }) => {
                   'grid gap-2',
                   showAttachments ? 'grid-cols-1' : 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3'
                 )}>
-                  {(showAttachments ? record.attachments : record.attachments.slice(0, 3)).map((attachment) => (
+                  {(showAttachments ? record.attachments : record.attachments.slice(0, 3)).map((attachment, attachmentIndex) => (
                     <div
                       key={attachment.id}
                       className="flex items-center space-x-2 p-2 bg-muted/50 rounded-md"
                     >
                       {isImageFile(attachment.fileType) ? (
-                        <div className="flex-shrink-0 w-10 h-10 bg-muted rounded overflow-hidden">
+                        <button
+                          type="button"
+                          onClick={() => setViewerIndex(attachmentIndex)}
+                          className="flex-shrink-0 w-10 h-10 bg-muted rounded overflow-hidden"
+                          title="查看图片"
+                        >
                           {/* eslint-disable-next-line @next/next/no-img-element */}
                           <img
-                            src={attachment.fileUrl}
+                            src={attachment.thumbnailUrl ?? getAttachmentDownloadUrl(attachment.id, { disposition: 'inline' })}
                             alt={attachment.fileName}
+                            width={attachment.width}
+                            height={attachment.height}
+                            loading="lazy"
                             className="w-full h-full object-cover"
                           />
-                        </div>
+                        </button>
                       ) : (
                         <div className="flex-shrink-0 w-10 h-10 bg-muted rounded flex items-center justify-center">
                           <Paperclip className="h-4 w-4 text-muted-foreground" />
@@ -231,13 +380,19 @@ const TimelineItem: React.FC<TimelineItemProps> = ({ record, isLast }) => {
                         <p className="text-xs text-muted-foreground">
                           {attachment.fileSize ? `${(attachment.fileSize / 1024).toFixed(1)} KB` : ''}
                         </p>
+                        {/* 文档内容预览 */}
+                        {attachment.textPreview && (
+                          <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5" title={attachment.textPreview}>
+                            {attachment.textPreview}
+                          </p>
+                        )}
                       </div>
                       <div className="flex items-center space-x-1">
                         <Button
                           variant="ghost"
                           size="sm"
                           className="h-6 w-6 p-0"
-                          onClick={() => handleAttachmentView(attachment)}
+                          onClick={() => setViewerIndex(attachmentIndex)}
                           title={attachment.fileType === 'image' ? '查看图片' : '查看文件'}
                         >
                           <Eye className="h-3 w-3" />
@@ -246,7 +401,7 @@ const TimelineItem: React.FC<TimelineItemProps> = ({ record, isLast }) => {
                           variant="ghost"
                           size="sm"
                           className="h-6 w-6 p-0"
-                          onClick={() => handleAttachmentDownload(attachment)}
+                          onClick={() => downloadAttachment(attachment)}
                           title="下载文件"
                         >
                           <Download className="h-3 w-3" />
@@ -258,6 +413,14 @@ const TimelineItem: React.FC<TimelineItemProps> = ({ record, isLast }) => {
               </div>
             )}
 
+            {/* 附件查看器，可在本条记录的附件间切换 */}
+            <AttachmentViewer
+              attachments={record.attachments}
+              index={viewerIndex}
+              onIndexChange={setViewerIndex}
+              onClose={() => setViewerIndex(null)}
+            />
+
             {/* 下一步计划 */}
             {record.nextStepPlans.length > 0 && (
               <div className="mt-4 pt-4 border-t space-y-2">
@@ -266,22 +429,7 @@ const TimelineItem: React.FC<TimelineItemProps> = ({ record, isLast }) => {
                   <span>下一步计划</span>
                 </div>
                 {record.nextStepPlans.map((plan) => (
-                  <div key={plan.id} className="flex items-start space-x-3 p-3 bg-muted/30 rounded-md">
-                    {getPlanStatusIcon(plan.status)}
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm font-medium">
-                          {PLAN_STATUS_LABELS[plan.status]}
-                        </span>
-                        <span className="text-xs text-muted-foreground">
-                          {formatDateTime(plan.dueDate)}
-                        </span>
-                      </div>
-                      {plan.notes && (
-                        <p className="text-sm text-muted-foreground mt-1">{plan.notes}</p>
-                      )}
-                    </div>
-                  </div>
+                  <PlanItem key={plan.id} plan={plan} onUpdate={onUpdatePlan} />
                 ))}
               </div>
             )}
@@ -301,8 +449,23 @@ const TimelineItem: React.FC<TimelineItemProps> = ({ record, isLast }) => {
 export function TimelineView({
   followUpRecords,
   isLoading = false,
+  highlightedRecordId,
+  onEditRecord,
+  onDeleteRecord,
+  onUpdatePlan,
   className,
 }: TimelineViewProps) {
+  // 记录加载完成后滚动到高亮的跟进记录
+  const hasHighlightedRecord = !!highlightedRecordId &&
+    followUpRecords.some((record) => record.id === highlightedRecordId)
+
+  React.useEffect(() => {
+    if (!hasHighlightedRecord) return
+    document
+      .getElementById(`followup-${highlightedRecordId}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+  }, [hasHighlightedRecord, highlightedRecordId])
+
   if (isLoading) {
     return (
       <div className={cn('space-y-6', className)}>
@@ -343,6 +506,10 @@ export function TimelineView({
           key={record.id}
           record={record}
           isLast={index === followUpRecords.length - 1}
+          isHighlighted={record.id === highlightedRecordId}
+          onEdit={onEditRecord}
+          onDelete={onDeleteRecord}
+          onUpdatePlan={onUpdatePlan}
         />
       ))}
     </div>
@@ -1,118 +1,402 @@
 /**
  * VoiceInput组件
  * 语音转文字输入组件，基于Web Speech API
+ *
+ * 支持长时间连续听写：识别过程中实时返回未确定的文本，浏览器因静音或时长限制结束识别时自动重新开始，
+ * 口述的"逗号"、"句号"、"换行"等转换为标点，"类型 上门拜访"、"发布"等整句识别为语音指令。
+ * 浏览器不支持 Web Speech API（Firefox、iOS Safari）时改用 MediaRecorder 录音，停止后由服务端转写
  */
 
 'use client'
 
 import * as React from 'react'
-import { Mic, MicOff, Loader2 } from 'lucide-react'
+import { Loader2, Mic, MicOff, Square } from 'lucide-react'
 import { Button } from '@/components/ui/button'
-import { SpeechRecognitionState } from '@/lib/types/followup'
+import { applySpokenPunctuation, isVoiceCommandPrefix, parseVoiceCommand, VoiceCommand } from '@/lib/dictation'
+import { SpeechRecognitionState, TranscriptionResponse } from '@/lib/types/followup'
+
+/**
+ * 自动重启的频率限制：RESTART_WINDOW_MS 内重启超过 MAX_RESTARTS 次视为识别服务异常，停止听写
+ */
+const MAX_RESTARTS = 5
+const RESTART_WINDOW_MS = 10 * 1000
+
+/**
+ * 录音转写模式下单次录音的最长时间，到达后自动停止并转写
+ */
+const MAX_RECORDING_MS = 5 * 60 * 1000
+
+/**
+ * 无法通过重启恢复的错误
+ */
+const FATAL_ERRORS: SpeechRecognitionErrorEvent['error'][] = [
+  'not-allowed',
+  'service-not-allowed',
+  'audio-capture',
+  'network',
+  'language-not-supported',
+]
 
 /**
  * VoiceInput组件Props接口
  */
 export interface VoiceInputProps {
-  /** 语音识别结果的回调函数 */
+  /** 已确定的识别结果（每次只包含新确定的部分） */
   onTranscript: (transcript: string) => void
+  /** 尚未确定的识别结果，为空字符串表示没有 */
+  onInterimTranscript?: (transcript: string) => void
+  /** 识别到语音指令，提供时整句为指令的识别结果不再作为文本返回 */
+  onCommand?: (command: VoiceCommand) => void
+  /** 开始听写 */
+  onStart?: () => void
+  /** 结束听写 */
+  onStop?: () => void
+  /** 解析语音指令中日期所用的时区，默认为浏览器时区 */
+  timezone?: string
   /** 是否禁用 */
   disabled?: boolean
   /** 自定义类名 */
   className?: string
 }
 
+/**
+ * 语音输入方式：浏览器实时识别，或录音后由服务端转写
+ */
+type VoiceInputMode = 'speech-recognition' | 'server-transcription'
+
+/**
+ * 检测浏览器支持的语音输入方式
+ */
+const detectVoiceInputMode = (): VoiceInputMode | null => {
+  if (window.SpeechRecognition || window.webkitSpeechRecognition) return 'speech-recognition'
+  if (typeof MediaRecorder !== 'undefined' && 'mediaDevices' in navigator) return 'server-transcription'
+  return null
+}
+
+/**
+ * 上传录音并获取转写文本
+ *
+ * @param audio 录音
+ * @returns {Promise<string>} 转写文本
+ */
+const transcribeAudio = async (audio: Blob): Promise<string> => {
+  const response = await fetch('/api/transcribe?lang=zh-CN', {
+    method: 'POST',
+    headers: { 'Content-Type': audio.type || 'audio/webm' },
+    body: audio,
+  })
+  const result = await response.json().catch(() => null)
+
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error || '语音转写失败')
+  }
+  return (result.data as TranscriptionResponse).text
+}
+
+/**
+ * 格式化听写时长
+ */
+const formatElapsed = (seconds: number) =>
+  `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`
+
 /**
  * 语音输入组件
  *
  * @param props 组件属性
  * @returns {JSX.Element} 语音输入组件
  */
-export function VoiceInput({ onTranscript, disabled = false, className }: VoiceInputProps) {
+export function VoiceInput({
+  onTranscript,
+  onInterimTranscript,
+  onCommand,
+  onStart,
+  onStop,
+  timezone,
+  disabled = false,
+  className,
+}: VoiceInputProps) {
   const [mounted, setMounted] = React.useState(false)
+  const [mode, setMode] = React.useState<VoiceInputMode | null>(null)
   const [recognitionState, setRecognitionState] = React.useState<SpeechRecognitionState>('idle')
+  const [errorMessage, setErrorMessage] = React.useState<string | null>(null)
+  const [startedAt, setStartedAt] = React.useState<number | null>(null)
+  const [elapsedSeconds, setElapsedSeconds] = React.useState(0)
   const recognitionRef = React.useRef<SpeechRecognition | null>(null)
+  // 用户是否仍希望继续听写（识别结束时据此决定是否自动重启）
+  const listeningRef = React.useRef(false)
+  const interimRef = React.useRef('')
+  const restartTimesRef = React.useRef<number[]>([])
+  const recorderRef = React.useRef<MediaRecorder | null>(null)
+
+  // 回调保存在 ref 中，避免父组件重新渲染时重建识别实例
+  const callbacksRef = React.useRef({ onTranscript, onInterimTranscript, onCommand, onStart, onStop })
+  React.useEffect(() => {
+    callbacksRef.current = { onTranscript, onInterimTranscript, onCommand, onStart, onStop }
+  }, [onTranscript, onInterimTranscript, onCommand, onStart, onStop])
+  const timezoneRef = React.useRef(timezone)
+  React.useEffect(() => {
+    timezoneRef.current = timezone
+  }, [timezone])
+
+  /**
+   * 返回已确定的识别结果，整句为语音指令时触发指令
+   */
+  const emitTranscript = React.useCallback((transcript: string) => {
+    const { onTranscript, onCommand } = callbacksRef.current
+    const command = onCommand ? parseVoiceCommand(transcript, { timezone: timezoneRef.current }) : null
+    if (command) {
+      onCommand!(command)
+    } else {
+      onTranscript(applySpokenPunctuation(transcript))
+    }
+  }, [])
+
+  /**
+   * 返回尚未确定的识别结果，可能是语音指令时不写入输入框
+   */
+  const emitInterimTranscript = React.useCallback((transcript: string) => {
+    const { onInterimTranscript, onCommand } = callbacksRef.current
+    onInterimTranscript?.(onCommand && isVoiceCommandPrefix(transcript) ? '' : applySpokenPunctuation(transcript))
+  }, [])
 
   // 避免服务端渲染不匹配
   React.useEffect(() => {
+    setMode(detectVoiceInputMode())
     setMounted(true)
   }, [])
 
+  /**
+   * 显示错误，2秒后恢复
+   */
+  const showError = React.useCallback((message: string) => {
+    setErrorMessage(message)
+    setRecognitionState('error')
+    setTimeout(() => {
+      setRecognitionState('idle')
+      setErrorMessage(null)
+    }, 2000)
+  }, [])
+
   /**
    * 初始化语音识别
    */
   React.useEffect(() => {
-    if (!mounted) return
-
-    // 检查浏览器是否支持语音识别
-    if (typeof window !== 'undefined' && 'webkitSpeechRecognition' in window) {
-      const SpeechRecognition = window.webkitSpeechRecognition || window.SpeechRecognition
-      if (SpeechRecognition) {
-        recognitionRef.current = new SpeechRecognition()
-        recognitionRef.current.continuous = false
-        recognitionRef.current.interimResults = false
-        recognitionRef.current.lang = 'zh-CN'
-
-        recognitionRef.current.onstart = () => {
-          setRecognitionState('recording')
-        }
+    if (mode !== 'speech-recognition') return
 
-        recognitionRef.current.onresult = (event: SpeechRecognitionEvent) => {
-          const transcript = event.results[0][0].transcript
-          onTranscript(transcript)
-          setRecognitionState('idle')
-        }
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
 
-        recognitionRef.current.onerror = (event: SpeechRecognitionErrorEvent) => {
-          console.error('语音识别错误:', event.error)
-          setRecognitionState('error')
+    const recognition = new SpeechRecognition()
+    recognition.continuous = true
+    recognition.interimResults = true
+    recognition.lang = 'zh-CN'
 
-          // 2秒后重置状态
-          setTimeout(() => {
-            setRecognitionState('idle')
-          }, 2000)
+    recognition.onresult = (event: SpeechRecognitionEvent) => {
+      let finalTranscript = ''
+      let interimTranscript = ''
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i]
+        if (result.isFinal) {
+          finalTranscript += result[0].transcript
+        } else {
+          interimTranscript += result[0].transcript
         }
+      }
+
+      if (finalTranscript) {
+        emitTranscript(finalTranscript)
+      }
+      interimRef.current = interimTranscript
+      emitInterimTranscript(interimTranscript)
+    }
+
+    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+      // 静音超时和主动停止由 onend 处理
+      if (!FATAL_ERRORS.includes(event.error)) return
+
+      console.error('语音识别错误:', event.error)
+      listeningRef.current = false
+      showError(event.error === 'not-allowed' || event.error === 'service-not-allowed'
+        ? '麦克风权限被拒绝'
+        : '语音识别不可用')
+    }
+
+    recognition.onend = () => {
+      // 识别被中断时未确定的文本不会再返回，按已确定处理
+      if (interimRef.current) {
+        emitTranscript(interimRef.current)
+        interimRef.current = ''
+        emitInterimTranscript('')
+      }
 
-        recognitionRef.current.onend = () => {
-          setRecognitionState('idle')
+      if (listeningRef.current) {
+        const now = Date.now()
+        restartTimesRef.current = [...restartTimesRef.current.filter(time => now - time < RESTART_WINDOW_MS), now]
+
+        if (restartTimesRef.current.length <= MAX_RESTARTS) {
+          try {
+            recognition.start()
+            return
+          } catch (error) {
+            console.error('重新启动语音识别失败:', error)
+          }
         }
+        listeningRef.current = false
+        showError('语音识别不可用')
       }
+
+      setStartedAt(null)
+      setRecognitionState(state => (state === 'error' ? state : 'idle'))
+      callbacksRef.current.onStop?.()
     }
 
+    recognitionRef.current = recognition
+
     // 清理函数
     return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.abort()
-      }
+      listeningRef.current = false
+      recognition.onend = null
+      recognition.abort()
+      recognitionRef.current = null
     }
-  }, [onTranscript, mounted])
+  }, [mode, showError, emitTranscript, emitInterimTranscript])
+
+  // 听写计时
+  React.useEffect(() => {
+    if (startedAt === null) {
+      setElapsedSeconds(0)
+      return
+    }
+
+    const timer = setInterval(() => {
+      setElapsedSeconds(Math.floor((Date.now() - startedAt) / 1000))
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [startedAt])
 
   /**
-   * 开始录音
+   * 开始录音（服务端转写模式），停止后上传整段录音转写
    */
-  const startRecording = React.useCallback(() => {
-    if (recognitionRef.current && recognitionState === 'idle') {
+  const startMediaRecorder = React.useCallback(async () => {
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    } catch (error) {
+      console.error('获取麦克风失败:', error)
+      showError('麦克风权限被拒绝')
+      return
+    }
+
+    const recorder = new MediaRecorder(stream)
+    const chunks: Blob[] = []
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+
+    recorder.onstop = async () => {
+      stream.getTracks().forEach(track => track.stop())
+      recorderRef.current = null
+      setStartedAt(null)
+      setRecognitionState('processing')
+
       try {
-        recognitionRef.current.start()
+        const text = await transcribeAudio(new Blob(chunks, { type: recorder.mimeType }))
+        if (text) {
+          emitTranscript(text)
+        }
+        setRecognitionState('idle')
       } catch (error) {
-        console.error('启动语音识别失败:', error)
-        setRecognitionState('error')
-        setTimeout(() => {
-          setRecognitionState('idle')
-        }, 2000)
+        console.error('语音转写失败:', error)
+        showError(error instanceof Error ? error.message : '语音转写失败')
+      } finally {
+        callbacksRef.current.onStop?.()
       }
     }
-  }, [recognitionState])
+
+    recorder.start()
+    recorderRef.current = recorder
+    setRecognitionState('recording')
+    setStartedAt(Date.now())
+    callbacksRef.current.onStart?.()
+  }, [showError, emitTranscript])
+
+  // 录音达到最长时间时自动停止
+  React.useEffect(() => {
+    if (mode !== 'server-transcription' || startedAt === null) return
+
+    const timer = setTimeout(() => {
+      recorderRef.current?.stop()
+    }, MAX_RECORDING_MS)
+    return () => clearTimeout(timer)
+  }, [mode, startedAt])
+
+  // 卸载时停止录音，不再转写
+  React.useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current
+      if (recorder) {
+        recorder.onstop = null
+        recorder.stop()
+        recorder.stream.getTracks().forEach(track => track.stop())
+      }
+    }
+  }, [])
+
+  /**
+   * 开始录音
+   */
+  const startRecording = React.useCallback(() => {
+    if (recognitionState !== 'idle') return
+
+    if (mode === 'server-transcription') {
+      startMediaRecorder()
+      return
+    }
+
+    const recognition = recognitionRef.current
+    if (!recognition) return
+
+    try {
+      listeningRef.current = true
+      restartTimesRef.current = []
+      interimRef.current = ''
+      recognition.start()
+      setRecognitionState('recording')
+      setStartedAt(Date.now())
+      callbacksRef.current.onStart?.()
+    } catch (error) {
+      console.error('启动语音识别失败:', error)
+      listeningRef.current = false
+      showError('语音识别不可用')
+    }
+  }, [mode, recognitionState, showError, startMediaRecorder])
 
   /**
-   * 停止录音
+   * 停止录音，已说出的内容在识别结束（或转写完成）后返回
    */
   const stopRecording = React.useCallback(() => {
-    if (recognitionRef.current && recognitionState === 'recording') {
+    if (recognitionState !== 'recording') return
+
+    if (recorderRef.current) {
+      recorderRef.current.stop()
+    } else if (recognitionRef.current) {
+      listeningRef.current = false
       recognitionRef.current.stop()
     }
   }, [recognitionState])
 
+  // 禁用（如提交中）时停止听写
+  React.useEffect(() => {
+    if (!disabled) return
+
+    if (recorderRef.current) {
+      recorderRef.current.stop()
+    } else if (listeningRef.current) {
+      listeningRef.current = false
+      recognitionRef.current?.stop()
+    }
+  }, [disabled])
+
   /**
    * 处理按钮点击
    */
@@ -124,53 +408,6 @@ export function VoiceInput({ onTranscript, disabled = false, className }: VoiceI
     }
   }, [recognitionState, startRecording, stopRecording])
 
-  /**
-   * 获取按钮图标
-   */
-  const getButtonIcon = React.useCallback(() => {
-    switch (recognitionState) {
-      case 'recording':
-        return <Loader2 className="h-4 w-4 animate-spin" />
-      case 'error':
-        return <MicOff className="h-4 w-4" />
-      default:
-        return <Mic className="h-4 w-4" />
-    }
-  }, [recognitionState])
-
-  /**
-   * 获取按钮文本
-   */
-  const getButtonText = React.useCallback(() => {
-    switch (recognitionState) {
-      case 'recording':
-        return '录音中...'
-      case 'error':
-        return '语音识别不可用'
-      default:
-        return '语音输入'
-    }
-  }, [recognitionState])
-
-  /**
-   * 获取按钮变体
-   */
-  const getButtonVariant = React.useCallback(() => {
-    switch (recognitionState) {
-      case 'recording':
-        return 'destructive' as const
-      case 'error':
-        return 'outline' as const
-      default:
-        return 'ghost' as const
-    }
-  }, [recognitionState])
-
-  // 检查浏览器支持 - 等待mounted后进行检查
-  const isSupported = mounted &&
-    typeof window !== 'undefined' &&
-    ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window)
-
   // 在服务端渲染时显示加载状态
   if (!mounted) {
     return (
@@ -187,7 +424,7 @@ export function VoiceInput({ onTranscript, disabled = false, className }: VoiceI
     )
   }
 
-  if (!isSupported) {
+  if (!mode) {
     return (
       <Button
         type="button"
@@ -202,19 +439,55 @@ export function VoiceInput({ onTranscript, disabled = false, className }: VoiceI
     )
   }
 
+  if (recognitionState === 'recording') {
+    return (
+      <Button
+        type="button"
+        variant="destructive"
+        size="sm"
+        onClick={handleButtonClick}
+        className={className}
+        title={mode === 'server-transcription' ? '停止录音并转写' : '停止听写'}
+      >
+        <Square className="h-3 w-3 fill-current" />
+        <span className="ml-2 tabular-nums" aria-live="off">
+          {formatElapsed(elapsedSeconds)}
+        </span>
+      </Button>
+    )
+  }
+
+  if (recognitionState === 'processing') {
+    return (
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        disabled
+        className={className}
+      >
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span className="ml-2 hidden sm:inline">转写中...</span>
+      </Button>
+    )
+  }
+
   return (
     <Button
       type="button"
-      variant={getButtonVariant()}
+      variant={recognitionState === 'error' ? 'outline' : 'ghost'}
       size="sm"
       disabled={disabled || recognitionState === 'error'}
       onClick={handleButtonClick}
       className={className}
+      title={mode === 'server-transcription'
+        ? '录音后转写为文字，可说“逗号”“句号”“换行”输入标点'
+        : '连续听写，可说“逗号”“句号”“换行”输入标点'}
     >
-      {getButtonIcon()}
+      {recognitionState === 'error' ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
       <span className="ml-2 hidden sm:inline">
-        {getButtonText()}
+        {recognitionState === 'error' ? errorMessage : '语音输入'}
       </span>
     </Button>
   )
-}
\ No newline at end of file
+}
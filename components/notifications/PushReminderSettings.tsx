@@ -0,0 +1,215 @@
+/**
+ * PushReminderSettings组件
+ * 推送提醒设置：开启/关闭浏览器推送，设置时区和免打扰时段
+ */
+
+'use client'
+
+import * as React from 'react'
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Bell, BellOff } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { useToast } from '@/components/ui/use-toast'
+import { usePushSubscription } from '@/hooks/use-push-subscription'
+import { fetchNotificationSettings, NOTIFICATION_SETTINGS_QUERY_KEY } from '@/hooks/use-user-timezone'
+import { NotificationSettings } from '@/lib/types/push'
+import { cn } from '@/lib/utils'
+
+/**
+ * 推送提醒设置Props接口
+ */
+export interface PushReminderSettingsProps {
+  /** 自定义类名 */
+  className?: string
+}
+
+/**
+ * 订阅状态说明
+ */
+const STATUS_HINTS = {
+  loading: '正在检查推送状态...',
+  unsupported: '当前浏览器不支持推送通知',
+  unconfigured: '服务器未配置推送服务',
+  denied: '通知权限已被拒绝，请在浏览器设置中允许通知',
+  subscribed: '将在计划到期前一天和当天提醒您',
+  unsubscribed: '开启后在计划到期前一天和当天提醒您',
+} as const
+
+/**
+ * 保存提醒设置
+ */
+const saveSettings = async (data: NotificationSettings): Promise<NotificationSettings> => {
+  const response = await fetch('/api/push/settings', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  })
+
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.details?.[0]?.message || result.error || '保存提醒设置失败')
+  }
+  return result.data
+}
+
+/**
+ * 推送提醒设置组件
+ *
+ * @param props 组件属性
+ * @returns {JSX.Element} 推送提醒设置组件
+ */
+export function PushReminderSettings({ className }: PushReminderSettingsProps) {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const { status, subscribe, unsubscribe } = usePushSubscription()
+  const [isToggling, setIsToggling] = useState(false)
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(false)
+  const [quietHoursStart, setQuietHoursStart] = useState('22:00')
+  const [quietHoursEnd, setQuietHoursEnd] = useState('08:00')
+
+  const { data: settings } = useQuery({
+    queryKey: NOTIFICATION_SETTINGS_QUERY_KEY,
+    queryFn: fetchNotificationSettings,
+  })
+
+  // 同步服务端保存的免打扰设置
+  React.useEffect(() => {
+    if (!settings) return
+    setQuietHoursEnabled(!!settings.quietHoursStart)
+    if (settings.quietHoursStart) setQuietHoursStart(settings.quietHoursStart)
+    if (settings.quietHoursEnd) setQuietHoursEnd(settings.quietHoursEnd)
+  }, [settings])
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: saveSettings,
+    onSuccess: (data) => {
+      queryClient.setQueryData(NOTIFICATION_SETTINGS_QUERY_KEY, data)
+      toast({
+        title: '成功',
+        description: '提醒设置已保存',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: '错误',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  /**
+   * 切换推送开关
+   */
+  const handleTogglePush = async (enabled: boolean) => {
+    setIsToggling(true)
+    try {
+      if (enabled) {
+        await subscribe()
+      } else {
+        await unsubscribe()
+      }
+    } catch (error) {
+      toast({
+        title: '错误',
+        description: error instanceof Error ? error.message : '操作失败',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsToggling(false)
+    }
+  }
+
+  /**
+   * 保存时区和免打扰时段，时区取浏览器当前时区
+   */
+  const handleSaveSettings = () => {
+    saveSettingsMutation.mutate({
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      quietHoursStart: quietHoursEnabled ? quietHoursStart : null,
+      quietHoursEnd: quietHoursEnabled ? quietHoursEnd : null,
+    })
+  }
+
+  const isSubscribed = status === 'subscribed'
+  const canToggle = status === 'subscribed' || status === 'unsubscribed'
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className={cn('h-8 px-2', className)}
+          title="推送提醒设置"
+        >
+          {isSubscribed ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        {/* 推送开关 */}
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="push-enabled">到期提醒</Label>
+            <Switch
+              id="push-enabled"
+              checked={isSubscribed}
+              onCheckedChange={handleTogglePush}
+              disabled={!canToggle || isToggling}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">{STATUS_HINTS[status]}</p>
+        </div>
+
+        {/* 免打扰时段 */}
+        <div className="space-y-2 pt-3 border-t">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="quiet-hours">免打扰时段</Label>
+            <Switch
+              id="quiet-hours"
+              checked={quietHoursEnabled}
+              onCheckedChange={setQuietHoursEnabled}
+            />
+          </div>
+          {quietHoursEnabled && (
+            <div className="flex items-center space-x-2">
+              <Input
+                type="time"
+                value={quietHoursStart}
+                onChange={(e) => setQuietHoursStart(e.target.value)}
+                className="h-8"
+              />
+              <span className="text-xs text-muted-foreground">至</span>
+              <Input
+                type="time"
+                value={quietHoursEnd}
+                onChange={(e) => setQuietHoursEnd(e.target.value)}
+                className="h-8"
+              />
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            时区：{settings?.timezone ?? '-'}（保存时使用当前浏览器时区）
+          </p>
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={handleSaveSettings}
+              disabled={saveSettingsMutation.isPending}
+            >
+              {saveSettingsMutation.isPending ? '保存中...' : '保存'}
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,164 @@
+/**
+ * InstallPrompt组件
+ * 在手机浏览器中提示将应用添加到主屏幕：Android Chrome 等调用系统安装对话框，iOS Safari 显示操作说明
+ */
+
+'use client'
+
+import * as React from 'react'
+import { Download, Share, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+
+/**
+ * 关闭提示后再次提示的间隔（14天）
+ */
+const DISMISS_DURATION_MS = 14 * 24 * 60 * 60 * 1000
+
+/**
+ * 记录关闭时间的 localStorage 键
+ */
+const DISMISSED_AT_KEY = 'crm-install-prompt-dismissed-at'
+
+/**
+ * 浏览器的安装提示事件（尚未纳入 TypeScript DOM 类型）
+ */
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>
+}
+
+/**
+ * 安装提示Props接口
+ */
+export interface InstallPromptProps {
+  /** 自定义类名 */
+  className?: string
+}
+
+/**
+ * 是否已以独立窗口（从主屏幕）打开
+ */
+const isStandalone = () =>
+  window.matchMedia('(display-mode: standalone)').matches ||
+  (navigator as Navigator & { standalone?: boolean }).standalone === true
+
+/**
+ * 是否为 iOS Safari（不支持 beforeinstallprompt，只能通过分享菜单添加）
+ */
+const isIosSafari = () =>
+  /iphone|ipad|ipod/i.test(navigator.userAgent) && !/crios|fxios|edgios/i.test(navigator.userAgent)
+
+/**
+ * 最近是否关闭过提示
+ */
+const isRecentlyDismissed = () => {
+  try {
+    const dismissedAt = Number(localStorage.getItem(DISMISSED_AT_KEY))
+    return Date.now() - dismissedAt < DISMISS_DURATION_MS
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 添加到主屏幕提示组件
+ *
+ * @param props 组件属性
+ * @returns {JSX.Element | null} 安装提示，不可安装、已安装或最近关闭过时不渲染
+ */
+export function InstallPrompt({ className }: InstallPromptProps) {
+  const [installEvent, setInstallEvent] = React.useState<BeforeInstallPromptEvent | null>(null)
+  const [showIosHint, setShowIosHint] = React.useState(false)
+
+  React.useEffect(() => {
+    if (isStandalone() || isRecentlyDismissed()) return
+
+    if (isIosSafari()) {
+      setShowIosHint(true)
+      return
+    }
+
+    // 阻止浏览器默认的安装横幅，改为显示自定义提示
+    const handleBeforeInstallPrompt = (event: Event) => {
+      event.preventDefault()
+      setInstallEvent(event as BeforeInstallPromptEvent)
+    }
+    const handleInstalled = () => setInstallEvent(null)
+
+    window.addEventListener('beforeinstallprompt', handleBeforeInstallPrompt)
+    window.addEventListener('appinstalled', handleInstalled)
+    return () => {
+      window.removeEventListener('beforeinstallprompt', handleBeforeInstallPrompt)
+      window.removeEventListener('appinstalled', handleInstalled)
+    }
+  }, [])
+
+  /**
+   * 关闭提示，一段时间内不再显示
+   */
+  const handleDismiss = React.useCallback(() => {
+    try {
+      localStorage.setItem(DISMISSED_AT_KEY, String(Date.now()))
+    } catch {
+      // 隐私模式下无法写入时仅关闭本次提示
+    }
+    setInstallEvent(null)
+    setShowIosHint(false)
+  }, [])
+
+  /**
+   * 打开系统安装对话框，事件只能使用一次
+   */
+  const handleInstall = React.useCallback(async () => {
+    if (!installEvent) return
+    await installEvent.prompt()
+    const { outcome } = await installEvent.userChoice
+    setInstallEvent(null)
+    if (outcome === 'dismissed') {
+      handleDismiss()
+    }
+  }, [installEvent, handleDismiss])
+
+  if (!installEvent && !showIosHint) return null
+
+  return (
+    <Card className={cn('p-3 shadow-lg', className)}>
+      <div className="flex items-start gap-3">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src="/icons/icon-192.png" alt="" className="h-10 w-10 shrink-0 rounded-lg" />
+        <div className="min-w-0 flex-1 space-y-1">
+          <p className="text-sm font-medium">添加到主屏幕</p>
+          {showIosHint ? (
+            <p className="text-xs text-muted-foreground">
+              点击浏览器底部的
+              <Share className="mx-1 inline h-3.5 w-3.5 align-text-bottom" />
+              分享按钮，选择&ldquo;添加到主屏幕&rdquo;，即可像应用一样快速打开
+            </p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              像应用一样从桌面打开，离线时也能查看最近访问的客户
+            </p>
+          )}
+          {installEvent && (
+            <Button type="button" size="sm" onClick={handleInstall} className="mt-1 h-7">
+              <Download className="h-3.5 w-3.5 mr-1" />
+              安装
+            </Button>
+          )}
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={handleDismiss}
+          className="h-7 w-7 p-0"
+          title="以后再说"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </Card>
+  )
+}
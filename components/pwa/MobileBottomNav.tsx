@@ -0,0 +1,113 @@
+/**
+ * MobileBottomNav组件
+ * 手机端底部导航：客户、快速记录、待办，仅在登录后的页面显示
+ */
+
+'use client'
+
+import * as React from 'react'
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { CalendarCheck, PenLine, Users } from 'lucide-react'
+import { InstallPrompt } from '@/components/pwa/InstallPrompt'
+import { QuickLogSheet } from '@/components/pwa/QuickLogSheet'
+import { QUICK_LOG_EVENT } from '@/lib/pwa'
+import { cn } from '@/lib/utils'
+
+/**
+ * 显示底部导航的页面
+ */
+const NAV_SECTIONS = ['/customers', '/todos']
+
+/**
+ * 客户详情页路径
+ */
+const CUSTOMER_DETAIL_PATTERN = /^\/customers\/(?!new$)[^/]+$/
+
+/**
+ * 导航项
+ */
+const NAV_ITEMS = [
+  { href: '/customers', label: '客户', icon: Users },
+  { href: '/todos', label: '待办', icon: CalendarCheck },
+] as const
+
+/**
+ * 是否位于导航项所在的页面
+ */
+const isSectionActive = (pathname: string, href: string) =>
+  pathname === href || pathname.startsWith(`${href}/`)
+
+/**
+ * 手机端底部导航组件
+ *
+ * @returns {JSX.Element | null} 底部导航，登录页等页面不渲染
+ */
+export function MobileBottomNav() {
+  const pathname = usePathname()
+  const [quickLogOpen, setQuickLogOpen] = React.useState(false)
+
+  const handleCloseQuickLog = React.useCallback(() => setQuickLogOpen(false), [])
+
+  /**
+   * 快速记录：在客户详情页直接聚焦跟进输入框，其他页面先选择客户
+   */
+  const handleQuickLog = React.useCallback(() => {
+    if (CUSTOMER_DETAIL_PATTERN.test(pathname)) {
+      window.dispatchEvent(new Event(QUICK_LOG_EVENT))
+      return
+    }
+    setQuickLogOpen(true)
+  }, [pathname])
+
+  if (!NAV_SECTIONS.some((section) => isSectionActive(pathname, section))) {
+    return null
+  }
+
+  const [customersItem, todosItem] = NAV_ITEMS.map(({ href, label, icon: Icon }) => {
+    const active = isSectionActive(pathname, href)
+    return (
+      <Link
+        key={href}
+        href={href}
+        aria-current={active ? 'page' : undefined}
+        className={cn(
+          'flex flex-col items-center justify-center gap-0.5 text-xs',
+          active ? 'text-primary' : 'text-muted-foreground'
+        )}
+      >
+        <Icon className="h-5 w-5" />
+        {label}
+      </Link>
+    )
+  })
+
+  return (
+    <>
+      {/* 占位，避免页面底部内容被导航遮挡 */}
+      <div aria-hidden className="h-[calc(4rem+env(safe-area-inset-bottom))] md:hidden" />
+
+      <InstallPrompt className="fixed inset-x-3 bottom-[calc(4.75rem+env(safe-area-inset-bottom))] z-40 md:hidden" />
+
+      <nav className="fixed inset-x-0 bottom-0 z-40 border-t bg-background/95 pb-[env(safe-area-inset-bottom)] backdrop-blur supports-[backdrop-filter]:bg-background/80 md:hidden">
+        <div className="grid h-16 grid-cols-3">
+          {customersItem}
+          <div className="flex items-center justify-center">
+            <button
+              type="button"
+              onClick={handleQuickLog}
+              className="flex h-12 w-12 -translate-y-3 items-center justify-center rounded-full bg-primary text-primary-foreground shadow-lg active:scale-95 transition-transform"
+              title="快速记录"
+              aria-label="快速记录"
+            >
+              <PenLine className="h-5 w-5" />
+            </button>
+          </div>
+          {todosItem}
+        </div>
+      </nav>
+
+      <QuickLogSheet open={quickLogOpen} onClose={handleCloseQuickLog} />
+    </>
+  )
+}
@@ -0,0 +1,56 @@
+/**
+ * OfflineCustomers组件
+ * 离线页面中列出已缓存、离线时可以查看的客户
+ */
+
+'use client'
+
+import * as React from 'react'
+import Link from 'next/link'
+import { ChevronRight } from 'lucide-react'
+import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import { Card } from '@/components/ui/card'
+import { CachedCustomer, listCachedCustomers } from '@/lib/pwa'
+
+/**
+ * 离线可查看客户列表组件
+ *
+ * @returns {JSX.Element | null} 客户列表，没有缓存的客户时不渲染
+ */
+export function OfflineCustomers() {
+  const [customers, setCustomers] = React.useState<CachedCustomer[]>([])
+
+  React.useEffect(() => {
+    listCachedCustomers()
+      .then(setCustomers)
+      .catch((error) => console.error('读取离线客户失败:', error))
+  }, [])
+
+  if (customers.length === 0) return null
+
+  return (
+    <div className="space-y-2 text-left">
+      <p className="text-sm font-medium">离线时可以查看的客户</p>
+      <Card className="divide-y">
+        {customers.map((customer) => (
+          <Link
+            key={customer.id}
+            href={`/customers/${customer.id}`}
+            className="flex items-center gap-3 px-3 py-2.5 hover:bg-muted"
+          >
+            <Avatar className="h-8 w-8">
+              <AvatarFallback>{customer.name.charAt(0)}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium">{customer.name}</p>
+              {customer.companyInfo && (
+                <p className="truncate text-xs text-muted-foreground">{customer.companyInfo}</p>
+              )}
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          </Link>
+        ))}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+/**
+ * PwaShell组件
+ * 注册 Service Worker 并渲染手机端底部导航
+ */
+
+'use client'
+
+import * as React from 'react'
+import { MobileBottomNav } from '@/components/pwa/MobileBottomNav'
+import { registerServiceWorker } from '@/lib/pwa'
+
+/**
+ * PWA 外壳组件
+ *
+ * @returns {JSX.Element} 手机端底部导航
+ */
+export function PwaShell() {
+  // 注册失败（如非 HTTPS 环境）时应用照常使用，只是无法离线访问
+  React.useEffect(() => {
+    registerServiceWorker().catch((error) => console.error('注册 Service Worker 失败:', error))
+  }, [])
+
+  return <MobileBottomNav />
+}
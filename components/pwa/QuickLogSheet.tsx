@@ -0,0 +1,188 @@
+/**
+ * QuickLogSheet组件
+ * 底部弹出的客户选择面板：选择客户后进入客户详情页直接记录跟进
+ */
+
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { useQuery } from '@tanstack/react-query'
+import { ChevronRight, Loader2, Search, X } from 'lucide-react'
+import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { CachedCustomer, listCachedCustomers } from '@/lib/pwa'
+
+/**
+ * 搜索防抖时间
+ */
+const SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * 搜索结果数量
+ */
+const SEARCH_LIMIT = 10
+
+/**
+ * 快速记录面板Props接口
+ */
+export interface QuickLogSheetProps {
+  /** 是否打开 */
+  open: boolean
+  /** 关闭面板 */
+  onClose: () => void
+}
+
+/**
+ * 搜索客户
+ *
+ * @param search 搜索关键词，为空时返回最近更新的客户
+ * @returns {Promise<CachedCustomer[]>} 客户列表
+ */
+const searchCustomers = async (search: string): Promise<CachedCustomer[]> => {
+  const params = new URLSearchParams({
+    search,
+    limit: String(SEARCH_LIMIT),
+    sortBy: 'updatedAt',
+  })
+  const response = await fetch(`/api/customers?${params.toString()}`)
+
+  if (!response.ok) {
+    throw new Error('搜索客户失败')
+  }
+
+  const result = await response.json()
+  return result.data.customers
+}
+
+/**
+ * 快速记录面板组件
+ *
+ * @param props 组件属性
+ * @returns {JSX.Element | null} 客户选择面板，未打开时不渲染
+ */
+export function QuickLogSheet({ open, onClose }: QuickLogSheetProps) {
+  const router = useRouter()
+  const [search, setSearch] = React.useState('')
+  const [debouncedSearch, setDebouncedSearch] = React.useState('')
+  const [recentCustomers, setRecentCustomers] = React.useState<CachedCustomer[]>([])
+
+  // 打开时读取最近查看的客户，关闭时清空搜索
+  React.useEffect(() => {
+    if (!open) {
+      setSearch('')
+      setDebouncedSearch('')
+      return
+    }
+
+    listCachedCustomers()
+      .then(setRecentCustomers)
+      .catch((error) => console.error('读取最近查看的客户失败:', error))
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [open, onClose])
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  const showRecent = !debouncedSearch && recentCustomers.length > 0
+
+  const { data: searchResults = [], isFetching, isError } = useQuery({
+    queryKey: ['customers', 'quick-log', debouncedSearch],
+    queryFn: () => searchCustomers(debouncedSearch),
+    enabled: open && !showRecent,
+  })
+
+  /**
+   * 进入客户详情页，跟进输入框自动聚焦
+   */
+  const handleSelect = React.useCallback((customerId: string) => {
+    onClose()
+    router.push(`/customers/${customerId}`)
+  }, [onClose, router])
+
+  if (!open) return null
+
+  const customers = showRecent ? recentCustomers : searchResults
+
+  return (
+    <div className="fixed inset-0 z-50 md:hidden" role="dialog" aria-modal="true" aria-label="快速记录">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+
+      <div className="absolute inset-x-0 bottom-0 flex max-h-[80vh] flex-col rounded-t-2xl border-t bg-background pb-[env(safe-area-inset-bottom)] shadow-lg">
+        <div className="flex items-center justify-between px-4 pt-4">
+          <div>
+            <h2 className="text-base font-semibold">快速记录</h2>
+            <p className="text-xs text-muted-foreground">选择客户后直接记录跟进</p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-8 w-8 p-0"
+            title="关闭"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="relative px-4 py-3">
+          <Search className="pointer-events-none absolute left-7 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="搜索客户姓名、公司或手机号"
+            className="pl-9"
+            autoFocus
+          />
+        </div>
+
+        <div className="min-h-0 flex-1 overflow-y-auto px-2 pb-4">
+          {showRecent && (
+            <p className="px-2 pb-1 text-xs text-muted-foreground">最近查看</p>
+          )}
+
+          {customers.map((customer) => (
+            <button
+              key={customer.id}
+              type="button"
+              onClick={() => handleSelect(customer.id)}
+              className="flex w-full items-center gap-3 rounded-lg px-2 py-2.5 text-left hover:bg-muted active:bg-muted"
+            >
+              <Avatar className="h-9 w-9">
+                <AvatarFallback>{customer.name.charAt(0)}</AvatarFallback>
+              </Avatar>
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium">{customer.name}</p>
+                {customer.companyInfo && (
+                  <p className="truncate text-xs text-muted-foreground">{customer.companyInfo}</p>
+                )}
+              </div>
+              <ChevronRight className="h-4 w-4 text-muted-foreground" />
+            </button>
+          ))}
+
+          {!showRecent && isFetching && customers.length === 0 && (
+            <div className="flex justify-center py-6 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          )}
+
+          {!showRecent && !isFetching && customers.length === 0 && (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              {isError ? '网络不可用，只能选择最近查看的客户' : '没有找到匹配的客户'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
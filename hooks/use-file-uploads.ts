@@ -0,0 +1,240 @@
+/**
+ * 文件上传队列Hook
+ * 通过分片上传接口上传选择的文件，记录每个文件的进度和失败原因，支持重试和移除
+ */
+
+'use client'
+
+import * as React from 'react'
+import {
+  abortChunkedUpload,
+  ChunkedUploadError,
+  ChunkedUploadResult,
+  uploadFileInChunks,
+} from '@/lib/chunked-upload'
+import { formatFileSize } from '@/lib/utils'
+
+/**
+ * 允许选择的文件类型
+ */
+export const UPLOAD_ACCEPT = 'image/*,.pdf,.doc,.docx,.xls,.xlsx,.txt'
+
+/**
+ * 单个文件的大小上限（分片上传），图片由服务端限制为 25MB
+ */
+export const MAX_UPLOAD_FILE_SIZE = 100 * 1024 * 1024
+
+/**
+ * 在上传前检查文件大小和类型
+ *
+ * @param file 选择、拖入或粘贴的文件
+ * @param accept 允许的文件类型，格式同 input 的 accept 属性
+ * @param maxFileSize 最大文件大小（字节）
+ * @returns {string | null} 错误信息，通过时返回 null
+ */
+export function validateUploadFile(
+  file: File,
+  accept: string = UPLOAD_ACCEPT,
+  maxFileSize: number = MAX_UPLOAD_FILE_SIZE
+): string | null {
+  // 检查文件大小
+  if (file.size > maxFileSize) {
+    return `文件 ${file.name} 大小超过限制 (${formatFileSize(maxFileSize)})`
+  }
+
+  // 检查文件类型
+  if (accept && accept !== '*') {
+    const acceptedTypes = accept.split(',').map(type => type.trim())
+    const isAccepted = acceptedTypes.some(type => {
+      if (type.startsWith('.')) {
+        // 文件扩展名检查
+        return file.name.toLowerCase().endsWith(type.toLowerCase())
+      }
+      // MIME类型检查
+      if (type.endsWith('/*')) {
+        return file.type.startsWith(type.slice(0, -1))
+      }
+      return file.type === type
+    })
+
+    if (!isAccepted) {
+      return `文件 ${file.name} 类型不被支持`
+    }
+  }
+
+  return null
+}
+
+/**
+ * 文件上传状态
+ */
+export type FileUploadStatus = 'uploading' | 'failed' | 'done'
+
+/**
+ * 上传队列中的文件
+ */
+export interface FileUploadItem {
+  /** 本地标识 */
+  key: string
+  file: File
+  status: FileUploadStatus
+  /** 上传进度（0-100） */
+  progress: number
+  /** 失败原因 */
+  error?: string
+  /** 失败后是否可以重试（网络或服务端临时故障） */
+  retryable?: boolean
+  /** 上传成功后的文件信息，id 为待关联上传ID */
+  result?: ChunkedUploadResult
+}
+
+/**
+ * 文件上传队列Hook
+ *
+ * @returns 上传队列及添加、重试、移除文件的方法
+ */
+export function useFileUploads() {
+  const [items, setItems] = React.useState<FileUploadItem[]>([])
+  const itemsRef = React.useRef(items)
+  const controllersRef = React.useRef(new Map<string, AbortController>())
+
+  React.useEffect(() => {
+    itemsRef.current = items
+  }, [items])
+
+  const updateItem = React.useCallback((key: string, patch: Partial<FileUploadItem>) => {
+    setItems(prev => prev.map(item => (item.key === key ? { ...item, ...patch } : item)))
+  }, [])
+
+  /**
+   * 上传文件，重试时从服务端已接收的分片继续
+   */
+  const startUpload = React.useCallback(async (key: string, file: File) => {
+    const controller = new AbortController()
+    controllersRef.current.set(key, controller)
+    updateItem(key, { status: 'uploading', error: undefined, retryable: undefined })
+
+    try {
+      const result = await uploadFileInChunks(file, {
+        signal: controller.signal,
+        onProgress: ({ uploadedBytes, totalBytes }) => {
+          updateItem(key, { progress: Math.floor((uploadedBytes / totalBytes) * 100) })
+        },
+      })
+      updateItem(key, { status: 'done', progress: 100, result })
+    } catch (error) {
+      if (controller.signal.aborted) return
+
+      console.error('文件上传失败:', error)
+      updateItem(key, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : '文件上传失败',
+        retryable: error instanceof ChunkedUploadError ? error.retryable : true,
+      })
+    } finally {
+      controllersRef.current.delete(key)
+    }
+  }, [updateItem])
+
+  /**
+   * 添加文件并开始上传
+   */
+  const addFiles = React.useCallback((files: File[]) => {
+    const newItems = files.map((file): FileUploadItem => ({
+      key: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      file,
+      status: 'uploading',
+      progress: 0,
+    }))
+
+    setItems(prev => [...prev, ...newItems])
+    newItems.forEach(item => startUpload(item.key, item.file))
+  }, [startUpload])
+
+  /**
+   * 重试失败的上传
+   */
+  const retry = React.useCallback((key: string) => {
+    const item = itemsRef.current.find(current => current.key === key)
+    if (item && item.status === 'failed') {
+      startUpload(item.key, item.file)
+    }
+  }, [startUpload])
+
+  /**
+   * 移除文件，同时删除服务器上已接收的分片或尚未关联的文件
+   */
+  const remove = React.useCallback((key: string) => {
+    const item = itemsRef.current.find(current => current.key === key)
+    if (!item) return
+
+    controllersRef.current.get(key)?.abort()
+    setItems(prev => prev.filter(current => current.key !== key))
+
+    // 删除失败不影响表单，未关联的文件和未完成的分片会在24小时后自动清理
+    const cleanup = item.result
+      ? fetch(`/api/upload/${item.result.id}`, { method: 'DELETE' })
+      : abortChunkedUpload(item.file)
+    cleanup.catch((error) => {
+      console.error('删除上传文件失败:', error)
+    })
+  }, [])
+
+  /**
+   * 恢复已上传完成的文件（如从草稿恢复），只保留文件信息，不包含文件内容
+   */
+  const restore = React.useCallback((results: ChunkedUploadResult[]) => {
+    const restoredItems = results.map((result): FileUploadItem => ({
+      key: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      file: new File([], result.fileName, { type: result.contentType }),
+      status: 'done',
+      progress: 100,
+      result,
+    }))
+
+    setItems(prev => [...prev, ...restoredItems])
+  }, [])
+
+  /**
+   * 清空队列（上传的文件已随跟进记录提交）
+   */
+  const clear = React.useCallback(() => {
+    setItems([])
+  }, [])
+
+  // 网络恢复后自动重试因断线失败的上传
+  React.useEffect(() => {
+    const handleOnline = () => {
+      itemsRef.current
+        .filter(item => item.status === 'failed' && item.retryable)
+        .forEach(item => startUpload(item.key, item.file))
+    }
+
+    window.addEventListener('online', handleOnline)
+    return () => window.removeEventListener('online', handleOnline)
+  }, [startUpload])
+
+  // 卸载时停止仍在进行的上传，已接收的分片可在下次选择同一文件时续传
+  React.useEffect(() => {
+    const controllers = controllersRef.current
+    return () => {
+      controllers.forEach(controller => controller.abort())
+    }
+  }, [])
+
+  const uploadedFiles = React.useMemo(
+    () => items.flatMap(item => (item.result ? [item.result] : [])),
+    [items]
+  )
+
+  return {
+    items,
+    uploadedFiles,
+    isUploading: items.some(item => item.status === 'uploading'),
+    addFiles,
+    retry,
+    remove,
+    restore,
+    clear,
+  }
+}
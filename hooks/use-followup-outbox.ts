@@ -0,0 +1,213 @@
+/**
+ * 跟进记录离线提交Hook
+ * 网络断开时将跟进记录保存到待同步队列，网络恢复后携带幂等键自动重新提交。
+ * 只读取和同步当前登录用户的记录，需在 CurrentUserProvider 内使用
+ */
+
+'use client'
+
+import * as React from 'react'
+import { useCurrentUserId } from '@/components/auth/CurrentUserProvider'
+import {
+  listQueuedFollowUps,
+  queueFollowUp,
+  QueuedFollowUp,
+  removeQueuedFollowUp,
+  updateQueuedFollowUp,
+} from '@/lib/offline-store'
+import { CreateFollowUpRequest } from '@/lib/types/followup'
+
+/**
+ * 有待同步记录时定期重试的间隔（浏览器显示在线但实际无法连接时，online 事件不会触发）
+ */
+const SYNC_INTERVAL_MS = 30 * 1000
+
+/**
+ * 提交失败的原因：网络不通、服务端临时故障、请求被拒绝（重试也不会成功）
+ */
+export type FollowUpSubmitErrorKind = 'network' | 'server' | 'rejected'
+
+/**
+ * 跟进记录提交失败
+ */
+export class FollowUpSubmitError extends Error {
+  constructor(message: string, public readonly kind: FollowUpSubmitErrorKind) {
+    super(message)
+    this.name = 'FollowUpSubmitError'
+  }
+}
+
+/**
+ * 提交结果：已创建，或已加入待同步队列
+ */
+export type FollowUpSubmitResult = 'sent' | 'queued'
+
+/**
+ * 提交跟进记录
+ *
+ * @param data 跟进记录
+ * @param idempotencyKey 幂等键，同一条记录重复提交时服务端只创建一次
+ * @throws {FollowUpSubmitError} 提交失败
+ */
+export async function postFollowUp(data: CreateFollowUpRequest, idempotencyKey: string): Promise<void> {
+  let response: Response
+  try {
+    response = await fetch(`/api/customers/${data.customerId}/followups`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': idempotencyKey,
+      },
+      body: JSON.stringify(data),
+    })
+  } catch {
+    throw new FollowUpSubmitError('网络连接失败', 'network')
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null)
+    // 带 Retry-After 的 409 表示同一幂等键的首次请求仍在处理，稍后重试会得到其结果；内容不同的 409 不可重试
+    const inProgress = response.status === 409 && response.headers.has('Retry-After')
+    const retryable = response.status >= 500 || response.status === 408 || response.status === 429 || inProgress
+    throw new FollowUpSubmitError(errorData?.error || '创建跟进记录失败', retryable ? 'server' : 'rejected')
+  }
+}
+
+/**
+ * 跟进记录离线提交Hook
+ *
+ * @param customerId 当前客户ID，返回该客户的待同步记录
+ * @param onSynced 待同步记录提交成功的回调（可能属于其他客户）
+ * @returns 待同步记录及提交、重试、放弃的方法
+ */
+export function useFollowUpOutbox(customerId: string, onSynced?: (item: QueuedFollowUp) => void) {
+  const userId = useCurrentUserId()
+  const [items, setItems] = React.useState<QueuedFollowUp[]>([])
+  const [isSyncing, setIsSyncing] = React.useState(false)
+  const syncingRef = React.useRef(false)
+
+  const onSyncedRef = React.useRef(onSynced)
+  React.useEffect(() => {
+    onSyncedRef.current = onSynced
+  }, [onSynced])
+
+  /**
+   * 重新读取当前客户的待同步记录
+   */
+  const refresh = React.useCallback(async () => {
+    try {
+      setItems(await listQueuedFollowUps(userId, customerId))
+    } catch (error) {
+      console.error('读取待同步记录失败:', error)
+    }
+  }, [userId, customerId])
+
+  /**
+   * 按提交顺序同步当前用户全部客户的待同步记录，网络不通或服务端故障时停止，等待下次同步。
+   * 其他用户离线提交的记录不会以当前用户身份提交
+   */
+  const sync = React.useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return
+    syncingRef.current = true
+    setIsSyncing(true)
+
+    try {
+      const pending = (await listQueuedFollowUps(userId)).filter(item => item.status === 'pending')
+      for (const item of pending) {
+        try {
+          await postFollowUp(item.request, item.idempotencyKey)
+          await removeQueuedFollowUp(item.idempotencyKey)
+          onSyncedRef.current?.(item)
+        } catch (error) {
+          if (error instanceof FollowUpSubmitError && error.kind === 'rejected') {
+            await updateQueuedFollowUp(item.idempotencyKey, { status: 'failed', error: error.message })
+            continue
+          }
+          break
+        }
+      }
+    } catch (error) {
+      console.error('同步待提交记录失败:', error)
+    } finally {
+      syncingRef.current = false
+      setIsSyncing(false)
+      await refresh()
+    }
+  }, [userId, refresh])
+
+  /**
+   * 提交跟进记录，离线或网络中断时加入待同步队列
+   *
+   * @param data 跟进记录
+   * @param idempotencyKey 幂等键，不传时生成新的幂等键
+   * @returns {Promise<FollowUpSubmitResult>} 提交结果
+   * @throws {FollowUpSubmitError} 服务端拒绝或故障
+   */
+  const submit = React.useCallback(async (
+    data: CreateFollowUpRequest,
+    idempotencyKey: string = crypto.randomUUID()
+  ): Promise<FollowUpSubmitResult> => {
+    if (navigator.onLine) {
+      try {
+        await postFollowUp(data, idempotencyKey)
+        return 'sent'
+      } catch (error) {
+        if (!(error instanceof FollowUpSubmitError && error.kind === 'network')) throw error
+      }
+    }
+
+    // 请求可能已到达服务端，同步时使用同一个幂等键避免重复创建
+    await queueFollowUp({
+      idempotencyKey,
+      userId,
+      customerId: data.customerId,
+      request: data,
+      status: 'pending',
+      createdAt: Date.now(),
+    })
+    await refresh()
+    return 'queued'
+  }, [userId, refresh])
+
+  /**
+   * 重新同步被拒绝的记录
+   */
+  const retry = React.useCallback(async (idempotencyKey: string) => {
+    await updateQueuedFollowUp(idempotencyKey, { status: 'pending', error: undefined })
+    await refresh()
+    await sync()
+  }, [refresh, sync])
+
+  /**
+   * 放弃待同步的记录
+   */
+  const discard = React.useCallback(async (idempotencyKey: string) => {
+    await removeQueuedFollowUp(idempotencyKey)
+    await refresh()
+  }, [refresh])
+
+  // 进入页面和网络恢复时同步
+  React.useEffect(() => {
+    refresh().then(sync)
+
+    window.addEventListener('online', sync)
+    return () => window.removeEventListener('online', sync)
+  }, [refresh, sync])
+
+  const hasPending = items.some(item => item.status === 'pending')
+
+  // 有待同步记录时定期重试
+  React.useEffect(() => {
+    if (!hasPending) return
+    const timer = setInterval(sync, SYNC_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [hasPending, sync])
+
+  return {
+    items,
+    isSyncing,
+    submit,
+    retry,
+    discard,
+  }
+}
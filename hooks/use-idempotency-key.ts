@@ -0,0 +1,41 @@
+/**
+ * 幂等键Hook
+ * 为表单提交生成 Idempotency-Key：内容不变的重复提交（连续点击、失败后重试）使用同一个幂等键，
+ * 服务端只创建一次；提交成功后更换幂等键
+ */
+
+'use client'
+
+import * as React from 'react'
+
+/**
+ * 幂等键Hook
+ *
+ * @returns 获取幂等键和提交成功后更换幂等键的方法
+ */
+export function useIdempotencyKey() {
+  const currentRef = React.useRef<{ key: string; body: string } | null>(null)
+
+  /**
+   * 获取本次提交的幂等键，提交内容与上次不同时生成新的幂等键
+   *
+   * @param body 提交内容
+   * @returns {string} 幂等键
+   */
+  const getKey = React.useCallback((body: unknown): string => {
+    const serialized = JSON.stringify(body)
+    if (currentRef.current?.body !== serialized) {
+      currentRef.current = { key: crypto.randomUUID(), body: serialized }
+    }
+    return currentRef.current.key
+  }, [])
+
+  /**
+   * 提交成功后更换幂等键，之后内容相同的提交视为新的请求
+   */
+  const rotate = React.useCallback(() => {
+    currentRef.current = null
+  }, [])
+
+  return { getKey, rotate }
+}
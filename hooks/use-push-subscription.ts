@@ -0,0 +1,160 @@
+/**
+ * 推送订阅Hook
+ * 注册 Service Worker，并管理当前浏览器的 Web Push 订阅
+ */
+
+'use client'
+
+import * as React from 'react'
+import { PushConfigResponse, PushSubscriptionRequest } from '@/lib/types/push'
+
+/**
+ * 推送订阅状态
+ */
+export type PushSubscriptionStatus =
+  | 'loading'
+  | 'unsupported'
+  | 'unconfigured'
+  | 'denied'
+  | 'subscribed'
+  | 'unsubscribed'
+
+/**
+ * 将 base64url 编码的 VAPID 公钥转换为 Uint8Array
+ */
+const urlBase64ToUint8Array = (base64String: string): Uint8Array<ArrayBuffer> => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4)
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/')
+  const rawData = window.atob(base64)
+  const output = new Uint8Array(rawData.length)
+  for (let i = 0; i < rawData.length; i++) {
+    output[i] = rawData.charCodeAt(i)
+  }
+  return output
+}
+
+/**
+ * 获取推送配置
+ */
+const fetchPushConfig = async (): Promise<PushConfigResponse> => {
+  const response = await fetch('/api/push/subscriptions')
+
+  if (!response.ok) {
+    throw new Error('获取推送配置失败')
+  }
+
+  const result = await response.json()
+  return result.data
+}
+
+/**
+ * 推送订阅Hook
+ *
+ * @returns 订阅状态及开启、关闭推送的方法
+ */
+export function usePushSubscription() {
+  const [status, setStatus] = React.useState<PushSubscriptionStatus>('loading')
+  const [publicKey, setPublicKey] = React.useState<string | null>(null)
+
+  // 初始化：检查浏览器支持、服务端配置和现有订阅
+  React.useEffect(() => {
+    let cancelled = false
+
+    const init = async () => {
+      if (!('serviceWorker' in navigator) || !('PushManager' in window) || !('Notification' in window)) {
+        setStatus('unsupported')
+        return
+      }
+
+      try {
+        const [config, registration] = await Promise.all([
+          fetchPushConfig(),
+          navigator.serviceWorker.register('/sw.js'),
+        ])
+        if (cancelled) return
+
+        if (!config.publicKey) {
+          setStatus('unconfigured')
+          return
+        }
+        setPublicKey(config.publicKey)
+
+        if (Notification.permission === 'denied') {
+          setStatus('denied')
+          return
+        }
+
+        const subscription = await registration.pushManager.getSubscription()
+        if (!cancelled) {
+          setStatus(subscription ? 'subscribed' : 'unsubscribed')
+        }
+      } catch (error) {
+        console.error('初始化推送订阅失败:', error)
+        if (!cancelled) setStatus('unsupported')
+      }
+    }
+
+    init()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  /**
+   * 开启推送：请求通知权限并上报订阅
+   */
+  const subscribe = React.useCallback(async () => {
+    if (!publicKey) return
+
+    const permission = await Notification.requestPermission()
+    if (permission !== 'granted') {
+      setStatus(permission === 'denied' ? 'denied' : 'unsubscribed')
+      throw new Error('未获得通知权限')
+    }
+
+    const registration = await navigator.serviceWorker.ready
+    const subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey),
+    })
+
+    const response = await fetch('/api/push/subscriptions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(subscription.toJSON() as PushSubscriptionRequest),
+    })
+
+    if (!response.ok) {
+      await subscription.unsubscribe()
+      const errorData = await response.json()
+      throw new Error(errorData.error || '开启推送提醒失败')
+    }
+
+    setStatus('subscribed')
+  }, [publicKey])
+
+  /**
+   * 关闭推送：取消浏览器订阅并删除服务端记录
+   */
+  const unsubscribe = React.useCallback(async () => {
+    const registration = await navigator.serviceWorker.ready
+    const subscription = await registration.pushManager.getSubscription()
+
+    if (subscription) {
+      await fetch('/api/push/subscriptions', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ endpoint: subscription.endpoint }),
+      })
+      await subscription.unsubscribe()
+    }
+
+    setStatus('unsubscribed')
+  }, [])
+
+  return { status, subscribe, unsubscribe }
+}
@@ -0,0 +1,45 @@
+/**
+ * 用户时区Hook
+ * 读取用户在提醒设置中保存的时区，用于解析"明天"、"下周三"等日期
+ */
+
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { NotificationSettings } from '@/lib/types/push'
+
+/**
+ * 提醒设置的查询键
+ */
+export const NOTIFICATION_SETTINGS_QUERY_KEY = ['notification-settings']
+
+/**
+ * 获取提醒设置
+ *
+ * @returns {Promise<NotificationSettings>} 提醒设置
+ */
+export const fetchNotificationSettings = async (): Promise<NotificationSettings> => {
+  const response = await fetch('/api/push/settings')
+
+  if (!response.ok) {
+    throw new Error('获取提醒设置失败')
+  }
+
+  const result = await response.json()
+  return result.data
+}
+
+/**
+ * 获取用户时区，加载完成前或获取失败时使用浏览器时区
+ *
+ * @returns {string} IANA 时区名称
+ */
+export function useUserTimezone(): string {
+  const { data: settings } = useQuery({
+    queryKey: NOTIFICATION_SETTINGS_QUERY_KEY,
+    queryFn: fetchNotificationSettings,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  return settings?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+}
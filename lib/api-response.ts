@@ -0,0 +1,33 @@
+/**
+ * API响应辅助函数
+ *
+ * 统一认证、授权类错误的响应格式，保持 ApiResponse 结构一致
+ */
+
+import { NextResponse } from 'next/server'
+import { ApiResponse } from '@/lib/types/followup'
+
+/**
+ * 未登录响应 (401)
+ *
+ * @returns {NextResponse<ApiResponse<never>>} 401 响应
+ */
+export function unauthorizedResponse(): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { success: false, error: '请先登录' },
+    { status: 401 }
+  )
+}
+
+/**
+ * 无权限响应 (403)
+ *
+ * @param message 错误信息
+ * @returns {NextResponse<ApiResponse<never>>} 403 响应
+ */
+export function forbiddenResponse(message = '无权执行此操作'): NextResponse<ApiResponse<never>> {
+  return NextResponse.json(
+    { success: false, error: message },
+    { status: 403 }
+  )
+}
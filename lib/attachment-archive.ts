@@ -0,0 +1,197 @@
+/**
+ * 附件打包模块
+ *
+ * 将客户的附件按"跟进日期_跟进类型"分文件夹打包为 ZIP，附带附件清单 CSV。
+ * 附件逐个从存储后端读取并写入压缩流，不在内存中缓存完整文件
+ */
+
+import { Readable } from 'node:stream'
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web'
+import { ZipArchive } from 'archiver'
+import { TZDate } from '@date-fns/tz'
+import { format } from 'date-fns'
+import type { FollowUpType } from '@/app/generated/prisma'
+import { getStorageProvider } from '@/lib/storage'
+import { sanitizeFileName } from '@/lib/file-inspection'
+import { FOLLOWUP_TYPE_LABELS } from '@/lib/types/followup'
+
+/**
+ * 清单文件名
+ */
+const MANIFEST_FILE_NAME = '附件清单.csv'
+
+/**
+ * 已压缩的格式直接存储，不再重复压缩
+ */
+const isCompressedFormat = (contentType: string | null) =>
+  !!contentType && (contentType.startsWith('image/') || contentType.includes('openxmlformats'))
+
+/**
+ * 打包的附件
+ */
+export interface ArchiveAttachment {
+  fileName: string
+  storageKey: string | null
+  /** 旧版附件的公开链接 */
+  fileUrl: string | null
+  contentType: string | null
+  fileType: string
+  fileSize: number | null
+  createdAt: Date
+  followUpRecord: {
+    createdAt: Date
+    followUpType: FollowUpType
+    user: { name: string }
+  }
+}
+
+/**
+ * 生成压缩包内的路径，同一文件夹下重名的文件追加序号
+ *
+ * @param attachments 附件
+ * @param timezone 用于确定跟进日期的时区
+ * @returns {string[]} 与附件一一对应的路径
+ */
+export function buildArchivePaths(attachments: ArchiveAttachment[], timezone: string): string[] {
+  const usedPaths = new Set<string>()
+
+  return attachments.map((attachment) => {
+    const date = format(new TZDate(attachment.followUpRecord.createdAt, timezone), 'yyyy-MM-dd')
+    const folder = `${date}_${FOLLOWUP_TYPE_LABELS[attachment.followUpRecord.followUpType]}`
+    const fileName = sanitizeFileName(attachment.fileName)
+
+    const dotIndex = fileName.lastIndexOf('.')
+    const baseName = dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName
+    const extension = dotIndex > 0 ? fileName.slice(dotIndex) : ''
+
+    let path = `${folder}/${fileName}`
+    for (let i = 2; usedPaths.has(path.toLowerCase()); i++) {
+      path = `${folder}/${baseName} (${i})${extension}`
+    }
+    usedPaths.add(path.toLowerCase())
+    return path
+  })
+}
+
+/**
+ * 转义 CSV 字段，并防止以公式字符开头的内容在表格软件中被当作公式执行
+ */
+const escapeCsvField = (value: string) => {
+  const safeValue = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safeValue) ? `"${safeValue.replace(/"/g, '""')}"` : safeValue
+}
+
+/**
+ * 读取附件内容
+ *
+ * @returns {Promise<Readable | null>} 文件内容流，文件不存在时返回 null
+ */
+async function openAttachment(attachment: ArchiveAttachment): Promise<Readable | null> {
+  if (attachment.storageKey) {
+    const object = await getStorageProvider().get(attachment.storageKey)
+    return object ? Readable.fromWeb(object.body as NodeReadableStream<Uint8Array>) : null
+  }
+
+  // 旧版附件只有公开链接
+  if (attachment.fileUrl) {
+    const response = await fetch(attachment.fileUrl)
+    return response.ok && response.body
+      ? Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>)
+      : null
+  }
+
+  return null
+}
+
+/**
+ * 创建附件压缩包的数据流
+ *
+ * 文件缺失时跳过并在清单中标注，不中断打包
+ *
+ * @param attachments 附件，按期望的顺序排列
+ * @param timezone 用于确定跟进日期的时区
+ * @returns {ReadableStream<Uint8Array>} ZIP 数据流
+ */
+export function createAttachmentArchiveStream(
+  attachments: ArchiveAttachment[],
+  timezone: string
+): ReadableStream<Uint8Array> {
+  const archive = new ZipArchive({ zlib: { level: 6 } })
+  const paths = buildArchivePaths(attachments, timezone)
+
+  const manifest = [
+    ['文件路径', '原文件名', '文件类型', '文件大小（字节）', '跟进日期', '跟进类型', '记录人', '状态'],
+  ]
+
+  const appendEntries = async () => {
+    for (const [index, attachment] of attachments.entries()) {
+      const path = paths[index]
+      const row = [
+        path,
+        attachment.fileName,
+        attachment.fileType,
+        attachment.fileSize !== null ? String(attachment.fileSize) : '',
+        format(new TZDate(attachment.followUpRecord.createdAt, timezone), 'yyyy-MM-dd HH:mm'),
+        FOLLOWUP_TYPE_LABELS[attachment.followUpRecord.followUpType],
+        attachment.followUpRecord.user.name,
+      ]
+
+      let source: Readable | null = null
+      try {
+        source = await openAttachment(attachment)
+      } catch (error) {
+        console.error('读取附件失败:', { path, error })
+      }
+
+      if (!source) {
+        manifest.push([...row, '文件缺失'])
+        continue
+      }
+
+      // 等待当前文件写入压缩流后再读取下一个，避免同时打开大量存储连接；
+      // 下载中断时压缩流被关闭，停止读取剩余文件
+      const written = new Promise<void>((resolve, reject) => {
+        const cleanup = () => {
+          archive.off('entry', onEntry)
+          archive.off('error', onError)
+          archive.off('close', onClose)
+        }
+        const onEntry = () => {
+          cleanup()
+          resolve()
+        }
+        const onError = (error: Error) => {
+          cleanup()
+          reject(error)
+        }
+        const onClose = () => {
+          cleanup()
+          source.destroy()
+          reject(new Error('下载已中断'))
+        }
+        archive.on('entry', onEntry)
+        archive.on('error', onError)
+        archive.on('close', onClose)
+      })
+      archive.append(source, {
+        name: path,
+        date: attachment.createdAt,
+        store: isCompressedFormat(attachment.contentType),
+      })
+      await written
+      manifest.push([...row, '已包含'])
+    }
+
+    // 带 BOM 的 UTF-8，Excel 打开时中文不乱码
+    const csv = '\uFEFF' + manifest.map((fields) => fields.map(escapeCsvField).join(',')).join('\r\n')
+    archive.append(csv, { name: MANIFEST_FILE_NAME, date: new Date() })
+    await archive.finalize()
+  }
+
+  appendEntries().catch((error) => {
+    console.error('打包附件失败:', error)
+    archive.destroy(error)
+  })
+
+  return Readable.toWeb(archive) as ReadableStream<Uint8Array>
+}
@@ -0,0 +1,56 @@
+/**
+ * 附件文本辅助模块
+ *
+ * 附件文本提取（见 lib/text-extraction.ts）相关的常量和搜索摘要，供API路由使用，不依赖文档解析库
+ */
+
+/**
+ * 时间线预览片段长度
+ */
+export const TEXT_PREVIEW_LENGTH = 200
+
+/**
+ * 支持提取文本的文件类型
+ */
+export const TEXT_EXTRACTABLE_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain',
+]
+
+/**
+ * 判断文件类型是否支持提取文本
+ *
+ * @param contentType MIME类型
+ * @returns {boolean} 是否支持
+ */
+export const isTextExtractable = (contentType: string | null): boolean =>
+  !!contentType && TEXT_EXTRACTABLE_TYPES.includes(contentType)
+
+/**
+ * 合并连续空白，用于预览片段和搜索摘要
+ */
+export const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+/**
+ * 生成搜索结果摘要：截取关键词前后的文本，未命中时返回开头部分
+ *
+ * @param text 提取的文本
+ * @param query 搜索关键词
+ * @param length 摘要长度
+ * @returns {string} 摘要，被截断的一侧以省略号表示
+ */
+export function buildTextSnippet(text: string, query: string, length = 120): string {
+  const collapsed = collapseWhitespace(text)
+  const matchIndex = query ? collapsed.toLowerCase().indexOf(query.toLowerCase()) : -1
+
+  const start = matchIndex <= 0
+    ? 0
+    : Math.max(0, Math.min(matchIndex - Math.floor((length - query.length) / 2), collapsed.length - length))
+  const end = Math.min(collapsed.length, start + length)
+
+  return `${start > 0 ? '…' : ''}${collapsed.slice(start, end)}${end < collapsed.length ? '…' : ''}`
+}
@@ -0,0 +1,38 @@
+/**
+ * 附件访问地址
+ *
+ * 附件均为私有文件，前端只通过鉴权下载接口访问，接口校验权限后转发文件或跳转到短期签名地址
+ */
+
+/**
+ * 附件文件版本，图片上传时额外生成缩略图和网页浏览版本
+ */
+export type AttachmentVariant = 'original' | 'thumbnail' | 'web'
+
+/**
+ * 下载地址选项
+ */
+export interface AttachmentDownloadOptions {
+  /** inline 在浏览器中预览，attachment 下载保存 */
+  disposition?: 'inline' | 'attachment'
+  variant?: AttachmentVariant
+}
+
+/**
+ * 获取附件的下载地址
+ *
+ * @param attachmentId 附件ID
+ * @param options 下载方式和文件版本
+ * @returns {string} 下载接口的相对路径
+ */
+export function getAttachmentDownloadUrl(
+  attachmentId: string,
+  { disposition = 'attachment', variant = 'original' }: AttachmentDownloadOptions = {}
+): string {
+  const params = new URLSearchParams()
+  if (disposition === 'inline') params.set('disposition', 'inline')
+  if (variant !== 'original') params.set('variant', variant)
+
+  const query = params.toString()
+  return `/api/attachments/${attachmentId}/download${query ? `?${query}` : ''}`
+}
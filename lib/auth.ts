@@ -0,0 +1,178 @@
+/**
+ * 认证配置与当前用户获取
+ *
+ * 基于 NextAuth 的账号密码登录，会话使用 JWT 保存在 Cookie 中
+ * 所有路由处理函数都应通过 getCurrentUser() 获取当前登录用户
+ */
+
+import { getServerSession, type NextAuthOptions } from 'next-auth'
+import CredentialsProvider from 'next-auth/providers/credentials'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { verifyPassword } from '@/lib/password'
+import { env } from '@/lib/env'
+import type { Prisma, UserRole } from '@/app/generated/prisma'
+
+/**
+ * 当前登录用户信息
+ */
+export interface CurrentUser {
+  id: string
+  name: string
+  email: string
+  role: UserRole
+  /** 所属团队ID */
+  teamId: string | null
+  /** 作为经理管理的团队ID列表 */
+  managedTeamIds: string[]
+  /** 所管理团队的成员ID列表（不含本人） */
+  managedUserIds: string[]
+}
+
+/**
+ * 登录凭据验证Schema
+ */
+const credentialsSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+})
+
+/**
+ * NextAuth 配置
+ */
+export const authOptions: NextAuthOptions = {
+  secret: env.NEXTAUTH_SECRET,
+  session: {
+    strategy: 'jwt',
+    maxAge: 30 * 24 * 60 * 60, // 30天
+  },
+  pages: {
+    signIn: '/login',
+  },
+  providers: [
+    CredentialsProvider({
+      name: '账号密码',
+      credentials: {
+        email: { label: '邮箱', type: 'email' },
+        password: { label: '密码', type: 'password' },
+      },
+      async authorize(credentials) {
+        const parsed = credentialsSchema.safeParse(credentials)
+        if (!parsed.success) {
+          return null
+        }
+
+        const user = await prisma.user.findUnique({
+          where: { email: parsed.data.email.toLowerCase() },
+        })
+
+        if (!user?.passwordHash) {
+          return null
+        }
+
+        const isValid = await verifyPassword(parsed.data.password, user.passwordHash)
+        if (!isValid) {
+          return null
+        }
+
+        return {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+        }
+      },
+    }),
+  ],
+  callbacks: {
+    async jwt({ token, user }) {
+      // 仅在登录时写入用户信息，后续请求沿用 token
+      if (user) {
+        token.sub = user.id
+        token.role = user.role
+      }
+      return token
+    },
+    async session({ session, token }) {
+      if (session.user && token.sub) {
+        session.user.id = token.sub
+        session.user.role = token.role
+      }
+      return session
+    },
+  },
+}
+
+/**
+ * 构建用户权限信息所需的查询字段
+ */
+export const userAccessSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  teamId: true,
+  managedTeams: {
+    select: {
+      id: true,
+      members: {
+        select: { id: true },
+      },
+    },
+  },
+} satisfies Prisma.UserSelect
+
+/**
+ * 将数据库用户记录转换为权限判断使用的用户信息
+ *
+ * @param user 按 userAccessSelect 查询的用户记录
+ * @returns {CurrentUser} 用户权限信息
+ */
+export function toUserAccess(user: Prisma.UserGetPayload<{ select: typeof userAccessSelect }>): CurrentUser {
+  const managedUserIds = new Set(
+    user.managedTeams.flatMap((team) => team.members.map((member) => member.id))
+  )
+  managedUserIds.delete(user.id)
+
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    teamId: user.teamId,
+    managedTeamIds: user.managedTeams.map((team) => team.id),
+    managedUserIds: Array.from(managedUserIds),
+  }
+}
+
+/**
+ * 获取指定用户的权限信息，用于判断其他用户（如计划的新执行人）能访问哪些数据
+ *
+ * @param userId 用户ID
+ * @returns {Promise<CurrentUser | null>} 用户权限信息，用户不存在时返回 null
+ */
+export async function getUserAccess(userId: string): Promise<CurrentUser | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: userAccessSelect,
+  })
+
+  return user ? toUserAccess(user) : null
+}
+
+/**
+ * 获取当前登录用户
+ * 每次都从数据库读取，确保角色、团队变更和账号删除立即生效
+ *
+ * @returns {Promise<CurrentUser | null>} 当前用户，未登录时返回 null
+ */
+export async function getCurrentUser(): Promise<CurrentUser | null> {
+  const session = await getServerSession(authOptions)
+  const userId = session?.user?.id
+
+  if (!userId) {
+    return null
+  }
+
+  return getUserAccess(userId)
+}
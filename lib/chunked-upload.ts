@@ -0,0 +1,273 @@
+/**
+ * 分片上传客户端
+ *
+ * 按服务端返回的分片大小切分文件，逐片计算 SHA-256 后上传，失败的分片按退避策略重试。
+ * 会话ID按文件保存在 localStorage，断线或刷新页面后重新上传同一文件时，
+ * 先查询服务端已接收的分片，只补传缺少的部分
+ */
+
+import { ApiResponse, FileUploadResponse, UploadSessionResponse } from '@/lib/types/followup'
+
+/**
+ * 上传成功后的文件信息，id 为待关联上传ID
+ */
+export type ChunkedUploadResult = NonNullable<FileUploadResponse['file']>
+
+/**
+ * 上传进度
+ */
+export interface ChunkedUploadProgress {
+  uploadedBytes: number
+  totalBytes: number
+}
+
+/**
+ * 上传选项
+ */
+export interface ChunkedUploadOptions {
+  onProgress?: (progress: ChunkedUploadProgress) => void
+  signal?: AbortSignal
+}
+
+/**
+ * 上传失败，retryable 表示网络或服务端临时故障，重试时从已接收的分片继续
+ */
+export class ChunkedUploadError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+    /** 接口响应状态码，网络错误时为空 */
+    public readonly status?: number
+  ) {
+    super(message)
+    this.name = 'ChunkedUploadError'
+  }
+}
+
+/**
+ * 单个分片的最大尝试次数
+ */
+const PART_MAX_ATTEMPTS = 3
+
+/**
+ * 重试的基础等待时间，按次数指数增长
+ */
+const RETRY_BASE_DELAY_MS = 1000
+
+/**
+ * 同时上传的分片数量
+ */
+const PART_CONCURRENCY = 3
+
+const SESSION_STORAGE_PREFIX = 'upload-session:'
+
+/**
+ * 文件标识，同一文件重新选择后标识不变
+ */
+const getFileFingerprint = (file: File) =>
+  `${SESSION_STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}:${file.type}`
+
+const readSavedSessionId = (file: File): string | null => {
+  try {
+    return window.localStorage.getItem(getFileFingerprint(file))
+  } catch {
+    return null
+  }
+}
+
+const saveSessionId = (file: File, sessionId: string | null) => {
+  try {
+    if (sessionId) {
+      window.localStorage.setItem(getFileFingerprint(file), sessionId)
+    } else {
+      window.localStorage.removeItem(getFileFingerprint(file))
+    }
+  } catch {
+    // 隐私模式等无法使用 localStorage 时只是不能跨页面续传
+  }
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+
+/**
+ * 计算 SHA-256 校验值
+ */
+const sha256Hex = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 发送请求并解析响应
+ *
+ * 网络错误、超时、限流和 5xx 视为可重试；其余错误使用接口返回的错误信息
+ */
+const request = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+  let response: Response
+  try {
+    response = await fetch(url, init)
+  } catch (error) {
+    if (init.signal?.aborted) throw error
+    throw new ChunkedUploadError('网络连接中断', true)
+  }
+
+  const result: (ApiResponse<T> & { details?: Array<{ message: string }> }) | null =
+    await response.json().catch(() => null)
+
+  if (!response.ok || !result?.success) {
+    const message = result?.details?.[0]?.message || result?.error || '文件上传失败'
+    const retryable = response.status >= 500 || response.status === 408 || response.status === 429
+    throw new ChunkedUploadError(message, retryable, response.status)
+  }
+
+  return result.data as T
+}
+
+/**
+ * 获取可续传的会话，不存在或已过期时创建新会话
+ */
+const resolveSession = async (file: File, signal?: AbortSignal): Promise<UploadSessionResponse> => {
+  const savedId = readSavedSessionId(file)
+  if (savedId) {
+    try {
+      const session = await request<UploadSessionResponse>(`/api/upload/sessions/${savedId}`, { signal })
+      if (session.fileSize === file.size) return session
+    } catch (error) {
+      if (!(error instanceof ChunkedUploadError) || error.status !== 404) throw error
+    }
+    saveSessionId(file, null)
+  }
+
+  const session = await request<UploadSessionResponse>('/api/upload/sessions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      fileName: file.name,
+      fileSize: file.size,
+      contentType: file.type,
+    }),
+    signal,
+  })
+  saveSessionId(file, session.id)
+  return session
+}
+
+/**
+ * 上传一个分片，网络故障和校验失败（422，内容在传输中损坏）时重试
+ */
+const uploadPart = async (
+  session: UploadSessionResponse,
+  file: File,
+  partNumber: number,
+  signal?: AbortSignal
+): Promise<number> => {
+  const start = (partNumber - 1) * session.chunkSize
+  const chunk = await file.slice(start, Math.min(start + session.chunkSize, file.size)).arrayBuffer()
+  const checksum = await sha256Hex(chunk)
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await request(`/api/upload/sessions/${session.id}/parts/${partNumber}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-Chunk-SHA256': checksum,
+        },
+        body: chunk,
+        signal,
+      })
+      return chunk.byteLength
+    } catch (error) {
+      if (!(error instanceof ChunkedUploadError)) throw error
+
+      const retryable = error.retryable || error.status === 422
+      if (!retryable) throw error
+      if (attempt >= PART_MAX_ATTEMPTS) {
+        throw new ChunkedUploadError(error.message, true, error.status)
+      }
+      await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal)
+    }
+  }
+}
+
+/**
+ * 分片上传文件
+ *
+ * @param file 要上传的文件
+ * @param options 进度回调和取消信号
+ * @returns {Promise<ChunkedUploadResult>} 待关联上传的文件信息
+ * @throws {ChunkedUploadError} 上传失败，retryable 为 true 时可再次调用继续上传
+ */
+export async function uploadFileInChunks(
+  file: File,
+  { onProgress, signal }: ChunkedUploadOptions = {}
+): Promise<ChunkedUploadResult> {
+  const session = await resolveSession(file, signal)
+
+  // 已完成合并的会话（上次合并的响应丢失）不再上传分片，直接重新提交合并取得结果
+  const received = new Set(session.uploadedParts.map((part) => part.partNumber))
+  let uploadedBytes = session.completed
+    ? file.size
+    : session.uploadedParts.reduce((sum, part) => sum + part.size, 0)
+  onProgress?.({ uploadedBytes, totalBytes: file.size })
+
+  const missingParts = Array.from({ length: session.totalParts }, (_, i) => i + 1)
+    .filter((partNumber) => !session.completed && !received.has(partNumber))
+
+  // 多个分片并行上传，任一分片最终失败时其余分片停止领取新任务
+  let failed = false
+  const worker = async () => {
+    while (!failed && missingParts.length > 0) {
+      const partNumber = missingParts.shift()!
+      try {
+        uploadedBytes += await uploadPart(session, file, partNumber, signal)
+        onProgress?.({ uploadedBytes, totalBytes: file.size })
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, missingParts.length) }, worker))
+
+  try {
+    const result = await request<ChunkedUploadResult>(`/api/upload/sessions/${session.id}/complete`, {
+      method: 'POST',
+      signal,
+    })
+    saveSessionId(file, null)
+    return result
+  } catch (error) {
+    if (!(error instanceof ChunkedUploadError)) throw error
+
+    // 分片缺失（409）时重试会重新查询会话并补传
+    if (error.status === 409) {
+      throw new ChunkedUploadError(error.message, true, error.status)
+    }
+    // 文件未通过检查时服务端已删除会话
+    if (error.status === 400 || error.status === 404 || error.status === 422) {
+      saveSessionId(file, null)
+    }
+    throw error
+  }
+}
+
+/**
+ * 放弃文件的分片上传，删除服务端已接收的分片
+ *
+ * @param file 上传中的文件
+ */
+export async function abortChunkedUpload(file: File): Promise<void> {
+  const sessionId = readSavedSessionId(file)
+  if (!sessionId) return
+
+  saveSessionId(file, null)
+  await fetch(`/api/upload/sessions/${sessionId}`, { method: 'DELETE' })
+}
@@ -0,0 +1,467 @@
+/**
+ * 中文日期表达式解析模块
+ *
+ * 从文本中识别"明天"、"下周三上午十点"、"3天后"、"月底"、"5月20号"、"春节后"等日期，按用户时区换算为具体时间。
+ * 未说明时间时为当天零点
+ */
+
+import { TZDate } from '@date-fns/tz'
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  format,
+  isValid,
+  lastDayOfMonth,
+  setHours,
+  setMinutes,
+  startOfDay,
+  startOfWeek,
+  subDays,
+} from 'date-fns'
+import { zhCN } from 'date-fns/locale'
+
+/**
+ * 识别到的日期表达式
+ */
+export interface DateExpressionMatch {
+  /** 解析出的时间，未说明时间时为所在时区的当天零点 */
+  date: Date
+  /** 是否说明了时间（如"上午十点"） */
+  hasTime: boolean
+  /** 文本中的日期表达式 */
+  text: string
+  /** 表达式在文本中的位置 */
+  index: number
+}
+
+/**
+ * 解析选项
+ */
+export interface DateExpressionOptions {
+  /** 当前时间，默认为现在 */
+  now?: Date
+  /** 计算日期所用的时区，默认为浏览器（或服务器）时区 */
+  timezone?: string
+}
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+}
+
+/**
+ * 数字（阿拉伯数字或不超过两位数的中文数字），不匹配更长数字的一部分
+ */
+const NUMBER = '(?<![\\d一二两三四五六七八九十])(\\d{1,2}|[一二两三四五六七八九十]{1,3})'
+
+/**
+ * 星期几
+ */
+const WEEKDAY = '([一二三四五六日天1-7])'
+
+/**
+ * "以后"、"之后"、"后"
+ */
+const AFTER = '(?:以后|之后|后)'
+
+/**
+ * 解析数字，支持"五"、"十二"、"二十五"等中文写法
+ *
+ * @param text 数字文本
+ * @returns {number | null} 数值，无法解析时返回 null
+ */
+export function parseChineseNumber(text: string): number | null {
+  if (/^\d+$/.test(text)) return Number(text)
+
+  const tenIndex = text.indexOf('十')
+  if (tenIndex === -1) {
+    return text.length === 1 && text in CHINESE_DIGITS ? CHINESE_DIGITS[text] : null
+  }
+
+  const tensText = text.slice(0, tenIndex)
+  const onesText = text.slice(tenIndex + 1)
+  if (tensText.length > 1 || onesText.length > 1) return null
+  if ((tensText && !(tensText in CHINESE_DIGITS)) || (onesText && !(onesText in CHINESE_DIGITS))) return null
+
+  return (tensText ? CHINESE_DIGITS[tensText] : 1) * 10 + (onesText ? CHINESE_DIGITS[onesText] : 0)
+}
+
+/**
+ * 星期几转换为 ISO 星期（周一为 1，周日为 7）
+ */
+const toISOWeekday = (text: string) => (text === '日' || text === '天' ? 7 : parseChineseNumber(text))
+
+/**
+ * 构造指定年月日，日期不存在（如 2 月 30 日）时返回 null
+ */
+const buildDate = (today: TZDate, year: number, month: number, day: number): TZDate | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  const date = new TZDate(year, month - 1, day, today.timeZone)
+  return isValid(date) && date.getMonth() === month - 1 ? date : null
+}
+
+/**
+ * 按今年、明年的顺序取第一个不早于今天的日期
+ */
+const upcomingInYear = (today: TZDate, resolve: (year: number) => Date | null): Date | null => {
+  const thisYear = resolve(today.getFullYear())
+  if (thisYear && thisYear >= today) return thisYear
+  return resolve(today.getFullYear() + 1)
+}
+
+/**
+ * 农历日期换算结果缓存，键为"时区:年-月-日"
+ */
+const lunarDateCache = new Map<string, TZDate | null>()
+
+/**
+ * 查找指定公历年份中的农历日期（不含闰月）
+ *
+ * 使用 Intl 的农历历法逐日比对，农历 m 月 d 日大约在公历 1 月 1 日后 19 + 29 × (m - 1) + d 天起的两个月内
+ *
+ * @param year 公历年份
+ * @param month 农历月份
+ * @param day 农历日
+ * @param timezone 时区
+ * @returns {TZDate | null} 公历日期
+ */
+function findLunarDate(year: number, month: number, day: number, timezone: string | undefined): TZDate | null {
+  const cacheKey = `${timezone}:${year}-${month}-${day}`
+  if (lunarDateCache.has(cacheKey)) return lunarDateCache.get(cacheKey)!
+
+  const formatter = new Intl.DateTimeFormat('en-u-ca-chinese', { timeZone: timezone, month: 'numeric', day: 'numeric' })
+  const firstOffset = 18 + 29 * (month - 1) + day
+
+  let result: TZDate | null = null
+  for (let offset = firstOffset; offset < firstOffset + 70; offset++) {
+    const date = new TZDate(year, 0, 1 + offset, timezone)
+    const parts = formatter.formatToParts(date)
+    if (
+      parts.find(part => part.type === 'month')?.value === String(month) &&
+      parts.find(part => part.type === 'day')?.value === String(day)
+    ) {
+      result = date
+      break
+    }
+  }
+
+  lunarDateCache.set(cacheKey, result)
+  return result
+}
+
+/**
+ * 节日：第一天及放假天数（"节后"为假期结束后的第一天）
+ */
+const HOLIDAYS: Record<string, { calendar: 'solar' | 'lunar'; month: number; day: number; days: number }> = {
+  元旦: { calendar: 'solar', month: 1, day: 1, days: 1 },
+  春节: { calendar: 'lunar', month: 1, day: 1, days: 7 },
+  过年: { calendar: 'lunar', month: 1, day: 1, days: 7 },
+  五一: { calendar: 'solar', month: 5, day: 1, days: 5 },
+  劳动节: { calendar: 'solar', month: 5, day: 1, days: 5 },
+  端午: { calendar: 'lunar', month: 5, day: 5, days: 1 },
+  中秋: { calendar: 'lunar', month: 8, day: 15, days: 1 },
+  国庆: { calendar: 'solar', month: 10, day: 1, days: 7 },
+}
+
+/**
+ * 日期表达式规则，match 为正则匹配结果，today 为所在时区的当天零点
+ */
+interface DateRule {
+  pattern: RegExp
+  resolve: (match: RegExpExecArray, today: TZDate) => Date | null
+}
+
+const DATE_RULES: DateRule[] = [
+  {
+    // 今天、明天、后天、大后天
+    pattern: /(大后天|后天|明天|明日|今天|今日)/g,
+    resolve: (match, today) => {
+      const offsets: Record<string, number> = { 今天: 0, 今日: 0, 明天: 1, 明日: 1, 后天: 2, 大后天: 3 }
+      return addDays(today, offsets[match[1]])
+    },
+  },
+  {
+    // 周三、这周五、下周三、下个星期一、下下周二
+    pattern: new RegExp(`(下下个?|下个?|这个?|本)?(?:周|星期|礼拜)${WEEKDAY}`, 'g'),
+    resolve: (match, today) => {
+      const weekday = toISOWeekday(match[2])
+      if (!weekday) return null
+
+      const thisWeekDay = addDays(startOfWeek(today, { weekStartsOn: 1 }), weekday - 1)
+      const prefix = match[1] ?? ''
+      if (prefix.startsWith('下下')) return addWeeks(thisWeekDay, 2)
+      if (prefix.startsWith('下')) return addWeeks(thisWeekDay, 1)
+      if (prefix) return thisWeekDay
+
+      // 只说"周三"时指最近的周三，本周已过则为下周
+      return thisWeekDay < today ? addWeeks(thisWeekDay, 1) : thisWeekDay
+    },
+  },
+  {
+    // 周末、下周末（周六）
+    pattern: /(下下个?|下个?|这个?|本)?周末/g,
+    resolve: (match, today) => {
+      const saturday = addDays(startOfWeek(today, { weekStartsOn: 1 }), 5)
+      const prefix = match[1] ?? ''
+      if (prefix.startsWith('下下')) return addWeeks(saturday, 2)
+      if (prefix.startsWith('下')) return addWeeks(saturday, 1)
+      // 周日说"周末"指当天
+      return saturday < today ? today : saturday
+    },
+  },
+  {
+    // 下周（下周一）
+    pattern: /下个?(?:周|星期|礼拜)/g,
+    resolve: (_, today) => addWeeks(startOfWeek(today, { weekStartsOn: 1 }), 1),
+  },
+  {
+    // 3天后、五天以后
+    pattern: new RegExp(`${NUMBER}(?:天|日)${AFTER}`, 'g'),
+    resolve: (match, today) => {
+      const days = parseChineseNumber(match[1])
+      return days === null ? null : addDays(today, days)
+    },
+  },
+  {
+    // 两周后、一个星期以后
+    pattern: new RegExp(`${NUMBER}个?(?:周|星期|礼拜)${AFTER}`, 'g'),
+    resolve: (match, today) => {
+      const weeks = parseChineseNumber(match[1])
+      return weeks === null ? null : addWeeks(today, weeks)
+    },
+  },
+  {
+    // 一个月后、半个月后
+    pattern: new RegExp(`(?:${NUMBER}|(半))个月${AFTER}`, 'g'),
+    resolve: (match, today) => {
+      if (match[2]) return addDays(today, 15)
+      const months = parseChineseNumber(match[1])
+      return months === null ? null : addMonths(today, months)
+    },
+  },
+  {
+    // 月初、月中、月底、下个月底、本月末，只说"月底"时本月已过则为下个月
+    pattern: /(?:(下个?|这个?|本)月|月)([初中底末])/g,
+    resolve: (match, today) => {
+      const dayOf = (month: Date) => {
+        if (match[2] === '初') return buildDate(today, month.getFullYear(), month.getMonth() + 1, 1)
+        if (match[2] === '中') return buildDate(today, month.getFullYear(), month.getMonth() + 1, 15)
+        return lastDayOfMonth(month)
+      }
+
+      const prefix = match[1] ?? ''
+      if (prefix.startsWith('下')) return dayOf(addMonths(today, 1))
+      if (prefix) return dayOf(today)
+
+      const thisMonth = dayOf(today)
+      return thisMonth && thisMonth >= today ? thisMonth : dayOf(addMonths(today, 1))
+    },
+  },
+  {
+    // 年初、年底、明年初
+    pattern: /(明|今)?年([初中底末])/g,
+    resolve: (match, today) => {
+      const dayOf = (year: number) => {
+        if (match[2] === '初') return buildDate(today, year, 1, 1)
+        if (match[2] === '中') return buildDate(today, year, 6, 30)
+        return buildDate(today, year, 12, 31)
+      }
+
+      if (match[1] === '明') return dayOf(today.getFullYear() + 1)
+      if (match[1] === '今') return dayOf(today.getFullYear())
+      return upcomingInYear(today, dayOf)
+    },
+  },
+  {
+    // 2025-12-01、2025/12/1、2025年12月1日
+    pattern: /(?<!\d)(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})[日号]?/g,
+    resolve: (match, today) => buildDate(today, Number(match[1]), Number(match[2]), Number(match[3])),
+  },
+  {
+    // 12/1，已过的日期为明年
+    pattern: /(?<![\d/])(\d{1,2})\/(\d{1,2})(?![\d/])/g,
+    resolve: (match, today) =>
+      upcomingInYear(today, year => buildDate(today, year, Number(match[1]), Number(match[2]))),
+  },
+  {
+    // 5月20日、五月二十号，已过的日期为明年
+    pattern: new RegExp(`${NUMBER}月${NUMBER}[日号]`, 'g'),
+    resolve: (match, today) => {
+      const month = parseChineseNumber(match[1])
+      const day = parseChineseNumber(match[2])
+      if (month === null || day === null) return null
+      return upcomingInYear(today, year => buildDate(today, year, month, day))
+    },
+  },
+  {
+    // 下个月5号、本月二十日
+    pattern: new RegExp(`(下个?|这个?|本)月${NUMBER}[日号]`, 'g'),
+    resolve: (match, today) => {
+      const day = parseChineseNumber(match[2])
+      if (day === null) return null
+      const month = match[1].startsWith('下') ? addMonths(today, 1) : today
+      return buildDate(today, month.getFullYear(), month.getMonth() + 1, day)
+    },
+  },
+  {
+    // 20号、二十日，已过的日期为下个月
+    pattern: new RegExp(`(?<!月)${NUMBER}[日号]`, 'g'),
+    resolve: (match, today) => {
+      const day = parseChineseNumber(match[1])
+      if (day === null) return null
+
+      const date = buildDate(today, today.getFullYear(), today.getMonth() + 1, day)
+      if (date && date >= today) return date
+      const nextMonth = addMonths(today, 1)
+      return buildDate(today, nextMonth.getFullYear(), nextMonth.getMonth() + 1, day)
+    },
+  },
+  {
+    // 春节后、国庆前、中秋，已过的节日为明年
+    pattern: new RegExp(`(${Object.keys(HOLIDAYS).join('|')})节?(?:(之?后|以后)|(之?前|以前))?`, 'g'),
+    resolve: (match, today) => {
+      const holiday = HOLIDAYS[match[1]]
+      return upcomingInYear(today, (year) => {
+        const firstDay = holiday.calendar === 'lunar'
+          ? findLunarDate(year, holiday.month, holiday.day, today.timeZone)
+          : buildDate(today, year, holiday.month, holiday.day)
+        if (!firstDay) return null
+        if (match[2]) return addDays(firstDay, holiday.days)
+        if (match[3]) return subDays(firstDay, 1)
+        return firstDay
+      })
+    },
+  },
+]
+
+/**
+ * 只说时段时的默认时间
+ */
+const PERIOD_DEFAULT_HOURS: Record<string, number> = {
+  凌晨: 6, 早上: 9, 早晨: 9, 上午: 9, 中午: 12, 下午: 14, 傍晚: 18, 晚上: 19,
+}
+
+/**
+ * 时间中的数字，紧跟在日期后匹配，"周三十点"中的"三"不影响"十"
+ */
+const TIME_NUMBER = '(\\d{1,2}|[一二两三四五六七八九十]{1,3})'
+
+/**
+ * 紧跟在日期后的时间：上午十点、下午3点半、晚上8:30、中午
+ */
+const TIME_PATTERN = new RegExp(
+  `\\s*(${Object.keys(PERIOD_DEFAULT_HOURS).join('|')})?\\s*` +
+  `(?:(\\d{1,2})[:：](\\d{2})|${TIME_NUMBER}[点时](半|一刻|三刻|${TIME_NUMBER}分?)?)?`,
+  'y'
+)
+
+/**
+ * 解析紧跟在日期后的时间
+ *
+ * @returns {{ hours: number; minutes: number; length: number } | null} 时间及其文本长度，没有时间时返回 null
+ */
+const matchTime = (text: string, position: number): { hours: number; minutes: number; length: number } | null => {
+  TIME_PATTERN.lastIndex = position
+  const match = TIME_PATTERN.exec(text)
+  if (!match || !match[0].trim()) return null
+
+  const [, period, clockHours, clockMinutes, spokenHours, fraction, spokenMinutes] = match
+  let hours: number | null
+  let minutes = 0
+
+  if (clockHours) {
+    hours = Number(clockHours)
+    minutes = Number(clockMinutes)
+  } else if (spokenHours) {
+    hours = parseChineseNumber(spokenHours)
+    if (fraction === '半') minutes = 30
+    else if (fraction === '一刻') minutes = 15
+    else if (fraction === '三刻') minutes = 45
+    else if (spokenMinutes) minutes = parseChineseNumber(spokenMinutes) ?? -1
+  } else {
+    hours = PERIOD_DEFAULT_HOURS[period]
+  }
+
+  if (hours === null || hours > 24 || minutes < 0 || minutes > 59) return null
+
+  // 下午三点、晚上八点、中午一点
+  if (period && hours < 12 && (['下午', '傍晚', '晚上'].includes(period) || (period === '中午' && hours < 3))) {
+    hours += 12
+  }
+
+  return { hours: hours % 24, minutes, length: match[0].trimEnd().length }
+}
+
+/**
+ * 查找文本中的第一个日期表达式，日期后紧跟的时间一并解析
+ *
+ * 多个规则在同一位置匹配时取最长的表达式（如"下周三"优先于"下周"）
+ *
+ * @param text 文本
+ * @param options 解析选项
+ * @returns {DateExpressionMatch | null} 识别到的日期，没有时返回 null
+ */
+export function findDateExpression(text: string, options: DateExpressionOptions = {}): DateExpressionMatch | null {
+  const timezone = options.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+  const today = startOfDay(new TZDate(options.now ?? new Date(), timezone))
+
+  let best: { date: Date; text: string; index: number } | null = null
+  for (const rule of DATE_RULES) {
+    rule.pattern.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = rule.pattern.exec(text)) !== null) {
+      if (best && (match.index > best.index || (match.index === best.index && match[0].length <= best.text.length))) {
+        break
+      }
+
+      const date = rule.resolve(match, today)
+      if (date) {
+        best = { date, text: match[0], index: match.index }
+        break
+      }
+    }
+  }
+
+  if (!best) return null
+
+  const time = matchTime(text, best.index + best.text.length)
+  // 转换为普通 Date，toISOString() 输出 UTC 时间（TZDate 输出带时区偏移的格式）
+  if (!time) {
+    return { ...best, date: new Date(best.date.getTime()), hasTime: false }
+  }
+
+  return {
+    date: new Date(setMinutes(setHours(best.date, time.hours), time.minutes).getTime()),
+    hasTime: true,
+    text: text.slice(best.index, best.index + best.text.length + time.length),
+    index: best.index,
+  }
+}
+
+/**
+ * 解析整段输入为日期（用于日期输入框），允许以"前"、"之前"结尾
+ *
+ * @param input 输入内容，如"下周三上午十点"、"月底前"、"2025-12-01"
+ * @param options 解析选项
+ * @returns {DateExpressionMatch | null} 解析结果，输入不是日期时返回 null
+ */
+export function parseDateExpression(input: string, options: DateExpressionOptions = {}): DateExpressionMatch | null {
+  const text = input.trim()
+  const match = findDateExpression(text, options)
+  if (!match || match.index !== 0) return null
+
+  return /^\s*(?:之?前|以前)?$/.test(text.slice(match.text.length)) ? match : null
+}
+
+/**
+ * 格式化解析出的日期，用于向用户确认，如"10月28日 周三 10:00"
+ *
+ * @param date 日期
+ * @param hasTime 是否显示时间
+ * @param timezone 时区，默认为浏览器时区
+ * @returns {string} 格式化后的日期
+ */
+export function formatDateExpression(date: Date, hasTime: boolean, timezone?: string): string {
+  const localDate = new TZDate(date, timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone)
+  return format(localDate, hasTime ? 'M月d日 EEE HH:mm' : 'M月d日 EEE', { locale: zhCN })
+}
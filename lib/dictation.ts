@@ -0,0 +1,178 @@
+/**
+ * 语音听写辅助模块
+ *
+ * 将识别结果中的口述标点转换为符号，并在输入框光标处插入听写内容；
+ * 识别"类型 上门拜访"、"下一步 下周三 准备报价单"、"发布"等语音指令
+ */
+
+import type { FollowUpType } from '@/app/generated/prisma'
+import { FOLLOWUP_TYPE_LABELS } from '@/lib/types/followup'
+import { DateExpressionOptions, findDateExpression } from '@/lib/date-expression'
+
+/**
+ * 口述标点及对应的符号，较长的词在前，避免"新段落"被"段落"之类的短词先匹配
+ */
+const SPOKEN_PUNCTUATION: [string, string][] = [
+  ['新段落', '\n\n'],
+  ['换行', '\n'],
+  ['回车', '\n'],
+  ['感叹号', '！'],
+  ['省略号', '……'],
+  ['逗号', '，'],
+  ['句号', '。'],
+  ['问号', '？'],
+  ['顿号', '、'],
+  ['冒号', '：'],
+  ['分号', '；'],
+]
+
+const SPOKEN_PUNCTUATION_PATTERN = new RegExp(
+  `\\s*(${SPOKEN_PUNCTUATION.map(([word]) => word).join('|')})\\s*`,
+  'g'
+)
+
+/**
+ * 将口述标点（"逗号"、"句号"、"换行"等）转换为符号
+ *
+ * 识别引擎会在口述标点前后加空格，一并去除
+ *
+ * @param text 识别结果
+ * @returns {string} 转换后的文本
+ */
+export function applySpokenPunctuation(text: string): string {
+  const symbols = new Map(SPOKEN_PUNCTUATION)
+  return text.replace(SPOKEN_PUNCTUATION_PATTERN, (_, word: string) => symbols.get(word)!)
+}
+
+/**
+ * 听写插入位置：开始听写时光标前后的文本，以及本次已确定的听写内容
+ */
+export interface DictationAnchor {
+  before: string
+  after: string
+  committed: string
+}
+
+/**
+ * 在光标（或选中文本）处开始听写，选中的文本会被听写内容替换
+ *
+ * @param value 输入框当前内容
+ * @param selectionStart 光标或选区起点
+ * @param selectionEnd 选区终点
+ * @returns {DictationAnchor} 插入位置
+ */
+export function createDictationAnchor(value: string, selectionStart: number, selectionEnd: number): DictationAnchor {
+  return {
+    before: value.slice(0, selectionStart),
+    after: value.slice(selectionEnd),
+    committed: '',
+  }
+}
+
+/**
+ * 组合听写后的输入框内容
+ *
+ * @param anchor 插入位置
+ * @param interim 尚未确定的识别结果，确定前随识别过程变化
+ * @returns {{ value: string; cursor: number }} 输入框内容及听写内容末尾的光标位置
+ */
+export function composeDictation(anchor: DictationAnchor, interim: string): { value: string; cursor: number } {
+  const inserted = anchor.committed + interim
+  return {
+    value: anchor.before + inserted + anchor.after,
+    cursor: anchor.before.length + inserted.length,
+  }
+}
+
+/**
+ * 语音指令：设置跟进类型、添加下一步计划、发布跟进记录
+ */
+export type VoiceCommand =
+  | { type: 'followUpType'; followUpType: FollowUpType }
+  | { type: 'nextStep'; dueDate: Date | null; hasTime: boolean; notes: string }
+  | { type: 'submit' }
+
+/**
+ * 跟进类型的口语说法，按顺序匹配，完整名称在前
+ */
+const FOLLOWUP_TYPE_ALIASES: [string, FollowUpType][] = [
+  ...(Object.entries(FOLLOWUP_TYPE_LABELS) as [FollowUpType, string][]).map(
+    ([type, label]): [string, FollowUpType] => [label, type]
+  ),
+  ['电话', 'PHONE_CALL'],
+  ['会议', 'MEETING'],
+  ['开会', 'MEETING'],
+  ['拜访', 'VISIT'],
+  ['上门', 'VISIT'],
+  ['宴请', 'BUSINESS_DINNER'],
+  ['吃饭', 'BUSINESS_DINNER'],
+  ['饭局', 'BUSINESS_DINNER'],
+]
+
+/**
+ * 指令关键词后的分隔（识别引擎可能在关键词后加空格或逗号，也可能说成"类型是"）
+ */
+const COMMAND_SEPARATOR = '(?:是|为|改为|选)?[\\s，,：:]*'
+
+const FOLLOWUP_TYPE_COMMAND_PATTERN = new RegExp(`^(?:跟进)?类型${COMMAND_SEPARATOR}(.+)$`)
+const NEXT_STEP_COMMAND_PATTERN = new RegExp(`^下一步${COMMAND_SEPARATOR}(.*)$`)
+const SUBMIT_COMMAND_PATTERN = /^(?:发布|提交)(?:跟进|记录|跟进记录)?$/
+
+/**
+ * 去除识别结果首尾的空白和标点
+ */
+const trimUtterance = (text: string) => text.replace(/^[\s，。！？、,.!?]+|[\s，。！？、,.!?]+$/g, '')
+
+/**
+ * 判断识别结果是否可能是语音指令（以指令关键词开头），用于在识别确定前避免将指令写入输入框
+ *
+ * @param text 识别结果
+ * @returns {boolean} 是否可能是指令
+ */
+export function isVoiceCommandPrefix(text: string): boolean {
+  return /^(?:跟进类型|类型|下一步|发布|提交)/.test(trimUtterance(text))
+}
+
+/**
+ * 解析语音指令，整句识别结果以指令关键词开头时才视为指令：
+ * - "类型 上门拜访"：设置跟进类型
+ * - "下一步 下周三上午十点 准备报价单"：添加下一步计划，日期之后的内容作为说明
+ * - "发布"：发布跟进记录
+ *
+ * @param transcript 一句已确定的识别结果（口述标点尚未转换）
+ * @param options 解析下一步日期的选项
+ * @returns {VoiceCommand | null} 语音指令，不是指令时返回 null
+ */
+export function parseVoiceCommand(transcript: string, options: DateExpressionOptions = {}): VoiceCommand | null {
+  const utterance = trimUtterance(transcript)
+
+  if (SUBMIT_COMMAND_PATTERN.test(utterance)) {
+    return { type: 'submit' }
+  }
+
+  const typeMatch = FOLLOWUP_TYPE_COMMAND_PATTERN.exec(utterance)
+  if (typeMatch) {
+    const spokenType = typeMatch[1].replace(/\s/g, '')
+    const alias = FOLLOWUP_TYPE_ALIASES.find(([word]) => spokenType.includes(word))
+    return alias ? { type: 'followUpType', followUpType: alias[1] } : null
+  }
+
+  const nextStepMatch = NEXT_STEP_COMMAND_PATTERN.exec(utterance)
+  if (nextStepMatch) {
+    const rest = nextStepMatch[1]
+    const dateMatch = findDateExpression(rest, options)
+    // 日期需紧跟在"下一步"之后，说明中间提到的日期不作为截止日期
+    if (dateMatch && dateMatch.index === 0) {
+      return {
+        type: 'nextStep',
+        dueDate: dateMatch.date,
+        hasTime: dateMatch.hasTime,
+        // "月底前 发合同"中的"前"属于日期
+        notes: trimUtterance(applySpokenPunctuation(rest.slice(dateMatch.text.length).replace(/^\s*(?:之?前|以前)/, ''))),
+      }
+    }
+    return { type: 'nextStep', dueDate: null, hasTime: false, notes: trimUtterance(applySpokenPunctuation(rest)) }
+  }
+
+  return null
+}
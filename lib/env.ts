@@ -57,6 +57,122 @@ const envSchema = z.object({
     .optional()
     .default(3000),
 
+  // Web Push 配置 - 可用 `npx web-push generate-vapid-keys` 生成
+  VAPID_PUBLIC_KEY: z
+    .string()
+    .transform((val) => val?.replace(/\r?\n/g, '').trim() || '')
+    .optional(),
+
+  VAPID_PRIVATE_KEY: z
+    .string()
+    .transform((val) => val?.replace(/\r?\n/g, '').trim() || '')
+    .optional(),
+
+  VAPID_SUBJECT: z
+    .string()
+    .refine(
+      (val) => val.startsWith('mailto:') || val.startsWith('https://'),
+      'VAPID Subject 必须是 mailto: 或 https:// 开头'
+    )
+    .optional()
+    .default('mailto:admin@company.com'),
+
+  // 定时任务接口的访问密钥
+  CRON_SECRET: z
+    .string()
+    .min(16, 'Cron Secret 至少需要 16 个字符')
+    .optional(),
+
+  // 数据库维护接口（/api/migrate、/api/init-db）的部署密钥，首次部署还没有管理员账号时使用
+  SEED_SECRET: z
+    .string()
+    .min(16, 'Seed Secret 至少需要 16 个字符')
+    .optional(),
+
+  // 附件存储配置 - 未指定时，配置了 Blob Token 则使用 Vercel Blob，否则使用本地磁盘
+  STORAGE_DRIVER: z
+    .enum(['local', 's3', 'vercel-blob'])
+    .optional(),
+
+  // 本地磁盘存储目录（不要放在 public 下，附件只能通过鉴权接口下载）
+  STORAGE_LOCAL_DIR: z
+    .string()
+    .optional()
+    .default('./storage'),
+
+  // S3 兼容存储（AWS S3、Cloudflare R2、MinIO 等）
+  S3_ENDPOINT: z
+    .string()
+    .url('S3 Endpoint 格式无效')
+    .optional(),
+
+  S3_REGION: z
+    .string()
+    .optional()
+    .default('auto'),
+
+  S3_BUCKET: z
+    .string()
+    .optional(),
+
+  S3_ACCESS_KEY_ID: z
+    .string()
+    .optional(),
+
+  S3_SECRET_ACCESS_KEY: z
+    .string()
+    .optional(),
+
+  // MinIO 等不支持虚拟主机风格的服务需设置为 true
+  S3_FORCE_PATH_STYLE: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => val === 'true'),
+
+  // Vercel Blob 存储
+  BLOB_READ_WRITE_TOKEN: z
+    .string()
+    .optional(),
+
+  // 上传文件安全扫描（none | clamd），扫描出病毒的文件会被隔离
+  FILE_SCANNER: z
+    .enum(['none', 'clamd'])
+    .optional()
+    .default('none'),
+
+  CLAMD_HOST: z
+    .string()
+    .optional()
+    .default('127.0.0.1'),
+
+  CLAMD_PORT: z
+    .string()
+    .regex(/^\d+$/, 'CLAMD_PORT 必须是数字')
+    .transform(Number)
+    .pipe(z.number().min(1).max(65535))
+    .optional()
+    .default(3310),
+
+  // 服务端语音转写（none | command | mock），浏览器不支持 Web Speech API 时使用
+  SPEECH_TO_TEXT: z
+    .enum(['none', 'command', 'mock'])
+    .optional()
+    .default('none'),
+
+  // SPEECH_TO_TEXT=command 时执行的转写命令，从标准输入读取音频，向标准输出写入文本
+  SPEECH_TO_TEXT_COMMAND: z
+    .string()
+    .optional(),
+
+  // 同时运行的转写命令数量上限，已满时转写接口返回 429
+  SPEECH_TO_TEXT_MAX_CONCURRENCY: z
+    .string()
+    .regex(/^\d+$/, 'SPEECH_TO_TEXT_MAX_CONCURRENCY 必须是数字')
+    .transform(Number)
+    .pipe(z.number().min(1))
+    .optional()
+    .default(2),
+
   // 自定义配置（示例）
   CUSTOM_KEY: z
     .string()
@@ -105,6 +221,26 @@ export function validateEnv(): z.infer<typeof envSchema> {
           NEXTAUTH_URL: undefined,
           NEXTAUTH_SECRET: undefined,
           PORT: 3000,
+          VAPID_PUBLIC_KEY: undefined,
+          VAPID_PRIVATE_KEY: undefined,
+          VAPID_SUBJECT: 'mailto:admin@company.com',
+          CRON_SECRET: undefined,
+          SEED_SECRET: undefined,
+          STORAGE_DRIVER: undefined,
+          STORAGE_LOCAL_DIR: './storage',
+          S3_ENDPOINT: undefined,
+          S3_REGION: 'auto',
+          S3_BUCKET: undefined,
+          S3_ACCESS_KEY_ID: undefined,
+          S3_SECRET_ACCESS_KEY: undefined,
+          S3_FORCE_PATH_STYLE: false,
+          BLOB_READ_WRITE_TOKEN: undefined,
+          FILE_SCANNER: 'none',
+          CLAMD_HOST: '127.0.0.1',
+          CLAMD_PORT: 3310,
+          SPEECH_TO_TEXT: 'none',
+          SPEECH_TO_TEXT_COMMAND: undefined,
+          SPEECH_TO_TEXT_MAX_CONCURRENCY: 2,
           CUSTOM_KEY: undefined
         }
       }
@@ -173,5 +309,12 @@ export const getDatabaseConfig = () => {
   }
 }
 
+/**
+ * 检查是否已配置 Web Push
+ *
+ * @returns {boolean}
+ */
+export const isPushConfigured = () => !!env.VAPID_PUBLIC_KEY && !!env.VAPID_PRIVATE_KEY
+
 // 类型导出
 export type Env = z.infer<typeof envSchema>
\ No newline at end of file
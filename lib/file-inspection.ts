@@ -0,0 +1,503 @@
+/**
+ * 上传文件内容检查模块
+ *
+ * 不信任浏览器提供的 MIME 类型和扩展名：
+ * - 按文件头（magic bytes）识别真实类型，必须与声明的 MIME 类型和扩展名一致
+ * - 拒绝带宏的 Office 文档和包含可执行脚本的 PDF
+ * - 拒绝拼接了其他格式内容的多态文件（polyglot），如图片尾部附加 ZIP 或嵌入 HTML
+ */
+
+import { readSync } from 'node:fs'
+import { inflateSync } from 'node:zlib'
+
+/**
+ * 允许上传的文件类型及对应的扩展名，第一个扩展名用于生成存储键
+ */
+const FILE_TYPE_EXTENSIONS = {
+  'image/jpeg': ['jpg', 'jpeg'],
+  'image/png': ['png'],
+  'image/gif': ['gif'],
+  'image/webp': ['webp'],
+  'application/pdf': ['pdf'],
+  'application/msword': ['doc'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['docx'],
+  'application/vnd.ms-excel': ['xls'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['xlsx'],
+  'text/plain': ['txt'],
+} as const
+
+/**
+ * 允许上传的 MIME 类型
+ */
+export type AllowedMimeType = keyof typeof FILE_TYPE_EXTENSIONS
+
+/**
+ * 允许上传的 MIME 类型列表
+ */
+export const ALLOWED_FILE_TYPES = Object.keys(FILE_TYPE_EXTENSIONS) as AllowedMimeType[]
+
+/**
+ * 文件检查结果
+ */
+export type FileInspectionResult =
+  | { valid: true; mimeType: AllowedMimeType; extension: string }
+  | { valid: false; error: string }
+
+/**
+ * 按位置读取文件内容
+ * 直接上传的文件在内存中，分片上传合并后的大文件保存在临时文件中，检查时按需读取，不整体载入内存
+ */
+export interface FileContentReader {
+  readonly size: number
+  /** 读取 [start, end) 范围的内容，超出文件末尾的部分被截断 */
+  read(start: number, end: number): Buffer
+}
+
+/**
+ * ZIP 中央目录结尾记录的最大长度（22 字节固定部分 + 最长 65535 字节注释）
+ */
+const MAX_EOCD_LENGTH = 22 + 0xffff
+
+/**
+ * ZIP 中央目录的最大长度，正常的 Office 文档远小于此值
+ */
+const MAX_ZIP_DIRECTORY_LENGTH = 16 * 1024 * 1024
+
+/**
+ * 逐块检查文件内容时每次读取的长度
+ */
+const READ_CHUNK_SIZE = 1024 * 1024
+
+const ZIP_LOCAL_HEADER = Buffer.from([0x50, 0x4b, 0x03, 0x04])
+const ZIP_CENTRAL_HEADER = 0x02014b50
+const ZIP_EOCD = Buffer.from([0x50, 0x4b, 0x05, 0x06])
+const OLE2_HEADER = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+const NUL_BYTE = Buffer.from([0])
+
+/**
+ * 图片中不应出现的标记，出现即视为嵌入了网页或脚本
+ */
+const EMBEDDED_MARKUP_PATTERN = /<(script|html|iframe|svg|\?php)[\s>]/i
+
+/**
+ * 可能匹配 EMBEDDED_MARKUP_PATTERN 的最大长度，用作分块检查时相邻块的重叠长度
+ */
+const EMBEDDED_MARKUP_MAX_LENGTH = 16
+
+/**
+ * PDF 中可自动执行动作的字典键
+ */
+const PDF_ACTIVE_CONTENT_KEYS = new Set(['JavaScript', 'JS', 'Launch'])
+
+/**
+ * 解压 PDF 对象流时允许的最大长度，防止压缩炸弹
+ */
+const MAX_PDF_OBJECT_STREAM_LENGTH = 16 * 1024 * 1024
+
+/**
+ * PDF 名称的最大长度（PDF 规范限制为 127 字节）
+ */
+const MAX_PDF_NAME_LENGTH = 127
+
+/**
+ * PDF 词法中的空白字符和分隔符
+ */
+const PDF_WHITESPACE = '\0\t\n\f\r '
+const PDF_DELIMITERS = '()<>[]{}/%'
+const PDF_END_STREAM = Buffer.from('endstream', 'latin1')
+
+/**
+ * 创建读取内存中文件的读取器
+ *
+ * @param content 文件内容
+ * @returns {FileContentReader} 读取器
+ */
+export function createBufferReader(content: Buffer): FileContentReader {
+  return {
+    size: content.length,
+    read: (start, end) => content.subarray(start, end),
+  }
+}
+
+/**
+ * 创建读取磁盘文件的读取器
+ *
+ * @param fd 已打开的文件描述符
+ * @param size 文件大小
+ * @returns {FileContentReader} 读取器
+ */
+export function createFileReader(fd: number, size: number): FileContentReader {
+  return {
+    size,
+    read(start, end) {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(end, size) - start))
+      let offset = 0
+      while (offset < buffer.length) {
+        const bytesRead = readSync(fd, buffer, offset, buffer.length - offset, start + offset)
+        if (bytesRead === 0) break
+        offset += bytesRead
+      }
+      return buffer.subarray(0, offset)
+    },
+  }
+}
+
+/**
+ * 从指定位置起逐块查找内容，相邻块重叠 overlap 字节，避免匹配内容跨越块边界时被漏掉
+ *
+ * @param reader 文件读取器
+ * @param find 在块中查找，返回块内位置，未找到时返回 -1
+ * @param overlap 相邻块的重叠长度
+ * @param from 起始位置
+ * @returns {number} 匹配的文件位置，未找到时返回 -1
+ */
+function searchContent(
+  reader: FileContentReader,
+  find: (chunk: Buffer) => number,
+  overlap: number,
+  from = 0
+): number {
+  for (let offset = from; offset < reader.size; offset += READ_CHUNK_SIZE) {
+    const start = Math.max(from, offset - overlap)
+    const index = find(reader.read(start, offset + READ_CHUNK_SIZE))
+    if (index !== -1) return start + index
+  }
+  return -1
+}
+
+const indexOfContent = (reader: FileContentReader, needle: Buffer, from = 0) =>
+  searchContent(reader, (chunk) => chunk.indexOf(needle), needle.length - 1, from)
+
+const startsWith = (reader: FileContentReader, signature: Buffer | string, offset = 0) => {
+  const expected = typeof signature === 'string' ? Buffer.from(signature, 'latin1') : signature
+  return reader.read(offset, offset + expected.length).equals(expected)
+}
+
+/**
+ * 查找 OLE2 目录项，目录项名称为以空字符结尾的 UTF-16LE 字符串
+ */
+const hasOle2Entry = (reader: FileContentReader, name: string) =>
+  indexOfContent(reader, Buffer.from(`${name}\0`, 'utf16le')) !== -1
+
+/**
+ * 读取 ZIP 文件的条目名称，同时校验中央目录紧邻结尾记录（前后没有拼接其他数据）
+ *
+ * @returns {string[] | null} 条目名称，结构无效时返回 null
+ */
+function readZipEntryNames(reader: FileContentReader): string[] | null {
+  const tailStart = Math.max(0, reader.size - MAX_EOCD_LENGTH)
+  const tail = reader.read(tailStart, reader.size)
+  const eocdIndex = tail.lastIndexOf(ZIP_EOCD)
+  if (eocdIndex === -1 || eocdIndex + 22 > tail.length) return null
+
+  const eocdOffset = tailStart + eocdIndex
+  const entryCount = tail.readUInt16LE(eocdIndex + 10)
+  const directorySize = tail.readUInt32LE(eocdIndex + 12)
+  const directoryOffset = tail.readUInt32LE(eocdIndex + 16)
+  const commentLength = tail.readUInt16LE(eocdIndex + 20)
+
+  if (directoryOffset + directorySize !== eocdOffset) return null
+  if (eocdOffset + 22 + commentLength !== reader.size) return null
+  if (directorySize > MAX_ZIP_DIRECTORY_LENGTH) return null
+
+  const directory = reader.read(directoryOffset, eocdOffset)
+  const names: string[] = []
+  let offset = 0
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) return null
+
+    const nameLength = directory.readUInt16LE(offset + 28)
+    const extraLength = directory.readUInt16LE(offset + 30)
+    const entryCommentLength = directory.readUInt16LE(offset + 32)
+    names.push(directory.subarray(offset + 46, offset + 46 + nameLength).toString('utf8'))
+    offset += 46 + nameLength + extraLength + entryCommentLength
+  }
+
+  return offset === directory.length ? names : null
+}
+
+/**
+ * 检查 Office Open XML 文档（docx/xlsx）
+ */
+function inspectOfficeOpenXml(reader: FileContentReader): { mimeType: AllowedMimeType } | { error: string } {
+  const names = readZipEntryNames(reader)
+  if (!names || !names.includes('[Content_Types].xml')) {
+    return { error: '文件结构无效或附加了其他数据' }
+  }
+
+  const lowerNames = names.map((name) => name.toLowerCase())
+  if (lowerNames.some((name) => name.endsWith('vbaproject.bin') || name.endsWith('vbadata.xml'))) {
+    return { error: '不允许上传包含宏的 Office 文档' }
+  }
+
+  if (names.includes('word/document.xml')) {
+    return { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }
+  }
+  if (names.includes('xl/workbook.xml')) {
+    return { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+  }
+  return { error: '无法识别的 Office 文档' }
+}
+
+/**
+ * 检查旧版 Office 文档（doc/xls）
+ */
+function inspectOle2(reader: FileContentReader): { mimeType: AllowedMimeType } | { error: string } {
+  // Word 的宏保存在 Macros 存储中，Excel 保存在 _VBA_PROJECT_CUR 中
+  if (hasOle2Entry(reader, '_VBA_PROJECT_CUR') || hasOle2Entry(reader, 'Macros')) {
+    return { error: '不允许上传包含宏的 Office 文档' }
+  }
+
+  if (hasOle2Entry(reader, 'WordDocument')) {
+    return { mimeType: 'application/msword' }
+  }
+  if (hasOle2Entry(reader, 'Workbook') || hasOle2Entry(reader, 'Book')) {
+    return { mimeType: 'application/vnd.ms-excel' }
+  }
+  return { error: '无法识别的 Office 文档' }
+}
+
+/**
+ * 按位置读取单个字符，按块缓存文件内容，供 PDF 词法分析顺序访问
+ *
+ * @param reader 文件读取器
+ * @returns {(position: number) => string} 读取函数，超出文件末尾时返回空字符串
+ */
+function createCharReader(reader: FileContentReader): (position: number) => string {
+  let windowStart = 0
+  let window: Buffer = Buffer.alloc(0)
+
+  return (position) => {
+    if (position < windowStart || position >= windowStart + window.length) {
+      windowStart = position
+      window = reader.read(position, position + READ_CHUNK_SIZE)
+    }
+    return position < windowStart + window.length ? String.fromCharCode(window[position - windowStart]) : ''
+  }
+}
+
+/**
+ * 读取 PDF 中的一个普通记号（名称、数字或关键字），直到空白或分隔符
+ *
+ * @returns {number} 记号结束的位置
+ */
+function readPdfToken(charAt: (position: number) => string, start: number): number {
+  let end = start
+  let char = charAt(end)
+  while (char && !PDF_WHITESPACE.includes(char) && !PDF_DELIMITERS.includes(char)) {
+    char = charAt(++end)
+  }
+  return end
+}
+
+/**
+ * 跳过 PDF 字面量字符串 (...)，支持嵌套括号和反斜杠转义
+ *
+ * @returns {number} 字符串结束后的位置
+ */
+function skipPdfLiteralString(charAt: (position: number) => string, start: number): number {
+  let depth = 0
+  let i = start
+  for (let char = charAt(i); char; char = charAt(++i)) {
+    if (char === '\\') {
+      i++
+    } else if (char === '(') {
+      depth++
+    } else if (char === ')' && --depth === 0) {
+      return i + 1
+    }
+  }
+  return i
+}
+
+/**
+ * 检查 PDF 是否包含可自动执行的动作
+ *
+ * 只检查对象字典中的键：跳过字符串、注释和流数据，避免压缩数据中偶然出现的字节造成误判；
+ * 对象流（/Type /ObjStm）中的对象需要解压后检查，无法解压的对象流交给病毒扫描处理
+ *
+ * @param reader PDF 内容或解压后的对象流
+ * @returns {boolean} 是否包含 /JavaScript、/JS 或 /Launch 键
+ */
+function hasPdfActiveContent(reader: FileContentReader): boolean {
+  const charAt = createCharReader(reader)
+  // 当前对象中出现的名称，用于识别对象流和读取流长度
+  let objectNames: string[] = []
+  let streamLength: number | null = null
+  let i = 0
+
+  while (i < reader.size) {
+    const char = charAt(i)
+
+    if (PDF_WHITESPACE.includes(char)) {
+      i++
+    } else if (char === '%') {
+      while (i < reader.size && charAt(i) !== '\n' && charAt(i) !== '\r') i++
+    } else if (char === '(') {
+      i = skipPdfLiteralString(charAt, i)
+    } else if (char === '<') {
+      // << 为字典开始，单个 < 为十六进制字符串
+      const end = charAt(i + 1) === '<' ? i + 1 : indexOfContent(reader, Buffer.from('>'), i)
+      i = end === -1 ? reader.size : end + 1
+    } else if (char === '/') {
+      const end = readPdfToken(charAt, i + 1)
+      // 名称中的 #xx 为十六进制转义，如 /J#53 等同于 /JS
+      const name = reader
+        .read(i + 1, Math.min(end, i + 1 + MAX_PDF_NAME_LENGTH))
+        .toString('latin1')
+        .replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+      if (PDF_ACTIVE_CONTENT_KEYS.has(name)) return true
+
+      objectNames.push(name)
+      // 只采用直接写出的长度，间接引用（如 12 0 R）时改为查找 endstream
+      if (name === 'Length') {
+        const match = /^\s*(\d+)(?!\s+\d+\s+R)/.exec(reader.read(end, end + 32).toString('latin1'))
+        streamLength = match ? Number(match[1]) : null
+      }
+      i = end
+    } else if (PDF_DELIMITERS.includes(char)) {
+      i++
+    } else {
+      const end = readPdfToken(charAt, i)
+      // 只关心 obj 和 stream 关键字，不读取长记号
+      const token = end - i <= 'stream'.length ? reader.read(i, end).toString('latin1') : ''
+      i = end
+
+      if (token === 'obj') {
+        objectNames = []
+        streamLength = null
+      } else if (token === 'stream') {
+        // 流数据从 stream 关键字后的换行开始
+        if (charAt(i) === '\r') i++
+        if (charAt(i) === '\n') i++
+
+        const dataStart = i
+        let dataEnd = streamLength !== null ? dataStart + streamLength : -1
+        if (dataEnd < 0 || !/^\s*endstream/.test(reader.read(dataEnd, dataEnd + 16).toString('latin1'))) {
+          dataEnd = indexOfContent(reader, PDF_END_STREAM, dataStart)
+          if (dataEnd === -1) dataEnd = reader.size
+        }
+
+        if (objectNames.includes('ObjStm') && dataEnd - dataStart <= MAX_PDF_OBJECT_STREAM_LENGTH) {
+          try {
+            const objects = inflateSync(reader.read(dataStart, dataEnd), {
+              maxOutputLength: MAX_PDF_OBJECT_STREAM_LENGTH,
+            })
+            if (hasPdfActiveContent(createBufferReader(objects))) return true
+          } catch {
+            // 非 FlateDecode 压缩或数据损坏，无法检查
+          }
+        }
+
+        i = dataEnd + PDF_END_STREAM.length
+        objectNames = []
+        streamLength = null
+      }
+    }
+  }
+
+  return false
+}
+
+/**
+ * 检查非 ZIP 格式的文件尾部是否附加了 ZIP 压缩包
+ */
+function hasTrailingZip(reader: FileContentReader): boolean {
+  const tail = reader.read(Math.max(0, reader.size - MAX_EOCD_LENGTH), reader.size)
+  return tail.includes(ZIP_EOCD)
+}
+
+/**
+ * 按文件头识别文件的真实类型
+ *
+ * @param reader 文件读取器
+ * @returns {{ mimeType: AllowedMimeType } | { error: string }} 识别结果
+ */
+function detectFileType(reader: FileContentReader): { mimeType: AllowedMimeType } | { error: string } {
+  if (startsWith(reader, Buffer.from([0xff, 0xd8, 0xff]))) return { mimeType: 'image/jpeg' }
+  if (startsWith(reader, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return { mimeType: 'image/png' }
+  if (startsWith(reader, 'GIF87a') || startsWith(reader, 'GIF89a')) return { mimeType: 'image/gif' }
+  if (startsWith(reader, 'RIFF') && startsWith(reader, 'WEBP', 8)) return { mimeType: 'image/webp' }
+  if (startsWith(reader, '%PDF-')) return { mimeType: 'application/pdf' }
+  if (startsWith(reader, ZIP_LOCAL_HEADER)) return inspectOfficeOpenXml(reader)
+  if (startsWith(reader, OLE2_HEADER)) return inspectOle2(reader)
+
+  // 纯文本没有文件头，不能包含空字节
+  if (reader.size > 0 && indexOfContent(reader, NUL_BYTE) === -1) return { mimeType: 'text/plain' }
+
+  return { error: '无法识别的文件格式' }
+}
+
+/**
+ * 检查文件内容，真实类型必须与声明的 MIME 类型和扩展名一致
+ *
+ * @param content 文件内容，大文件传入读取器按需读取
+ * @param declaredType 浏览器声明的 MIME 类型
+ * @param fileName 原始文件名
+ * @returns {FileInspectionResult} 检查结果，有效时包含用于保存的规范扩展名
+ */
+export function inspectFile(
+  content: Buffer | FileContentReader,
+  declaredType: string,
+  fileName: string
+): FileInspectionResult {
+  const reader = Buffer.isBuffer(content) ? createBufferReader(content) : content
+
+  const detected = detectFileType(reader)
+  if ('error' in detected) {
+    return { valid: false, error: detected.error }
+  }
+
+  const { mimeType } = detected
+  if (mimeType !== declaredType) {
+    return { valid: false, error: '文件内容与声明的文件类型不一致' }
+  }
+
+  const extensions: readonly string[] = FILE_TYPE_EXTENSIONS[mimeType]
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : ''
+  if (!extensions.includes(extension)) {
+    return { valid: false, error: `文件扩展名与文件内容不一致，应为 .${extensions.join('/.')}` }
+  }
+
+  // 多态文件检查
+  const isZip = mimeType.includes('openxmlformats')
+  if (!isZip && hasTrailingZip(reader)) {
+    return { valid: false, error: '文件中附加了压缩包数据' }
+  }
+  if (
+    mimeType.startsWith('image/') &&
+    searchContent(reader, (chunk) => chunk.toString('latin1').search(EMBEDDED_MARKUP_PATTERN), EMBEDDED_MARKUP_MAX_LENGTH) !== -1
+  ) {
+    return { valid: false, error: '图片中包含网页或脚本内容' }
+  }
+  if (mimeType === 'application/pdf' && hasPdfActiveContent(reader)) {
+    return { valid: false, error: '不允许上传包含脚本或自动执行动作的 PDF' }
+  }
+
+  return { valid: true, mimeType, extension: extensions[0] }
+}
+
+/**
+ * 清理原始文件名：去除路径、控制字符和文件系统保留字符，限制长度并保留扩展名
+ *
+ * @param fileName 浏览器提供的文件名
+ * @returns {string} 可安全展示和用于下载的文件名
+ */
+export function sanitizeFileName(fileName: string): string {
+  const baseName = fileName.normalize('NFC').split(/[\\/]/).pop() ?? ''
+  const cleaned = baseName
+    .replace(/[\u0000-\u001f\u007f<>:"|?*]/g, '')
+    // 去除双向文本控制字符，防止 "invoice\u202Efdp.exe" 这类伪装扩展名
+    .replace(/[\u200e\u200f\u202a-\u202e\u2066-\u2069]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.]+|[\s.]+$/g, '')
+
+  if (!cleaned) return '未命名文件'
+
+  const maxLength = 100
+  if (cleaned.length <= maxLength) return cleaned
+
+  const dotIndex = cleaned.lastIndexOf('.')
+  const extension = dotIndex > 0 ? cleaned.slice(dotIndex) : ''
+  return cleaned.slice(0, maxLength - extension.length) + extension
+}
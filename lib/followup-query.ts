@@ -0,0 +1,116 @@
+/**
+ * 跟进记录查询辅助模块
+ *
+ * 统一跟进记录的关联查询字段和响应格式转换，供各API路由复用
+ */
+
+import type { Prisma } from '@/app/generated/prisma'
+import { AttachmentResponse, FollowUpRecordResponse } from '@/lib/types/followup'
+import type { CurrentUser } from '@/lib/auth'
+import { canEditFollowUp } from '@/lib/permissions'
+import { nextStepPlanSelect, toNextStepPlanResponse } from '@/lib/plan-query'
+import { getAttachmentDownloadUrl } from '@/lib/attachment-url'
+
+/**
+ * 附件的查询字段
+ */
+export const attachmentSelect = {
+  id: true,
+  fileName: true,
+  fileType: true,
+  fileSize: true,
+  thumbnailKey: true,
+  webKey: true,
+  width: true,
+  height: true,
+  textPreview: true,
+  createdAt: true,
+} satisfies Prisma.AttachmentSelect
+
+/**
+ * 跟进记录的关联查询字段
+ */
+export const followUpRecordInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  attachments: {
+    select: attachmentSelect,
+    orderBy: { createdAt: 'asc' },
+  },
+  nextStepPlans: {
+    select: nextStepPlanSelect,
+    orderBy: { dueDate: 'asc' },
+  },
+  _count: {
+    select: {
+      revisions: true,
+    },
+  },
+} satisfies Prisma.FollowUpRecordInclude
+
+/**
+ * 包含关联数据的跟进记录
+ */
+export type FollowUpRecordWithRelations = Prisma.FollowUpRecordGetPayload<{
+  include: typeof followUpRecordInclude
+}>
+
+/**
+ * 转换为附件响应格式，文件均通过鉴权下载接口访问
+ *
+ * @param attachment 附件
+ * @returns {AttachmentResponse} 响应数据
+ */
+export function toAttachmentResponse(
+  attachment: Prisma.AttachmentGetPayload<{ select: typeof attachmentSelect }>
+): AttachmentResponse {
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    fileUrl: getAttachmentDownloadUrl(attachment.id),
+    thumbnailUrl: attachment.thumbnailKey
+      ? getAttachmentDownloadUrl(attachment.id, { disposition: 'inline', variant: 'thumbnail' })
+      : undefined,
+    webUrl: attachment.webKey
+      ? getAttachmentDownloadUrl(attachment.id, { disposition: 'inline', variant: 'web' })
+      : undefined,
+    fileType: attachment.fileType,
+    fileSize: attachment.fileSize || undefined,
+    width: attachment.width ?? undefined,
+    height: attachment.height ?? undefined,
+    textPreview: attachment.textPreview ?? undefined,
+    createdAt: attachment.createdAt.toISOString(),
+  }
+}
+
+/**
+ * 转换为跟进记录响应格式
+ *
+ * @param record 包含关联数据的跟进记录
+ * @param currentUser 当前用户，用于计算编辑权限
+ * @returns {FollowUpRecordResponse} 响应数据
+ */
+export function toFollowUpRecordResponse(
+  record: FollowUpRecordWithRelations,
+  currentUser: CurrentUser
+): FollowUpRecordResponse {
+  return {
+    id: record.id,
+    content: record.content,
+    followUpType: record.followUpType,
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+    customerId: record.customerId,
+    userId: record.userId,
+    user: record.user,
+    attachments: record.attachments.map(toAttachmentResponse),
+    nextStepPlans: record.nextStepPlans.map((plan) => toNextStepPlanResponse(plan, currentUser)),
+    revisionCount: record._count.revisions,
+    canEdit: canEditFollowUp(currentUser, record),
+  }
+}
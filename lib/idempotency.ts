@@ -0,0 +1,257 @@
+/**
+ * 幂等请求模块
+ *
+ * 创建类接口支持 Idempotency-Key 请求头：首次请求的响应保存在 idempotency_keys 表，
+ * 同一用户在同一接口使用相同的幂等键重试时直接返回首次的响应，请求内容不同时返回 409。
+ * 未携带请求头的请求按原流程处理
+ */
+
+import { createHash } from 'node:crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@/app/generated/prisma'
+import { prisma } from '@/lib/prisma'
+import { ApiResponse } from '@/lib/types/followup'
+
+/**
+ * 幂等键请求头
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key'
+
+/**
+ * 重放首次响应时附加的响应头
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed'
+
+/**
+ * 幂等键的保留时间（24小时），过期后同一幂等键视为新请求
+ */
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 幂等键最大长度
+ */
+const MAX_KEY_LENGTH = 255
+
+/**
+ * 幂等键只允许可见 ASCII 字符（UUID、ULID 等）
+ */
+const KEY_PATTERN = /^[\x21-\x7e]+$/
+
+/**
+ * 首次请求仍在处理时，重复请求等待结果的最长时间和轮询间隔
+ */
+const PROCESSING_WAIT_MS = 10 * 1000
+const PROCESSING_POLL_INTERVAL_MS = 200
+
+/**
+ * 超过该时间仍在处理中的记录视为进程中断遗留，允许重新处理
+ */
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000
+
+/**
+ * 过期幂等键的清理结果
+ */
+export interface IdempotencyKeyCleanupResult {
+  expiredIdempotencyKeys: number
+}
+
+/**
+ * 幂等请求参数
+ */
+export interface IdempotencyOptions {
+  /** 当前用户ID，幂等键按用户隔离 */
+  userId: string
+  /** 请求内容的哈希，用于识别同一幂等键被用于不同的请求 */
+  requestHash: string
+}
+
+/**
+ * 按键名排序序列化，使字段顺序不同的相同内容得到同一哈希
+ *
+ * @param value 任意 JSON 值
+ * @returns {string} 序列化结果
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * 计算请求内容的哈希
+ *
+ * @param body 请求内容（JSON 请求体，或文件名、类型、校验值等摘要信息）
+ * @returns {string} SHA-256 十六进制哈希
+ */
+export function hashRequestBody(body: unknown): string {
+  return createHash('sha256').update(stableStringify(body)).digest('hex')
+}
+
+/**
+ * 首次请求仍在处理时，建议客户端重试的等待时间（秒）
+ */
+const PROCESSING_RETRY_AFTER_SECONDS = 5
+
+/**
+ * 幂等键相关的错误响应
+ *
+ * @param message 错误信息
+ * @param status HTTP 状态码
+ * @param headers 附加的响应头
+ * @returns {NextResponse<ApiResponse<never>>} 错误响应
+ */
+function idempotencyErrorResponse(
+  message: string,
+  status: number,
+  headers?: HeadersInit
+): NextResponse<ApiResponse<never>> {
+  return NextResponse.json({ success: false, error: message }, { status, headers })
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * 尝试登记幂等键
+ *
+ * @returns {Promise<string | null>} 登记成功返回记录ID，幂等键已存在时返回 null
+ */
+async function claimIdempotencyKey(
+  key: string,
+  scope: string,
+  { userId, requestHash }: IdempotencyOptions
+): Promise<string | null> {
+  try {
+    const record = await prisma.idempotencyKey.create({
+      data: { key, scope, userId, requestHash },
+      select: { id: true },
+    })
+    return record.id
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * 以幂等方式执行创建请求
+ *
+ * 同一用户在同一接口（请求方法和路径）内，幂等键首次出现时执行 handler 并保存响应；
+ * 再次出现时返回保存的响应（附带 Idempotent-Replayed 响应头），首次请求仍在处理时等待其完成。
+ * handler 抛出异常或返回 5xx 时不保存响应，客户端可以用同一幂等键重试
+ *
+ * @param request Next.js请求对象
+ * @param options 当前用户和请求内容哈希
+ * @param handler 实际的创建逻辑，需返回 JSON 响应
+ * @returns {Promise<NextResponse>} handler 的响应、重放的响应或幂等键错误（400/409）；
+ * 首次请求仍在处理的 409 带有 Retry-After 响应头，客户端可稍后用同一幂等键重试
+ */
+export async function withIdempotency<T>(
+  request: NextRequest,
+  options: IdempotencyOptions,
+  handler: () => Promise<NextResponse<T>>
+): Promise<NextResponse<T | ApiResponse<never>>> {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER)
+  if (key === null) {
+    return handler()
+  }
+
+  if (key.length > MAX_KEY_LENGTH || !KEY_PATTERN.test(key)) {
+    return idempotencyErrorResponse('幂等键格式不正确', 400)
+  }
+
+  const scope = `${request.method} ${request.nextUrl.pathname}`
+  const deadline = Date.now() + PROCESSING_WAIT_MS
+  let recordId: string | null = null
+
+  while (!recordId) {
+    recordId = await claimIdempotencyKey(key, scope, options)
+    if (recordId) break
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { userId_scope_key: { userId: options.userId, scope, key } },
+    })
+
+    // 首次请求失败后记录已删除，重新登记
+    if (!existing) continue
+
+    if (existing.requestHash !== options.requestHash) {
+      return idempotencyErrorResponse('该幂等键已用于内容不同的请求', 409)
+    }
+
+    if (existing.status === 'COMPLETED') {
+      return NextResponse.json(existing.responseBody as T, {
+        status: existing.responseStatus ?? 200,
+        headers: { [IDEMPOTENT_REPLAYED_HEADER]: 'true' },
+      })
+    }
+
+    // 处理进程中断遗留的记录，删除后重新登记
+    if (Date.now() - existing.updatedAt.getTime() > PROCESSING_TIMEOUT_MS) {
+      await prisma.idempotencyKey.deleteMany({
+        where: { id: existing.id, status: 'PROCESSING', updatedAt: existing.updatedAt },
+      })
+      continue
+    }
+
+    if (Date.now() >= deadline) {
+      return idempotencyErrorResponse('相同幂等键的请求正在处理，请稍后重试', 409, {
+        'Retry-After': String(PROCESSING_RETRY_AFTER_SECONDS),
+      })
+    }
+    await sleep(PROCESSING_POLL_INTERVAL_MS)
+  }
+
+  let response: NextResponse<T>
+  try {
+    response = await handler()
+  } catch (error) {
+    await prisma.idempotencyKey.delete({ where: { id: recordId } }).catch(() => {})
+    throw error
+  }
+
+  if (response.status >= 500) {
+    await prisma.idempotencyKey.delete({ where: { id: recordId } }).catch(() => {})
+    return response
+  }
+
+  try {
+    await prisma.idempotencyKey.update({
+      where: { id: recordId },
+      data: {
+        status: 'COMPLETED',
+        responseStatus: response.status,
+        responseBody: (await response.clone().json()) as Prisma.InputJsonValue,
+      },
+    })
+  } catch (error) {
+    // 保存失败不影响本次结果，删除记录以免后续重试一直等待
+    console.error('保存幂等响应失败:', error)
+    await prisma.idempotencyKey.delete({ where: { id: recordId } }).catch(() => {})
+  }
+
+  return response
+}
+
+/**
+ * 删除超过保留时间的幂等键
+ *
+ * @param now 当前时间
+ * @returns {Promise<IdempotencyKeyCleanupResult>} 清理结果
+ */
+export async function cleanupIdempotencyKeys(now: Date = new Date()): Promise<IdempotencyKeyCleanupResult> {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { createdAt: { lt: new Date(now.getTime() - IDEMPOTENCY_KEY_TTL_MS) } },
+  })
+
+  return { expiredIdempotencyKeys: count }
+}
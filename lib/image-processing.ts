@@ -0,0 +1,107 @@
+/**
+ * 图片处理模块
+ *
+ * 上传的照片在保存前统一处理：
+ * - 按 EXIF 方向信息旋转，避免手机照片横竖颠倒
+ * - 去除 EXIF 元数据（包括 GPS 位置），只保留色彩配置
+ * - 生成缩略图和网页浏览尺寸的 WebP 版本，与原图一同保存
+ */
+
+import sharp from 'sharp'
+
+/**
+ * 缩略图最大边长（像素）
+ */
+const THUMBNAIL_SIZE = 320
+
+/**
+ * 网页浏览版本最大边长（像素）
+ */
+const WEB_SIZE = 1600
+
+/**
+ * 处理后的图片文件
+ */
+export interface ImageVariant {
+  buffer: Buffer
+  contentType: string
+  width: number
+  height: number
+}
+
+/**
+ * 图片处理结果
+ */
+export interface ProcessedImage {
+  /** 校正方向并去除元数据后的原图 */
+  original: ImageVariant
+  thumbnail: ImageVariant
+  web: ImageVariant
+}
+
+/**
+ * 将 sharp 管道输出为图片文件
+ */
+async function toVariant(pipeline: sharp.Sharp, contentType: string): Promise<ImageVariant> {
+  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true })
+  return { buffer: data, contentType, width: info.width, height: info.height }
+}
+
+/**
+ * 按原格式重新编码原图，旋转后不再携带 EXIF
+ */
+function encodeOriginal(pipeline: sharp.Sharp, format: string | undefined): sharp.Sharp {
+  switch (format) {
+    case 'jpeg':
+      return pipeline.jpeg({ quality: 90, mozjpeg: true })
+    case 'png':
+      return pipeline.png()
+    case 'webp':
+      return pipeline.webp({ quality: 90 })
+    default:
+      throw new Error(`不支持处理的图片格式: ${format}`)
+  }
+}
+
+/**
+ * 判断是否需要经过图片处理，GIF 动图保持原样上传
+ *
+ * @param mimeType MIME类型
+ * @returns {boolean}
+ */
+export function isProcessableImage(mimeType: string): boolean {
+  return ['image/jpeg', 'image/png', 'image/webp'].includes(mimeType)
+}
+
+/**
+ * 处理上传的图片
+ *
+ * @param input 原始图片内容
+ * @returns {Promise<ProcessedImage>} 原图、缩略图和网页版本
+ * @throws {Error} 图片无法解析时抛出错误
+ */
+export async function processImage(input: Buffer): Promise<ProcessedImage> {
+  const source = sharp(input, { failOn: 'error' })
+  const { format } = await source.metadata()
+
+  // rotate() 不带参数时按 EXIF 方向旋转；sharp 默认不输出元数据，只保留 ICC 色彩配置
+  const oriented = source.rotate().keepIccProfile()
+
+  const [original, thumbnail, web] = await Promise.all([
+    toVariant(encodeOriginal(oriented.clone(), format), `image/${format}`),
+    toVariant(
+      oriented.clone()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 75 }),
+      'image/webp'
+    ),
+    toVariant(
+      oriented.clone()
+        .resize(WEB_SIZE, WEB_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 82 }),
+      'image/webp'
+    ),
+  ])
+
+  return { original, thumbnail, web }
+}
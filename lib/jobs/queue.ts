@@ -0,0 +1,160 @@
+/**
+ * 后台任务队列
+ *
+ * 基于 PostgreSQL 的任务队列：任务写入 jobs 表，worker 通过
+ * SELECT ... FOR UPDATE SKIP LOCKED 领取，多个 worker 并行时不会重复执行
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { Prisma } from '@/app/generated/prisma'
+import type { JobName, JobPayloads } from '@/lib/jobs/registry'
+
+/**
+ * 入队选项
+ */
+export interface EnqueueOptions {
+  /** 最早执行时间，默认立即执行 */
+  runAt?: Date
+  /** 最大尝试次数，默认3次 */
+  maxAttempts?: number
+}
+
+/**
+ * 已领取的任务
+ */
+export interface ClaimedJob {
+  id: string
+  name: JobName
+  payload: Prisma.JsonValue
+  attempts: number
+  maxAttempts: number
+}
+
+/**
+ * 重试退避基数（毫秒），第 n 次失败后等待 30s * 2^(n-1)
+ */
+const RETRY_BASE_DELAY_MS = 30 * 1000
+
+/**
+ * 添加任务到队列
+ * 可传入事务客户端，使任务与业务数据在同一事务中提交
+ *
+ * @param name 任务名称
+ * @param payload 任务参数
+ * @param options 入队选项
+ * @param client Prisma 客户端或事务客户端
+ * @returns {Promise<string>} 任务ID
+ */
+export async function enqueueJob<K extends JobName>(
+  name: K,
+  payload: JobPayloads[K],
+  options: EnqueueOptions = {},
+  client: Prisma.TransactionClient = prisma
+): Promise<string> {
+  const job = await client.job.create({
+    data: {
+      name,
+      payload: payload as Prisma.InputJsonValue,
+      runAt: options.runAt ?? new Date(),
+      maxAttempts: options.maxAttempts ?? 3,
+    },
+    select: { id: true },
+  })
+  return job.id
+}
+
+/**
+ * 领取一个到期的任务并标记为执行中
+ *
+ * @param workerId 当前 worker 标识
+ * @returns {Promise<ClaimedJob | null>} 领取到的任务，没有可执行任务时返回 null
+ */
+export async function claimNextJob(workerId: string): Promise<ClaimedJob | null> {
+  const jobs = await prisma.$queryRaw<ClaimedJob[]>`
+    UPDATE "jobs"
+    SET "status" = 'RUNNING',
+        "attempts" = "attempts" + 1,
+        "locked_at" = NOW(),
+        "locked_by" = ${workerId},
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "jobs"
+      WHERE "status" = 'PENDING' AND "run_at" <= NOW()
+      ORDER BY "run_at"
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id", "name", "payload", "attempts", "max_attempts" AS "maxAttempts"
+  `
+  return jobs[0] ?? null
+}
+
+/**
+ * 标记任务完成
+ *
+ * @param jobId 任务ID
+ */
+export async function completeJob(jobId: string): Promise<void> {
+  await prisma.job.update({
+    where: { id: jobId },
+    data: {
+      status: 'COMPLETED',
+      completedAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+    },
+  })
+}
+
+/**
+ * 记录任务失败，未达到最大尝试次数时按指数退避重新排队
+ *
+ * @param job 执行失败的任务
+ * @param error 失败原因
+ */
+export async function failJob(job: ClaimedJob, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.stack || error.message : String(error)
+  const exhausted = job.attempts >= job.maxAttempts
+
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: exhausted ? 'FAILED' : 'PENDING',
+      runAt: exhausted
+        ? undefined
+        : new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)),
+      lastError: message,
+      lockedAt: null,
+      lockedBy: null,
+    },
+  })
+}
+
+/**
+ * 回收执行超时的任务（worker 崩溃或被强制停止时遗留）
+ *
+ * @param timeoutMs 超时时间
+ * @returns {Promise<number>} 回收的任务数量
+ */
+export async function recoverStaleJobs(timeoutMs: number): Promise<number> {
+  const staleBefore = new Date(Date.now() - timeoutMs)
+  const where: Prisma.JobWhereInput = {
+    status: 'RUNNING',
+    lockedAt: { lt: staleBefore },
+  }
+
+  // 尝试次数已用尽的直接标记失败，其余重新排队
+  const [failed, requeued] = await prisma.$transaction([
+    prisma.job.updateMany({
+      where: { ...where, attempts: { gte: prisma.job.fields.maxAttempts } },
+      data: { status: 'FAILED', lastError: '执行超时', lockedAt: null, lockedBy: null },
+    }),
+    prisma.job.updateMany({
+      where,
+      data: { status: 'PENDING', lastError: '执行超时', lockedAt: null, lockedBy: null },
+    }),
+  ])
+
+  return failed.count + requeued.count
+}
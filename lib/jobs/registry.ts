@@ -0,0 +1,106 @@
+/**
+ * 后台任务注册表
+ *
+ * 新增后台任务时：
+ * 1. 在 JobPayloads 中声明任务名称及其参数类型
+ * 2. 在 jobHandlers 中注册处理函数（缺少处理函数会导致类型检查失败）
+ * 3. 需要周期执行的任务在 jobSchedules 中添加 cron 表达式
+ */
+
+import { sendPlanReminders } from '@/lib/plan-reminders'
+import { cleanupPendingUploads, deleteStorageObjects } from '@/lib/pending-uploads'
+import { cleanupUploadSessions } from '@/lib/upload-sessions'
+import { cleanupIdempotencyKeys } from '@/lib/idempotency'
+import { extractAttachmentTexts } from '@/lib/text-extraction'
+
+/**
+ * 各任务的参数类型
+ */
+export interface JobPayloads {
+  /** 扫描即将到期的下一步计划并推送提醒 */
+  'plan-reminders': Record<string, never>
+  /** 清理超过24小时未关联到跟进记录的上传文件、未完成的分片上传和过期的幂等键 */
+  'pending-upload-cleanup': Record<string, never>
+  /** 删除存储后端中已不再被引用的文件（如随跟进记录删除的附件） */
+  'storage-cleanup': { keys: string[] }
+  /** 提取附件中的文档文本；未指定附件时处理一批尚未提取的附件 */
+  'attachment-text-extraction': { attachmentIds?: string[] }
+}
+
+/**
+ * 任务名称
+ */
+export type JobName = keyof JobPayloads
+
+/**
+ * 任务执行上下文
+ */
+export interface JobContext {
+  jobId: string
+  /** 当前是第几次执行（从1开始） */
+  attempt: number
+}
+
+/**
+ * 任务处理函数，抛出异常时按退避策略重试
+ */
+export type JobHandler<K extends JobName> = (
+  payload: JobPayloads[K],
+  context: JobContext
+) => Promise<unknown>
+
+/**
+ * 周期任务定义
+ */
+export interface JobScheduleDefinition<K extends JobName = JobName> {
+  /** 定时任务名称，同时作为 job_schedules 表主键 */
+  name: string
+  /** 标准5段 cron 表达式 */
+  cron: string
+  /** 要执行的任务 */
+  job: K
+  payload: JobPayloads[K]
+}
+
+/**
+ * 任务处理函数注册表
+ */
+export const jobHandlers: { [K in JobName]: JobHandler<K> } = {
+  'plan-reminders': () => sendPlanReminders(),
+  'pending-upload-cleanup': async () => ({
+    ...(await cleanupPendingUploads()),
+    ...(await cleanupUploadSessions()),
+    ...(await cleanupIdempotencyKeys()),
+  }),
+  'storage-cleanup': ({ keys }) => deleteStorageObjects(keys),
+  'attachment-text-extraction': ({ attachmentIds }) => extractAttachmentTexts(attachmentIds),
+}
+
+/**
+ * 周期任务注册表，cron 按 SCHEDULE_TIMEZONE 时区解析
+ */
+export const jobSchedules: JobScheduleDefinition[] = [
+  {
+    name: 'plan-reminders-hourly',
+    cron: '0 * * * *',
+    job: 'plan-reminders',
+    payload: {},
+  },
+  {
+    name: 'pending-upload-cleanup-hourly',
+    cron: '30 * * * *',
+    job: 'pending-upload-cleanup',
+    payload: {},
+  },
+  {
+    name: 'attachment-text-extraction-backfill',
+    cron: '*/10 * * * *',
+    job: 'attachment-text-extraction',
+    payload: {},
+  },
+]
+
+/**
+ * 周期任务使用的时区
+ */
+export const SCHEDULE_TIMEZONE = 'Asia/Shanghai'
@@ -0,0 +1,93 @@
+/**
+ * 周期任务调度器
+ *
+ * 将 jobSchedules 中的 cron 定义同步到 job_schedules 表，
+ * 到期时向队列添加任务并计算下次执行时间。
+ * 通过行锁保证多个 worker 同时运行时每个周期只入队一次
+ */
+
+import { CronExpressionParser } from 'cron-parser'
+import { prisma } from '@/lib/prisma'
+import { enqueueJob } from '@/lib/jobs/queue'
+import { jobSchedules, SCHEDULE_TIMEZONE } from '@/lib/jobs/registry'
+
+/**
+ * 计算 cron 表达式的下次执行时间
+ *
+ * @param cron cron 表达式
+ * @param after 起始时间
+ * @returns {Date} 下次执行时间
+ */
+export function getNextRunAt(cron: string, after: Date): Date {
+  return CronExpressionParser.parse(cron, { currentDate: after, tz: SCHEDULE_TIMEZONE })
+    .next()
+    .toDate()
+}
+
+/**
+ * 同步周期任务定义到数据库
+ * cron 表达式变化时重新计算下次执行时间
+ */
+export async function syncSchedules(): Promise<void> {
+  const now = new Date()
+
+  for (const schedule of jobSchedules) {
+    const existing = await prisma.jobSchedule.findUnique({
+      where: { name: schedule.name },
+    })
+
+    if (!existing) {
+      await prisma.jobSchedule.create({
+        data: {
+          name: schedule.name,
+          cron: schedule.cron,
+          nextRunAt: getNextRunAt(schedule.cron, now),
+        },
+      })
+    } else if (existing.cron !== schedule.cron) {
+      await prisma.jobSchedule.update({
+        where: { name: schedule.name },
+        data: {
+          cron: schedule.cron,
+          nextRunAt: getNextRunAt(schedule.cron, now),
+        },
+      })
+    }
+  }
+}
+
+/**
+ * 为到期的周期任务入队
+ * 错过多个周期（如 worker 停机）时只补执行一次
+ *
+ * @returns {Promise<number>} 入队的任务数量
+ */
+export async function enqueueDueSchedules(): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    const now = new Date()
+    const dueSchedules = await tx.$queryRaw<Array<{ name: string; cron: string }>>`
+      SELECT "name", "cron" FROM "job_schedules"
+      WHERE "next_run_at" <= ${now}
+      FOR UPDATE SKIP LOCKED
+    `
+
+    let enqueued = 0
+    for (const due of dueSchedules) {
+      const schedule = jobSchedules.find((item) => item.name === due.name)
+      // 已从代码中移除的定时任务不再执行
+      if (!schedule) continue
+
+      await enqueueJob(schedule.job, schedule.payload, {}, tx)
+      await tx.jobSchedule.update({
+        where: { name: due.name },
+        data: {
+          lastRunAt: now,
+          nextRunAt: getNextRunAt(due.cron, now),
+        },
+      })
+      enqueued++
+    }
+
+    return enqueued
+  })
+}
@@ -0,0 +1,156 @@
+/**
+ * 后台任务 worker
+ *
+ * 循环执行：回收超时任务 → 为到期的周期任务入队 → 领取并执行任务，
+ * 队列为空时等待下一次轮询。无法常驻 worker 的环境（Vercel）由 /api/cron/jobs 定时执行一轮
+ */
+
+import { hostname } from 'node:os'
+import { claimNextJob, completeJob, failJob, recoverStaleJobs, type ClaimedJob } from '@/lib/jobs/queue'
+import { enqueueDueSchedules, syncSchedules } from '@/lib/jobs/scheduler'
+import { jobHandlers, type JobHandler, type JobName } from '@/lib/jobs/registry'
+
+/**
+ * worker 配置
+ */
+export interface WorkerOptions {
+  /** 队列为空时的轮询间隔，默认5秒 */
+  pollIntervalMs?: number
+  /** 执行中任务的超时时间，超时后视为 worker 已崩溃并回收，默认10分钟 */
+  staleTimeoutMs?: number
+}
+
+/**
+ * 执行中任务的默认超时时间（10分钟）
+ */
+export const DEFAULT_STALE_TIMEOUT_MS = 10 * 60 * 1000
+
+/**
+ * 一轮任务处理的结果
+ */
+export interface WorkerCycleResult {
+  /** 回收的超时任务数量 */
+  recovered: number
+  /** 入队的周期任务数量 */
+  enqueued: number
+  /** 执行的任务数量（含失败） */
+  processed: number
+}
+
+/**
+ * 执行单个任务
+ *
+ * @param job 已领取的任务
+ */
+async function runJob(job: ClaimedJob): Promise<void> {
+  const handler = jobHandlers[job.name] as JobHandler<JobName> | undefined
+  const startedAt = Date.now()
+
+  if (!handler) {
+    await failJob({ ...job, attempts: job.maxAttempts }, new Error(`未注册的任务: ${job.name}`))
+    console.error(`❌ 未注册的任务: ${job.name} (${job.id})`)
+    return
+  }
+
+  try {
+    const result = await handler(job.payload as never, { jobId: job.id, attempt: job.attempts })
+    await completeJob(job.id)
+    console.log(`✅ 任务完成: ${job.name} (${job.id}) 耗时 ${Date.now() - startedAt}ms`, result ?? '')
+  } catch (error) {
+    await failJob(job, error)
+    console.error(`❌ 任务失败: ${job.name} (${job.id}) 第 ${job.attempts}/${job.maxAttempts} 次:`, error)
+  }
+}
+
+/**
+ * 执行一轮任务处理：回收超时任务 → 为到期的周期任务入队 → 连续领取并执行任务直到队列为空
+ *
+ * @param workerId 当前 worker 标识
+ * @param staleTimeoutMs 执行中任务的超时时间
+ * @param shouldStop 返回 true 时不再领取新任务（已领取的任务执行完成后返回）
+ * @returns {Promise<WorkerCycleResult>} 处理结果
+ */
+export async function runWorkerCycle(
+  workerId: string,
+  staleTimeoutMs: number,
+  shouldStop: () => boolean
+): Promise<WorkerCycleResult> {
+  const recovered = await recoverStaleJobs(staleTimeoutMs)
+  if (recovered > 0) {
+    console.warn(`⚠️  回收了 ${recovered} 个超时任务`)
+  }
+
+  const enqueued = await enqueueDueSchedules()
+
+  let processed = 0
+  while (!shouldStop()) {
+    const job = await claimNextJob(workerId)
+    if (!job) break
+    await runJob(job)
+    processed++
+  }
+
+  return { recovered, enqueued, processed }
+}
+
+/**
+ * 启动 worker
+ *
+ * @param options worker 配置
+ * @returns {() => Promise<void>} 停止函数，等待当前任务执行完成后返回
+ */
+export function startWorker(options: WorkerOptions = {}): () => Promise<void> {
+  const pollIntervalMs = options.pollIntervalMs ?? 5000
+  const staleTimeoutMs = options.staleTimeoutMs ?? DEFAULT_STALE_TIMEOUT_MS
+  const workerId = `${hostname()}:${process.pid}`
+
+  let stopped = false
+  let wakeUp: (() => void) | null = null
+
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms)
+      wakeUp = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+    })
+
+  const loop = async () => {
+    // 数据库可能晚于 worker 就绪，同步周期任务失败时等待后重试，避免启动失败后 worker 静默停止
+    while (!stopped) {
+      try {
+        await syncSchedules()
+        break
+      } catch (error) {
+        console.error(`❌ 同步周期任务失败，${pollIntervalMs}ms 后重试:`, error)
+        await sleep(pollIntervalMs)
+      }
+    }
+    if (stopped) return
+
+    console.log(`🚀 后台任务 worker 已启动: ${workerId}`)
+
+    while (!stopped) {
+      try {
+        await runWorkerCycle(workerId, staleTimeoutMs, () => stopped)
+      } catch (error) {
+        console.error('❌ worker 轮询出错:', error)
+      }
+
+      if (!stopped) {
+        await sleep(pollIntervalMs)
+      }
+    }
+
+    console.log('👋 后台任务 worker 已停止')
+  }
+
+  const running = loop()
+
+  return async () => {
+    stopped = true
+    wakeUp?.()
+    await running
+  }
+}
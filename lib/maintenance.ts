@@ -0,0 +1,51 @@
+/**
+ * 数据库维护接口的访问控制
+ *
+ * /api/migrate 和 /api/init-db 用于首次部署时建表和写入初始数据，此时数据库中还没有管理员账号，
+ * 因此除管理员登录外，也接受与 SEED_SECRET 一致的部署密钥；未配置 SEED_SECRET 时只允许管理员调用
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth'
+import { forbiddenResponse, unauthorizedResponse } from '@/lib/api-response'
+import { canManageSystem } from '@/lib/permissions'
+import { ApiResponse } from '@/lib/types/followup'
+import { env } from '@/lib/env'
+
+/**
+ * 验证部署密钥
+ *
+ * @param secret 请求携带的密钥
+ * @returns {boolean} 已配置 SEED_SECRET 且与之一致时返回 true
+ */
+export function isValidSeedSecret(secret: string | null | undefined): boolean {
+  return !!env.SEED_SECRET && secret === env.SEED_SECRET
+}
+
+/**
+ * 验证数据库维护请求：携带有效的部署密钥（参数或 Authorization: Bearer），或管理员已登录
+ *
+ * @param request Next.js请求对象
+ * @param secret 请求参数中的密钥
+ * @returns {Promise<NextResponse<ApiResponse<never>> | null>} 验证通过返回 null，否则返回 401/403 响应
+ */
+export async function authorizeMaintenanceRequest(
+  request: NextRequest,
+  secret?: string | null
+): Promise<NextResponse<ApiResponse<never>> | null> {
+  const bearer = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  if (isValidSeedSecret(secret) || isValidSeedSecret(bearer)) {
+    return null
+  }
+
+  // 数据库尚未建表时无法读取登录用户，视为未登录
+  const currentUser = await getCurrentUser().catch(() => null)
+  if (!currentUser) {
+    return unauthorizedResponse()
+  }
+  if (!canManageSystem(currentUser)) {
+    return forbiddenResponse('仅管理员可执行数据库维护操作')
+  }
+
+  return null
+}
@@ -0,0 +1,212 @@
+/**
+ * 离线存储模块
+ *
+ * 在 IndexedDB 中保存每个客户未发布的跟进草稿，以及离线时提交、等待网络恢复后同步的跟进记录。
+ * 数据按登录用户区分，共用设备时不会读取或以当前用户身份提交其他用户的记录，退出登录时删除整个数据库。
+ * 仅在浏览器中使用
+ */
+
+import { deleteDB, openDB, type DBSchema, type IDBPDatabase } from 'idb'
+import type { FollowUpType } from '@/app/generated/prisma'
+import type { ChunkedUploadResult } from '@/lib/chunked-upload'
+import type { CreateFollowUpRequest } from '@/lib/types/followup'
+
+/**
+ * 已上传文件的有效期，与服务端未关联上传的保留时间（24小时）一致，过期的文件不再随草稿恢复
+ */
+export const DRAFT_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 草稿中已上传的文件
+ */
+export interface DraftUploadedFile {
+  file: ChunkedUploadResult
+  /** 上传完成的时间戳 */
+  uploadedAt: number
+}
+
+/**
+ * 跟进草稿，每个用户的每个客户一份
+ */
+export interface FollowUpDraft {
+  /** 草稿所属用户ID */
+  userId: string
+  customerId: string
+  content: string
+  followUpType: FollowUpType
+  hasNextStep: boolean
+  nextStep?: {
+    dueDate: string
+    notes?: string
+  }
+  uploadedFiles: DraftUploadedFile[]
+  updatedAt: number
+}
+
+/**
+ * 待同步跟进记录的状态：等待网络恢复，或被服务端拒绝（如附件已过期）需要用户处理
+ */
+export type QueuedFollowUpStatus = 'pending' | 'failed'
+
+/**
+ * 待同步的跟进记录
+ */
+export interface QueuedFollowUp {
+  /** 幂等键，重复提交时服务端只创建一次 */
+  idempotencyKey: string
+  /** 提交该记录的用户ID */
+  userId: string
+  customerId: string
+  request: CreateFollowUpRequest
+  status: QueuedFollowUpStatus
+  /** 同步失败的原因 */
+  error?: string
+  createdAt: number
+}
+
+/**
+ * 离线数据库结构
+ */
+interface OfflineDB extends DBSchema {
+  drafts: {
+    key: [string, string]
+    value: FollowUpDraft
+  }
+  outbox: {
+    key: string
+    value: QueuedFollowUp
+    indexes: { userId: string; userCustomer: [string, string] }
+  }
+}
+
+const DB_NAME = 'crm-offline'
+const DB_VERSION = 2
+
+let dbPromise: Promise<IDBPDatabase<OfflineDB>> | null = null
+
+/**
+ * 打开离线数据库（单例）
+ */
+const getDB = (): Promise<IDBPDatabase<OfflineDB>> => {
+  if (!dbPromise) {
+    const promise = openDB<OfflineDB>(DB_NAME, DB_VERSION, {
+      upgrade(db, oldVersion) {
+        // 版本1的记录没有所属用户，无法确认能否由当前用户提交，升级时丢弃
+        if (oldVersion === 1) {
+          db.deleteObjectStore('drafts')
+          db.deleteObjectStore('outbox')
+        }
+        db.createObjectStore('drafts', { keyPath: ['userId', 'customerId'] })
+        const outbox = db.createObjectStore('outbox', { keyPath: 'idempotencyKey' })
+        outbox.createIndex('userId', 'userId')
+        outbox.createIndex('userCustomer', ['userId', 'customerId'])
+      },
+      // 其他标签页退出登录删除数据库时关闭连接，否则删除会一直被阻塞
+      blocking() {
+        promise.then((db) => db.close())
+        if (dbPromise === promise) dbPromise = null
+      },
+    })
+    dbPromise = promise
+    // 打开失败（如隐私模式禁用 IndexedDB）时允许下次重试
+    promise.catch(() => {
+      if (dbPromise === promise) dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+/**
+ * 获取用户在客户下的跟进草稿
+ *
+ * @param userId 用户ID
+ * @param customerId 客户ID
+ * @returns {Promise<FollowUpDraft | undefined>} 草稿，没有时返回 undefined
+ */
+export async function getFollowUpDraft(userId: string, customerId: string): Promise<FollowUpDraft | undefined> {
+  const db = await getDB()
+  return db.get('drafts', [userId, customerId])
+}
+
+/**
+ * 保存跟进草稿
+ *
+ * @param draft 草稿
+ */
+export async function saveFollowUpDraft(draft: FollowUpDraft): Promise<void> {
+  const db = await getDB()
+  await db.put('drafts', draft)
+}
+
+/**
+ * 删除用户在客户下的跟进草稿
+ *
+ * @param userId 用户ID
+ * @param customerId 客户ID
+ */
+export async function deleteFollowUpDraft(userId: string, customerId: string): Promise<void> {
+  const db = await getDB()
+  await db.delete('drafts', [userId, customerId])
+}
+
+/**
+ * 加入待同步队列
+ *
+ * @param item 待同步的跟进记录
+ */
+export async function queueFollowUp(item: QueuedFollowUp): Promise<void> {
+  const db = await getDB()
+  await db.put('outbox', item)
+}
+
+/**
+ * 获取用户待同步的跟进记录，按提交时间排序
+ *
+ * @param userId 用户ID，只返回该用户提交的记录
+ * @param customerId 客户ID，不传时返回全部客户的记录
+ * @returns {Promise<QueuedFollowUp[]>} 待同步的跟进记录
+ */
+export async function listQueuedFollowUps(userId: string, customerId?: string): Promise<QueuedFollowUp[]> {
+  const db = await getDB()
+  const items = customerId
+    ? await db.getAllFromIndex('outbox', 'userCustomer', [userId, customerId])
+    : await db.getAllFromIndex('outbox', 'userId', userId)
+  return items.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+/**
+ * 更新待同步记录的状态
+ *
+ * @param idempotencyKey 幂等键
+ * @param patch 要更新的字段
+ */
+export async function updateQueuedFollowUp(
+  idempotencyKey: string,
+  patch: Pick<QueuedFollowUp, 'status' | 'error'>
+): Promise<void> {
+  const db = await getDB()
+  const item = await db.get('outbox', idempotencyKey)
+  if (item) {
+    await db.put('outbox', { ...item, ...patch })
+  }
+}
+
+/**
+ * 从待同步队列中移除
+ *
+ * @param idempotencyKey 幂等键
+ */
+export async function removeQueuedFollowUp(idempotencyKey: string): Promise<void> {
+  const db = await getDB()
+  await db.delete('outbox', idempotencyKey)
+}
+
+/**
+ * 删除离线数据库，退出登录时调用，避免共用设备时下一个用户读取或提交本地保存的记录
+ */
+export async function deleteOfflineDatabase(): Promise<void> {
+  const db = await dbPromise?.catch(() => null)
+  db?.close()
+  dbPromise = null
+  await deleteDB(DB_NAME)
+}
@@ -0,0 +1,51 @@
+/**
+ * 密码哈希工具
+ *
+ * 基于 Node.js 内置的 scrypt 实现，避免引入原生依赖
+ * 哈希格式: scrypt$<salt>$<hash>（均为 base64 编码）
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>
+
+/**
+ * 派生密钥长度（字节）
+ */
+const KEY_LENGTH = 64
+
+/**
+ * 生成密码哈希
+ *
+ * @param password 明文密码
+ * @returns {Promise<string>} 可直接存储的密码哈希字符串
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const derivedKey = await scryptAsync(password, salt, KEY_LENGTH)
+  return `scrypt$${salt.toString('base64')}$${derivedKey.toString('base64')}`
+}
+
+/**
+ * 校验密码是否与哈希匹配
+ *
+ * @param password 明文密码
+ * @param storedHash 数据库中保存的密码哈希
+ * @returns {Promise<boolean>} 是否匹配
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [algorithm, saltBase64, hashBase64] = storedHash.split('$')
+  if (algorithm !== 'scrypt' || !saltBase64 || !hashBase64) {
+    return false
+  }
+
+  const expected = Buffer.from(hashBase64, 'base64')
+  const derivedKey = await scryptAsync(password, Buffer.from(saltBase64, 'base64'), expected.length)
+
+  return expected.length === derivedKey.length && timingSafeEqual(expected, derivedKey)
+}
@@ -0,0 +1,141 @@
+/**
+ * 上传文件引用管理模块
+ *
+ * 文件上传后先记录为 PendingUpload，创建跟进记录时转为 Attachment；
+ * 移除、过期未关联或随跟进记录删除的文件，从存储后端一并删除
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { Prisma } from '@/app/generated/prisma'
+import { getStorageProvider } from '@/lib/storage'
+
+/**
+ * 未关联上传的保留时间（24小时）
+ */
+export const PENDING_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 单次清理的最大数量，剩余的由下一次清理处理
+ */
+const CLEANUP_BATCH_SIZE = 200
+
+/**
+ * 包含存储键的文件记录（PendingUpload 或 Attachment）
+ */
+interface StoredFileKeys {
+  storageKey: string | null
+  thumbnailKey: string | null
+  webKey: string | null
+}
+
+/**
+ * 未关联上传的清理结果
+ */
+export interface PendingUploadCleanupResult {
+  deleted: number
+}
+
+/**
+ * 附件无效或已过期
+ */
+export class PendingUploadNotFoundError extends Error {
+  constructor() {
+    super('附件不存在或已过期，请重新上传')
+    this.name = 'PendingUploadNotFoundError'
+  }
+}
+
+/**
+ * 收集文件记录的全部存储键（原图及其缩略图、网页浏览版本）
+ *
+ * @param files 文件记录
+ * @returns {string[]} 存储键
+ */
+export function collectStorageKeys(files: StoredFileKeys[]): string[] {
+  return files.flatMap((file) =>
+    [file.storageKey, file.thumbnailKey, file.webKey].filter((key): key is string => !!key)
+  )
+}
+
+/**
+ * 从存储后端删除文件
+ *
+ * @param keys 存储键
+ */
+export async function deleteStorageObjects(keys: string[]): Promise<void> {
+  const storage = getStorageProvider()
+  await Promise.all(keys.map((key) => storage.delete(key)))
+}
+
+/**
+ * 将当前用户的待关联上传转为跟进记录的附件
+ *
+ * @param tx 事务客户端
+ * @param uploadIds 上传接口返回的ID
+ * @param userId 当前用户ID，只能关联自己上传的文件
+ * @param followUpRecordId 跟进记录ID
+ * @returns {Promise<{ id: string; contentType: string | null }[]>} 创建的附件
+ * @throws {Error} 存在无效或已过期的上传时抛出错误
+ */
+export async function promotePendingUploads(
+  tx: Prisma.TransactionClient,
+  uploadIds: string[],
+  userId: string,
+  followUpRecordId: string
+): Promise<{ id: string; contentType: string | null }[]> {
+  const uploads = await tx.pendingUpload.findMany({
+    where: { id: { in: uploadIds }, uploadedById: userId },
+  })
+
+  if (uploads.length !== new Set(uploadIds).size) {
+    throw new PendingUploadNotFoundError()
+  }
+
+  const attachments = await tx.attachment.createManyAndReturn({
+    data: uploads.map((upload) => ({
+      fileName: upload.fileName,
+      storageKey: upload.storageKey,
+      contentType: upload.contentType,
+      fileType: upload.fileType,
+      fileSize: upload.fileSize,
+      thumbnailKey: upload.thumbnailKey,
+      webKey: upload.webKey,
+      width: upload.width,
+      height: upload.height,
+      followUpRecordId,
+    })),
+    select: { id: true, contentType: true },
+  })
+
+  await tx.pendingUpload.deleteMany({
+    where: { id: { in: uploads.map((upload) => upload.id) } },
+  })
+
+  return attachments
+}
+
+/**
+ * 清理超过保留时间仍未关联到跟进记录的上传
+ *
+ * @param now 当前时间
+ * @returns {Promise<PendingUploadCleanupResult>} 清理结果
+ */
+export async function cleanupPendingUploads(now: Date = new Date()): Promise<PendingUploadCleanupResult> {
+  const expiredUploads = await prisma.pendingUpload.findMany({
+    where: { createdAt: { lt: new Date(now.getTime() - PENDING_UPLOAD_TTL_MS) } },
+    orderBy: { createdAt: 'asc' },
+    take: CLEANUP_BATCH_SIZE,
+  })
+
+  if (expiredUploads.length === 0) {
+    return { deleted: 0 }
+  }
+
+  // 先删除文件再删除记录，删除文件失败时记录保留，下次继续清理
+  await deleteStorageObjects(collectStorageKeys(expiredUploads))
+  await prisma.pendingUpload.deleteMany({
+    where: { id: { in: expiredUploads.map((upload) => upload.id) } },
+  })
+
+  return { deleted: expiredUploads.length }
+}
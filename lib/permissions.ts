@@ -0,0 +1,203 @@
+/**
+ * 权限策略模块
+ *
+ * 基于 UserRole 集中判断用户对客户、跟进记录和下一步计划的操作权限
+ * - SALES: 只能访问自己负责的客户
+ * - MANAGER: 可访问本人及所管理团队成员的客户、未分配的客户，并可删除和转交客户
+ * - ADMIN: 可访问全部数据，且是唯一可以执行数据库维护接口的角色
+ *
+ * 路由处理函数和页面都应通过本模块判断权限，不要在各处自行比较角色
+ */
+
+import type { Prisma } from '@/app/generated/prisma'
+import type { CurrentUser } from '@/lib/auth'
+
+/**
+ * 权限判断所需的客户信息
+ */
+export interface CustomerOwnership {
+  userId: string | null
+}
+
+/**
+ * 权限判断所需的跟进记录信息
+ */
+export interface FollowUpOwnership {
+  userId: string
+  customer: CustomerOwnership
+}
+
+/**
+ * 权限判断所需的下一步计划信息
+ */
+export interface PlanOwnership {
+  userId: string
+  customer: CustomerOwnership
+}
+
+/**
+ * 是否为管理员
+ *
+ * @param user 当前用户
+ * @returns {boolean} 是否为管理员
+ */
+export function isAdmin(user: CurrentUser): boolean {
+  return user.role === 'ADMIN'
+}
+
+/**
+ * 是否为经理或管理员
+ *
+ * @param user 当前用户
+ * @returns {boolean} 是否具有管理权限
+ */
+export function isManagerOrAdmin(user: CurrentUser): boolean {
+  return user.role === 'MANAGER' || user.role === 'ADMIN'
+}
+
+/**
+ * 判断指定负责人名下的数据是否在用户的管理范围内
+ * 销售的管理范围仅为自己；经理为自己、所管理团队的成员以及未分配的数据
+ *
+ * @param user 当前用户
+ * @param ownerId 数据负责人ID，null 表示未分配
+ * @returns {boolean} 是否在管理范围内
+ */
+export function managesUser(user: CurrentUser, ownerId: string | null): boolean {
+  switch (user.role) {
+    case 'ADMIN':
+      return true
+    case 'MANAGER':
+      return ownerId === null || ownerId === user.id || user.managedUserIds.includes(ownerId)
+    default:
+      return ownerId !== null && ownerId === user.id
+  }
+}
+
+/**
+ * 获取用户可见客户的查询条件
+ *
+ * @param user 当前用户
+ * @returns {Prisma.CustomerWhereInput} 客户查询条件
+ */
+export function customerScope(user: CurrentUser): Prisma.CustomerWhereInput {
+  switch (user.role) {
+    case 'ADMIN':
+      return {}
+    case 'MANAGER':
+      return {
+        OR: [
+          { userId: null },
+          { userId: { in: [user.id, ...user.managedUserIds] } },
+        ],
+      }
+    default:
+      return { userId: user.id }
+  }
+}
+
+/**
+ * 按团队筛选客户的查询条件
+ *
+ * @param teamId 团队ID
+ * @returns {Prisma.CustomerWhereInput} 客户查询条件
+ */
+export function customerTeamFilter(teamId: string): Prisma.CustomerWhereInput {
+  return { user: { teamId } }
+}
+
+/**
+ * 是否可以查看团队信息（经理只能查看自己管理的团队，销售只能查看所属团队）
+ */
+export function canReadTeam(user: CurrentUser, teamId: string): boolean {
+  return isAdmin(user) || user.managedTeamIds.includes(teamId) || user.teamId === teamId
+}
+
+/**
+ * 是否可以创建团队、调整团队成员和经理
+ */
+export function canManageTeams(user: CurrentUser): boolean {
+  return isAdmin(user)
+}
+
+/**
+ * 是否可以查看客户（包括其跟进记录和下一步计划）
+ */
+export function canReadCustomer(user: CurrentUser, customer: CustomerOwnership): boolean {
+  return managesUser(user, customer.userId)
+}
+
+/**
+ * 是否可以编辑客户信息、为客户添加跟进记录
+ */
+export function canEditCustomer(user: CurrentUser, customer: CustomerOwnership): boolean {
+  return canReadCustomer(user, customer)
+}
+
+/**
+ * 是否可以删除客户
+ */
+export function canDeleteCustomer(user: CurrentUser, customer: CustomerOwnership): boolean {
+  return isManagerOrAdmin(user) && managesUser(user, customer.userId)
+}
+
+/**
+ * 是否可以将客户转交给另一位负责人
+ *
+ * @param user 当前用户
+ * @param customer 客户
+ * @param newOwnerId 新负责人ID，null 表示取消分配
+ */
+export function canReassignCustomer(
+  user: CurrentUser,
+  customer: CustomerOwnership,
+  newOwnerId: string | null
+): boolean {
+  return isManagerOrAdmin(user) && managesUser(user, customer.userId) && managesUser(user, newOwnerId)
+}
+
+/**
+ * 是否可以查看跟进记录
+ */
+export function canReadFollowUp(user: CurrentUser, record: FollowUpOwnership): boolean {
+  return canReadCustomer(user, record.customer)
+}
+
+/**
+ * 是否可以编辑或删除跟进记录（仅作者本人或其管理者）
+ */
+export function canEditFollowUp(user: CurrentUser, record: Pick<FollowUpOwnership, 'userId'>): boolean {
+  return managesUser(user, record.userId)
+}
+
+/**
+ * 是否可以更新下一步计划（完成、改期、取消）
+ */
+export function canUpdatePlan(user: CurrentUser, plan: Pick<PlanOwnership, 'userId'>): boolean {
+  return managesUser(user, plan.userId)
+}
+
+/**
+ * 是否可以将下一步计划转交给其他人
+ *
+ * @param user 当前用户
+ * @param plan 下一步计划
+ * @param newAssignee 新执行人的权限信息，新执行人必须能查看计划所属客户
+ */
+export function canReassignPlan(user: CurrentUser, plan: PlanOwnership, newAssignee: CurrentUser): boolean {
+  if (!canReadCustomer(newAssignee, plan.customer)) {
+    return false
+  }
+  if (isManagerOrAdmin(user)) {
+    return managesUser(user, plan.userId) && managesUser(user, newAssignee.id)
+  }
+  // 销售只能将自己的计划转交给客户负责人
+  return plan.userId === user.id && newAssignee.id === plan.customer.userId
+}
+
+/**
+ * 是否可以执行数据库维护操作（迁移、初始化）
+ */
+export function canManageSystem(user: CurrentUser): boolean {
+  return isAdmin(user)
+}
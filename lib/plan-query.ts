@@ -0,0 +1,85 @@
+/**
+ * 下一步计划查询辅助模块
+ *
+ * 统一下一步计划的关联查询字段和响应格式转换，供跟进记录和计划相关API复用
+ */
+
+import type { Prisma } from '@/app/generated/prisma'
+import { NextStepPlanResponse } from '@/lib/types/followup'
+import type { CurrentUser } from '@/lib/auth'
+import { canUpdatePlan } from '@/lib/permissions'
+
+/**
+ * 下一步计划的查询字段
+ */
+export const nextStepPlanSelect = {
+  id: true,
+  dueDate: true,
+  notes: true,
+  status: true,
+  completedAt: true,
+  completionNote: true,
+  createdAt: true,
+  userId: true,
+  user: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  reschedules: {
+    select: {
+      id: true,
+      previousDueDate: true,
+      newDueDate: true,
+      reason: true,
+      createdAt: true,
+      changedBy: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.NextStepPlanSelect
+
+/**
+ * 包含关联数据的下一步计划
+ */
+export type NextStepPlanWithRelations = Prisma.NextStepPlanGetPayload<{
+  select: typeof nextStepPlanSelect
+}>
+
+/**
+ * 转换为下一步计划响应格式
+ *
+ * @param plan 包含关联数据的下一步计划
+ * @param currentUser 当前用户，用于计算操作权限
+ * @returns {NextStepPlanResponse} 响应数据
+ */
+export function toNextStepPlanResponse(
+  plan: NextStepPlanWithRelations,
+  currentUser: CurrentUser
+): NextStepPlanResponse {
+  return {
+    id: plan.id,
+    dueDate: plan.dueDate.toISOString(),
+    notes: plan.notes || undefined,
+    status: plan.status,
+    completedAt: plan.completedAt?.toISOString(),
+    completionNote: plan.completionNote || undefined,
+    createdAt: plan.createdAt.toISOString(),
+    user: plan.user,
+    reschedules: plan.reschedules.map((reschedule) => ({
+      id: reschedule.id,
+      previousDueDate: reschedule.previousDueDate.toISOString(),
+      newDueDate: reschedule.newDueDate.toISOString(),
+      reason: reschedule.reason || undefined,
+      createdAt: reschedule.createdAt.toISOString(),
+      changedBy: reschedule.changedBy,
+    })),
+    canUpdate: canUpdatePlan(currentUser, plan),
+  }
+}
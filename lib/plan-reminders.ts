@@ -0,0 +1,155 @@
+/**
+ * 下一步计划提醒模块
+ *
+ * 扫描待办状态的下一步计划，在到期前一天和到期当天向执行人推送提醒
+ * 日期按执行人所在时区计算，免打扰时段内的提醒推迟到下一次扫描
+ */
+
+import { TZDate } from '@date-fns/tz'
+import { differenceInCalendarDays, format, addHours, subHours } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { sendPushToUser } from '@/lib/push'
+import { PlanReminderResult } from '@/lib/types/push'
+
+/**
+ * 将 HH:mm 转换为当天的分钟数
+ */
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * 判断时区是否有效
+ *
+ * @param timezone IANA 时区名称
+ * @returns {boolean} 是否有效
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 判断当前时间是否处于用户的免打扰时段
+ * 支持跨零点的时段（如 22:00 - 08:00）
+ *
+ * @param now 当前时间
+ * @param timezone 用户时区
+ * @param start 免打扰开始时间 HH:mm
+ * @param end 免打扰结束时间 HH:mm
+ * @returns {boolean} 是否处于免打扰时段
+ */
+export function isWithinQuietHours(
+  now: Date,
+  timezone: string,
+  start: string | null,
+  end: string | null
+): boolean {
+  if (!start || !end || start === end) return false
+
+  const localNow = new TZDate(now, timezone)
+  const current = localNow.getHours() * 60 + localNow.getMinutes()
+  const startMinutes = toMinutes(start)
+  const endMinutes = toMinutes(end)
+
+  if (startMinutes < endMinutes) {
+    return current >= startMinutes && current < endMinutes
+  }
+  return current >= startMinutes || current < endMinutes
+}
+
+/**
+ * 扫描并发送下一步计划提醒
+ *
+ * @param now 当前时间，便于测试时指定
+ * @returns {Promise<PlanReminderResult>} 发送结果
+ */
+export async function sendPlanReminders(now: Date = new Date()): Promise<PlanReminderResult> {
+  // 时区差异最多一天，放宽查询范围后再按用户时区精确判断
+  const plans = await prisma.nextStepPlan.findMany({
+    where: {
+      status: 'PENDING',
+      dueDate: {
+        gte: subHours(now, 24),
+        lte: addHours(now, 72),
+      },
+      OR: [
+        { dayBeforeRemindedAt: null },
+        { dueDayRemindedAt: null },
+      ],
+      user: {
+        pushSubscriptions: { some: {} },
+      },
+    },
+    select: {
+      id: true,
+      dueDate: true,
+      notes: true,
+      followUpRecordId: true,
+      dayBeforeRemindedAt: true,
+      dueDayRemindedAt: true,
+      customer: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      user: {
+        select: {
+          id: true,
+          timezone: true,
+          quietHoursStart: true,
+          quietHoursEnd: true,
+        },
+      },
+    },
+  })
+
+  const result: PlanReminderResult = { scanned: plans.length, sent: 0, deferred: 0 }
+
+  for (const plan of plans) {
+    const timezone = plan.user.timezone
+    const localDueDate = new TZDate(plan.dueDate, timezone)
+    const daysUntilDue = differenceInCalendarDays(localDueDate, new TZDate(now, timezone))
+
+    let prefix: string
+    let field: 'dayBeforeRemindedAt' | 'dueDayRemindedAt'
+    if (daysUntilDue === 1 && !plan.dayBeforeRemindedAt) {
+      prefix = '明天需跟进'
+      field = 'dayBeforeRemindedAt'
+    } else if (daysUntilDue === 0 && !plan.dueDayRemindedAt) {
+      prefix = '今天需跟进'
+      field = 'dueDayRemindedAt'
+    } else {
+      continue
+    }
+
+    if (isWithinQuietHours(now, timezone, plan.user.quietHoursStart, plan.user.quietHoursEnd)) {
+      result.deferred++
+      continue
+    }
+
+    const sentCount = await sendPushToUser(plan.user.id, {
+      title: `${prefix}: ${plan.customer.name} - ${plan.notes || '跟进客户'}`,
+      body: `计划时间 ${format(localDueDate, 'M月d日 HH:mm')}`,
+      url: `/customers/${plan.customer.id}?highlight=${plan.followUpRecordId}`,
+      tag: `plan-${plan.id}`,
+    })
+
+    // 全部发送失败时不标记，下一次扫描重试
+    if (sentCount > 0) {
+      await prisma.nextStepPlan.update({
+        where: { id: plan.id },
+        data: { [field]: now },
+      })
+      result.sent++
+    }
+  }
+
+  return result
+}
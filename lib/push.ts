@@ -0,0 +1,121 @@
+/**
+ * Web Push 推送模块
+ *
+ * 封装 web-push 的 VAPID 配置和消息发送
+ * 订阅失效（404/410）时自动删除对应的订阅记录
+ */
+
+import webpush from 'web-push'
+import { prisma } from '@/lib/prisma'
+import { env, isPushConfigured } from '@/lib/env'
+
+/**
+ * 推送消息内容，由 public/sw.js 解析并展示
+ */
+export interface PushPayload {
+  title: string
+  body: string
+  /** 点击通知后打开的页面 */
+  url?: string
+  /** 相同 tag 的通知会相互替换 */
+  tag?: string
+}
+
+/**
+ * 发送所需的订阅信息
+ */
+export interface PushSubscriptionTarget {
+  id: string
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+let vapidConfigured = false
+
+/**
+ * 延迟配置 VAPID，未配置密钥时不影响应用其他功能
+ */
+function ensureVapidConfigured() {
+  if (vapidConfigured) return
+  if (!isPushConfigured()) {
+    throw new Error('未配置 VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY，无法发送推送')
+  }
+  webpush.setVapidDetails(env.VAPID_SUBJECT, env.VAPID_PUBLIC_KEY!, env.VAPID_PRIVATE_KEY!)
+  vapidConfigured = true
+}
+
+/**
+ * 向单个订阅发送推送
+ *
+ * @param subscription 推送订阅
+ * @param payload 推送内容
+ * @returns {Promise<boolean>} 是否发送成功
+ */
+export async function sendPushNotification(
+  subscription: PushSubscriptionTarget,
+  payload: PushPayload
+): Promise<boolean> {
+  ensureVapidConfigured()
+
+  try {
+    // 由 web-push 负责加密和 VAPID 签名，请求本身用 fetch 发送，
+    // 以便同时支持本地 http 推送服务替身（见 scripts/push-endpoint-stub.ts）
+    const requestDetails = webpush.generateRequestDetails(
+      {
+        endpoint: subscription.endpoint,
+        keys: {
+          p256dh: subscription.p256dh,
+          auth: subscription.auth,
+        },
+      },
+      JSON.stringify(payload),
+      { TTL: 24 * 60 * 60 }
+    )
+
+    // Content-Length 由 fetch 根据请求体自动设置
+    const headers = { ...requestDetails.headers } as Record<string, string>
+    delete headers['Content-Length']
+
+    const response = await fetch(requestDetails.endpoint, {
+      method: requestDetails.method,
+      headers,
+      body: requestDetails.body ? new Uint8Array(requestDetails.body) : undefined,
+    })
+
+    // 订阅已过期或被用户取消，删除记录避免重复发送
+    if (response.status === 404 || response.status === 410) {
+      await prisma.pushSubscription.delete({ where: { id: subscription.id } }).catch(() => undefined)
+      console.warn('推送订阅已失效，已删除:', subscription.endpoint)
+      return false
+    }
+
+    if (!response.ok) {
+      console.error('发送推送失败:', response.status, await response.text())
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('发送推送失败:', error)
+    return false
+  }
+}
+
+/**
+ * 向用户的所有订阅发送推送
+ *
+ * @param userId 用户ID
+ * @param payload 推送内容
+ * @returns {Promise<number>} 发送成功的订阅数量
+ */
+export async function sendPushToUser(userId: string, payload: PushPayload): Promise<number> {
+  const subscriptions = await prisma.pushSubscription.findMany({
+    where: { userId },
+  })
+
+  const results = await Promise.all(
+    subscriptions.map((subscription) => sendPushNotification(subscription, payload))
+  )
+  return results.filter(Boolean).length
+}
@@ -0,0 +1,99 @@
+/**
+ * PWA 辅助模块
+ *
+ * 注册 Service Worker（public/sw.js）、读取离线可查看的客户、退出登录时清除离线缓存和离线数据库。
+ * 仅在浏览器中使用
+ */
+
+import { deleteOfflineDatabase } from '@/lib/offline-store'
+
+/**
+ * Service Worker 中保存页面和接口响应的缓存名称前缀，与 public/sw.js 的 DATA_CACHE 保持一致
+ */
+const DATA_CACHE_PREFIX = 'crm-data-'
+
+/**
+ * 缓存中的客户详情接口路径
+ */
+const CUSTOMER_API_PATTERN = /^\/api\/customers\/([^/]+)$/
+
+/**
+ * 快速记录事件：在客户详情页点击底部导航的快速记录按钮时触发，由跟进输入框聚焦响应
+ */
+export const QUICK_LOG_EVENT = 'crm:quick-log'
+
+/**
+ * 离线可查看的客户
+ */
+export interface CachedCustomer {
+  id: string
+  name: string
+  companyInfo: string | null
+}
+
+/**
+ * 注册 Service Worker，已注册时返回现有注册
+ *
+ * @returns {Promise<ServiceWorkerRegistration | null>} 注册信息，浏览器不支持时返回 null
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!('serviceWorker' in navigator)) return null
+  return navigator.serviceWorker.register('/sw.js')
+}
+
+/**
+ * 获取离线缓存的数据缓存
+ *
+ * @returns {Promise<Cache[]>} 数据缓存，浏览器不支持时返回空数组
+ */
+async function openDataCaches(): Promise<Cache[]> {
+  if (!('caches' in window)) return []
+  const names = (await caches.keys()).filter((name) => name.startsWith(DATA_CACHE_PREFIX))
+  return Promise.all(names.map((name) => caches.open(name)))
+}
+
+/**
+ * 获取离线可查看的客户，最近访问的在前
+ *
+ * @returns {Promise<CachedCustomer[]>} 已缓存详情的客户
+ */
+export async function listCachedCustomers(): Promise<CachedCustomer[]> {
+  const customers: CachedCustomer[] = []
+
+  for (const cache of await openDataCaches()) {
+    // 缓存条目按写入顺序排列，倒序即最近访问的在前
+    const requests = [...(await cache.keys())].reverse()
+    for (const request of requests) {
+      if (!CUSTOMER_API_PATTERN.test(new URL(request.url).pathname)) continue
+
+      try {
+        const response = await cache.match(request)
+        const result = await response?.json()
+        if (result?.success && result.data && !customers.some((item) => item.id === result.data.id)) {
+          customers.push({
+            id: result.data.id,
+            name: result.data.name,
+            companyInfo: result.data.companyInfo ?? null,
+          })
+        }
+      } catch {
+        // 忽略无法解析的缓存条目
+      }
+    }
+  }
+
+  return customers
+}
+
+/**
+ * 清除离线缓存的客户数据和 IndexedDB 中的跟进草稿、待同步记录，退出登录时调用，避免共用设备时泄露客户信息
+ */
+export async function clearOfflineData(): Promise<void> {
+  const names = 'caches' in window
+    ? (await caches.keys()).filter((name) => name.startsWith(DATA_CACHE_PREFIX))
+    : []
+  await Promise.all([
+    ...names.map((name) => caches.delete(name)),
+    deleteOfflineDatabase(),
+  ])
+}
@@ -0,0 +1,94 @@
+/**
+ * ClamAV 守护进程扫描器
+ *
+ * 使用 clamd 的 INSTREAM 协议：发送 zINSTREAM 命令后按
+ * "4 字节大端长度 + 数据" 分块发送文件，以长度 0 结束，
+ * 返回 "stream: OK" 或 "stream: <特征名> FOUND"
+ */
+
+import { once } from 'events'
+import net from 'net'
+import { Readable } from 'stream'
+import { FileScanner } from '@/lib/scanner/types'
+
+/**
+ * 每次发送的数据块大小，需小于 clamd 的 StreamMaxLength
+ */
+const CHUNK_SIZE = 64 * 1024
+
+/**
+ * clamd 连接配置
+ */
+export interface ClamdScannerOptions {
+  host: string
+  port: number
+  /** 扫描超时（毫秒） */
+  timeoutMs: number
+}
+
+/**
+ * 创建 clamd 扫描器
+ *
+ * @param options 连接配置
+ * @returns {FileScanner} 扫描器
+ */
+export function createClamdScanner({ host, port, timeoutMs }: ClamdScannerOptions): FileScanner {
+  return {
+    name: 'clamd',
+
+    scan(content) {
+      return new Promise((resolve, reject) => {
+        const socket = net.createConnection({ host, port })
+        const chunks: Buffer[] = []
+
+        socket.setTimeout(timeoutMs, () => {
+          socket.destroy(new Error('clamd 扫描超时'))
+        })
+
+        /**
+         * 按 INSTREAM 协议分块发送，流式内容等待 socket 缓冲区排空后再读取下一块
+         */
+        const sendContent = async () => {
+          const source = Buffer.isBuffer(content) ? [content] : content
+          for await (const data of source as Iterable<Buffer> | Readable) {
+            for (let offset = 0; offset < data.length; offset += CHUNK_SIZE) {
+              const chunk = data.subarray(offset, offset + CHUNK_SIZE)
+              const length = Buffer.alloc(4)
+              length.writeUInt32BE(chunk.length)
+              socket.write(length)
+              if (!socket.write(chunk) && !Buffer.isBuffer(content)) {
+                await once(socket, 'drain')
+              }
+            }
+          }
+          socket.end(Buffer.alloc(4))
+        }
+
+        socket.on('connect', () => {
+          socket.write('zINSTREAM\0')
+          sendContent().catch((error) => socket.destroy(error))
+        })
+
+        socket.on('data', (chunk) => chunks.push(chunk))
+        socket.on('error', reject)
+
+        socket.on('close', (hadError) => {
+          // 扫描结束或出错后停止读取文件
+          if (!Buffer.isBuffer(content)) content.destroy()
+          if (hadError) return
+
+          const reply = Buffer.concat(chunks).toString('utf8').replace(/\0/g, '').trim()
+          const found = reply.match(/^stream: (.+) FOUND$/)
+
+          if (reply === 'stream: OK') {
+            resolve({ clean: true })
+          } else if (found) {
+            resolve({ clean: false, signature: found[1] })
+          } else {
+            reject(new Error(`clamd 返回异常: ${reply || '无响应'}`))
+          }
+        })
+      })
+    },
+  }
+}
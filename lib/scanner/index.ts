@@ -0,0 +1,34 @@
+/**
+ * 文件安全扫描入口
+ *
+ * 根据 FILE_SCANNER 选择扫描器：
+ * - none: 不扫描（默认）
+ * - clamd: ClamAV 守护进程，本地可用 `pnpm clamd:stub` 启动替身验证
+ */
+
+import { env } from '@/lib/env'
+import { FileScanner } from '@/lib/scanner/types'
+import { createClamdScanner } from '@/lib/scanner/clamd'
+
+export type { FileScanner, ScanResult } from '@/lib/scanner/types'
+
+/**
+ * 扫描超时（毫秒）
+ */
+const SCAN_TIMEOUT_MS = 30 * 1000
+
+let fileScanner: FileScanner | null | undefined
+
+/**
+ * 获取文件扫描器（进程内单例）
+ *
+ * @returns {FileScanner | null} 扫描器，未启用扫描时为 null
+ */
+export function getFileScanner(): FileScanner | null {
+  if (fileScanner === undefined) {
+    fileScanner = env.FILE_SCANNER === 'clamd'
+      ? createClamdScanner({ host: env.CLAMD_HOST, port: env.CLAMD_PORT, timeoutMs: SCAN_TIMEOUT_MS })
+      : null
+  }
+  return fileScanner
+}
@@ -0,0 +1,27 @@
+/**
+ * 文件安全扫描类型定义
+ *
+ * 上传接口通过 FileScanner 接口扫描文件，具体扫描器由 FILE_SCANNER 环境变量选择
+ */
+
+import type { Readable } from 'stream'
+
+/**
+ * 扫描结果
+ */
+export type ScanResult =
+  | { clean: true }
+  | { clean: false; signature: string }
+
+/**
+ * 文件扫描器接口
+ */
+export interface FileScanner {
+  /** 扫描器名称，记录在隔离文件中 */
+  readonly name: string
+
+  /**
+   * 扫描文件内容，大文件以流传入；扫描器不可用时抛出错误
+   */
+  scan(content: Buffer | Readable): Promise<ScanResult>
+}
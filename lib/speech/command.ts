@@ -0,0 +1,80 @@
+/**
+ * 命令行语音转写服务
+ *
+ * 执行本地转写程序（如封装了 whisper.cpp 或 faster-whisper 的脚本）：
+ * 音频通过标准输入传入，转写文本从标准输出读取，不经过磁盘。
+ * 音频类型和识别语言通过环境变量 AUDIO_CONTENT_TYPE、AUDIO_LANGUAGE 传给程序
+ */
+
+import { spawn } from 'child_process'
+import { SpeechToTextBusyError, SpeechToTextProvider } from '@/lib/speech/types'
+
+/**
+ * 命令行转写配置
+ */
+export interface CommandSpeechToTextOptions {
+  /** 转写命令，按空格拆分为程序和参数，不经过 shell */
+  command: string
+  /** 转写超时（毫秒） */
+  timeoutMs: number
+  /** 同时运行的转写命令数量上限 */
+  maxConcurrency: number
+}
+
+/**
+ * 创建命令行转写服务
+ *
+ * @param options 转写配置
+ * @returns {SpeechToTextProvider} 转写服务
+ */
+export function createCommandSpeechToTextProvider({
+  command,
+  timeoutMs,
+  maxConcurrency,
+}: CommandSpeechToTextOptions): SpeechToTextProvider {
+  const [program, ...args] = command.trim().split(/\s+/)
+  // 正在运行的转写命令数量，已满时直接拒绝，不排队等待
+  let running = 0
+
+  return {
+    name: 'command',
+
+    transcribe(audio, { contentType, language }) {
+      if (running >= maxConcurrency) {
+        return Promise.reject(new SpeechToTextBusyError())
+      }
+      running++
+
+      return new Promise<string>((resolve, reject) => {
+        const child = spawn(program, args, {
+          env: { ...process.env, AUDIO_CONTENT_TYPE: contentType, AUDIO_LANGUAGE: language },
+          stdio: ['pipe', 'pipe', 'pipe'],
+          timeout: timeoutMs,
+        })
+        const stdout: Buffer[] = []
+        const stderr: Buffer[] = []
+
+        child.stdout.on('data', (chunk) => stdout.push(chunk))
+        child.stderr.on('data', (chunk) => stderr.push(chunk))
+        child.on('error', reject)
+
+        child.on('close', (code, signal) => {
+          if (code === 0) {
+            resolve(Buffer.concat(stdout).toString('utf8').trim())
+            return
+          }
+          const message = signal === 'SIGTERM'
+            ? '转写超时'
+            : Buffer.concat(stderr).toString('utf8').trim().slice(0, 500) || `退出码 ${code}`
+          reject(new Error(`转写命令执行失败: ${message}`))
+        })
+
+        // 程序提前退出时写入会失败，错误已由 close 事件处理
+        child.stdin.on('error', () => {})
+        child.stdin.end(audio)
+      }).finally(() => {
+        running--
+      })
+    },
+  }
+}
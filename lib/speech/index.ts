@@ -0,0 +1,52 @@
+/**
+ * 语音转写入口
+ *
+ * 根据 SPEECH_TO_TEXT 选择转写服务：
+ * - none: 不提供服务端转写（默认），仅使用浏览器的 Web Speech API
+ * - command: 执行 SPEECH_TO_TEXT_COMMAND 指定的本地转写程序
+ * - mock: 返回固定文本，用于开发和测试
+ */
+
+import { env } from '@/lib/env'
+import { SpeechToTextProvider } from '@/lib/speech/types'
+import { createCommandSpeechToTextProvider } from '@/lib/speech/command'
+import { createMockSpeechToTextProvider } from '@/lib/speech/mock'
+
+export type { SpeechToTextProvider, TranscribeOptions } from '@/lib/speech/types'
+export { SpeechToTextBusyError } from '@/lib/speech/types'
+
+/**
+ * 转写超时（毫秒）
+ */
+const TRANSCRIBE_TIMEOUT_MS = 60 * 1000
+
+let speechToTextProvider: SpeechToTextProvider | null | undefined
+
+/**
+ * 获取语音转写服务（进程内单例）
+ *
+ * @returns {SpeechToTextProvider | null} 转写服务，未启用时为 null
+ * @throws {Error} SPEECH_TO_TEXT=command 但未配置转写命令时抛出错误
+ */
+export function getSpeechToTextProvider(): SpeechToTextProvider | null {
+  if (speechToTextProvider === undefined) {
+    switch (env.SPEECH_TO_TEXT) {
+      case 'command':
+        if (!env.SPEECH_TO_TEXT_COMMAND) {
+          throw new Error('SPEECH_TO_TEXT_COMMAND 环境变量未配置')
+        }
+        speechToTextProvider = createCommandSpeechToTextProvider({
+          command: env.SPEECH_TO_TEXT_COMMAND,
+          timeoutMs: TRANSCRIBE_TIMEOUT_MS,
+          maxConcurrency: env.SPEECH_TO_TEXT_MAX_CONCURRENCY,
+        })
+        break
+      case 'mock':
+        speechToTextProvider = createMockSpeechToTextProvider()
+        break
+      default:
+        speechToTextProvider = null
+    }
+  }
+  return speechToTextProvider
+}
@@ -0,0 +1,23 @@
+/**
+ * 模拟语音转写服务
+ *
+ * 不调用任何识别引擎，返回固定文本，用于开发和测试前端的录音上传流程
+ */
+
+import { SpeechToTextProvider } from '@/lib/speech/types'
+
+/**
+ * 创建模拟转写服务
+ *
+ * @returns {SpeechToTextProvider} 转写服务
+ */
+export function createMockSpeechToTextProvider(): SpeechToTextProvider {
+  return {
+    name: 'mock',
+
+    async transcribe(audio) {
+      const seconds = Math.max(1, Math.round(audio.length / 16_000))
+      return `这是一段模拟的语音转写结果，录音约 ${seconds} 秒`
+    },
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * 语音转写类型定义
+ *
+ * 转写接口通过 SpeechToTextProvider 接口转写音频，具体实现由 SPEECH_TO_TEXT 环境变量选择
+ */
+
+/**
+ * 转写选项
+ */
+export interface TranscribeOptions {
+  /** 音频的 MIME 类型，如 audio/webm、audio/mp4 */
+  contentType: string
+  /** 识别语言，如 zh-CN */
+  language: string
+}
+
+/**
+ * 语音转写服务接口
+ *
+ * 音频只在内存中处理，实现不得将音频写入存储或日志
+ */
+export interface SpeechToTextProvider {
+  /** 服务名称 */
+  readonly name: string
+
+  /**
+   * 转写音频，服务不可用或转写失败时抛出错误
+   */
+  transcribe(audio: Buffer, options: TranscribeOptions): Promise<string>
+}
+
+/**
+ * 同时进行的转写已达上限，稍后重试
+ */
+export class SpeechToTextBusyError extends Error {
+  constructor() {
+    super('语音转写服务繁忙，请稍后重试')
+    this.name = 'SpeechToTextBusyError'
+  }
+}
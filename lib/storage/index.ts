@@ -0,0 +1,76 @@
+/**
+ * 附件存储入口
+ *
+ * 根据 STORAGE_DRIVER 选择存储后端：
+ * - local: 本地磁盘（默认）
+ * - s3: S3 兼容存储（AWS S3、Cloudflare R2、MinIO）
+ * - vercel-blob: Vercel Blob（未指定 STORAGE_DRIVER 但配置了 BLOB_READ_WRITE_TOKEN 时使用）
+ */
+
+import { env } from '@/lib/env'
+import { StorageDriver, StorageProvider } from '@/lib/storage/types'
+import { createLocalStorageProvider } from '@/lib/storage/local'
+import { createS3StorageProvider } from '@/lib/storage/s3'
+import { createVercelBlobStorageProvider } from '@/lib/storage/vercel-blob'
+
+export type {
+  StorageDriver,
+  StorageProvider,
+  StoredObject,
+  StorageObjectStream,
+  ContentDisposition,
+} from '@/lib/storage/types'
+export { normalizeStorageKey, buildContentDisposition } from '@/lib/storage/utils'
+
+let storageProvider: StorageProvider | null = null
+
+/**
+ * 获取当前使用的存储后端类型
+ *
+ * @returns {StorageDriver}
+ */
+export function getStorageDriver(): StorageDriver {
+  if (env.STORAGE_DRIVER) return env.STORAGE_DRIVER
+  return env.BLOB_READ_WRITE_TOKEN ? 'vercel-blob' : 'local'
+}
+
+/**
+ * 创建存储后端，缺少必需配置时抛出错误
+ */
+function createStorageProvider(driver: StorageDriver): StorageProvider {
+  switch (driver) {
+    case 'local':
+      return createLocalStorageProvider(env.STORAGE_LOCAL_DIR)
+
+    case 's3':
+      if (!env.S3_BUCKET) {
+        throw new Error('S3_BUCKET 环境变量未配置')
+      }
+      return createS3StorageProvider({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION,
+        endpoint: env.S3_ENDPOINT,
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE,
+      })
+
+    case 'vercel-blob':
+      if (!env.BLOB_READ_WRITE_TOKEN) {
+        throw new Error('BLOB_READ_WRITE_TOKEN 环境变量未配置。请在 Vercel 项目的 Storage 标签页连接 Blob 存储。')
+      }
+      return createVercelBlobStorageProvider(env.BLOB_READ_WRITE_TOKEN)
+  }
+}
+
+/**
+ * 获取存储后端（进程内单例）
+ *
+ * @returns {StorageProvider} 存储后端
+ */
+export function getStorageProvider(): StorageProvider {
+  if (!storageProvider) {
+    storageProvider = createStorageProvider(getStorageDriver())
+  }
+  return storageProvider
+}
@@ -0,0 +1,78 @@
+/**
+ * 本地磁盘存储
+ *
+ * 文件写入 STORAGE_LOCAL_DIR 目录，只能通过鉴权下载接口访问
+ * 多实例部署时需要挂载共享卷
+ */
+
+import { createReadStream, createWriteStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { StorageProvider } from '@/lib/storage/types'
+import { getContentTypeByKey, getPutBodySize } from '@/lib/storage/utils'
+
+/**
+ * 创建本地磁盘存储
+ *
+ * @param rootDir 存储根目录
+ * @returns {StorageProvider} 存储后端
+ */
+export function createLocalStorageProvider(rootDir: string): StorageProvider {
+  const root = path.resolve(rootDir)
+
+  /**
+   * 将存储键解析为磁盘路径，防止越出根目录
+   */
+  const resolvePath = (key: string): string => {
+    const filePath = path.resolve(root, key)
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`无效的存储键: ${key}`)
+    }
+    return filePath
+  }
+
+  return {
+    driver: 'local',
+
+    async put(key, body, options) {
+      const filePath = resolvePath(key)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      if (Buffer.isBuffer(body)) {
+        await fs.writeFile(filePath, body)
+      } else {
+        await pipeline(body, createWriteStream(filePath))
+      }
+
+      return { key, size: getPutBodySize(body, options) }
+    },
+
+    async get(key) {
+      const filePath = resolvePath(key)
+
+      try {
+        const stat = await fs.stat(filePath)
+        if (!stat.isFile()) return null
+
+        return {
+          body: Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>,
+          contentType: getContentTypeByKey(key),
+          size: stat.size,
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async getSignedUrl() {
+      // 本地文件由下载接口直接转发
+      return null
+    },
+
+    async delete(key) {
+      await fs.rm(resolvePath(key), { force: true })
+    },
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * S3 兼容存储
+ *
+ * 适用于 AWS S3、Cloudflare R2（endpoint 为 https://<account>.r2.cloudflarestorage.com）
+ * 以及自建 MinIO（需开启 forcePathStyle）
+ * 存储桶应保持私有，下载时生成短期有效的签名地址
+ */
+
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  NoSuchKey,
+} from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { StorageProvider } from '@/lib/storage/types'
+import { buildContentDisposition, getPutBodySize } from '@/lib/storage/utils'
+
+/**
+ * S3 兼容存储配置
+ */
+export interface S3StorageOptions {
+  bucket: string
+  region: string
+  endpoint?: string
+  accessKeyId?: string
+  secretAccessKey?: string
+  forcePathStyle?: boolean
+}
+
+/**
+ * 创建 S3 兼容存储
+ *
+ * @param options 存储配置
+ * @returns {StorageProvider} 存储后端
+ */
+export function createS3StorageProvider(options: S3StorageOptions): StorageProvider {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    // 未配置密钥时使用 SDK 默认凭证链（如 IAM 角色）
+    credentials: options.accessKeyId && options.secretAccessKey
+      ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+      : undefined,
+  })
+
+  return {
+    driver: 's3',
+
+    async put(key, body, putOptions) {
+      // 以流写入时 S3 需要预先知道内容长度
+      const size = getPutBodySize(body, putOptions)
+      await client.send(new PutObjectCommand({
+        Bucket: options.bucket,
+        Key: key,
+        Body: body,
+        ContentType: putOptions.contentType,
+        ContentLength: size,
+      }))
+
+      return { key, size }
+    },
+
+    async get(key) {
+      try {
+        const result = await client.send(new GetObjectCommand({
+          Bucket: options.bucket,
+          Key: key,
+        }))
+        if (!result.Body) return null
+
+        return {
+          body: result.Body.transformToWebStream() as ReadableStream<Uint8Array>,
+          contentType: result.ContentType ?? 'application/octet-stream',
+          size: result.ContentLength,
+        }
+      } catch (error) {
+        if (error instanceof NoSuchKey) return null
+        throw error
+      }
+    },
+
+    async getSignedUrl(key, { expiresIn, fileName, disposition, contentType }) {
+      return getSignedUrl(
+        client,
+        new GetObjectCommand({
+          Bucket: options.bucket,
+          Key: key,
+          ResponseContentDisposition: buildContentDisposition(disposition, fileName),
+          ResponseContentType: contentType,
+        }),
+        { expiresIn }
+      )
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({
+        Bucket: options.bucket,
+        Key: key,
+      }))
+    },
+  }
+}
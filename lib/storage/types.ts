@@ -0,0 +1,84 @@
+/**
+ * 附件存储类型定义
+ *
+ * 上传接口只依赖 StorageProvider 接口，具体后端由 STORAGE_DRIVER 环境变量选择
+ */
+
+import type { Readable } from 'stream'
+
+/**
+ * 支持的存储后端
+ */
+export type StorageDriver = 'local' | 's3' | 'vercel-blob'
+
+/**
+ * 写入文件的选项
+ */
+export interface PutObjectOptions {
+  /** 文件的 MIME 类型 */
+  contentType: string
+  /** 文件大小，以流写入时必须提供 */
+  size?: number
+}
+
+/**
+ * 写入成功后的文件信息
+ */
+export interface StoredObject {
+  /** 实际使用的存储键，部分后端会追加随机后缀，需以此为准保存 */
+  key: string
+  size: number
+}
+
+/**
+ * 文件下载方式
+ */
+export type ContentDisposition = 'inline' | 'attachment'
+
+/**
+ * 生成签名下载地址的选项
+ */
+export interface SignedUrlOptions {
+  /** 有效期（秒） */
+  expiresIn: number
+  /** 下载时使用的文件名 */
+  fileName: string
+  disposition: ContentDisposition
+  contentType?: string
+}
+
+/**
+ * 读取文件的结果
+ */
+export interface StorageObjectStream {
+  body: ReadableStream<Uint8Array>
+  contentType: string
+  size?: number
+}
+
+/**
+ * 存储后端接口
+ */
+export interface StorageProvider {
+  readonly driver: StorageDriver
+
+  /**
+   * 写入文件，相同键的文件会被覆盖；大文件以流写入，不在内存中保留完整内容
+   */
+  put(key: string, body: Buffer | Readable, options: PutObjectOptions): Promise<StoredObject>
+
+  /**
+   * 读取文件，文件不存在时返回 null
+   */
+  get(key: string): Promise<StorageObjectStream | null>
+
+  /**
+   * 生成短期有效的签名下载地址，不支持签名的后端返回 null，由调用方直接转发文件内容
+   */
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string | null>
+
+  /**
+   * 删除文件，文件不存在时不报错
+   */
+  delete(key: string): Promise<void>
+}
@@ -0,0 +1,76 @@
+/**
+ * 存储模块工具函数
+ */
+
+import path from 'path'
+import type { Readable } from 'stream'
+import { ContentDisposition, PutObjectOptions } from '@/lib/storage/types'
+
+/**
+ * 按扩展名推断的 MIME 类型，用于不保存元数据的本地存储
+ */
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.txt': 'text/plain; charset=utf-8',
+}
+
+/**
+ * 校验并规范化存储键，拒绝绝对路径和 `..` 等越界片段
+ *
+ * @param key 存储键
+ * @returns {string | null} 规范化后的存储键，无效时返回 null
+ */
+export function normalizeStorageKey(key: string): string | null {
+  const segments = key.split('/')
+  if (segments.some((segment) => segment === '' || segment === '.' || segment === '..' || segment.includes('\\'))) {
+    return null
+  }
+  return segments.join('/')
+}
+
+/**
+ * 根据存储键的扩展名推断 MIME 类型
+ *
+ * @param key 存储键
+ * @returns {string} MIME 类型，无法识别时为 application/octet-stream
+ */
+export function getContentTypeByKey(key: string): string {
+  return CONTENT_TYPES_BY_EXTENSION[path.extname(key).toLowerCase()] ?? 'application/octet-stream'
+}
+
+/**
+ * 构建 Content-Disposition 响应头，中文文件名按 RFC 5987 编码
+ *
+ * @param disposition 下载方式
+ * @param fileName 文件名
+ * @returns {string} 响应头的值
+ */
+export function buildContentDisposition(disposition: ContentDisposition, fileName: string): string {
+  const asciiFallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_')
+  return `${disposition}; filename="${asciiFallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+}
+
+/**
+ * 获取写入内容的大小，以流写入时使用调用方提供的大小
+ *
+ * @param body 写入的内容
+ * @param options 写入选项
+ * @returns {number} 字节数
+ * @throws {Error} 以流写入但未提供大小
+ */
+export function getPutBodySize(body: Buffer | Readable, options: PutObjectOptions): number {
+  if (Buffer.isBuffer(body)) return body.length
+  if (options.size === undefined) {
+    throw new Error('以流写入文件时必须提供文件大小')
+  }
+  return options.size
+}
@@ -0,0 +1,59 @@
+/**
+ * Vercel Blob 存储
+ *
+ * 部署在 Vercel 时使用。Blob 服务只支持公开访问，文件名追加随机后缀使地址不可猜测，
+ * 且 Blob 地址从不返回给客户端，下载统一经过鉴权接口转发
+ */
+
+import { put, head, del, BlobNotFoundError } from '@vercel/blob'
+import { StorageProvider } from '@/lib/storage/types'
+import { getPutBodySize } from '@/lib/storage/utils'
+
+/**
+ * 创建 Vercel Blob 存储
+ *
+ * @param token BLOB_READ_WRITE_TOKEN
+ * @returns {StorageProvider} 存储后端
+ */
+export function createVercelBlobStorageProvider(token: string): StorageProvider {
+  return {
+    driver: 'vercel-blob',
+
+    async put(key, body, options) {
+      const blob = await put(key, body, {
+        access: 'public',
+        addRandomSuffix: true,
+        contentType: options.contentType,
+        token,
+      })
+
+      return { key: blob.pathname, size: getPutBodySize(body, options) }
+    },
+
+    async get(key) {
+      try {
+        const blob = await head(key, { token })
+        const response = await fetch(blob.url)
+        if (!response.ok || !response.body) return null
+
+        return {
+          body: response.body,
+          contentType: blob.contentType,
+          size: blob.size,
+        }
+      } catch (error) {
+        if (error instanceof BlobNotFoundError) return null
+        throw error
+      }
+    },
+
+    async getSignedUrl() {
+      // 公开地址长期有效，不能交给客户端
+      return null
+    },
+
+    async delete(key) {
+      await del(key, { token })
+    },
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * 团队查询辅助模块
+ *
+ * 统一团队的关联查询字段和响应格式转换，供各API路由复用
+ */
+
+import type { Prisma } from '@/app/generated/prisma'
+import { TeamResponse } from '@/lib/types/team'
+
+/**
+ * 团队的关联查询字段
+ */
+export const teamInclude = {
+  manager: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  members: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+    },
+    orderBy: { name: 'asc' },
+  },
+} satisfies Prisma.TeamInclude
+
+/**
+ * 包含关联数据的团队
+ */
+export type TeamWithRelations = Prisma.TeamGetPayload<{
+  include: typeof teamInclude
+}>
+
+/**
+ * 转换为团队响应格式
+ *
+ * @param team 包含关联数据的团队
+ * @returns {TeamResponse} 响应数据
+ */
+export function toTeamResponse(team: TeamWithRelations): TeamResponse {
+  return {
+    id: team.id,
+    name: team.name,
+    createdAt: team.createdAt.toISOString(),
+    updatedAt: team.updatedAt.toISOString(),
+    manager: team.manager,
+    members: team.members,
+  }
+}
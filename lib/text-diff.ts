@@ -0,0 +1,98 @@
+/**
+ * 文本差异比较工具
+ *
+ * 按字符计算两段文本的差异，适用于中文内容（中文没有空格分词）
+ * 基于最长公共子序列（LCS），先去除公共前后缀以减少计算量
+ */
+
+/**
+ * 差异片段
+ */
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete'
+  text: string
+}
+
+/**
+ * 追加差异片段，相邻同类型片段合并
+ */
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  if (!text) return
+  const last = segments[segments.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    segments.push({ type, text })
+  }
+}
+
+/**
+ * 计算两段文本的差异
+ *
+ * @param before 修改前的文本
+ * @param after 修改后的文本
+ * @returns {DiffSegment[]} 差异片段列表
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  const oldChars = Array.from(before)
+  const newChars = Array.from(after)
+
+  // 去除公共前缀
+  let prefixLength = 0
+  while (
+    prefixLength < oldChars.length &&
+    prefixLength < newChars.length &&
+    oldChars[prefixLength] === newChars[prefixLength]
+  ) {
+    prefixLength++
+  }
+
+  // 去除公共后缀
+  let suffixLength = 0
+  while (
+    suffixLength < oldChars.length - prefixLength &&
+    suffixLength < newChars.length - prefixLength &&
+    oldChars[oldChars.length - 1 - suffixLength] === newChars[newChars.length - 1 - suffixLength]
+  ) {
+    suffixLength++
+  }
+
+  const a = oldChars.slice(prefixLength, oldChars.length - suffixLength)
+  const b = newChars.slice(prefixLength, newChars.length - suffixLength)
+
+  const segments: DiffSegment[] = []
+  pushSegment(segments, 'equal', oldChars.slice(0, prefixLength).join(''))
+
+  // LCS 长度表：lcs[i][j] 表示 a[i..] 与 b[j..] 的最长公共子序列长度
+  const columns = b.length + 1
+  const lcs = new Uint16Array((a.length + 1) * columns)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * columns + j] = a[i] === b[j]
+        ? lcs[(i + 1) * columns + j + 1] + 1
+        : Math.max(lcs[(i + 1) * columns + j], lcs[i * columns + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i])
+      i++
+      j++
+    } else if (lcs[(i + 1) * columns + j] >= lcs[i * columns + j + 1]) {
+      pushSegment(segments, 'delete', a[i])
+      i++
+    } else {
+      pushSegment(segments, 'insert', b[j])
+      j++
+    }
+  }
+  pushSegment(segments, 'delete', a.slice(i).join(''))
+  pushSegment(segments, 'insert', b.slice(j).join(''))
+
+  pushSegment(segments, 'equal', oldChars.slice(oldChars.length - suffixLength).join(''))
+
+  return segments
+}
@@ -0,0 +1,356 @@
+/**
+ * 附件文本提取模块
+ *
+ * 由后台任务从 PDF、Word、Excel 和纯文本附件中提取纯文本，写入 attachments.extracted_text 用于搜索，
+ * 开头片段写入 text_preview 在时间线上展示
+ */
+
+import { createRequire } from 'node:module'
+import path from 'node:path'
+import { unzipSync, strFromU8 } from 'fflate'
+import * as CFB from 'cfb'
+import WordExtractor from 'word-extractor'
+import { prisma } from '@/lib/prisma'
+import { getStorageProvider } from '@/lib/storage'
+import {
+  collapseWhitespace,
+  TEXT_EXTRACTABLE_TYPES,
+  TEXT_PREVIEW_LENGTH,
+} from '@/lib/attachment-text'
+
+/**
+ * 保存的文本最大长度，超出部分截断
+ */
+export const MAX_EXTRACTED_TEXT_LENGTH = 100_000
+
+/**
+ * 单次任务处理的最大附件数量，剩余的由下一次任务处理
+ */
+const EXTRACTION_BATCH_SIZE = 20
+
+/**
+ * xlsx 中单个 XML 文件解压后的大小上限，防止压缩炸弹
+ */
+const MAX_XML_ENTRY_SIZE = 50 * 1024 * 1024
+
+/**
+ * 文本提取结果
+ */
+export interface TextExtractionResult {
+  extracted: number
+  /** 文件缺失或内容无法解析的附件数量 */
+  failed: number
+}
+
+/**
+ * 解码 XML 实体
+ */
+const decodeXmlEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp': return '&'
+      case 'lt': return '<'
+      case 'gt': return '>'
+      case 'quot': return '"'
+      case 'apos': return "'"
+    }
+    const codePoint = code[1] === 'x' || code[1] === 'X'
+      ? parseInt(code.slice(2), 16)
+      : parseInt(code.slice(1), 10)
+    return Number.isNaN(codePoint) ? entity : String.fromCodePoint(codePoint)
+  })
+
+/**
+ * 提取 PDF 文本，在服务端使用 pdf.js 的 legacy 构建
+ */
+async function extractPdfText(content: Buffer): Promise<string> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs')
+  // 中文 PDF 常使用预定义 CMap 编码，需要提供 CMap 文件才能还原文字
+  const packageDir = path.dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json'))
+
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(content),
+    cMapUrl: path.join(packageDir, 'cmaps') + path.sep,
+    cMapPacked: true,
+    standardFontDataUrl: path.join(packageDir, 'standard_fonts') + path.sep,
+  }).promise
+
+  try {
+    const pages: string[] = []
+    let length = 0
+    for (let pageNumber = 1; pageNumber <= document.numPages && length < MAX_EXTRACTED_TEXT_LENGTH; pageNumber++) {
+      const page = await document.getPage(pageNumber)
+      const textContent = await page.getTextContent()
+      const pageText = textContent.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+      pages.push(pageText)
+      length += pageText.length
+      page.cleanup()
+    }
+    return pages.join('\n\n')
+  } finally {
+    await document.destroy()
+  }
+}
+
+/**
+ * 提取 Word 文档（doc/docx）的正文、脚注和尾注
+ */
+async function extractWordText(content: Buffer): Promise<string> {
+  const document = await new WordExtractor().extract(content)
+  return [document.getBody(), document.getFootnotes(), document.getEndnotes()]
+    .filter((part) => part.trim())
+    .join('\n\n')
+}
+
+/**
+ * 提取 xlsx 工作表的单元格内容，每行一行、单元格以制表符分隔
+ */
+function extractXlsxText(content: Buffer): string {
+  const files = unzipSync(new Uint8Array(content), {
+    filter: (file) =>
+      file.originalSize <= MAX_XML_ENTRY_SIZE &&
+      (file.name === 'xl/sharedStrings.xml' || /^xl\/worksheets\/sheet\d+\.xml$/.test(file.name)),
+  })
+
+  // 共享字符串表，富文本由多个 <t> 组成
+  const sharedStrings = [...strFromU8(files['xl/sharedStrings.xml'] ?? new Uint8Array())
+    .matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(([, item]) => [...item.matchAll(/<t[^>]*>([^<]*)<\/t>/g)].map(([, text]) => decodeXmlEntities(text)).join(''))
+
+  const sheetNames = Object.keys(files)
+    .filter((name) => name.startsWith('xl/worksheets/'))
+    .sort((a, b) => Number(a.match(/\d+/)![0]) - Number(b.match(/\d+/)![0]))
+
+  return sheetNames
+    .map((name) =>
+      [...strFromU8(files[name]).matchAll(/<row[^>]*>([\s\S]*?)<\/row>/g)]
+        .map(([, row]) =>
+          [...row.matchAll(/<c([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)]
+            .map(([, attributes, cell = '']) => {
+              const type = attributes.match(/\st="([^"]+)"/)?.[1]
+              if (type === 'inlineStr') {
+                return [...cell.matchAll(/<t[^>]*>([^<]*)<\/t>/g)].map(([, text]) => decodeXmlEntities(text)).join('')
+              }
+              const value = cell.match(/<v>([^<]*)<\/v>/)?.[1]
+              if (value === undefined) return ''
+              return type === 's' ? (sharedStrings[Number(value)] ?? '') : decodeXmlEntities(value)
+            })
+            .filter(Boolean)
+            .join('\t')
+        )
+        .filter(Boolean)
+        .join('\n')
+    )
+    .join('\n\n')
+}
+
+/**
+ * BIFF8 记录类型
+ */
+const BIFF_RECORD_SST = 0x00fc
+const BIFF_RECORD_CONTINUE = 0x003c
+const BIFF_RECORD_LABEL = 0x0204
+
+/**
+ * 提取旧版 Excel（xls）中的字符串
+ *
+ * 读取 Workbook 流中的共享字符串表（SST）和 LABEL 单元格，不还原表格结构。
+ * 字符串可能跨越 CONTINUE 记录，续接处以一个字节重新声明字符宽度
+ */
+function extractXlsText(content: Buffer): string {
+  const container = CFB.read(content, { type: 'buffer' })
+  const stream = CFB.find(container, 'Workbook') ?? CFB.find(container, 'Book')
+  if (!stream?.content) throw new Error('未找到工作簿数据')
+  const workbook = Buffer.from(stream.content as Uint8Array)
+
+  // 拆分记录，SST 及其后的 CONTINUE 记录作为连续的分段读取
+  const sstSegments: Buffer[] = []
+  const labels: string[] = []
+  let previousType = 0
+  for (let offset = 0; offset + 4 <= workbook.length;) {
+    const type = workbook.readUInt16LE(offset)
+    const size = workbook.readUInt16LE(offset + 2)
+    const data = workbook.subarray(offset + 4, offset + 4 + size)
+    offset += 4 + size
+
+    if (type === BIFF_RECORD_SST || (type === BIFF_RECORD_CONTINUE && previousType === BIFF_RECORD_SST)) {
+      sstSegments.push(data)
+      previousType = BIFF_RECORD_SST
+      continue
+    }
+    if (type === BIFF_RECORD_LABEL && data.length >= 9) {
+      const length = data.readUInt16LE(6)
+      labels.push(data[8] & 0x1
+        ? data.toString('utf16le', 9, 9 + length * 2)
+        : data.toString('latin1', 9, 9 + length))
+    }
+    previousType = type
+  }
+
+  const strings: string[] = []
+  if (sstSegments.length > 0) {
+    let segment = 0
+    let position = 0
+
+    const readByte = () => {
+      while (segment < sstSegments.length && position >= sstSegments[segment].length) {
+        segment++
+        position = 0
+      }
+      return segment < sstSegments.length ? sstSegments[segment][position++] : 0
+    }
+    const readUInt16 = () => readByte() | (readByte() << 8)
+    const readUInt32 = () => (readUInt16() | (readUInt16() << 16)) >>> 0
+    const skip = (count: number) => {
+      for (let i = 0; i < count && segment < sstSegments.length; i++) readByte()
+    }
+    const readChars = (count: number, highByte: boolean) => {
+      let text = ''
+      while (count > 0 && segment < sstSegments.length) {
+        if (position >= sstSegments[segment].length) {
+          // 字符跨越到下一个 CONTINUE 记录
+          segment++
+          position = 0
+          if (segment >= sstSegments.length) break
+          highByte = (sstSegments[segment][position++] & 0x1) === 1
+          continue
+        }
+        const buffer = sstSegments[segment]
+        const charCount = Math.min(count, Math.floor((buffer.length - position) / (highByte ? 2 : 1)))
+        if (charCount === 0) {
+          position = buffer.length
+          continue
+        }
+        const end = position + charCount * (highByte ? 2 : 1)
+        text += buffer.toString(highByte ? 'utf16le' : 'latin1', position, end)
+        position = end
+        count -= charCount
+      }
+      return text
+    }
+
+    skip(4)
+    const uniqueCount = readUInt32()
+    for (let i = 0; i < uniqueCount && segment < sstSegments.length; i++) {
+      const length = readUInt16()
+      const flags = readByte()
+      const runCount = flags & 0x8 ? readUInt16() : 0
+      const extSize = flags & 0x4 ? readUInt32() : 0
+      strings.push(readChars(length, (flags & 0x1) === 1))
+      skip(runCount * 4 + extSize)
+    }
+  }
+
+  return [...strings, ...labels].filter((text) => text.trim()).join('\n')
+}
+
+/**
+ * 解码纯文本，不是有效的 UTF-8 时按 GB18030 解码（兼容 Windows 中文环境保存的文件）
+ */
+function decodeText(content: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(content)
+  } catch {
+    return new TextDecoder('gb18030').decode(content)
+  }
+}
+
+/**
+ * 从文件内容中提取纯文本
+ *
+ * @param content 文件内容
+ * @param contentType 文件类型
+ * @returns {Promise<string>} 提取的文本，超出长度上限时截断
+ * @throws {Error} 文件类型不支持或内容无法解析时抛出错误
+ */
+export async function extractText(content: Buffer, contentType: string): Promise<string> {
+  let text: string
+  switch (contentType) {
+    case 'application/pdf':
+      text = await extractPdfText(content)
+      break
+    case 'application/msword':
+    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+      text = await extractWordText(content)
+      break
+    case 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+      text = extractXlsxText(content)
+      break
+    case 'application/vnd.ms-excel':
+      text = extractXlsText(content)
+      break
+    case 'text/plain':
+      text = decodeText(content)
+      break
+    default:
+      throw new Error(`不支持提取文本的文件类型: ${contentType}`)
+  }
+
+  return text
+    .replace(/\u0000/g, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .slice(0, MAX_EXTRACTED_TEXT_LENGTH)
+}
+
+/**
+ * 提取附件文本并保存
+ *
+ * 未指定附件时处理一批尚未提取的附件（补齐历史附件和此前读取失败的附件）。
+ * 文件缺失或内容无法解析的附件同样标记为已提取，不再重试；读取存储后端失败时保留，由下一次任务处理
+ *
+ * @param attachmentIds 要提取的附件ID
+ * @returns {Promise<TextExtractionResult>} 提取结果
+ */
+export async function extractAttachmentTexts(attachmentIds?: string[]): Promise<TextExtractionResult> {
+  const attachments = await prisma.attachment.findMany({
+    where: {
+      ...(attachmentIds ? { id: { in: attachmentIds } } : {}),
+      textExtractedAt: null,
+      // 旧版附件没有记录文件类型，不提取
+      storageKey: { not: null },
+      contentType: { in: TEXT_EXTRACTABLE_TYPES },
+    },
+    select: { id: true, fileName: true, storageKey: true, contentType: true },
+    orderBy: { createdAt: 'asc' },
+    take: attachmentIds ? undefined : EXTRACTION_BATCH_SIZE,
+  })
+
+  const result: TextExtractionResult = { extracted: 0, failed: 0 }
+
+  // 逐个处理，避免同时解析多个大文件占用过多内存
+  for (const attachment of attachments) {
+    const object = await getStorageProvider().get(attachment.storageKey!)
+    const content = object ? Buffer.from(await new Response(object.body).arrayBuffer()) : null
+
+    let text: string | null = null
+    if (content) {
+      try {
+        text = await extractText(content, attachment.contentType!)
+      } catch (error) {
+        console.error('提取附件文本失败:', { attachmentId: attachment.id, fileName: attachment.fileName, error })
+      }
+    }
+
+    await prisma.attachment.update({
+      where: { id: attachment.id },
+      data: {
+        extractedText: text || null,
+        textPreview: text ? collapseWhitespace(text).slice(0, TEXT_PREVIEW_LENGTH) : null,
+        textExtractedAt: new Date(),
+      },
+    })
+
+    if (text !== null) {
+      result.extracted++
+    } else {
+      result.failed++
+    }
+  }
+
+  return result
+}
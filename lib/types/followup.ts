@@ -21,6 +21,7 @@ export const FOLLOWUP_TYPE_LABELS: Record<FollowUpType, string> = {
 export const PLAN_STATUS_LABELS: Record<PlanStatus, string> = {
   PENDING: '待办',
   DONE: '已完成',
+  CANCELLED: '已取消',
 } as const
 
 /**
@@ -32,6 +33,22 @@ export const USER_ROLE_LABELS: Record<UserRole, string> = {
   ADMIN: '管理员',
 } as const
 
+/**
+ * 附件文件类型
+ */
+export type AttachmentFileType = 'image' | 'pdf' | 'document' | 'spreadsheet' | 'text'
+
+/**
+ * 附件文件类型显示标签
+ */
+export const ATTACHMENT_TYPE_LABELS: Record<AttachmentFileType, string> = {
+  image: '图片',
+  pdf: 'PDF',
+  document: '文档',
+  spreadsheet: '表格',
+  text: '文本',
+} as const
+
 /**
  * 跟进记录创建请求接口
  */
@@ -39,18 +56,22 @@ export interface CreateFollowUpRequest {
   customerId: string
   content: string
   followUpType: FollowUpType
-  attachments?: Array<{
-    fileName: string
-    fileUrl: string
-    fileType: string
-    fileSize?: number
-  }>
+  /** 上传接口返回的文件ID */
+  uploadIds?: string[]
   nextStep?: {
     dueDate: string
     notes?: string
   }
 }
 
+/**
+ * 跟进记录更新请求接口
+ */
+export interface UpdateFollowUpRequest {
+  content?: string
+  followUpType?: FollowUpType
+}
+
 /**
  * 跟进记录响应接口
  */
@@ -67,21 +88,147 @@ export interface FollowUpRecordResponse {
     name: string
     email: string
   }
-  attachments: Array<{
+  attachments: AttachmentResponse[]
+  nextStepPlans: NextStepPlanResponse[]
+  /** 编辑次数，大于0时显示"已编辑" */
+  revisionCount: number
+  /** 当前用户是否可以编辑或删除该记录 */
+  canEdit: boolean
+}
+
+/**
+ * 附件响应接口
+ */
+export interface AttachmentResponse {
+  id: string
+  fileName: string
+  /** 鉴权下载地址 */
+  fileUrl: string
+  /** 图片缩略图地址 */
+  thumbnailUrl?: string
+  /** 图片网页浏览版本地址 */
+  webUrl?: string
+  fileType: string
+  fileSize?: number
+  width?: number
+  height?: number
+  /** 文档开头的文本片段（PDF、Word、Excel、纯文本，由后台任务提取） */
+  textPreview?: string
+  createdAt: string
+}
+
+/**
+ * 客户附件响应接口（客户详情页"所有附件"）
+ */
+export interface CustomerAttachmentResponse extends AttachmentResponse {
+  /** 所属跟进记录 */
+  followUpRecord: {
     id: string
-    fileName: string
-    fileUrl: string
-    fileType: string
-    fileSize?: number
+    followUpType: FollowUpType
     createdAt: string
-  }>
-  nextStepPlans: Array<{
+    user: {
+      id: string
+      name: string
+    }
+  }
+  /** 按关键词搜索时，文档中关键词前后的文本 */
+  textSnippet?: string
+}
+
+/**
+ * 下一步计划响应接口
+ */
+export interface NextStepPlanResponse {
+  id: string
+  dueDate: string
+  notes?: string
+  status: PlanStatus
+  completedAt?: string
+  completionNote?: string
+  createdAt: string
+  /** 执行人 */
+  user: {
     id: string
-    dueDate: string
-    notes?: string
-    status: PlanStatus
+    name: string
+  }
+  /** 改期历史（按时间正序） */
+  reschedules: Array<{
+    id: string
+    previousDueDate: string
+    newDueDate: string
+    reason?: string
     createdAt: string
+    changedBy: {
+      id: string
+      name: string
+    }
   }>
+  /** 当前用户是否可以完成、改期、转交或取消该计划 */
+  canUpdate: boolean
+}
+
+/**
+ * 待办列表项接口（跨客户的下一步计划）
+ */
+export interface PlanListItemResponse extends NextStepPlanResponse {
+  /** 来源跟进记录ID，用于跳转时高亮 */
+  followUpRecordId: string
+  customer: {
+    id: string
+    name: string
+  }
+}
+
+/**
+ * 待办列表筛选范围
+ */
+export type PlanScope = 'mine' | 'team'
+
+/**
+ * 待办列表时间筛选
+ */
+export type PlanDueFilter = 'overdue' | 'today' | 'week'
+
+/**
+ * 下一步计划更新请求接口
+ */
+export type UpdatePlanRequest =
+  | { action: 'complete'; completionNote?: string }
+  | { action: 'reschedule'; dueDate: string; reason?: string }
+  | { action: 'reassign'; userId: string }
+  | { action: 'cancel' }
+
+/**
+ * 计划可转交对象接口
+ */
+export interface PlanAssignee {
+  id: string
+  name: string
+  email: string
+}
+
+/**
+ * 跟进记录修订响应接口（保存编辑前的内容）
+ */
+export interface FollowUpRevisionResponse {
+  id: string
+  content: string
+  followUpType: FollowUpType
+  createdAt: string
+  editor: {
+    id: string
+    name: string
+  }
+}
+
+/**
+ * 跟进动态接口（跨客户的跟进记录列表项）
+ */
+export interface FollowUpActivityResponse extends FollowUpRecordResponse {
+  customer: {
+    id: string
+    name: string
+  }
 }
 
 /**
@@ -137,15 +284,49 @@ export interface CustomerDetail {
 export interface FileUploadResponse {
   success: boolean
   file?: {
+    /** 待关联上传ID，创建跟进记录时通过 uploadIds 提交 */
     id: string
     fileName: string
-    fileUrl: string
     fileType: string
     fileSize: number
+    contentType: string
+    /** 图片尺寸 */
+    width?: number
+    height?: number
   }
   error?: string
 }
 
+/**
+ * 创建分片上传会话请求接口
+ */
+export interface CreateUploadSessionRequest {
+  fileName: string
+  fileSize: number
+  contentType: string
+}
+
+/**
+ * 分片上传会话响应接口
+ */
+export interface UploadSessionResponse {
+  id: string
+  fileName: string
+  fileSize: number
+  contentType: string
+  /** 分片大小，最后一片为剩余字节 */
+  chunkSize: number
+  totalParts: number
+  /** 是否已完成合并，完成后分片已删除，再次提交合并即可取得上传结果 */
+  completed: boolean
+  /** 已接收的分片，断线后只需补传其余分片 */
+  uploadedParts: Array<{
+    partNumber: number
+    size: number
+    checksum: string
+  }>
+}
+
 /**
  * API响应基础接口
  */
@@ -156,6 +337,13 @@ export interface ApiResponse<T = unknown> {
   message?: string
 }
 
+/**
+ * 语音转写响应接口
+ */
+export interface TranscriptionResponse {
+  text: string
+}
+
 /**
  * 语音识别状态
  */
@@ -0,0 +1,48 @@
+/**
+ * 推送提醒相关的类型定义
+ */
+
+/**
+ * 推送订阅请求接口，与浏览器 PushSubscription.toJSON() 的结构一致
+ */
+export interface PushSubscriptionRequest {
+  endpoint: string
+  keys: {
+    p256dh: string
+    auth: string
+  }
+}
+
+/**
+ * 推送配置响应接口
+ */
+export interface PushConfigResponse {
+  /** 服务端未配置 VAPID 密钥时为 null */
+  publicKey: string | null
+  /** 当前用户已订阅的设备数量 */
+  subscriptionCount: number
+}
+
+/**
+ * 提醒设置接口
+ */
+export interface NotificationSettings {
+  /** IANA 时区，如 Asia/Shanghai */
+  timezone: string
+  /** 免打扰开始时间，格式 HH:mm */
+  quietHoursStart: string | null
+  /** 免打扰结束时间，格式 HH:mm */
+  quietHoursEnd: string | null
+}
+
+/**
+ * 计划提醒发送结果
+ */
+export interface PlanReminderResult {
+  /** 本次扫描的计划数量 */
+  scanned: number
+  /** 成功发送提醒的计划数量 */
+  sent: number
+  /** 因免打扰时段推迟的计划数量 */
+  deferred: number
+}
@@ -0,0 +1,31 @@
+/**
+ * 团队相关的类型定义
+ */
+
+import { UserRole } from '@/app/generated/prisma'
+
+/**
+ * 团队成员信息
+ */
+export interface TeamMember {
+  id: string
+  name: string
+  email: string
+  role: UserRole
+}
+
+/**
+ * 团队响应接口
+ */
+export interface TeamResponse {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  manager: {
+    id: string
+    name: string
+    email: string
+  } | null
+  members: TeamMember[]
+}
@@ -0,0 +1,303 @@
+/**
+ * 上传文件处理模块
+ *
+ * 直接上传和分片上传合并后的文件经过相同的处理流程：
+ * 内容检查 → 安全扫描（可疑文件隔离） → 图片处理 → 写入存储后端 → 记录为待关联上传
+ */
+
+import { createReadStream } from 'fs'
+import fs from 'fs/promises'
+import type { Readable } from 'stream'
+import { prisma } from '@/lib/prisma'
+import type { PendingUpload } from '@/app/generated/prisma'
+import { getStorageProvider } from '@/lib/storage'
+import { isProcessableImage, processImage, ProcessedImage } from '@/lib/image-processing'
+import {
+  ALLOWED_FILE_TYPES,
+  createFileReader,
+  FileInspectionResult,
+  inspectFile,
+  sanitizeFileName,
+} from '@/lib/file-inspection'
+import { getFileScanner } from '@/lib/scanner'
+import { FileUploadResponse } from '@/lib/types/followup'
+
+/**
+ * 直接上传的最大文件大小 (5MB)
+ */
+export const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+/**
+ * 图片最大文件大小 (25MB)，手机原图经压缩处理后保存
+ */
+export const MAX_IMAGE_FILE_SIZE = 25 * 1024 * 1024
+
+/**
+ * 分片上传的最大文件大小 (100MB)，用于标书、演示文稿等大文件
+ */
+export const MAX_CHUNKED_FILE_SIZE = 100 * 1024 * 1024
+
+/**
+ * 上传成功后返回给前端的文件信息
+ */
+export type UploadedFileInfo = NonNullable<FileUploadResponse['file']>
+
+/**
+ * 保存在临时文件中的上传内容，分片上传合并后的大文件不整体载入内存
+ */
+export interface UploadedTempFile {
+  path: string
+  size: number
+}
+
+/**
+ * 文件未通过检查，status 为返回给前端的状态码
+ */
+export class FileValidationError extends Error {
+  constructor(message: string, public readonly status: 400 | 422 = 400) {
+    super(message)
+    this.name = 'FileValidationError'
+  }
+}
+
+/**
+ * 安全扫描服务不可用
+ */
+export class FileScannerUnavailableError extends Error {
+  constructor() {
+    super('文件安全扫描服务暂时不可用，请稍后重试')
+    this.name = 'FileScannerUnavailableError'
+  }
+}
+
+/**
+ * 获取文件类型允许的最大大小
+ *
+ * @param mimeType 声明的MIME类型
+ * @param chunked 是否为分片上传
+ * @returns {number} 最大字节数
+ */
+export function getMaxFileSize(mimeType: string, chunked = false): number {
+  if (mimeType.startsWith('image/')) return MAX_IMAGE_FILE_SIZE
+  return chunked ? MAX_CHUNKED_FILE_SIZE : MAX_FILE_SIZE
+}
+
+/**
+ * 检查声明的文件类型和大小，真实类型在读取内容后检查
+ *
+ * @param mimeType 声明的MIME类型
+ * @param size 文件大小
+ * @param chunked 是否为分片上传
+ * @returns {string | null} 错误信息，通过时返回 null
+ */
+export function validateDeclaredFile(mimeType: string, size: number, chunked = false): string | null {
+  if (!(ALLOWED_FILE_TYPES as string[]).includes(mimeType)) {
+    return `不支持的文件类型。支持的类型: ${ALLOWED_FILE_TYPES.join(', ')}`
+  }
+
+  const maxSize = getMaxFileSize(mimeType, chunked)
+  if (size > maxSize) {
+    return `文件大小不能超过 ${maxSize / 1024 / 1024}MB`
+  }
+
+  return null
+}
+
+/**
+ * 生成唯一文件名
+ *
+ * @param extension 按文件内容确定的扩展名，不使用客户端提供的扩展名
+ * @returns {string} 唯一文件名
+ */
+const generateUniqueFileName = (extension: string): string => {
+  const timestamp = Date.now()
+  const random = Math.random().toString(36).substring(2)
+  return `${timestamp}_${random}.${extension}`
+}
+
+/**
+ * 获取文件类型分类
+ *
+ * @param mimeType MIME类型
+ * @returns {string} 文件类型分类
+ */
+const getFileTypeCategory = (mimeType: string): string => {
+  if (mimeType.startsWith('image/')) return 'image'
+  if (mimeType.includes('pdf')) return 'pdf'
+  if (mimeType.includes('word') || mimeType.includes('document')) return 'document'
+  if (mimeType.includes('excel') || mimeType.includes('spreadsheet')) return 'spreadsheet'
+  if (mimeType.startsWith('text/')) return 'text'
+  return 'other'
+}
+
+/**
+ * 转换为接口返回的文件信息
+ *
+ * @param pendingUpload 待关联上传
+ * @returns {UploadedFileInfo} 文件信息
+ */
+export function toUploadedFileInfo(pendingUpload: PendingUpload): UploadedFileInfo {
+  return {
+    id: pendingUpload.id,
+    fileName: pendingUpload.fileName,
+    fileType: pendingUpload.fileType,
+    fileSize: pendingUpload.fileSize,
+    contentType: pendingUpload.contentType,
+    width: pendingUpload.width ?? undefined,
+    height: pendingUpload.height ?? undefined,
+  }
+}
+
+/**
+ * 检查临时文件的内容，按需读取文件而不整体载入内存
+ *
+ * @param file 临时文件
+ * @param declaredType 浏览器声明的MIME类型
+ * @param fileName 清理后的文件名
+ * @returns {Promise<FileInspectionResult>} 检查结果
+ */
+async function inspectTempFile(
+  file: UploadedTempFile,
+  declaredType: string,
+  fileName: string
+): Promise<FileInspectionResult> {
+  const handle = await fs.open(file.path, 'r')
+  try {
+    return inspectFile(createFileReader(handle.fd, file.size), declaredType, fileName)
+  } finally {
+    await handle.close()
+  }
+}
+
+/**
+ * 检查、扫描并保存上传的文件，记录为当前用户的待关联上传
+ *
+ * @param content 文件内容，分片上传合并后的大文件为临时文件，扫描和写入存储时以流读取
+ * @param declaredType 浏览器声明的MIME类型
+ * @param originalName 浏览器提供的文件名
+ * @param userId 上传用户ID
+ * @returns {Promise<UploadedFileInfo>} 待关联上传的文件信息
+ * @throws {FileValidationError} 文件未通过内容检查或安全扫描
+ * @throws {FileScannerUnavailableError} 安全扫描服务不可用
+ */
+export async function storeUploadedFile(
+  content: Buffer | UploadedTempFile,
+  declaredType: string,
+  originalName: string,
+  userId: string
+): Promise<UploadedFileInfo> {
+  const fileName = sanitizeFileName(originalName)
+  const originalSize = Buffer.isBuffer(content) ? content.length : content.size
+
+  // 图片需要整体解码处理，大小受 MAX_IMAGE_FILE_SIZE 限制，直接读入内存
+  if (!Buffer.isBuffer(content) && declaredType.startsWith('image/')) {
+    content = await fs.readFile(content.path)
+  }
+
+  // 按文件内容识别真实类型，拒绝类型不符、带宏的文档和多态文件
+  const inspection = Buffer.isBuffer(content)
+    ? inspectFile(content, declaredType, fileName)
+    : await inspectTempFile(content, declaredType, fileName)
+  if (!inspection.valid) {
+    throw new FileValidationError(inspection.error)
+  }
+
+  const storage = getStorageProvider()
+
+  /**
+   * 读取文件内容，临时文件每次打开新的读取流
+   */
+  const openContent = (): Buffer | Readable =>
+    Buffer.isBuffer(content) ? content : createReadStream(content.path)
+
+  // 安全扫描，可疑文件隔离保存，不返回给前端关联到跟进记录
+  const scanner = getFileScanner()
+  if (scanner) {
+    let scanResult
+    try {
+      scanResult = await scanner.scan(openContent())
+    } catch (scanError) {
+      console.error('文件安全扫描失败:', scanError)
+      throw new FileScannerUnavailableError()
+    }
+
+    if (!scanResult.clean) {
+      const quarantined = await storage.put(
+        `quarantine/${generateUniqueFileName(inspection.extension)}`,
+        openContent(),
+        { contentType: inspection.mimeType, size: originalSize }
+      )
+      await prisma.quarantinedFile.create({
+        data: {
+          fileName,
+          storageKey: quarantined.key,
+          contentType: inspection.mimeType,
+          fileSize: quarantined.size,
+          scanner: scanner.name,
+          signature: scanResult.signature,
+          uploadedById: userId,
+        },
+      })
+
+      console.warn('⚠️ 上传文件未通过安全扫描，已隔离:', {
+        fileName,
+        signature: scanResult.signature,
+        userId,
+      })
+
+      throw new FileValidationError('文件未通过安全扫描，已被隔离', 422)
+    }
+  }
+
+  // 图片校正方向、去除位置信息并生成缩略图
+  let image: ProcessedImage | null = null
+  if (isProcessableImage(inspection.mimeType) && Buffer.isBuffer(content)) {
+    try {
+      image = await processImage(content)
+      content = image.original.buffer
+    } catch (imageError) {
+      console.error('图片处理失败:', imageError)
+      throw new FileValidationError('图片文件已损坏或格式无法识别')
+    }
+  }
+
+  // 生成唯一文件名，图片的其他版本与原图同名加后缀
+  const uniqueFileName = generateUniqueFileName(inspection.extension)
+  const baseKey = `attachments/${uniqueFileName.replace(/\.[^.]+$/, '')}`
+
+  // 写入存储后端
+  const [stored, thumbnail, web] = await Promise.all([
+    storage.put(`attachments/${uniqueFileName}`, openContent(), {
+      contentType: inspection.mimeType,
+      size: Buffer.isBuffer(content) ? content.length : content.size,
+    }),
+    image && storage.put(`${baseKey}_thumb.webp`, image.thumbnail.buffer, { contentType: image.thumbnail.contentType }),
+    image && storage.put(`${baseKey}_web.webp`, image.web.buffer, { contentType: image.web.contentType }),
+  ])
+
+  // 记录为待关联上传，创建跟进记录时转为附件，超过24小时未关联的由后台任务清理
+  const pendingUpload = await prisma.pendingUpload.create({
+    data: {
+      fileName,
+      storageKey: stored.key,
+      contentType: inspection.mimeType,
+      fileType: getFileTypeCategory(inspection.mimeType),
+      fileSize: stored.size,
+      thumbnailKey: thumbnail?.key,
+      webKey: web?.key,
+      width: image?.original.width,
+      height: image?.original.height,
+      uploadedById: userId,
+    },
+  })
+
+  console.log('✅ 文件上传成功:', {
+    driver: storage.driver,
+    fileName,
+    key: stored.key,
+    originalSize,
+    size: stored.size
+  })
+
+  return toUploadedFileInfo(pendingUpload)
+}
@@ -0,0 +1,236 @@
+/**
+ * 分片上传会话模块
+ *
+ * 大文件按 UPLOAD_CHUNK_SIZE 切分后逐片上传，每个分片携带 SHA-256 校验值，
+ * 分片暂存在存储后端的 upload-parts/ 下；断线后前端查询会话已接收的分片，只补传缺少的部分。
+ * 全部分片上传后依次写入临时文件合并，按直接上传的流程检查并记录为待关联上传
+ */
+
+import { createHash } from 'node:crypto'
+import fs from 'node:fs/promises'
+import { Readable } from 'node:stream'
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web'
+import { prisma } from '@/lib/prisma'
+import { getStorageProvider } from '@/lib/storage'
+import { deleteStorageObjects } from '@/lib/pending-uploads'
+import type { UploadSession, UploadSessionPart } from '@/app/generated/prisma'
+import { UploadSessionResponse } from '@/lib/types/followup'
+
+/**
+ * 分片大小 (2MB)，小于 Vercel 等平台的请求体限制，移动网络下单片重试代价也较小
+ */
+export const UPLOAD_CHUNK_SIZE = 2 * 1024 * 1024
+
+/**
+ * 未完成会话的保留时间（24小时）
+ */
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 单次清理的最大数量，剩余的由下一次清理处理
+ */
+const CLEANUP_BATCH_SIZE = 100
+
+/**
+ * 过期会话的清理结果
+ */
+export interface UploadSessionCleanupResult {
+  expiredSessions: number
+}
+
+/**
+ * 合并分片时发现分片缺失或内容与校验值不一致
+ */
+export class UploadSessionIncompleteError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UploadSessionIncompleteError'
+  }
+}
+
+/**
+ * 计算内容的 SHA-256 校验值
+ *
+ * @param content 内容
+ * @returns {string} 十六进制小写校验值
+ */
+export function computeChecksum(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * 获取分片的存储键
+ *
+ * @param sessionId 会话ID
+ * @param partNumber 分片序号（从1开始）
+ * @returns {string} 存储键
+ */
+export function getPartStorageKey(sessionId: string, partNumber: number): string {
+  return `upload-parts/${sessionId}/${partNumber}`
+}
+
+/**
+ * 获取分片应有的大小，除最后一片外均为会话的分片大小
+ *
+ * @param session 上传会话
+ * @param partNumber 分片序号（从1开始）
+ * @returns {number} 字节数
+ */
+export function getExpectedPartSize(
+  session: Pick<UploadSession, 'fileSize' | 'chunkSize' | 'totalParts'>,
+  partNumber: number
+): number {
+  if (partNumber < session.totalParts) return session.chunkSize
+  return session.fileSize - session.chunkSize * (session.totalParts - 1)
+}
+
+/**
+ * 按顺序读取全部分片并写入临时文件，逐片核对校验值，不在内存中保留完整文件
+ *
+ * @param session 上传会话及已接收的分片
+ * @param filePath 合并后的临时文件路径，由调用方负责删除
+ * @throws {UploadSessionIncompleteError} 分片缺失或内容与校验值不一致
+ */
+export async function assembleUploadSession(
+  session: UploadSession & { parts: UploadSessionPart[] },
+  filePath: string
+): Promise<void> {
+  if (session.parts.length !== session.totalParts) {
+    throw new UploadSessionIncompleteError(
+      `还有 ${session.totalParts - session.parts.length} 个分片未上传`
+    )
+  }
+
+  const storage = getStorageProvider()
+  const parts = [...session.parts].sort((a, b) => a.partNumber - b.partNumber)
+  const output = await fs.open(filePath, 'w')
+
+  try {
+    for (const part of parts) {
+      const object = await storage.get(part.storageKey)
+      if (!object) {
+        throw new UploadSessionIncompleteError(`分片 ${part.partNumber} 已丢失，请重新上传`)
+      }
+
+      const hash = createHash('sha256')
+      let size = 0
+      for await (const chunk of Readable.fromWeb(object.body as NodeReadableStream<Uint8Array>)) {
+        hash.update(chunk)
+        size += chunk.length
+        await output.write(chunk)
+      }
+
+      if (size !== part.size || hash.digest('hex') !== part.checksum) {
+        throw new UploadSessionIncompleteError(`分片 ${part.partNumber} 校验失败，请重新上传`)
+      }
+    }
+  } finally {
+    await output.close()
+  }
+}
+
+/**
+ * 记录合并结果并删除分片
+ *
+ * 会话保留到过期清理，重复提交合并（如响应丢失后重试）时返回同一个待关联上传
+ *
+ * @param session 上传会话及已接收的分片
+ * @param pendingUploadId 合并后生成的待关联上传ID
+ * @returns {Promise<boolean>} 是否记录成功，其他请求已先完成合并时返回 false
+ */
+export async function completeUploadSession(
+  session: UploadSession & { parts: UploadSessionPart[] },
+  pendingUploadId: string
+): Promise<boolean> {
+  const { count } = await prisma.uploadSession.updateMany({
+    where: { id: session.id, pendingUploadId: null },
+    data: { pendingUploadId },
+  })
+  if (count === 0) {
+    return false
+  }
+
+  await deleteStorageObjects(session.parts.map((part) => part.storageKey))
+  await prisma.uploadSessionPart.deleteMany({ where: { sessionId: session.id } })
+  return true
+}
+
+/**
+ * 删除会话的全部分片文件和会话记录
+ *
+ * @param session 上传会话及已接收的分片
+ */
+export async function deleteUploadSession(
+  session: UploadSession & { parts: UploadSessionPart[] }
+): Promise<void> {
+  await deleteStorageObjects(session.parts.map((part) => part.storageKey))
+  await prisma.uploadSession.deleteMany({ where: { id: session.id } })
+}
+
+/**
+ * 清理超过保留时间仍未完成的上传会话
+ *
+ * @param now 当前时间
+ * @returns {Promise<UploadSessionCleanupResult>} 清理结果
+ */
+export async function cleanupUploadSessions(now: Date = new Date()): Promise<UploadSessionCleanupResult> {
+  const expiredSessions = await prisma.uploadSession.findMany({
+    where: { createdAt: { lt: new Date(now.getTime() - UPLOAD_SESSION_TTL_MS) } },
+    include: { parts: { select: { storageKey: true } } },
+    orderBy: { createdAt: 'asc' },
+    take: CLEANUP_BATCH_SIZE,
+  })
+
+  if (expiredSessions.length === 0) {
+    return { expiredSessions: 0 }
+  }
+
+  // 先删除分片文件再删除记录，删除文件失败时记录保留，下次继续清理
+  await deleteStorageObjects(
+    expiredSessions.flatMap((session) => session.parts.map((part) => part.storageKey))
+  )
+  await prisma.uploadSession.deleteMany({
+    where: { id: { in: expiredSessions.map((session) => session.id) } },
+  })
+
+  return { expiredSessions: expiredSessions.length }
+}
+
+/**
+ * 查询当前用户的上传会话
+ *
+ * @param sessionId 会话ID
+ * @param userId 当前用户ID，只能访问自己创建的会话
+ * @returns 上传会话及已接收的分片，不存在时返回 null
+ */
+export async function findUploadSession(sessionId: string, userId: string) {
+  return prisma.uploadSession.findFirst({
+    where: { id: sessionId, uploadedById: userId },
+    include: { parts: { orderBy: { partNumber: 'asc' } } },
+  })
+}
+
+/**
+ * 转换为接口响应格式
+ *
+ * @param session 上传会话及已接收的分片
+ * @returns {UploadSessionResponse} 会话信息
+ */
+export function toUploadSessionResponse(
+  session: UploadSession & { parts: UploadSessionPart[] }
+): UploadSessionResponse {
+  return {
+    id: session.id,
+    fileName: session.fileName,
+    fileSize: session.fileSize,
+    contentType: session.contentType,
+    chunkSize: session.chunkSize,
+    totalParts: session.totalParts,
+    completed: session.pendingUploadId !== null,
+    uploadedParts: session.parts.map((part) => ({
+      partNumber: part.partNumber,
+      size: part.size,
+      checksum: part.checksum,
+    })),
+  }
+}
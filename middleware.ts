@@ -0,0 +1,17 @@
+/**
+ * 路由中间件
+ *
+ * 未登录用户访问受保护页面时重定向到登录页
+ */
+
+import { withAuth } from 'next-auth/middleware'
+
+export default withAuth({
+  pages: {
+    signIn: '/login',
+  },
+})
+
+export const config = {
+  matcher: ['/customers/:path*', '/todos/:path*'],
+}
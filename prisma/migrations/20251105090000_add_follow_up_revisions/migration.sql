@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "follow_up_revisions" (
+    "id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "follow_up_type" "FollowUpType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "follow_up_record_id" TEXT NOT NULL,
+    "editor_id" TEXT NOT NULL,
+
+    CONSTRAINT "follow_up_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "follow_up_revisions_follow_up_record_id_idx" ON "follow_up_revisions"("follow_up_record_id");
+
+-- AddForeignKey
+ALTER TABLE "follow_up_revisions" ADD CONSTRAINT "follow_up_revisions_follow_up_record_id_fkey" FOREIGN KEY ("follow_up_record_id") REFERENCES "follow_up_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "follow_up_revisions" ADD CONSTRAINT "follow_up_revisions_editor_id_fkey" FOREIGN KEY ("editor_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "PlanStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "next_step_plans" ADD COLUMN     "completed_at" TIMESTAMP(3),
+ADD COLUMN     "completion_note" TEXT;
+
+-- CreateTable
+CREATE TABLE "plan_reschedules" (
+    "id" TEXT NOT NULL,
+    "previous_due_date" TIMESTAMP(3) NOT NULL,
+    "new_due_date" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "plan_id" TEXT NOT NULL,
+    "changed_by_id" TEXT NOT NULL,
+
+    CONSTRAINT "plan_reschedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "plan_reschedules_plan_id_idx" ON "plan_reschedules"("plan_id");
+
+-- AddForeignKey
+ALTER TABLE "plan_reschedules" ADD CONSTRAINT "plan_reschedules_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "next_step_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "plan_reschedules" ADD CONSTRAINT "plan_reschedules_changed_by_id_fkey" FOREIGN KEY ("changed_by_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
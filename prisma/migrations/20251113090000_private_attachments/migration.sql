@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "attachments" ADD COLUMN     "content_type" TEXT,
+ADD COLUMN     "storage_key" TEXT,
+ALTER COLUMN "file_url" DROP NOT NULL;
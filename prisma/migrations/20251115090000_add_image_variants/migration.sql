@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "attachments" ADD COLUMN     "height" INTEGER,
+ADD COLUMN     "thumbnail_key" TEXT,
+ADD COLUMN     "web_key" TEXT,
+ADD COLUMN     "width" INTEGER;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "quarantined_files" (
+    "id" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "file_size" INTEGER NOT NULL,
+    "scanner" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uploaded_by_id" TEXT NOT NULL,
+
+    CONSTRAINT "quarantined_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "quarantined_files_uploaded_by_id_idx" ON "quarantined_files"("uploaded_by_id");
+
+-- AddForeignKey
+ALTER TABLE "quarantined_files" ADD CONSTRAINT "quarantined_files_uploaded_by_id_fkey" FOREIGN KEY ("uploaded_by_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "pending_uploads" (
+    "id" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "file_type" TEXT NOT NULL,
+    "file_size" INTEGER NOT NULL,
+    "thumbnail_key" TEXT,
+    "web_key" TEXT,
+    "width" INTEGER,
+    "height" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uploaded_by_id" TEXT NOT NULL,
+
+    CONSTRAINT "pending_uploads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pending_uploads_uploaded_by_id_idx" ON "pending_uploads"("uploaded_by_id");
+
+-- CreateIndex
+CREATE INDEX "pending_uploads_createdAt_idx" ON "pending_uploads"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "pending_uploads" ADD CONSTRAINT "pending_uploads_uploaded_by_id_fkey" FOREIGN KEY ("uploaded_by_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
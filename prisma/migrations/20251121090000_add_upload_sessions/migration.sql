@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "upload_sessions" (
+    "id" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "file_size" INTEGER NOT NULL,
+    "chunk_size" INTEGER NOT NULL,
+    "total_parts" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "uploaded_by_id" TEXT NOT NULL,
+
+    CONSTRAINT "upload_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "upload_session_parts" (
+    "part_number" INTEGER NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "session_id" TEXT NOT NULL,
+
+    CONSTRAINT "upload_session_parts_pkey" PRIMARY KEY ("session_id","part_number")
+);
+
+-- CreateIndex
+CREATE INDEX "upload_sessions_uploaded_by_id_idx" ON "upload_sessions"("uploaded_by_id");
+
+-- CreateIndex
+CREATE INDEX "upload_sessions_createdAt_idx" ON "upload_sessions"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "upload_sessions" ADD CONSTRAINT "upload_sessions_uploaded_by_id_fkey" FOREIGN KEY ("uploaded_by_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "upload_session_parts" ADD CONSTRAINT "upload_session_parts_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "upload_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
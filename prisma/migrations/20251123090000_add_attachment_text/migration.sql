@@ -0,0 +1,10 @@
+-- 三元组索引支持 ILIKE '%关键词%' 搜索
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "attachments" ADD COLUMN     "extracted_text" TEXT,
+ADD COLUMN     "text_extracted_at" TIMESTAMP(3),
+ADD COLUMN     "text_preview" TEXT;
+
+-- CreateIndex
+CREATE INDEX "attachments_extracted_text_trgm_idx" ON "attachments" USING GIN ("extracted_text" gin_trgm_ops);
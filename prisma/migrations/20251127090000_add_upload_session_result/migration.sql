@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "upload_sessions" ADD COLUMN "pending_upload_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "upload_sessions_pending_upload_id_key" ON "upload_sessions"("pending_upload_id");
@@ -4,6 +4,7 @@
  */
 
 import { PrismaClient, FollowUpType, UserRole, PlanStatus } from '../app/generated/prisma'
+import { hashPassword } from '../lib/password'
 
 const prisma = new PrismaClient({
   datasources: {
@@ -14,6 +15,12 @@ const prisma = new PrismaClient({
 })
 
 async function main() {
+  // 生产环境不使用默认的管理员密码，未配置时不创建任何数据
+  const adminPassword = process.env.SEED_ADMIN_PASSWORD
+  if (!adminPassword) {
+    throw new Error('未配置 SEED_ADMIN_PASSWORD，无法创建管理员账号')
+  }
+
   console.log('开始创建生产环境示例数据...')
 
   // 创建示例用户
@@ -24,11 +31,27 @@ async function main() {
       name: '王磊',
       email: 'wanglei@company.com',
       role: UserRole.SALES,
+      // 初始登录密码，可通过 SEED_USER_PASSWORD 覆盖
+      passwordHash: await hashPassword(process.env.SEED_USER_PASSWORD || 'crm123456'),
     },
   })
 
   console.log('创建默认用户:', user.name)
 
+  // 创建管理员用户（数据库维护接口仅管理员可访问）
+  const admin = await prisma.user.upsert({
+    where: { email: 'admin@company.com' },
+    update: {},
+    create: {
+      name: '系统管理员',
+      email: 'admin@company.com',
+      role: UserRole.ADMIN,
+      passwordHash: await hashPassword(adminPassword),
+    },
+  })
+
+  console.log('创建管理员:', admin.name)
+
   // 创建示例客户
   const customers = [
     {
@@ -4,6 +4,7 @@
  */
 
 import { PrismaClient, FollowUpType, UserRole, PlanStatus } from '../app/generated/prisma'
+import { hashPassword } from '../lib/password'
 
 const prisma = new PrismaClient()
 
@@ -18,11 +19,53 @@ async function main() {
       name: '王磊',
       email: 'wanglei@company.com',
       role: UserRole.SALES,
+      // 初始登录密码，可通过 SEED_USER_PASSWORD 覆盖
+      passwordHash: await hashPassword(process.env.SEED_USER_PASSWORD || 'crm123456'),
     },
   })
 
   console.log('创建用户:', user.name)
 
+  // 创建管理员用户（数据库维护接口仅管理员可访问）
+  const admin = await prisma.user.upsert({
+    where: { email: 'admin@company.com' },
+    update: {},
+    create: {
+      name: '系统管理员',
+      email: 'admin@company.com',
+      role: UserRole.ADMIN,
+      passwordHash: await hashPassword(process.env.SEED_ADMIN_PASSWORD || 'admin123456'),
+    },
+  })
+
+  console.log('创建管理员:', admin.name)
+
+  // 创建销售经理和团队，王磊归属该团队
+  const manager = await prisma.user.upsert({
+    where: { email: 'zhaomin@company.com' },
+    update: {},
+    create: {
+      name: '赵敏',
+      email: 'zhaomin@company.com',
+      role: UserRole.MANAGER,
+      passwordHash: await hashPassword(process.env.SEED_USER_PASSWORD || 'crm123456'),
+    },
+  })
+
+  const team = await prisma.team.upsert({
+    where: { name: '华东销售组' },
+    update: {},
+    create: {
+      name: '华东销售组',
+      managerId: manager.id,
+      members: {
+        connect: [{ id: user.id }, { id: manager.id }],
+      },
+    },
+  })
+
+  console.log('创建团队:', team.name)
+
   // 创建示例客户
   const customers = [
     {
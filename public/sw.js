@@ -0,0 +1,259 @@
+/**
+ * Service Worker
+ * 接收 Web Push 推送并展示下一步计划提醒，点击通知打开对应客户页面；
+ * 缓存应用外壳和最近访问的客户、时间线，离线时可以查看
+ */
+
+/* eslint-env serviceworker */
+
+/**
+ * 缓存名称，修改缓存策略时递增版本号，旧版本缓存在 activate 时删除。
+ * 数据缓存的名称与 lib/pwa.ts 保持一致，退出登录时由页面清除
+ */
+const CACHE_VERSION = 'v1'
+const SHELL_CACHE = `crm-shell-${CACHE_VERSION}`
+const STATIC_CACHE = `crm-static-${CACHE_VERSION}`
+const DATA_CACHE = `crm-data-${CACHE_VERSION}`
+
+/**
+ * 离线时无缓存可用的页面显示的回退页面
+ */
+const OFFLINE_URL = '/offline'
+
+/**
+ * 安装时预缓存的应用外壳
+ */
+const SHELL_URLS = [
+  OFFLINE_URL,
+  '/manifest.webmanifest',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+]
+
+/**
+ * 离线可查看的客户数量，超过时删除最早访问的客户的缓存
+ */
+const MAX_RECENT_CUSTOMERS = 20
+
+/**
+ * 静态资源缓存的最大条目数，旧版本的构建产物按写入顺序淘汰
+ */
+const MAX_STATIC_ENTRIES = 300
+
+/**
+ * 离线可访问的页面
+ */
+const CACHED_PAGE_PATTERNS = [/^\/customers\/?$/, /^\/customers\/[^/]+$/, /^\/todos\/?$/]
+
+/**
+ * 离线可读取的接口：客户详情、时间线、附件列表和待办列表
+ */
+const CACHED_API_PATTERNS = [/^\/api\/customers\/[^/]+(\/followups|\/attachments)?$/, /^\/api\/plans$/]
+
+/**
+ * 客户页面和客户接口路径，第一个分组为客户ID
+ */
+const CUSTOMER_PATH_PATTERN = /^(?:\/api)?\/customers\/([^/]+)/
+
+/**
+ * 不属于某个客户的路径段（如新建客户页面、获取第一个客户的接口）
+ */
+const RESERVED_CUSTOMER_SEGMENTS = ['new', 'first']
+
+/**
+ * 从页面或接口路径中解析客户ID
+ *
+ * @param {string} pathname 路径
+ * @returns {string | null} 客户ID
+ */
+function getCustomerId(pathname) {
+  const match = pathname.match(CUSTOMER_PATH_PATTERN)
+  if (!match || RESERVED_CUSTOMER_SEGMENTS.includes(match[1])) return null
+  return match[1]
+}
+
+/**
+ * 是否缓存该请求的响应
+ *
+ * @param {URL} url 请求地址
+ * @param {Request} request 请求
+ * @returns {boolean}
+ */
+function isCacheableData(url, request) {
+  const patterns = request.mode === 'navigate' ? CACHED_PAGE_PATTERNS : CACHED_API_PATTERNS
+  if (!patterns.some((pattern) => pattern.test(url.pathname))) return false
+
+  const segment = url.pathname.match(CUSTOMER_PATH_PATTERN)?.[1]
+  return !RESERVED_CUSTOMER_SEGMENTS.includes(segment)
+}
+
+/**
+ * 只保留最近访问的客户的缓存
+ *
+ * 缓存条目按写入顺序排列，重新写入的条目排在最后，因此最后出现的客户即最近访问的客户
+ *
+ * @param {Cache} cache 数据缓存
+ */
+async function trimRecentCustomers(cache) {
+  const requests = await cache.keys()
+  const order = []
+  for (const request of requests) {
+    const customerId = getCustomerId(new URL(request.url).pathname)
+    if (!customerId) continue
+    const index = order.indexOf(customerId)
+    if (index !== -1) order.splice(index, 1)
+    order.push(customerId)
+  }
+
+  const expired = new Set(order.slice(0, Math.max(0, order.length - MAX_RECENT_CUSTOMERS)))
+  if (expired.size === 0) return
+
+  await Promise.all(
+    requests
+      .filter((request) => expired.has(getCustomerId(new URL(request.url).pathname)))
+      .map((request) => cache.delete(request))
+  )
+}
+
+/**
+ * 按写入顺序淘汰超出数量的静态资源
+ *
+ * @param {Cache} cache 静态资源缓存
+ */
+async function trimStaticCache(cache) {
+  const requests = await cache.keys()
+  const excess = requests.length - MAX_STATIC_ENTRIES
+  if (excess <= 0) return
+  await Promise.all(requests.slice(0, excess).map((request) => cache.delete(request)))
+}
+
+/**
+ * 网络优先：在线时总是获取最新内容并更新缓存，网络失败时使用缓存
+ *
+ * @param {Request} request 请求
+ * @param {string} cacheName 缓存名称
+ * @returns {Promise<Response>}
+ */
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName)
+
+  try {
+    const response = await fetch(request)
+    // 登录过期被重定向到登录页的响应不缓存
+    if (response.ok && !response.redirected && response.type === 'basic') {
+      await cache.put(request, response.clone())
+      if (cacheName === DATA_CACHE) {
+        await trimRecentCustomers(cache)
+      } else if (cacheName === STATIC_CACHE) {
+        await trimStaticCache(cache)
+      }
+    }
+    return response
+  } catch (error) {
+    const cached = await cache.match(request)
+    if (cached) return cached
+    if (request.mode === 'navigate') return offlineFallback()
+    throw error
+  }
+}
+
+/**
+ * 离线回退页面
+ *
+ * @returns {Promise<Response>}
+ */
+async function offlineFallback() {
+  const cached = await caches.match(OFFLINE_URL, { cacheName: SHELL_CACHE })
+  return cached || new Response('当前处于离线状态', {
+    status: 503,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  })
+}
+
+self.addEventListener('install', (event) => {
+  // 预缓存失败不影响安装，推送提醒仍需可用
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => Promise.allSettled(SHELL_URLS.map((url) => cache.add(url))))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  const currentCaches = [SHELL_CACHE, STATIC_CACHE, DATA_CACHE]
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith('crm-') && !currentCaches.includes(name))
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  )
+})
+
+/**
+ * 只处理同源 GET 请求；App Router 客户端导航的 RSC 请求不缓存，离线时 Next.js 会退回整页加载，由缓存的页面响应
+ */
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin || request.headers.has('RSC')) return
+
+  if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(networkFirst(request, STATIC_CACHE))
+    return
+  }
+
+  if (isCacheableData(url, request)) {
+    event.respondWith(networkFirst(request, DATA_CACHE))
+    return
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => offlineFallback()))
+  }
+})
+
+/**
+ * 展示推送通知，推送内容格式见 lib/push.ts 的 PushPayload
+ */
+self.addEventListener('push', (event) => {
+  let payload = { title: '客户跟进提醒', body: '' }
+  if (event.data) {
+    try {
+      payload = event.data.json()
+    } catch {
+      payload.body = event.data.text()
+    }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      data: { url: payload.url || '/todos' },
+    })
+  )
+})
+
+/**
+ * 点击通知：优先复用已打开的窗口
+ */
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || '/todos', self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      for (const client of clients) {
+        if ('focus' in client && 'navigate' in client) {
+          return client.navigate(url).then((navigated) => (navigated || client).focus())
+        }
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
@@ -0,0 +1,76 @@
+/**
+ * 本地 clamd 扫描服务替身
+ *
+ * 实现 clamd 的 PING 和 INSTREAM 命令，用于在本地验证上传文件的安全扫描和隔离：
+ * 包含 EICAR 测试字符串的文件报告为 Eicar-Test-Signature，其余文件报告为 OK
+ *
+ * 使用方式: pnpm clamd:stub [端口]
+ * 然后以 FILE_SCANNER=clamd CLAMD_PORT=<端口> 启动应用并上传文件
+ */
+
+import { createServer, Socket } from 'node:net'
+
+const port = Number(process.argv[2] || 3310)
+
+/**
+ * 杀毒软件通用的 EICAR 测试字符串
+ */
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!H+H*'
+
+/**
+ * 处理一个 clamd 连接
+ *
+ * 命令以 z 前缀（空字符结尾）或 n 前缀（换行结尾）发送，回复使用相同的结尾符
+ */
+function handleConnection(socket: Socket) {
+  let buffer = Buffer.alloc(0)
+  let command: string | null = null
+  let terminator = '\0'
+  const streamChunks: Buffer[] = []
+
+  const reply = (message: string) => {
+    socket.end(`${message}${terminator}`)
+  }
+
+  socket.on('data', (data) => {
+    buffer = Buffer.concat([buffer, data])
+
+    // 读取命令
+    if (command === null) {
+      const end = buffer.findIndex((byte) => byte === 0 || byte === 0x0a)
+      if (end === -1) return
+
+      const raw = buffer.subarray(0, end).toString('latin1')
+      terminator = raw.startsWith('n') ? '\n' : '\0'
+      command = raw.replace(/^[zn]/, '')
+      buffer = buffer.subarray(end + 1)
+
+      if (command === 'PING') return reply('PONG')
+      if (command !== 'INSTREAM') return reply('UNKNOWN COMMAND')
+    }
+
+    // 读取 "4 字节长度 + 数据" 分块，长度 0 表示结束
+    while (buffer.length >= 4) {
+      const length = buffer.readUInt32BE(0)
+      if (length === 0) {
+        const content = Buffer.concat(streamChunks)
+        const infected = content.includes(Buffer.from(EICAR, 'latin1'))
+        console.log(`扫描 ${content.length} 字节: ${infected ? 'Eicar-Test-Signature FOUND' : 'OK'}`)
+        return reply(infected ? 'stream: Eicar-Test-Signature FOUND' : 'stream: OK')
+      }
+      if (buffer.length < 4 + length) return
+
+      streamChunks.push(buffer.subarray(4, 4 + length))
+      buffer = buffer.subarray(4 + length)
+    }
+  })
+
+  socket.on('error', (error) => {
+    console.error('连接异常:', error.message)
+  })
+}
+
+createServer(handleConnection).listen(port, () => {
+  console.log(`clamd 替身已启动: 127.0.0.1:${port}`)
+  console.log(`EICAR 测试字符串: ${EICAR}`)
+})
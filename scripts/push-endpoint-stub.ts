@@ -0,0 +1,117 @@
+/**
+ * 本地推送服务替身
+ *
+ * 模拟浏览器推送服务（FCM / Mozilla Push），用于在本地验证计划提醒：
+ * 1. 生成一组订阅密钥，并以指定用户身份写入 push_subscriptions 表
+ * 2. 监听推送请求，按 RFC 8291 (aes128gcm) 解密并打印推送内容
+ *
+ * 使用方式: pnpm push:stub <用户邮箱> [端口]
+ * 然后调用 GET /api/cron/plan-reminders（携带 Authorization: Bearer <CRON_SECRET>）
+ */
+
+import { createServer } from 'node:http'
+import { createDecipheriv, createECDH, hkdfSync, randomBytes } from 'node:crypto'
+import { PrismaClient } from '../app/generated/prisma'
+
+const prisma = new PrismaClient()
+
+const email = process.argv[2]
+const port = Number(process.argv[3] || 4100)
+
+if (!email) {
+  console.error('用法: pnpm push:stub <用户邮箱> [端口]')
+  process.exit(1)
+}
+
+// 模拟浏览器生成的订阅密钥
+const userAgentKeys = createECDH('prime256v1')
+const userAgentPublicKey = userAgentKeys.generateKeys()
+const authSecret = randomBytes(16)
+const endpoint = `http://localhost:${port}/push/${randomBytes(8).toString('hex')}`
+
+/**
+ * 解密 aes128gcm 编码的推送内容
+ *
+ * @param body 推送请求体
+ * @returns {string} 明文
+ */
+function decryptPayload(body: Buffer): string {
+  // 头部: salt(16) | record size(4) | key id length(1) | key id（发送方公钥）
+  const salt = body.subarray(0, 16)
+  const keyIdLength = body.readUInt8(20)
+  const applicationServerPublicKey = body.subarray(21, 21 + keyIdLength)
+  const ciphertext = body.subarray(21 + keyIdLength)
+
+  const sharedSecret = userAgentKeys.computeSecret(applicationServerPublicKey)
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    userAgentPublicKey,
+    applicationServerPublicKey,
+  ])
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32))
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16))
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12))
+
+  const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce)
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16))
+  const plaintext = Buffer.concat([
+    decipher.update(ciphertext.subarray(0, ciphertext.length - 16)),
+    decipher.final(),
+  ])
+
+  // 去掉末尾的填充分隔符 0x02 及其后的零填充
+  return plaintext.subarray(0, plaintext.lastIndexOf(2)).toString('utf8')
+}
+
+async function main() {
+  const user = await prisma.user.findUnique({ where: { email } })
+  if (!user) {
+    throw new Error(`用户不存在: ${email}`)
+  }
+
+  await prisma.pushSubscription.create({
+    data: {
+      endpoint,
+      p256dh: userAgentPublicKey.toString('base64url'),
+      auth: authSecret.toString('base64url'),
+      userAgent: 'push-endpoint-stub',
+      userId: user.id,
+    },
+  })
+  console.log(`✅ 已为 ${user.name} 注册本地推送订阅: ${endpoint}`)
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => {
+      try {
+        const payload = decryptPayload(Buffer.concat(chunks))
+        console.log(`📨 收到推送 (TTL=${req.headers.ttl}):`, JSON.parse(payload))
+        res.writeHead(201).end()
+      } catch (error) {
+        console.error('❌ 推送内容解密失败:', error)
+        res.writeHead(400).end()
+      }
+    })
+  })
+
+  // 退出时删除订阅，避免后续发送到已关闭的端口
+  const shutdown = async () => {
+    server.close()
+    await prisma.pushSubscription.delete({ where: { endpoint } }).catch(() => undefined)
+    await prisma.$disconnect()
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+
+  server.listen(port, () => {
+    console.log(`🚀 本地推送服务已启动: http://localhost:${port}（Ctrl+C 退出）`)
+  })
+}
+
+main().catch(async (error) => {
+  console.error('启动本地推送服务失败:', error)
+  await prisma.$disconnect()
+  process.exit(1)
+})
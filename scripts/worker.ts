@@ -0,0 +1,24 @@
+/**
+ * 后台任务 worker 入口
+ *
+ * 与 next start 并行运行，执行定时提醒、清理等后台任务
+ * 使用方式: pnpm worker
+ */
+
+import { startWorker } from '@/lib/jobs/worker'
+import { prisma } from '@/lib/prisma'
+
+const stop = startWorker({
+  pollIntervalMs: Number(process.env.WORKER_POLL_INTERVAL_MS) || undefined,
+})
+
+// 收到停止信号时等待当前任务完成再退出
+const shutdown = async (signal: string) => {
+  console.log(`收到 ${signal}，正在停止 worker...`)
+  await stop()
+  await prisma.$disconnect()
+  process.exit(0)
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'))
+process.on('SIGTERM', () => shutdown('SIGTERM'))
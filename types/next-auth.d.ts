@@ -0,0 +1,26 @@
+/**
+ * NextAuth 类型扩展
+ * 在会话和 JWT 中携带用户ID与角色
+ */
+
+import type { DefaultSession } from 'next-auth'
+import type { UserRole } from '@/app/generated/prisma'
+
+declare module 'next-auth' {
+  interface Session {
+    user: {
+      id: string
+      role: UserRole
+    } & DefaultSession['user']
+  }
+
+  interface User {
+    role: UserRole
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    role: UserRole
+  }
+}